@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "order_mappings" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "shopware_order_id" TEXT NOT NULL,
+    "shopware_order_number" TEXT NOT NULL,
+    "plenty_order_id" INTEGER NOT NULL,
+    "plenty_contact_id" INTEGER,
+    "shopware_order_date" TIMESTAMP(3) NOT NULL,
+    "last_synced_at" TIMESTAMP(3) NOT NULL,
+    "last_sync_action" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "order_mappings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "mock_shopware_orders" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "order_number" TEXT NOT NULL,
+    "order_date" TIMESTAMP(3) NOT NULL,
+    "customer_email" TEXT NOT NULL,
+    "amount_total" DECIMAL(10,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'EUR',
+    "raw_shopware_data" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "mock_shopware_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_mappings_tenant_id_shopware_order_number_idx" ON "order_mappings"("tenant_id", "shopware_order_number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_mappings_tenant_id_shopware_order_id_key" ON "order_mappings"("tenant_id", "shopware_order_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_mappings_tenant_id_plenty_order_id_key" ON "order_mappings"("tenant_id", "plenty_order_id");
+
+-- CreateIndex
+CREATE INDEX "mock_shopware_orders_tenant_id_created_at_idx" ON "mock_shopware_orders"("tenant_id", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mock_shopware_orders_tenant_id_order_number_key" ON "mock_shopware_orders"("tenant_id", "order_number");
+
+-- AddForeignKey
+ALTER TABLE "order_mappings" ADD CONSTRAINT "order_mappings_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mock_shopware_orders" ADD CONSTRAINT "mock_shopware_orders_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
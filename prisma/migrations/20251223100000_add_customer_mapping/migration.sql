@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "customer_mappings" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "shopware_customer_id" TEXT NOT NULL,
+    "shopware_customer_number" TEXT NOT NULL,
+    "plenty_contact_id" INTEGER NOT NULL,
+    "plenty_class_id" INTEGER,
+    "address_mappings" JSONB NOT NULL DEFAULT '{}',
+    "last_synced_at" TIMESTAMP(3) NOT NULL,
+    "last_sync_action" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "customer_mappings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "mock_shopware_customers" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "customer_number" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "group_id" TEXT NOT NULL,
+    "raw_shopware_data" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "mock_shopware_customers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "customer_mappings_tenant_id_shopware_customer_number_idx" ON "customer_mappings"("tenant_id", "shopware_customer_number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "customer_mappings_tenant_id_shopware_customer_id_key" ON "customer_mappings"("tenant_id", "shopware_customer_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "customer_mappings_tenant_id_plenty_contact_id_key" ON "customer_mappings"("tenant_id", "plenty_contact_id");
+
+-- CreateIndex
+CREATE INDEX "mock_shopware_customers_tenant_id_updated_at_idx" ON "mock_shopware_customers"("tenant_id", "updated_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mock_shopware_customers_tenant_id_customer_number_key" ON "mock_shopware_customers"("tenant_id", "customer_number");
+
+-- AddForeignKey
+ALTER TABLE "customer_mappings" ADD CONSTRAINT "customer_mappings_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mock_shopware_customers" ADD CONSTRAINT "mock_shopware_customers_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "product_mappings" ADD COLUMN     "last_synced_stock" INTEGER,
+ADD COLUMN     "stock_synced_at" TIMESTAMP(3);
@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX "sales_price_mappings_tenant_id_shopware_price_id_key";
+
+-- CreateIndex
+CREATE INDEX "sales_price_mappings_tenant_id_shopware_price_id_idx" ON "sales_price_mappings"("tenant_id", "shopware_price_id");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "delivery_time_mappings" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "plenty_availability_id" INTEGER NOT NULL,
+    "shopware_delivery_time_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "delivery_time_mappings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "delivery_time_mappings_tenant_id_plenty_availability_id_key" ON "delivery_time_mappings"("tenant_id", "plenty_availability_id");
+
+-- AddForeignKey
+ALTER TABLE "delivery_time_mappings" ADD CONSTRAINT "delivery_time_mappings_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "product_mappings" ADD COLUMN     "status" "MappingStatus" NOT NULL DEFAULT 'ACTIVE',
+ADD COLUMN     "last_seen_at" TIMESTAMP(3),
+ADD COLUMN     "orphaned_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "product_mappings_tenant_id_status_idx" ON "product_mappings"("tenant_id", "status");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "product_mappings" ADD COLUMN     "payload_hash" TEXT;
+
+-- AlterTable
+ALTER TABLE "sync_jobs" ADD COLUMN     "items_skipped" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "product_mappings" ADD COLUMN     "seo_paths" JSONB;
+
+-- AlterTable
+ALTER TABLE "category_mappings" ADD COLUMN     "seo_paths" JSONB;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "category_mappings" ADD COLUMN     "plenty_parent_id" INTEGER,
+ADD COLUMN     "position" INTEGER;
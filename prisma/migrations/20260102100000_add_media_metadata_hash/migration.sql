@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "media_mappings" ADD COLUMN     "metadata_hash" TEXT;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "media_mappings" ADD COLUMN     "source_height" INTEGER,
+ADD COLUMN     "source_size" INTEGER,
+ADD COLUMN     "source_width" INTEGER;
@@ -12,7 +12,7 @@
 
 import 'dotenv/config';
 import { PrismaClient, MappingType } from '@prisma/client';
-import { createShopwareClient } from '../src/clients/ShopwareClientFactory';
+import { createTenantShopwareClient } from '../src/clients/ShopwareClientFactory';
 
 const prisma = new PrismaClient();
 
@@ -107,7 +107,7 @@ async function addMapping(
   }
 
   // Verify Shopware category exists
-  const shopware = createShopwareClient({ tenantId });
+  const shopware = await createTenantShopwareClient(tenantId);
   await shopware.authenticate();
 
   const categoryExists = await shopware.categoryExists(shopwareCategoryId);
@@ -0,0 +1,176 @@
+#!/usr/bin/env tsx
+/**
+ * Manage Shopware customer group → Plenty customer class mappings
+ * Stored in the tenant config key "customerGroupMappings" and used by the CUSTOMER sync.
+ *
+ * Usage:
+ *   npm run manage-customer-group-mappings list <tenant-id>
+ *   npm run manage-customer-group-mappings set <tenant-id> <shopware-group-id> <plenty-class-id>
+ *   npm run manage-customer-group-mappings delete <tenant-id> <shopware-group-id>
+ */
+
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import { PlentyClient } from '../src/clients/PlentyClient';
+import { createTenantShopwareClient } from '../src/clients/ShopwareClientFactory';
+import { TenantConfigService, ConfigKeys } from '../src/services/TenantConfigService';
+import { decryptJSON } from '../src/utils/encryption';
+
+const prisma = new PrismaClient();
+const configService = new TenantConfigService();
+
+async function loadTenant(tenantId: string) {
+  const tenant = await prisma.tenant.findUnique({ where: { id: tenantId } });
+  if (!tenant) {
+    console.error(`❌ Tenant not found: ${tenantId}`);
+    process.exit(1);
+  }
+  return tenant;
+}
+
+/**
+ * List Shopware customer groups, Plenty customer classes and the current mappings
+ */
+async function listMappings(tenantId: string): Promise<void> {
+  const tenant = await loadTenant(tenantId);
+
+  const plenty = new PlentyClient({
+    baseUrl: tenant.plentyUrl,
+    credentials: decryptJSON<{ username: string; password: string }>(tenant.plentyCredentials),
+  });
+  await plenty.authenticate();
+
+  const shopware = await createTenantShopwareClient(tenantId);
+  await shopware.authenticate();
+
+  const [groups, classes, settings] = await Promise.all([
+    shopware.getCustomerGroups(),
+    plenty.getCustomerClasses(),
+    configService.getCustomerSyncSettings(tenantId),
+  ]);
+  const classNames = new Map(classes.map((c) => [c.id, c.name]));
+
+  console.log(`\n👥 Customer Group Mappings for ${tenant.name}\n`);
+
+  console.log('Shopware customer groups:');
+  if (groups.length === 0) {
+    console.log('   (none found)');
+  }
+  for (const group of groups) {
+    const classId = settings.customerGroupMappings[group.id];
+    const target = classId
+      ? `→ Plenty class ${classId} (${classNames.get(Number(classId)) || 'unknown'})`
+      : '⚠️  not mapped';
+    console.log(`   ${group.name} [${group.id}] ${target}`);
+  }
+
+  console.log('\nPlenty customer classes:');
+  if (classes.length === 0) {
+    console.log('   (none found)');
+  }
+  for (const customerClass of classes) {
+    console.log(`   ${customerClass.id}: ${customerClass.name}`);
+  }
+  console.log('');
+}
+
+/**
+ * Map a Shopware customer group to a Plenty customer class
+ */
+async function setMapping(tenantId: string, groupId: string, classId: string): Promise<void> {
+  await loadTenant(tenantId);
+
+  if (isNaN(parseInt(classId, 10))) {
+    console.error(`❌ Invalid Plenty customer class ID: ${classId}`);
+    process.exit(1);
+  }
+
+  const { customerGroupMappings } = await configService.getCustomerSyncSettings(tenantId);
+  customerGroupMappings[groupId] = classId;
+
+  await configService.set(
+    tenantId,
+    ConfigKeys.CUSTOMER_GROUP_MAPPINGS,
+    customerGroupMappings,
+    'Shopware customer group ID → Plenty customer class ID'
+  );
+
+  console.log(`✅ Customer group ${groupId} → Plenty class ${classId}`);
+  console.log('   Existing customers get the new class on their next change in Shopware.');
+}
+
+/**
+ * Remove a customer group mapping
+ */
+async function deleteMapping(tenantId: string, groupId: string): Promise<void> {
+  await loadTenant(tenantId);
+
+  const { customerGroupMappings } = await configService.getCustomerSyncSettings(tenantId);
+  if (!customerGroupMappings[groupId]) {
+    console.error(`❌ No mapping found for customer group: ${groupId}`);
+    process.exit(1);
+  }
+
+  delete customerGroupMappings[groupId];
+  await configService.set(tenantId, ConfigKeys.CUSTOMER_GROUP_MAPPINGS, customerGroupMappings);
+
+  console.log(`✅ Mapping removed for customer group ${groupId}`);
+}
+
+function showUsage(): void {
+  console.log(`
+👥 Customer Group Mapping Manager
+
+Usage:
+  npm run manage-customer-group-mappings list <tenant-id>
+  npm run manage-customer-group-mappings set <tenant-id> <shopware-group-id> <plenty-class-id>
+  npm run manage-customer-group-mappings delete <tenant-id> <shopware-group-id>
+`);
+}
+
+async function main() {
+  const [command, tenantId, arg1, arg2] = process.argv.slice(2);
+
+  if (!command || !tenantId) {
+    showUsage();
+    process.exit(1);
+  }
+
+  try {
+    switch (command) {
+      case 'list':
+        await listMappings(tenantId);
+        break;
+
+      case 'set':
+        if (!arg1 || !arg2) {
+          console.error('❌ Missing customer group ID or customer class ID');
+          showUsage();
+          process.exit(1);
+        }
+        await setMapping(tenantId, arg1, arg2);
+        break;
+
+      case 'delete':
+        if (!arg1) {
+          console.error('❌ Missing customer group ID');
+          showUsage();
+          process.exit(1);
+        }
+        await deleteMapping(tenantId, arg1);
+        break;
+
+      default:
+        console.error(`❌ Unknown command: ${command}`);
+        showUsage();
+        process.exit(1);
+    }
+  } catch (error) {
+    console.error('Error:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
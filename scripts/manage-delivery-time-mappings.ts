@@ -0,0 +1,168 @@
+#!/usr/bin/env tsx
+/**
+ * Manage Plenty availability → Shopware delivery time mappings
+ * Stored in the delivery_time_mappings table and used by the product sync to set deliveryTimeId.
+ *
+ * Usage:
+ *   npm run manage-delivery-time-mappings list <tenant-id>
+ *   npm run manage-delivery-time-mappings set <tenant-id> <plenty-availability-id> <shopware-delivery-time-id>
+ *   npm run manage-delivery-time-mappings delete <tenant-id> <plenty-availability-id>
+ */
+
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import { PlentyClient } from '../src/clients/PlentyClient';
+import { createTenantShopwareClient } from '../src/clients/ShopwareClientFactory';
+import { DeliveryTimeMappingService } from '../src/services/DeliveryTimeMappingService';
+import { decryptJSON } from '../src/utils/encryption';
+
+const prisma = new PrismaClient();
+const mappingService = new DeliveryTimeMappingService();
+
+async function loadTenant(tenantId: string) {
+  const tenant = await prisma.tenant.findUnique({ where: { id: tenantId } });
+  if (!tenant) {
+    console.error(`❌ Tenant not found: ${tenantId}`);
+    process.exit(1);
+  }
+  return tenant;
+}
+
+/**
+ * List Plenty availabilities, Shopware delivery times and the current mappings
+ */
+async function listMappings(tenantId: string): Promise<void> {
+  const tenant = await loadTenant(tenantId);
+
+  const plenty = new PlentyClient({
+    baseUrl: tenant.plentyUrl,
+    credentials: decryptJSON<{ username: string; password: string }>(tenant.plentyCredentials),
+  });
+  await plenty.authenticate();
+
+  const shopware = await createTenantShopwareClient(tenantId);
+  await shopware.authenticate();
+
+  const [availabilities, deliveryTimes, mappings] = await Promise.all([
+    plenty.getAvailabilities(),
+    shopware.getDeliveryTimes(),
+    mappingService.getMappings(tenantId),
+  ]);
+  const deliveryTimeNames = new Map(deliveryTimes.map((d) => [d.id, d.name]));
+
+  console.log(`\n🚚 Delivery Time Mappings for ${tenant.name}\n`);
+
+  console.log('Plenty availabilities:');
+  if (availabilities.length === 0) {
+    console.log('   (none found)');
+  }
+  for (const availability of availabilities) {
+    const name =
+      availability.names?.find((n) => n.lang === 'de')?.name || availability.names?.[0]?.name || '';
+    const deliveryTimeId = mappings.get(availability.id);
+    const target = deliveryTimeId
+      ? `→ ${deliveryTimeNames.get(deliveryTimeId) || 'unknown'} [${deliveryTimeId}]`
+      : '⚠️  not mapped';
+    console.log(`   ${availability.id}: ${name} ${target}`);
+  }
+
+  console.log('\nShopware delivery times:');
+  if (deliveryTimes.length === 0) {
+    console.log('   (none found)');
+  }
+  for (const deliveryTime of deliveryTimes) {
+    console.log(`   ${deliveryTime.name} [${deliveryTime.id}]`);
+  }
+  console.log('');
+}
+
+/**
+ * Map a Plenty availability to a Shopware delivery time
+ */
+async function setMapping(tenantId: string, availabilityId: string, deliveryTimeId: string): Promise<void> {
+  await loadTenant(tenantId);
+
+  const id = parseInt(availabilityId, 10);
+  if (isNaN(id)) {
+    console.error(`❌ Invalid Plenty availability ID: ${availabilityId}`);
+    process.exit(1);
+  }
+
+  await mappingService.setMapping(tenantId, id, deliveryTimeId);
+
+  console.log(`✅ Availability ${id} → delivery time ${deliveryTimeId}`);
+  console.log('   Products get the delivery time on their next sync (run a FULL_PRODUCT sync to update all).');
+}
+
+/**
+ * Remove a delivery time mapping
+ */
+async function deleteMapping(tenantId: string, availabilityId: string): Promise<void> {
+  await loadTenant(tenantId);
+
+  const deleted = await mappingService.deleteMapping(tenantId, parseInt(availabilityId, 10));
+  if (!deleted) {
+    console.error(`❌ No mapping found for availability: ${availabilityId}`);
+    process.exit(1);
+  }
+
+  console.log(`✅ Mapping removed for availability ${availabilityId}`);
+}
+
+function showUsage(): void {
+  console.log(`
+🚚 Delivery Time Mapping Manager
+
+Usage:
+  npm run manage-delivery-time-mappings list <tenant-id>
+  npm run manage-delivery-time-mappings set <tenant-id> <plenty-availability-id> <shopware-delivery-time-id>
+  npm run manage-delivery-time-mappings delete <tenant-id> <plenty-availability-id>
+`);
+}
+
+async function main() {
+  const [command, tenantId, arg1, arg2] = process.argv.slice(2);
+
+  if (!command || !tenantId) {
+    showUsage();
+    process.exit(1);
+  }
+
+  try {
+    switch (command) {
+      case 'list':
+        await listMappings(tenantId);
+        break;
+
+      case 'set':
+        if (!arg1 || !arg2) {
+          console.error('❌ Missing availability ID or delivery time ID');
+          showUsage();
+          process.exit(1);
+        }
+        await setMapping(tenantId, arg1, arg2);
+        break;
+
+      case 'delete':
+        if (!arg1) {
+          console.error('❌ Missing availability ID');
+          showUsage();
+          process.exit(1);
+        }
+        await deleteMapping(tenantId, arg1);
+        break;
+
+      default:
+        console.error(`❌ Unknown command: ${command}`);
+        showUsage();
+        process.exit(1);
+    }
+  } catch (error) {
+    console.error('Error:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,178 @@
+#!/usr/bin/env tsx
+/**
+ * Cancel sync jobs and pause/resume tenants
+ *
+ * Usage:
+ *   npm run manage-jobs list <tenant-id> [status]   # List recent jobs (optionally by status)
+ *   npm run manage-jobs cancel <job-id>             # Cancel a pending or running job
+ *   npm run manage-jobs pause <tenant-id>           # Pause a tenant and drain its queued jobs
+ *   npm run manage-jobs resume <tenant-id>          # Resume a paused tenant
+ */
+
+import 'dotenv/config';
+import { PrismaClient, SyncStatus } from '@prisma/client';
+import { QueueService } from '../src/queue/QueueService';
+import { SyncJobService } from '../src/services/SyncJobService';
+
+const prisma = new PrismaClient();
+const queueService = new QueueService({
+  redis: {
+    host: process.env.REDIS_HOST || 'localhost',
+    port: parseInt(process.env.REDIS_PORT || '6379', 10),
+    password: process.env.REDIS_PASSWORD,
+  },
+});
+
+const STATUS_ICONS: Record<SyncStatus, string> = {
+  PENDING: '⏳',
+  PROCESSING: '🔄',
+  COMPLETED: '✅',
+  FAILED: '❌',
+  CANCELLED: '🚫',
+};
+
+async function loadTenant(tenantId: string) {
+  const tenant = await prisma.tenant.findUnique({ where: { id: tenantId } });
+  if (!tenant) {
+    console.error(`❌ Tenant not found: ${tenantId}`);
+    process.exit(1);
+  }
+  return tenant;
+}
+
+/**
+ * List the most recent jobs of a tenant
+ */
+async function listJobs(tenantId: string, status?: SyncStatus): Promise<void> {
+  const tenant = await loadTenant(tenantId);
+
+  const jobs = await prisma.syncJob.findMany({
+    where: { tenantId, ...(status && { status }) },
+    orderBy: { createdAt: 'desc' },
+    take: 25,
+  });
+
+  console.log(`\n📋 Recent sync jobs for tenant: ${tenant.name} (${tenant.status})\n`);
+
+  if (jobs.length === 0) {
+    console.log('   No jobs found\n');
+    return;
+  }
+
+  console.log('─'.repeat(120));
+  console.log(
+    'ID'.padEnd(38) + 'Type'.padEnd(16) + 'Status'.padEnd(15) + 'Processed'.padEnd(12) + 'Failed'.padEnd(9) + 'Created'
+  );
+  console.log('─'.repeat(120));
+
+  for (const job of jobs) {
+    console.log(
+      job.id.padEnd(38) +
+        job.syncType.padEnd(16) +
+        `${STATUS_ICONS[job.status]} ${job.status}`.padEnd(15) +
+        String(job.itemsProcessed).padEnd(12) +
+        String(job.itemsFailed).padEnd(9) +
+        job.createdAt.toISOString()
+    );
+  }
+
+  console.log('─'.repeat(120) + '\n');
+}
+
+async function cancelJob(service: SyncJobService, jobId: string): Promise<void> {
+  const outcome = await service.cancelJob(jobId);
+
+  if (outcome === 'cancelled') {
+    console.log(`\n🚫 Job ${jobId} cancelled before it started\n`);
+  } else {
+    console.log(`\n🛑 Cancellation requested for running job ${jobId}`);
+    console.log('   The job stops after its current batch and is marked CANCELLED with partial counts.\n');
+  }
+}
+
+async function pauseTenant(service: SyncJobService, tenantId: string): Promise<void> {
+  const tenant = await loadTenant(tenantId);
+  const cancelledJobs = await service.pauseTenant(tenantId);
+
+  console.log(`\n⏸️  Tenant paused: ${tenant.name}`);
+  console.log(`   Cancelled ${cancelledJobs} queued job(s). Running jobs continue - cancel them with:`);
+  console.log(`   npm run manage-jobs cancel <job-id>\n`);
+}
+
+async function resumeTenant(service: SyncJobService, tenantId: string): Promise<void> {
+  const tenant = await loadTenant(tenantId);
+  await service.resumeTenant(tenantId);
+
+  console.log(`\n▶️  Tenant resumed: ${tenant.name}`);
+  console.log('   Due schedules run on the next scheduler cycle.\n');
+}
+
+function showUsage(): void {
+  console.log(`
+🛑 Sync Job Manager
+
+Usage:
+  npm run manage-jobs <command> [arguments]
+
+Commands:
+  list <tenant-id> [status]   List the 25 most recent jobs (status: ${Object.values(SyncStatus).join(', ')})
+  cancel <job-id>             Cancel a pending job, or stop a running job after its current batch
+  pause <tenant-id>           Pause a tenant: scheduler skips it, queued jobs are cancelled
+  resume <tenant-id>          Resume a paused tenant
+
+Examples:
+  npm run manage-jobs list 00000000-0000-0000-0000-000000000001 PROCESSING
+  npm run manage-jobs pause 00000000-0000-0000-0000-000000000001
+`);
+}
+
+async function main() {
+  const command = process.argv[2];
+  const arg1 = process.argv[3];
+  const arg2 = process.argv[4];
+
+  if (!command || !arg1) {
+    showUsage();
+    process.exit(command ? 1 : 0);
+  }
+
+  try {
+    await queueService.connect();
+    const service = new SyncJobService(queueService);
+
+    switch (command) {
+      case 'list':
+        if (arg2 && !Object.values(SyncStatus).includes(arg2 as SyncStatus)) {
+          console.error(`❌ Invalid status: ${arg2}`);
+          showUsage();
+          process.exit(1);
+        }
+        await listJobs(arg1, arg2 as SyncStatus | undefined);
+        break;
+
+      case 'cancel':
+        await cancelJob(service, arg1);
+        break;
+
+      case 'pause':
+        await pauseTenant(service, arg1);
+        break;
+
+      case 'resume':
+        await resumeTenant(service, arg1);
+        break;
+
+      default:
+        showUsage();
+        process.exit(1);
+    }
+  } catch (error) {
+    console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  } finally {
+    await queueService.close();
+    await prisma.$disconnect();
+  }
+}
+
+main();
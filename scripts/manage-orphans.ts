@@ -0,0 +1,245 @@
+#!/usr/bin/env tsx
+/**
+ * List and resolve orphaned config entities (deleted in Plenty, still in Shopware)
+ *
+ * Usage:
+ *   npm run manage-orphans list <tenant-id> [entity-type]                          # List orphaned mappings
+ *   npm run manage-orphans policies <tenant-id>                                    # Show the orphan policies
+ *   npm run manage-orphans set-policy <tenant-id> <entity-type> <policy>          # Set the policy of an entity type
+ *   npm run manage-orphans resolve <tenant-id> <entity-type> <policy> [--ids <ids>] [--dry-run]
+ *
+ * Entity types: categories, attributes, properties, manufacturers, units
+ * Policies:     keep, deactivate (categories only), delete, unlink
+ *
+ * resolve applies a policy once, independent of the configured one. --ids limits it to
+ * these Plenty IDs (for attributes and properties: group or value / selection IDs).
+ */
+
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import { createTenantShopwareClient } from '../src/clients/ShopwareClientFactory';
+import { RecordingShopwareClient } from '../src/clients/RecordingShopwareClient';
+import { OrphanPolicyService } from '../src/services/OrphanPolicyService';
+import { TenantConfigService } from '../src/services/TenantConfigService';
+import { ORPHAN_ENTITY_TYPES, ORPHAN_POLICIES } from '../src/types/sync';
+import type { OrphanEntityType, OrphanPolicy } from '../src/types/sync';
+
+const prisma = new PrismaClient();
+const orphanService = new OrphanPolicyService();
+const configService = new TenantConfigService();
+
+async function loadTenant(tenantId: string) {
+  const tenant = await prisma.tenant.findUnique({ where: { id: tenantId } });
+  if (!tenant) {
+    console.error(`❌ Tenant not found: ${tenantId}`);
+    process.exit(1);
+  }
+  return tenant;
+}
+
+function parseEntityType(value: string | undefined): OrphanEntityType {
+  if (!ORPHAN_ENTITY_TYPES.includes(value as OrphanEntityType)) {
+    console.error(`❌ Invalid entity type: ${value} (${ORPHAN_ENTITY_TYPES.join(', ')})`);
+    process.exit(1);
+  }
+  return value as OrphanEntityType;
+}
+
+function parsePolicy(value: string | undefined, entityType: OrphanEntityType): OrphanPolicy {
+  if (!ORPHAN_POLICIES.includes(value as OrphanPolicy)) {
+    console.error(`❌ Invalid policy: ${value} (${ORPHAN_POLICIES.join(', ')})`);
+    process.exit(1);
+  }
+  if (value === 'deactivate' && entityType !== 'categories') {
+    console.error(`❌ Policy 'deactivate' is only supported for categories`);
+    process.exit(1);
+  }
+  return value as OrphanPolicy;
+}
+
+function parseIds(): number[] | undefined {
+  const index = process.argv.indexOf('--ids');
+  if (index === -1) {
+    return undefined;
+  }
+
+  const values = (process.argv[index + 1] || '').split(',').filter(Boolean);
+  const ids = values.map(Number);
+  if (ids.length === 0 || ids.some((id) => !Number.isInteger(id) || id <= 0)) {
+    console.error(`❌ Invalid IDs: ${process.argv[index + 1] || ''}`);
+    process.exit(1);
+  }
+  return ids;
+}
+
+/**
+ * List the orphaned mappings of a tenant
+ */
+async function listOrphans(tenantId: string, entityType?: OrphanEntityType): Promise<void> {
+  const tenant = await loadTenant(tenantId);
+  const orphans = await orphanService.listOrphans(tenantId, entityType);
+
+  console.log(`\n📋 Orphaned config entities for ${tenant.name}`);
+  console.log(`   Total: ${orphans.length}\n`);
+
+  if (orphans.length === 0) {
+    console.log('   No orphans found.\n');
+    return;
+  }
+
+  for (const type of ORPHAN_ENTITY_TYPES) {
+    const typeOrphans = orphans.filter((orphan) => orphan.entityType === type);
+    if (typeOrphans.length === 0) continue;
+
+    console.log(`🗂  ${type} (${typeOrphans.length}):`);
+    for (const orphan of typeOrphans) {
+      console.log(
+        `   Plenty ${orphan.plentyId} → Shopware ${orphan.shopwareEntity} ${orphan.shopwareId} (${orphan.mappingType})`
+      );
+    }
+    console.log('');
+  }
+}
+
+/**
+ * Show the orphan policy of every entity type
+ */
+async function showPolicies(tenantId: string): Promise<void> {
+  const tenant = await loadTenant(tenantId);
+  const policies = await configService.getOrphanPolicies(tenantId);
+
+  console.log(`\n⚙️  Orphan policies for ${tenant.name}\n`);
+  for (const type of ORPHAN_ENTITY_TYPES) {
+    console.log(`   ${type.padEnd(15)} ${policies[type]}`);
+  }
+  console.log('');
+}
+
+/**
+ * Set the orphan policy of one entity type
+ */
+async function setPolicy(
+  tenantId: string,
+  entityType: OrphanEntityType,
+  policy: OrphanPolicy
+): Promise<void> {
+  await loadTenant(tenantId);
+  await configService.setOrphanPolicies(tenantId, { [entityType]: policy });
+
+  console.log(`\n✅ Orphan policy for ${entityType} set to ${policy}`);
+  console.log('   It is applied at the end of every config sync.\n');
+}
+
+/**
+ * Apply a policy to the orphans of one entity type now
+ */
+async function resolveOrphans(
+  tenantId: string,
+  entityType: OrphanEntityType,
+  policy: OrphanPolicy,
+  plentyIds: number[] | undefined,
+  dryRun: boolean
+): Promise<void> {
+  const tenant = await loadTenant(tenantId);
+
+  const client = await createTenantShopwareClient(tenantId);
+  const shopware = dryRun ? new RecordingShopwareClient(client, tenantId) : client;
+  await shopware.authenticate();
+
+  const result = await orphanService.resolveOrphans(
+    tenantId,
+    shopware,
+    entityType,
+    policy,
+    plentyIds
+  );
+
+  console.log(
+    `\n${dryRun ? '🔍 Dry run: ' : ''}Resolved orphaned ${entityType} for ${tenant.name}`
+  );
+  console.log(`   Policy:   ${result.policy}`);
+  console.log(`   Orphaned: ${result.orphaned}`);
+  console.log(`   Applied:  ${result.applied}`);
+  console.log(`   Failed:   ${result.failed}`);
+
+  if (shopware instanceof RecordingShopwareClient) {
+    const { summary, changes } = shopware.getReport();
+    console.log(`\n   Shopware changes: ${summary.updates} updates, ${summary.deletes} deletes`);
+    for (const change of changes) {
+      console.log(`   ${change.action} ${change.entity} ${change.id}`);
+    }
+    console.log('   Nothing was changed (mappings included).');
+  }
+  console.log('');
+
+  if (result.failed > 0) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Main CLI handler
+ */
+async function main() {
+  const command = process.argv[2];
+  const tenantId = process.argv[3];
+
+  if (!command || !tenantId) {
+    console.error('Usage: npm run manage-orphans <command> <tenant-id> [args]');
+    console.error('\nCommands:');
+    console.error('  list <tenant-id> [entity-type]                   - List orphaned mappings');
+    console.error('  policies <tenant-id>                             - Show the orphan policies');
+    console.error(
+      '  set-policy <tenant-id> <entity-type> <policy>    - Set the policy of an entity type'
+    );
+    console.error('  resolve <tenant-id> <entity-type> <policy> [--ids <ids>] [--dry-run]');
+    console.error(
+      '                                                   - Apply a policy to orphans now'
+    );
+    console.error(`\nEntity types: ${ORPHAN_ENTITY_TYPES.join(', ')}`);
+    console.error(`Policies:     ${ORPHAN_POLICIES.join(', ')}`);
+    process.exit(1);
+  }
+
+  try {
+    switch (command) {
+      case 'list':
+        await listOrphans(tenantId, process.argv[4] ? parseEntityType(process.argv[4]) : undefined);
+        break;
+
+      case 'policies':
+        await showPolicies(tenantId);
+        break;
+
+      case 'set-policy': {
+        const entityType = parseEntityType(process.argv[4]);
+        await setPolicy(tenantId, entityType, parsePolicy(process.argv[5], entityType));
+        break;
+      }
+
+      case 'resolve': {
+        const entityType = parseEntityType(process.argv[4]);
+        const policy = parsePolicy(process.argv[5], entityType);
+        await resolveOrphans(
+          tenantId,
+          entityType,
+          policy,
+          parseIds(),
+          process.argv.includes('--dry-run')
+        );
+        break;
+      }
+
+      default:
+        console.error(`Unknown command: ${command}`);
+        process.exit(1);
+    }
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
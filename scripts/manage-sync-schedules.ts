@@ -5,10 +5,12 @@
  * Usage:
  *   npm run manage-schedules setup <tenant-id>                      # Setup all default schedules
  *   npm run manage-schedules list <tenant-id>                       # List all schedules
- *   npm run manage-schedules create-stock <tenant-id> [cron]        # Create stock sync only
+ *   npm run manage-schedules create-stock <tenant-id> [cron] [dir]  # Create stock sync only (dir: PLENTY_TO_SHOPWARE, SHOPWARE_TO_PLENTY, BI_DIRECTIONAL)
  *   npm run manage-schedules create-config <tenant-id> [cron]       # Create config sync only
  *   npm run manage-schedules create-delta <tenant-id> [cron]        # Create delta sync only
  *   npm run manage-schedules create-full <tenant-id> [cron]         # Create full sync only
+ *   npm run manage-schedules create-order <tenant-id> [cron]        # Create order import (Shopware → Plenty)
+ *   npm run manage-schedules create-customer <tenant-id> [cron]     # Create customer sync (Shopware → Plenty)
  *   npm run manage-schedules enable <schedule-id>                   # Enable a schedule
  *   npm run manage-schedules disable <schedule-id>                  # Disable a schedule
  *   npm run manage-schedules update <schedule-id> <cron>            # Update cron schedule
@@ -274,7 +276,8 @@ async function createSyncSchedule(
   syncType: SyncType,
   cronSchedule: string,
   priority: number,
-  description: string
+  description: string,
+  direction: SyncDirection = SyncDirection.PLENTY_TO_SHOPWARE
 ): Promise<void> {
   const tenant = await prisma.tenant.findUnique({
     where: { id: tenantId },
@@ -294,14 +297,14 @@ async function createSyncSchedule(
         tenantId_syncType_direction: {
           tenantId,
           syncType,
-          direction: SyncDirection.PLENTY_TO_SHOPWARE,
+          direction,
         },
       },
       create: {
         tenantId,
         syncType,
         cronSchedule,
-        direction: SyncDirection.PLENTY_TO_SHOPWARE,
+        direction,
         priority,
         enabled: true,
         nextRunAt,
@@ -327,13 +330,18 @@ async function createSyncSchedule(
   }
 }
 
-async function createStockSync(tenantId: string, cronSchedule?: string): Promise<void> {
+async function createStockSync(
+  tenantId: string,
+  cronSchedule?: string,
+  direction: SyncDirection = SyncDirection.PLENTY_TO_SHOPWARE
+): Promise<void> {
   await createSyncSchedule(
     tenantId,
     SyncType.STOCK,
     cronSchedule || '*/15 * * * *',
     80,
-    cronSchedule ? 'Custom schedule' : 'Every 15 minutes'
+    cronSchedule ? 'Custom schedule' : 'Every 15 minutes',
+    direction
   );
 }
 
@@ -367,6 +375,28 @@ async function createFullProductSync(tenantId: string, cronSchedule?: string): P
   );
 }
 
+async function createOrderSync(tenantId: string, cronSchedule?: string): Promise<void> {
+  await createSyncSchedule(
+    tenantId,
+    SyncType.ORDER,
+    cronSchedule || '*/10 * * * *',
+    90,
+    cronSchedule ? 'Custom schedule' : 'Every 10 minutes',
+    SyncDirection.SHOPWARE_TO_PLENTY
+  );
+}
+
+async function createCustomerSync(tenantId: string, cronSchedule?: string): Promise<void> {
+  await createSyncSchedule(
+    tenantId,
+    SyncType.CUSTOMER,
+    cronSchedule || '*/30 * * * *',
+    60,
+    cronSchedule ? 'Custom schedule' : 'Every 30 minutes',
+    SyncDirection.SHOPWARE_TO_PLENTY
+  );
+}
+
 /**
  * Delete a sync schedule
  */
@@ -402,10 +432,13 @@ Commands:
   list <tenant-id>                        List all schedules for a tenant
 
   Create Specific Syncs:
-  create-stock <tenant-id> [cron]         Create stock sync schedule
+  create-stock <tenant-id> [cron] [dir]   Create stock sync schedule (dir: PLENTY_TO_SHOPWARE,
+                                          SHOPWARE_TO_PLENTY or BI_DIRECTIONAL)
   create-config <tenant-id> [cron]        Create config sync schedule
   create-delta <tenant-id> [cron]         Create product delta sync schedule
   create-full <tenant-id> [cron]          Create full product sync schedule
+  create-order <tenant-id> [cron]         Create order import schedule (Shopware → Plenty)
+  create-customer <tenant-id> [cron]      Create customer sync schedule (Shopware → Plenty)
 
   Manage Schedules:
   enable <schedule-id>                    Enable a schedule
@@ -454,6 +487,7 @@ async function main() {
   const command = process.argv[2];
   const arg1 = process.argv[3];
   const arg2 = process.argv[4];
+  const arg3 = process.argv[5];
 
   try {
     switch (command) {
@@ -481,7 +515,12 @@ async function main() {
           showUsage();
           process.exit(1);
         }
-        await createStockSync(arg1, arg2);
+        if (arg3 && !Object.values(SyncDirection).includes(arg3 as SyncDirection)) {
+          console.error(`❌ Invalid direction: ${arg3}`);
+          showUsage();
+          process.exit(1);
+        }
+        await createStockSync(arg1, arg2, arg3 as SyncDirection | undefined);
         break;
 
       case 'create-config':
@@ -511,6 +550,24 @@ async function main() {
         await createFullProductSync(arg1, arg2);
         break;
 
+      case 'create-order':
+        if (!arg1) {
+          console.error('❌ Missing tenant ID');
+          showUsage();
+          process.exit(1);
+        }
+        await createOrderSync(arg1, arg2);
+        break;
+
+      case 'create-customer':
+        if (!arg1) {
+          console.error('❌ Missing tenant ID');
+          showUsage();
+          process.exit(1);
+        }
+        await createCustomerSync(arg1, arg2);
+        break;
+
       case 'enable':
         if (!arg1) {
           console.error('❌ Missing schedule ID');
@@ -0,0 +1,169 @@
+#!/usr/bin/env tsx
+/**
+ * Manage Plenty VAT ID → Shopware tax mappings
+ * Stored in the tenant config key "taxMappings" and used by the product sync to pick
+ * the Shopware tax and the rate for net prices.
+ *
+ * Usage:
+ *   npm run manage-tax-mappings suggest <tenant-id> [--apply]
+ *   npm run manage-tax-mappings set <tenant-id> <plenty-vat-id> <shopware-tax-id>
+ *   npm run manage-tax-mappings delete <tenant-id> <plenty-vat-id>
+ */
+
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import { PlentyClient } from '../src/clients/PlentyClient';
+import { createTenantShopwareClient } from '../src/clients/ShopwareClientFactory';
+import { TenantConfigService } from '../src/services/TenantConfigService';
+import { TaxMappingService } from '../src/services/TaxMappingService';
+import { decryptJSON } from '../src/utils/encryption';
+
+const prisma = new PrismaClient();
+const configService = new TenantConfigService();
+const taxMappingService = new TaxMappingService();
+
+async function loadTenant(tenantId: string) {
+  const tenant = await prisma.tenant.findUnique({ where: { id: tenantId } });
+  if (!tenant) {
+    console.error(`❌ Tenant not found: ${tenantId}`);
+    process.exit(1);
+  }
+  return tenant;
+}
+
+/**
+ * Match Plenty VAT rates to Shopware taxes, print the result and optionally save it
+ */
+async function suggestMappings(tenantId: string, apply: boolean): Promise<void> {
+  const tenant = await loadTenant(tenantId);
+
+  const plenty = new PlentyClient({
+    baseUrl: tenant.plentyUrl,
+    credentials: decryptJSON<{ username: string; password: string }>(tenant.plentyCredentials),
+  });
+  await plenty.authenticate();
+
+  const shopware = await createTenantShopwareClient(tenantId);
+  await shopware.authenticate();
+
+  const suggestions = await taxMappingService.suggestMappings(tenantId, plenty, shopware);
+
+  console.log(`\n🧾 Tax Mappings for ${tenant.name}\n`);
+  if (suggestions.length === 0) {
+    console.log('   (no VAT rates found in Plenty)');
+  }
+  for (const suggestion of suggestions) {
+    const target = suggestion.shopwareTaxId
+      ? `→ ${suggestion.shopwareTaxName} [${suggestion.shopwareTaxId}]`
+      : '⚠️  no Shopware tax with this rate';
+    const current = suggestion.currentShopwareTaxId
+      ? suggestion.currentShopwareTaxId === suggestion.shopwareTaxId
+        ? ' (mapped)'
+        : ` (currently mapped to ${suggestion.currentShopwareTaxId})`
+      : '';
+    console.log(`   VAT ID ${suggestion.plentyVatId} (${suggestion.plentyRate}%) ${target}${current}`);
+  }
+
+  if (!apply) {
+    console.log('\nRun with --apply to save suggestions for unmapped VAT IDs.\n');
+    return;
+  }
+
+  const added = await taxMappingService.applySuggestions(tenantId, suggestions);
+  console.log(`\n✅ ${added} mapping(s) added. Existing mappings were kept.\n`);
+}
+
+/**
+ * Map a Plenty VAT ID to a Shopware tax
+ */
+async function setMapping(tenantId: string, vatId: string, taxId: string): Promise<void> {
+  await loadTenant(tenantId);
+
+  if (isNaN(parseInt(vatId, 10))) {
+    console.error(`❌ Invalid Plenty VAT ID: ${vatId}`);
+    process.exit(1);
+  }
+
+  const mappings = (await configService.getTaxMappings(tenantId)) || {};
+  mappings[vatId] = taxId;
+  await configService.setTaxMappings(tenantId, mappings);
+
+  console.log(`✅ VAT ID ${vatId} → Shopware tax ${taxId}`);
+  console.log('   Products get the new tax on their next sync (run a FULL_PRODUCT sync to update all).');
+}
+
+/**
+ * Remove a tax mapping
+ */
+async function deleteMapping(tenantId: string, vatId: string): Promise<void> {
+  await loadTenant(tenantId);
+
+  const mappings = (await configService.getTaxMappings(tenantId)) || {};
+  if (!mappings[vatId]) {
+    console.error(`❌ No mapping found for VAT ID: ${vatId}`);
+    process.exit(1);
+  }
+
+  delete mappings[vatId];
+  await configService.setTaxMappings(tenantId, mappings);
+
+  console.log(`✅ Mapping removed for VAT ID ${vatId}`);
+}
+
+function showUsage(): void {
+  console.log(`
+🧾 Tax Mapping Manager
+
+Usage:
+  npm run manage-tax-mappings suggest <tenant-id> [--apply]
+  npm run manage-tax-mappings set <tenant-id> <plenty-vat-id> <shopware-tax-id>
+  npm run manage-tax-mappings delete <tenant-id> <plenty-vat-id>
+`);
+}
+
+async function main() {
+  const [command, tenantId, arg1, arg2] = process.argv.slice(2);
+
+  if (!command || !tenantId) {
+    showUsage();
+    process.exit(1);
+  }
+
+  try {
+    switch (command) {
+      case 'suggest':
+        await suggestMappings(tenantId, arg1 === '--apply');
+        break;
+
+      case 'set':
+        if (!arg1 || !arg2) {
+          console.error('❌ Missing VAT ID or Shopware tax ID');
+          showUsage();
+          process.exit(1);
+        }
+        await setMapping(tenantId, arg1, arg2);
+        break;
+
+      case 'delete':
+        if (!arg1) {
+          console.error('❌ Missing VAT ID');
+          showUsage();
+          process.exit(1);
+        }
+        await deleteMapping(tenantId, arg1);
+        break;
+
+      default:
+        console.error(`❌ Unknown command: ${command}`);
+        showUsage();
+        process.exit(1);
+    }
+  } catch (error) {
+    console.error('Error:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -13,7 +13,18 @@
  *   - plentyFrontendUrl: Plenty frontend URL for images (e.g., https://your-shop.plentymarkets.de)
  *   - defaultSalesPriceId: Sales price ID to use for Shopware's main price
  *   - rrpSalesPriceId: Sales price ID to use for RRP (list price)
- *   - taxMappings: JSON object mapping Plenty tax IDs to Shopware tax IDs
+ *   - taxMappings: JSON object mapping Plenty VAT IDs (variation vatId) to Shopware tax IDs
+ *   - syncScope: JSON object selecting which Plenty products to sync (itemIds, plentyIds, referrerIds, categoryIds, isActive, itemTypes)
+ *   - orderPlentyId: Plenty client ID imported Shopware orders are assigned to (required for ORDER sync)
+ *   - orderReferrerId / orderStatusId: Referrer and initial status for imported orders
+ *   - orderPaymentMethodMappings: JSON object mapping Shopware payment method IDs to Plenty payment method IDs
+ *   - customerGroupMappings: JSON object mapping Shopware customer group IDs to Plenty customer class IDs
+ *   - barcodeMappings: JSON object mapping Plenty barcode type IDs to "ean" or "manufacturerNumber"
+ *   - referrerSalesChannelMappings: JSON object mapping Plenty referrer IDs to Shopware sales channel IDs (price rules)
+ *   - shopwareCurrencies: Cached Shopware currencies by ISO code (auto-fetched - delete to refresh)
+ *   - stockWriteBackWarehouseId: Plenty warehouse for Shopware stock corrections (STOCK sync SHOPWARE_TO_PLENTY / BI_DIRECTIONAL)
+ *   - stockCorrectionReasonId: Plenty stock correction reason for write-back (default: 301)
+ *   - useMockShopware: true/false - use mock tables instead of the tenant's Shopware API
  *
  * Examples:
  *   npx ts-node scripts/manage-tenant-config.ts set abc123 plentyFrontendUrl "https://shop.plentymarkets.de"
@@ -33,7 +44,19 @@ const KNOWN_KEYS: Record<string, string> = {
   rrpSalesPriceId: 'Sales price ID to use for RRP/list price (number)',
   propertyReferrers: 'Array of Plenty referrer IDs to import properties for (default: ["1.00"] for webshop)',
   propertyClients: 'Array of Plenty client IDs (Mandanten) to import properties for (optional)',
-  taxMappings: 'JSON object mapping Plenty tax IDs to Shopware tax IDs',
+  taxMappings: 'JSON object mapping Plenty VAT IDs (variation vatId) to Shopware tax IDs (see npm run manage-tax-mappings)',
+  syncScope: 'JSON object selecting products to sync: {"itemIds":[],"plentyIds":[],"referrerIds":[],"categoryIds":[],"isActive":true,"itemTypes":[]} (default: all)',
+  orderPlentyId: 'Plenty client ID (plentyId) imported Shopware orders are assigned to (required for ORDER sync)',
+  orderReferrerId: 'Plenty referrer ID for imported orders (optional)',
+  orderStatusId: 'Initial Plenty status for imported orders (optional, e.g. 3)',
+  orderPaymentMethodMappings: 'JSON object mapping Shopware payment method IDs to Plenty payment method IDs',
+  customerGroupMappings: 'JSON object mapping Shopware customer group IDs to Plenty customer class IDs (CUSTOMER sync)',
+  barcodeMappings: 'JSON object mapping Plenty barcode type IDs to Shopware product fields, e.g. {"1":"ean","3":"manufacturerNumber"}',
+  referrerSalesChannelMappings: 'JSON object mapping Plenty referrer IDs to Shopware sales channel IDs (advanced price rules)',
+  shopwareCurrencies: 'Cached Shopware currencies {"CHF":{"id":"...","factor":0.94}} (auto-fetched on product sync - delete to refresh)',
+  stockWriteBackWarehouseId: 'Plenty warehouse ID Shopware stock changes are booked into (STOCK sync SHOPWARE_TO_PLENTY / BI_DIRECTIONAL)',
+  stockCorrectionReasonId: 'Plenty stock correction reason ID for write-back (default: 301)',
+  useMockShopware: 'Use mock Shopware tables instead of the tenant Shopware API (true/false, default: USE_MOCK_SHOPWARE)',
 };
 
 async function listConfigs(tenantId: string) {
@@ -0,0 +1,65 @@
+#!/usr/bin/env tsx
+/**
+ * Preview how many Plenty variations a tenant's product sync scope matches
+ *
+ * Usage:
+ *   npm run preview-sync-scope <tenant-id>
+ *
+ * The scope is stored in the tenant config key "syncScope", e.g.:
+ *   npx tsx scripts/manage-tenant-config.ts set <tenant-id> syncScope '{"plentyIds":[18857],"categoryIds":[16],"isActive":true}'
+ */
+
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import { PlentyClient } from '../src/clients/PlentyClient';
+import { SyncScopeService } from '../src/services/SyncScopeService';
+import { decryptJSON } from '../src/utils/encryption';
+
+async function main() {
+  const tenantId = process.argv[2];
+
+  if (!tenantId) {
+    console.error('Usage: npm run preview-sync-scope <tenant-id>');
+    process.exit(1);
+  }
+
+  const prisma = new PrismaClient();
+
+  try {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+    });
+
+    if (!tenant) {
+      console.error(`❌ Tenant not found: ${tenantId}`);
+      process.exit(1);
+    }
+
+    console.log(`\n🔎 Sync scope preview for tenant: ${tenant.name}\n`);
+
+    const plenty = new PlentyClient({
+      baseUrl: tenant.plentyUrl,
+      credentials: decryptJSON<{ username: string; password: string }>(tenant.plentyCredentials),
+    });
+    await plenty.authenticate();
+
+    const scopeService = new SyncScopeService();
+    const preview = await scopeService.preview(tenantId, plenty);
+
+    console.log('Scope:');
+    console.log(`  ${JSON.stringify(preview.scope)}`);
+    if (Object.keys(preview.scope).length === 0) {
+      console.log('  (empty - the whole catalog is synced)');
+    }
+    console.log('\nPlenty API filters:');
+    console.log(`  ${JSON.stringify(preview.queryParams)}`);
+    console.log(`\n✅ Matching variations: ${preview.matchingVariations}\n`);
+  } catch (error) {
+    console.error('Error:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -0,0 +1,146 @@
+#!/usr/bin/env tsx
+/**
+ * Print the diff recorded by a dry-run sync job
+ *
+ * Usage:
+ *   npm run print-dry-run-report <job-id>                    # Summary and all listed changes
+ *   npm run print-dry-run-report <job-id> --entity product   # Only changes to one entity
+ *   npm run print-dry-run-report <job-id> --limit 50         # Only the first 50 changes
+ *   npm run print-dry-run-report <job-id> --json             # Raw report as JSON
+ */
+
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import type { DryRunChange, DryRunReport } from '../src/types/sync';
+
+const prisma = new PrismaClient();
+
+const ACTION_ICONS: Record<DryRunChange['action'], string> = {
+  create: '➕',
+  update: '✏️ ',
+  delete: '🗑️ ',
+};
+
+const MAX_VALUE_LENGTH = 80;
+
+function getOption(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+function formatValue(value: unknown): string {
+  const text = value === undefined ? '(none)' : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 3)}...` : text;
+}
+
+function printChange(change: DryRunChange): void {
+  const label = change.label ? ` (${change.label})` : '';
+  console.log(`${ACTION_ICONS[change.action]} ${change.action.toUpperCase()} ${change.entity} ${change.id}${label}`);
+
+  for (const [field, diff] of Object.entries(change.fields || {})) {
+    console.log(`     ${field}: ${formatValue(diff.before)} → ${formatValue(diff.after)}`);
+  }
+
+  if (change.notCompared && change.notCompared.length > 0) {
+    console.log(`     not compared: ${change.notCompared.join(', ')}`);
+  }
+
+  if (change.action === 'create' && change.data) {
+    const fields = Object.keys(change.data);
+    console.log(`     fields: ${fields.join(', ')}`);
+  }
+}
+
+function showUsage(): void {
+  console.log(`
+🔍 Dry-Run Report
+
+Usage:
+  npm run print-dry-run-report <job-id> [options]
+
+Options:
+  --entity <name>   Only show changes to this entity (e.g. product, category, plenty_stock)
+  --limit <n>       Only show the first n changes
+  --json            Print the raw report as JSON
+
+Start a dry run with:
+  npm run trigger-full-sync <tenant-id> --dry-run
+`);
+}
+
+async function main() {
+  const jobId = process.argv[2];
+
+  if (!jobId || jobId.startsWith('--')) {
+    showUsage();
+    process.exit(jobId ? 1 : 0);
+  }
+
+  const entity = getOption('--entity');
+  const limit = getOption('--limit') ? parseInt(getOption('--limit')!, 10) : undefined;
+
+  if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+    console.error('❌ --limit must be a positive number');
+    process.exit(1);
+  }
+
+  try {
+    const job = await prisma.syncJob.findUnique({ where: { id: jobId } });
+
+    if (!job) {
+      console.error(`❌ Job not found: ${jobId}`);
+      process.exit(1);
+    }
+
+    const metadata = (job.metadata as Record<string, unknown> | null) || {};
+    const report = metadata.dryRunReport as DryRunReport | undefined;
+
+    if (!report) {
+      if (metadata.dryRun === true) {
+        console.log(`\n⏳ Dry run ${jobId} has no report yet (status: ${job.status})\n`);
+      } else {
+        console.error(`❌ Job ${jobId} is not a dry run`);
+        process.exitCode = 1;
+      }
+      return;
+    }
+
+    if (process.argv.includes('--json')) {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    const { summary } = report;
+    console.log(`\n🔍 Dry-run report for ${job.syncType} job ${job.id} (${job.status})`);
+    console.log(`   Generated: ${report.generatedAt}\n`);
+    console.log(`   ➕ Creates:   ${summary.creates}`);
+    console.log(`   ✏️  Updates:   ${summary.updates}`);
+    console.log(`   🟰 Unchanged: ${summary.unchanged}`);
+    console.log(`   🗑️  Deletes:   ${summary.deletes}`);
+
+    if (report.truncated > 0) {
+      console.log(`\n⚠️  ${report.truncated} change(s) were counted but not listed (report size limit)`);
+    }
+
+    const changes = report.changes.filter((change) => !entity || change.entity === entity);
+    const shown = limit ? changes.slice(0, limit) : changes;
+
+    console.log('\n' + '─'.repeat(100));
+    for (const change of shown) {
+      printChange(change);
+    }
+    console.log('─'.repeat(100));
+
+    if (shown.length < changes.length) {
+      console.log(`\n   Showing ${shown.length} of ${changes.length} change(s) - use --limit to see more`);
+    }
+    console.log('');
+  } catch (error) {
+    console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
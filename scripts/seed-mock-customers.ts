@@ -0,0 +1,104 @@
+#!/usr/bin/env tsx
+/**
+ * Seed mock Shopware customers for offline customer sync testing
+ *
+ * Usage:
+ *   npm run seed-mock-customers <tenant-id> [count]   # Seed customers (default: 3)
+ *   npm run seed-mock-customers <tenant-id> clear     # Delete all mock customers
+ */
+
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import { MockShopwareClient } from '../src/clients/MockShopwareClient';
+
+const prisma = new PrismaClient();
+
+// Mock customer groups - map them with the customerGroupMappings config key
+const MOCK_GROUPS = [
+  { id: 'cfbd5018d38d41d8adca10d94fc8bdd6', name: 'Standard customer group' },
+  { id: 'b2b00000000000000000000000000001', name: 'B2B' },
+];
+
+async function main() {
+  const tenantId = process.argv[2];
+  const arg = process.argv[3];
+
+  if (!tenantId) {
+    console.error('Usage: npm run seed-mock-customers <tenant-id> [count|clear]');
+    process.exit(1);
+  }
+
+  try {
+    const tenant = await prisma.tenant.findUnique({ where: { id: tenantId } });
+    if (!tenant) {
+      console.error(`❌ Tenant not found: ${tenantId}`);
+      process.exit(1);
+    }
+
+    const client = new MockShopwareClient({ tenantId });
+
+    if (arg === 'clear') {
+      const deleted = await client.deleteAllCustomers();
+      console.log(`🗑️  Deleted ${deleted} mock customers`);
+      return;
+    }
+
+    const count = parseInt(arg || '3', 10);
+
+    console.log(`\n👤 Seeding ${count} mock customers for tenant: ${tenant.name}\n`);
+
+    for (let i = 0; i < count; i++) {
+      const group = MOCK_GROUPS[i % MOCK_GROUPS.length];
+      const customerNumber = `MOCK-C${i + 1}`;
+      const billingAddressId = crypto.randomUUID().replace(/-/g, '');
+      const shippingAddressId = crypto.randomUUID().replace(/-/g, '');
+      const isB2B = group.name === 'B2B';
+
+      await client.seedCustomer({
+        customerNumber,
+        email: `mock.customer+${i + 1}@example.com`,
+        firstName: 'Max',
+        lastName: `Mustermann ${i + 1}`,
+        salutation: 'mr',
+        company: isB2B ? `Muster GmbH ${i + 1}` : undefined,
+        groupId: group.id,
+        groupName: group.name,
+        active: true,
+        defaultBillingAddressId: billingAddressId,
+        defaultShippingAddressId: shippingAddressId,
+        addresses: [
+          {
+            id: billingAddressId,
+            firstName: 'Max',
+            lastName: `Mustermann ${i + 1}`,
+            company: isB2B ? `Muster GmbH ${i + 1}` : undefined,
+            street: 'Musterstraße 12',
+            zipcode: '12345',
+            city: 'Musterstadt',
+            countryIso: 'DE',
+          },
+          {
+            id: shippingAddressId,
+            firstName: 'Max',
+            lastName: `Mustermann ${i + 1}`,
+            street: 'Lieferweg 3a',
+            zipcode: '54321',
+            city: 'Lieferstadt',
+            countryIso: 'DE',
+          },
+        ],
+      });
+
+      console.log(`  ✅ ${customerNumber}: ${group.name}`);
+    }
+
+    console.log('\nRun a CUSTOMER sync (direction SHOPWARE_TO_PLENTY) to import them.');
+  } catch (error) {
+    console.error('Error:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
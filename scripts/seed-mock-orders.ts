@@ -0,0 +1,130 @@
+#!/usr/bin/env tsx
+/**
+ * Seed mock Shopware orders for offline order import testing
+ * Orders are built from the tenant's synced products (product mappings)
+ *
+ * Usage:
+ *   npm run seed-mock-orders <tenant-id> [count]   # Seed orders (default: 3)
+ *   npm run seed-mock-orders <tenant-id> clear     # Delete all mock orders
+ */
+
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import { MockShopwareClient } from '../src/clients/MockShopwareClient';
+import type { ShopwareOrderLineItem } from '../src/types/shopware';
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const tenantId = process.argv[2];
+  const arg = process.argv[3];
+
+  if (!tenantId) {
+    console.error('Usage: npm run seed-mock-orders <tenant-id> [count|clear]');
+    process.exit(1);
+  }
+
+  try {
+    const tenant = await prisma.tenant.findUnique({ where: { id: tenantId } });
+    if (!tenant) {
+      console.error(`❌ Tenant not found: ${tenantId}`);
+      process.exit(1);
+    }
+
+    const client = new MockShopwareClient({ tenantId });
+
+    if (arg === 'clear') {
+      const deleted = await client.deleteAllOrders();
+      console.log(`🗑️  Deleted ${deleted} mock orders`);
+      return;
+    }
+
+    const count = parseInt(arg || '3', 10);
+
+    // Only sellable products (children, or parents without variants)
+    const mappings = await prisma.productMapping.findMany({
+      where: { tenantId, isParent: false },
+      take: 50,
+    });
+
+    if (mappings.length === 0) {
+      console.error('❌ No product mappings found. Run a product sync first.');
+      process.exit(1);
+    }
+
+    const products = await prisma.mockShopwareProduct.findMany({
+      where: { tenantId, id: { in: mappings.map((m) => m.shopwareProductId) } },
+    });
+    const productsById = new Map(products.map((p) => [p.id, p]));
+
+    console.log(`\n🛒 Seeding ${count} mock orders for tenant: ${tenant.name}\n`);
+
+    for (let i = 0; i < count; i++) {
+      const lineItemCount = 1 + Math.floor(Math.random() * Math.min(3, mappings.length));
+      const picked = [...mappings].sort(() => Math.random() - 0.5).slice(0, lineItemCount);
+
+      const lineItems: ShopwareOrderLineItem[] = picked.map((mapping, index) => {
+        const product = productsById.get(mapping.shopwareProductId);
+        const unitPrice = product ? product.priceGross.toNumber() : 9.99;
+        const quantity = 1 + Math.floor(Math.random() * 3);
+
+        return {
+          id: crypto.randomUUID().replace(/-/g, ''),
+          type: 'product',
+          productId: mapping.shopwareProductId,
+          productNumber: mapping.shopwareProductNumber,
+          label: product?.name || mapping.shopwareProductNumber,
+          quantity,
+          unitPrice,
+          totalPrice: Math.round(unitPrice * quantity * 100) / 100,
+          taxRate: 19,
+          position: index + 1,
+        };
+      });
+
+      const shippingTotal = 4.95;
+      const amountTotal =
+        Math.round((lineItems.reduce((sum, li) => sum + li.totalPrice, 0) + shippingTotal) * 100) / 100;
+      const orderNumber = `MOCK-${Date.now()}-${i + 1}`;
+
+      const address = {
+        firstName: 'Max',
+        lastName: 'Mustermann',
+        street: 'Musterstraße 12',
+        zipcode: '12345',
+        city: 'Musterstadt',
+        countryIso: 'DE',
+      };
+
+      await client.seedOrder({
+        orderNumber,
+        orderDateTime: new Date().toISOString(),
+        currencyIsoCode: 'EUR',
+        currencyFactor: 1,
+        amountTotal,
+        amountNet: Math.round((amountTotal / 1.19) * 100) / 100,
+        shippingTotal,
+        taxStatus: 'gross',
+        orderCustomer: {
+          email: `mock.customer+${i + 1}@example.com`,
+          firstName: address.firstName,
+          lastName: address.lastName,
+          salutation: 'mr',
+        },
+        billingAddress: address,
+        lineItems,
+      });
+
+      console.log(`  ✅ ${orderNumber}: ${lineItems.length} line items, ${amountTotal.toFixed(2)} EUR`);
+    }
+
+    console.log('\nRun an ORDER sync (direction SHOPWARE_TO_PLENTY) to import them.');
+  } catch (error) {
+    console.error('Error:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -65,7 +65,7 @@ async function main() {
       console.log('='.repeat(60));
       console.log('\nYour Shopware instance is properly configured and accessible.');
       console.log('\nNext steps:');
-      console.log('1. Set USE_MOCK_SHOPWARE=false in your .env file');
+      console.log('1. Set useMockShopware=false for the tenant (npx tsx scripts/manage-tenant-config.ts set <tenantId> useMockShopware false)');
       console.log('2. Run a config sync to sync categories, attributes, manufacturers, and units from PlentyMarkets to Shopware');
     } else {
       console.log('\nConnection test failed. Please check:');
@@ -1,7 +1,11 @@
 #!/usr/bin/env tsx
 /**
  * Trigger a FULL_PRODUCT sync for a specific tenant
- * Usage: npm run trigger-full-sync <tenant-id>
+ * Usage: npm run trigger-full-sync <tenant-id> [--refresh-media] [--dry-run]
+ *
+ * --refresh-media: Upload all product images again, even if unchanged in Plenty
+ * --dry-run: Record the Shopware changes without applying them
+ *            (print them with: npm run print-dry-run-report <job-id>)
  */
 
 import 'dotenv/config';
@@ -11,9 +15,16 @@ import type { SyncJobData } from '../src/types/sync';
 
 async function main() {
   const tenantId = process.argv[2];
+  const refreshMedia = process.argv.includes('--refresh-media');
+  const dryRun = process.argv.includes('--dry-run');
+  const metadata = {
+    ...(refreshMedia && { refreshMedia: true }),
+    ...(dryRun && { dryRun: true }),
+  };
+  const hasMetadata = refreshMedia || dryRun;
 
   if (!tenantId) {
-    console.error('Usage: npm run trigger-full-sync <tenant-id>');
+    console.error('Usage: npm run trigger-full-sync <tenant-id> [--refresh-media] [--dry-run]');
     console.error('Example: npm run trigger-full-sync 00000000-0000-0000-0000-000000000001');
     process.exit(1);
   }
@@ -41,6 +52,9 @@ async function main() {
     console.log(`Found tenant: ${tenant.name}`);
     console.log('Warning: Full product sync will fetch ALL products from Plenty.');
     console.log('This may take a while for large catalogs.');
+    if (refreshMedia) {
+      console.log('All product images are uploaded again.');
+    }
 
     // Connect to queue
     await queueService.connect();
@@ -52,6 +66,7 @@ async function main() {
         syncType: SyncType.FULL_PRODUCT,
         direction: SyncDirection.PLENTY_TO_SHOPWARE,
         status: SyncStatus.PENDING,
+        ...(hasMetadata && { metadata }),
       },
     });
 
@@ -67,11 +82,16 @@ async function main() {
       plentyCredentials: tenant.plentyCredentials,
       shopwareUrl: tenant.shopwareUrl,
       shopwareCredentials: tenant.shopwareCredentials,
+      ...(hasMetadata && { metadata }),
     };
 
     await queueService.addJob(jobData);
 
     console.log('Job added to queue. Full product sync will start shortly.');
+    if (dryRun) {
+      console.log('Dry run: no changes will be written to Shopware.');
+      console.log(`View the report: npm run print-dry-run-report ${syncJob.id}`);
+    }
     console.log(`Monitor progress: SELECT * FROM sync_jobs WHERE id = '${syncJob.id}';`);
   } catch (error) {
     console.error('Error:', error);
@@ -0,0 +1,149 @@
+#!/usr/bin/env tsx
+/**
+ * Resync specific products of a tenant (targeted PRODUCT_DELTA sync)
+ * Usage: npm run trigger-item-sync <tenant-id> [--items <ids>] [--variations <ids>] [--skus <skus>] [--refresh-media] [--dry-run]
+ *
+ * --items:      Comma-separated Plenty item IDs (all variations of the items)
+ * --variations: Comma-separated Plenty variation IDs
+ * --skus:       Comma-separated variation numbers (= Shopware product numbers)
+ * --refresh-media: Upload the product images again, even if unchanged in Plenty
+ * --dry-run:    Record the Shopware changes without applying them
+ *
+ * Products are always sent, even if unchanged since the last sync. The delta sync
+ * timestamp is not moved.
+ */
+
+import 'dotenv/config';
+import { PrismaClient, SyncType, SyncDirection, SyncStatus } from '@prisma/client';
+import { QueueService } from '../src/queue/QueueService';
+import type { SyncJobData } from '../src/types/sync';
+
+function getListOption(name: string): string[] {
+  const index = process.argv.indexOf(name);
+  if (index === -1 || !process.argv[index + 1]) {
+    return [];
+  }
+  return process.argv[index + 1]
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+function parseIds(values: string[], name: string): number[] {
+  const ids = values.map(Number);
+  const invalid = values.filter((_, index) => !Number.isInteger(ids[index]) || ids[index] <= 0);
+  if (invalid.length > 0) {
+    console.error(`❌ Invalid ${name}: ${invalid.join(', ')}`);
+    process.exit(1);
+  }
+  return ids;
+}
+
+async function main() {
+  const tenantId = process.argv[2];
+  const itemIds = parseIds(getListOption('--items'), 'item IDs');
+  const variationIds = parseIds(getListOption('--variations'), 'variation IDs');
+  const skus = getListOption('--skus');
+  const refreshMedia = process.argv.includes('--refresh-media');
+  const dryRun = process.argv.includes('--dry-run');
+
+  if (
+    !tenantId ||
+    tenantId.startsWith('--') ||
+    itemIds.length + variationIds.length + skus.length === 0
+  ) {
+    console.error(
+      'Usage: npm run trigger-item-sync <tenant-id> [--items <ids>] [--variations <ids>] [--skus <skus>] [--refresh-media] [--dry-run]'
+    );
+    console.error(
+      'Example: npm run trigger-item-sync 00000000-0000-0000-0000-000000000001 --items 1042,1043'
+    );
+    console.error(
+      'Example: npm run trigger-item-sync 00000000-0000-0000-0000-000000000001 --skus SHIRT-RED-M'
+    );
+    process.exit(1);
+  }
+
+  const prisma = new PrismaClient();
+  const queueService = new QueueService({
+    redis: {
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379', 10),
+      password: process.env.REDIS_PASSWORD,
+    },
+  });
+
+  try {
+    // Verify tenant exists
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+    });
+
+    if (!tenant) {
+      console.error(`❌ Tenant not found: ${tenantId}`);
+      process.exit(1);
+    }
+
+    console.log(`Found tenant: ${tenant.name}`);
+    if (itemIds.length > 0) console.log(`   Items:      ${itemIds.join(', ')}`);
+    if (variationIds.length > 0) console.log(`   Variations: ${variationIds.join(', ')}`);
+    if (skus.length > 0) console.log(`   SKUs:       ${skus.join(', ')}`);
+    if (refreshMedia) console.log('   Images are uploaded again');
+
+    // Connect to queue
+    await queueService.connect();
+
+    const metadata = {
+      triggeredBy: 'trigger-item-sync',
+      force: true,
+      ...(itemIds.length > 0 && { itemIds }),
+      ...(variationIds.length > 0 && { variationIds }),
+      ...(skus.length > 0 && { skus }),
+      ...(refreshMedia && { refreshMedia: true }),
+      ...(dryRun && { dryRun: true }),
+    };
+
+    // Create sync job
+    const syncJob = await prisma.syncJob.create({
+      data: {
+        tenantId,
+        syncType: SyncType.PRODUCT_DELTA,
+        direction: SyncDirection.PLENTY_TO_SHOPWARE,
+        status: SyncStatus.PENDING,
+        metadata,
+      },
+    });
+
+    console.log(`Created sync job: ${syncJob.id}`);
+
+    // Add to queue
+    const jobData: SyncJobData = {
+      id: syncJob.id,
+      tenantId,
+      syncType: SyncType.PRODUCT_DELTA,
+      direction: SyncDirection.PLENTY_TO_SHOPWARE,
+      plentyUrl: tenant.plentyUrl,
+      plentyCredentials: tenant.plentyCredentials,
+      shopwareUrl: tenant.shopwareUrl,
+      shopwareCredentials: tenant.shopwareCredentials,
+      metadata,
+    };
+
+    await queueService.addJob(jobData, { priority: 10 }); // High priority
+
+    console.log('Job added to queue. Item sync will start shortly.');
+    if (dryRun) {
+      console.log('Dry run: no changes will be written to Shopware.');
+      console.log(`View the report: npm run print-dry-run-report ${syncJob.id}`);
+    }
+    console.log(`Monitor progress: SELECT * FROM sync_jobs WHERE id = '${syncJob.id}';`);
+  } catch (error) {
+    console.error('Error:', error);
+    process.exit(1);
+  } finally {
+    await queueService.close();
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -1,7 +1,10 @@
 #!/usr/bin/env tsx
 /**
  * Trigger a PRODUCT_DELTA sync for a specific tenant
- * Usage: npm run trigger-product-delta-sync <tenant-id>
+ * Usage: npm run trigger-product-delta-sync <tenant-id> [--dry-run]
+ *
+ * --dry-run: Record the Shopware changes without applying them
+ *            (print them with: npm run print-dry-run-report <job-id>)
  */
 
 import 'dotenv/config';
@@ -11,9 +14,10 @@ import type { SyncJobData } from '../src/types/sync';
 
 async function main() {
   const tenantId = process.argv[2];
+  const dryRun = process.argv.includes('--dry-run');
 
   if (!tenantId) {
-    console.error('Usage: npm run trigger-product-delta-sync <tenant-id>');
+    console.error('Usage: npm run trigger-product-delta-sync <tenant-id> [--dry-run]');
     console.error('Example: npm run trigger-product-delta-sync 00000000-0000-0000-0000-000000000001');
     process.exit(1);
   }
@@ -51,6 +55,7 @@ async function main() {
         syncType: SyncType.PRODUCT_DELTA,
         direction: SyncDirection.PLENTY_TO_SHOPWARE,
         status: SyncStatus.PENDING,
+        ...(dryRun && { metadata: { dryRun: true } }),
       },
     });
 
@@ -66,11 +71,16 @@ async function main() {
       plentyCredentials: tenant.plentyCredentials,
       shopwareUrl: tenant.shopwareUrl,
       shopwareCredentials: tenant.shopwareCredentials,
+      ...(dryRun && { metadata: { dryRun: true } }),
     };
 
     await queueService.addJob(jobData);
 
     console.log('Job added to queue. Product delta sync will start shortly.');
+    if (dryRun) {
+      console.log('Dry run: no changes will be written to Shopware.');
+      console.log(`View the report: npm run print-dry-run-report ${syncJob.id}`);
+    }
     console.log(`Monitor progress: SELECT * FROM sync_jobs WHERE id = '${syncJob.id}';`);
   } catch (error) {
     console.error('Error:', error);
@@ -0,0 +1,67 @@
+import 'dotenv/config';
+import { getPrismaClient, disconnectPrisma } from './database/client';
+import { logger } from './utils/logger';
+import { QueueService } from './queue/QueueService';
+import { SyncJobService } from './services/SyncJobService';
+import { createApiServer } from './api/server';
+import { createApiRouter } from './api/routes';
+
+// Configuration
+const API_PORT = parseInt(process.env.ADMIN_API_PORT || '3000', 10);
+const API_HOST = process.env.ADMIN_API_HOST || '0.0.0.0';
+const API_TOKEN = process.env.ADMIN_API_TOKEN;
+
+const queueService = new QueueService({
+  redis: {
+    host: process.env.REDIS_HOST || 'localhost',
+    port: parseInt(process.env.REDIS_PORT || '6379', 10),
+    password: process.env.REDIS_PASSWORD,
+  },
+});
+
+/**
+ * Main admin API entry point
+ */
+async function main(): Promise<void> {
+  if (!API_TOKEN) {
+    throw new Error('ADMIN_API_TOKEN environment variable is required');
+  }
+
+  logger.info('Admin API starting', { host: API_HOST, port: API_PORT });
+
+  // Connect to queue (needed to trigger jobs)
+  await queueService.connect();
+
+  const router = createApiRouter({
+    prisma: getPrismaClient(),
+    syncJobService: new SyncJobService(queueService),
+  });
+  const server = createApiServer({ token: API_TOKEN, router });
+
+  server.listen(API_PORT, API_HOST, () => {
+    logger.info('Admin API listening', { host: API_HOST, port: API_PORT });
+  });
+
+  // Graceful shutdown handling
+  const shutdown = async (signal: string) => {
+    logger.info('Shutdown signal received', { signal });
+
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+
+    // Close connections
+    await queueService.close();
+    await disconnectPrisma();
+
+    logger.info('Admin API stopped gracefully');
+    process.exit(0);
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+}
+
+// Start the API
+main().catch((error) => {
+  logger.error('Admin API failed to start', { error });
+  process.exit(1);
+});
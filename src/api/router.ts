@@ -0,0 +1,136 @@
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Error with an HTTP status - thrown by handlers, rendered as a JSON error response
+ */
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export interface RequestContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: unknown;
+}
+
+export interface ApiResponse {
+  status: number;
+  body?: unknown;
+}
+
+export type RouteHandler = (ctx: RequestContext) => Promise<ApiResponse>;
+
+interface Route {
+  method: HttpMethod;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+export type RouteMatch =
+  | { handler: RouteHandler; params: Record<string, string> }
+  | { methodNotAllowed: true }
+  | null;
+
+/**
+ * Minimal path router for the admin API
+ * Paths use ":name" placeholders, e.g. /tenants/:tenantId/schedules
+ */
+export class Router {
+  private routes: Route[] = [];
+
+  get(path: string, handler: RouteHandler): void {
+    this.add('GET', path, handler);
+  }
+
+  post(path: string, handler: RouteHandler): void {
+    this.add('POST', path, handler);
+  }
+
+  put(path: string, handler: RouteHandler): void {
+    this.add('PUT', path, handler);
+  }
+
+  patch(path: string, handler: RouteHandler): void {
+    this.add('PATCH', path, handler);
+  }
+
+  delete(path: string, handler: RouteHandler): void {
+    this.add('DELETE', path, handler);
+  }
+
+  /**
+   * Find the handler for a request
+   * Returns methodNotAllowed if the path exists with other methods only
+   * Throws HttpError 400 if a path parameter is not valid percent-encoding
+   */
+  match(method: string, pathname: string): RouteMatch {
+    let pathMatched = false;
+
+    for (const route of this.routes) {
+      const match = route.pattern.exec(pathname);
+      if (!match) continue;
+
+      pathMatched = true;
+      if (route.method !== method) continue;
+
+      const params: Record<string, string> = {};
+      route.keys.forEach((key, index) => {
+        try {
+          params[key] = decodeURIComponent(match[index + 1]);
+        } catch (error) {
+          if (error instanceof URIError) {
+            throw new HttpError(400, 'Malformed path');
+          }
+          throw error;
+        }
+      });
+      return { handler: route.handler, params };
+    }
+
+    return pathMatched ? { methodNotAllowed: true } : null;
+  }
+
+  private add(method: HttpMethod, path: string, handler: RouteHandler): void {
+    const keys: string[] = [];
+    const source = path
+      .split('/')
+      .map((segment) => {
+        if (segment.startsWith(':')) {
+          keys.push(segment.slice(1));
+          return '([^/]+)';
+        }
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('/');
+
+    this.routes.push({ method, pattern: new RegExp(`^${source}/?$`), keys, handler });
+  }
+}
+
+// ============================================
+// RESPONSE HELPERS
+// ============================================
+
+export function ok(body: unknown): ApiResponse {
+  return { status: 200, body };
+}
+
+export function created(body: unknown): ApiResponse {
+  return { status: 201, body };
+}
+
+export function accepted(body: unknown): ApiResponse {
+  return { status: 202, body };
+}
+
+export function noContent(): ApiResponse {
+  return { status: 204 };
+}
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { TenantConfigService } from '../../services/TenantConfigService';
+import { HttpError, Router, noContent, ok } from '../router';
+import { parseBody } from '../validation';
+import { requireTenant } from './tenants';
+
+const setConfigSchema = z.object({
+  value: z.unknown().refine((value) => value !== undefined, { message: 'value is required' }),
+  description: z.string().optional(),
+});
+
+export function registerConfigRoutes(router: Router, prisma: PrismaClient): void {
+  const configService = new TenantConfigService();
+
+  router.get('/tenants/:tenantId/config', async ({ params }) => {
+    await requireTenant(prisma, params.tenantId);
+    return ok(await configService.getAll(params.tenantId));
+  });
+
+  router.get('/tenants/:tenantId/config/:key', async ({ params }) => {
+    await requireTenant(prisma, params.tenantId);
+    if (!(await configService.exists(params.tenantId, params.key))) {
+      throw new HttpError(404, `Config key not set: ${params.key}`);
+    }
+    return ok({ key: params.key, value: await configService.get(params.tenantId, params.key) });
+  });
+
+  router.put('/tenants/:tenantId/config/:key', async ({ params, body }) => {
+    await requireTenant(prisma, params.tenantId);
+    const input = parseBody(setConfigSchema, body);
+    await configService.set(params.tenantId, params.key, input.value, input.description);
+    return ok({ key: params.key, value: input.value });
+  });
+
+  router.delete('/tenants/:tenantId/config/:key', async ({ params }) => {
+    await requireTenant(prisma, params.tenantId);
+    if (!(await configService.delete(params.tenantId, params.key))) {
+      throw new HttpError(404, `Config key not set: ${params.key}`);
+    }
+    return noContent();
+  });
+}
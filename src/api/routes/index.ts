@@ -0,0 +1,26 @@
+import { PrismaClient } from '@prisma/client';
+import type { SyncJobService } from '../../services/SyncJobService';
+import { Router } from '../router';
+import { registerTenantRoutes } from './tenants';
+import { registerScheduleRoutes } from './schedules';
+import { registerMappingRoutes } from './mappings';
+import { registerConfigRoutes } from './config';
+import { registerJobRoutes } from './jobs';
+
+export interface ApiDependencies {
+  prisma: PrismaClient;
+  syncJobService: SyncJobService;
+}
+
+/**
+ * Build the admin API router with all routes registered
+ */
+export function createApiRouter(deps: ApiDependencies): Router {
+  const router = new Router();
+  registerTenantRoutes(router, deps.prisma, deps.syncJobService);
+  registerScheduleRoutes(router, deps.prisma);
+  registerMappingRoutes(router, deps.prisma);
+  registerConfigRoutes(router, deps.prisma);
+  registerJobRoutes(router, deps.prisma, deps.syncJobService);
+  return router;
+}
@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import { PrismaClient, SyncDirection, SyncStatus, SyncType, TenantStatus } from '@prisma/client';
+import { FINISHED_JOB_STATUSES } from '../../services/SyncJobService';
+import type { SyncJobService } from '../../services/SyncJobService';
+import { HttpError, Router, accepted, ok } from '../router';
+import { paginationSchema, parseBody, parseQuery } from '../validation';
+import { requireTenant } from './tenants';
+
+const listJobsSchema = paginationSchema.extend({
+  status: z.nativeEnum(SyncStatus).optional(),
+  syncType: z.nativeEnum(SyncType).optional(),
+});
+
+const triggerJobSchema = z
+  .object({
+    syncType: z.nativeEnum(SyncType),
+    direction: z.nativeEnum(SyncDirection).optional(),
+    priority: z.number().int().min(1).optional(),
+    dryRun: z.boolean().optional(),
+    // Targeted PRODUCT_DELTA: only these products, always sent (see SyncJobTarget)
+    itemIds: z.array(z.number().int().positive()).optional(),
+    variationIds: z.array(z.number().int().positive()).optional(),
+    skus: z.array(z.string().min(1)).optional(),
+    // Upload the product images again even if unchanged in Plenty
+    refreshMedia: z.boolean().optional(),
+  })
+  .refine(
+    (value) =>
+      value.syncType === SyncType.PRODUCT_DELTA || (!value.itemIds && !value.variationIds && !value.skus),
+    { message: 'itemIds, variationIds and skus are only supported for PRODUCT_DELTA' }
+  )
+  .refine(
+    (value) =>
+      !value.refreshMedia ||
+      value.syncType === SyncType.PRODUCT_DELTA ||
+      value.syncType === SyncType.FULL_PRODUCT,
+    { message: 'refreshMedia is only supported for PRODUCT_DELTA and FULL_PRODUCT' }
+  );
+
+export function registerJobRoutes(router: Router, prisma: PrismaClient, syncJobService: SyncJobService): void {
+  router.get('/tenants/:tenantId/jobs', async ({ params, query }) => {
+    await requireTenant(prisma, params.tenantId);
+    const { status, syncType, limit, offset } = parseQuery(listJobsSchema, query);
+    const where = {
+      tenantId: params.tenantId,
+      ...(status && { status }),
+      ...(syncType && { syncType }),
+    };
+
+    const [jobs, total] = await Promise.all([
+      prisma.syncJob.findMany({ where, orderBy: { createdAt: 'desc' }, take: limit, skip: offset }),
+      prisma.syncJob.count({ where }),
+    ]);
+
+    return ok({ total, limit, offset, jobs });
+  });
+
+  router.post('/tenants/:tenantId/jobs', async ({ params, body }) => {
+    const tenant = await requireTenant(prisma, params.tenantId);
+    if (tenant.status === TenantStatus.PAUSED) {
+      throw new HttpError(409, 'Tenant is paused - resume it before triggering jobs');
+    }
+    const input = parseBody(triggerJobSchema, body);
+    const targeted = !!(input.itemIds?.length || input.variationIds?.length || input.skus?.length);
+    const job = await syncJobService.triggerJob(params.tenantId, input.syncType, {
+      direction: input.direction,
+      priority: input.priority,
+      metadata: {
+        triggeredBy: 'admin-api',
+        ...(input.dryRun && { dryRun: true }),
+        ...(input.refreshMedia && { refreshMedia: true }),
+        ...(targeted && {
+          itemIds: input.itemIds,
+          variationIds: input.variationIds,
+          skus: input.skus,
+          force: true,
+        }),
+      },
+    });
+    return accepted(job);
+  });
+
+  router.get('/jobs/:jobId', async ({ params }) => {
+    const job = await prisma.syncJob.findUnique({ where: { id: params.jobId } });
+    if (!job) {
+      throw new HttpError(404, `Job not found: ${params.jobId}`);
+    }
+
+    const logs = await prisma.syncLog.findMany({
+      where: { jobId: job.id },
+      orderBy: { createdAt: 'asc' },
+      take: 100,
+    });
+    return ok({ ...job, logs });
+  });
+
+  router.post('/jobs/:jobId/cancel', async ({ params }) => {
+    const job = await prisma.syncJob.findUnique({ where: { id: params.jobId } });
+    if (!job) {
+      throw new HttpError(404, `Job not found: ${params.jobId}`);
+    }
+    if (FINISHED_JOB_STATUSES.includes(job.status)) {
+      throw new HttpError(409, `Job already finished with status ${job.status}`);
+    }
+
+    const outcome = await syncJobService.cancelJob(job.id);
+    return accepted({ jobId: job.id, outcome });
+  });
+}
@@ -0,0 +1,184 @@
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { CategoryMappingService } from '../../services/CategoryMappingService';
+import { AttributeMappingService } from '../../services/AttributeMappingService';
+import { SalesPriceMappingService } from '../../services/SalesPriceMappingService';
+import { ManufacturerMappingService } from '../../services/ManufacturerMappingService';
+import { UnitMappingService } from '../../services/UnitMappingService';
+import { DeliveryTimeMappingService } from '../../services/DeliveryTimeMappingService';
+import { HttpError, Router, noContent, ok } from '../router';
+import { parseBody, parseIntParam } from '../validation';
+import { requireTenant } from './tenants';
+
+const setMappingSchema = z.object({
+  shopwareId: z.string().min(1),
+});
+
+interface MappingEntry {
+  plentyId: number;
+  shopwareId: string;
+  mappingType?: string;
+  status?: string;
+  updatedAt: Date;
+}
+
+/**
+ * Uniform access to one mapping table
+ * Writes go through the mapping services; manual mappings are stored as MANUAL
+ */
+interface MappingAdapter {
+  list(tenantId: string): Promise<MappingEntry[]>;
+  set(tenantId: string, plentyId: number, shopwareId: string): Promise<void>;
+  remove(tenantId: string, plentyId: number): Promise<boolean>;
+}
+
+function createAdapters(prisma: PrismaClient): Record<string, MappingAdapter> {
+  const categories = new CategoryMappingService();
+  const attributes = new AttributeMappingService();
+  const salesPrices = new SalesPriceMappingService();
+  const manufacturers = new ManufacturerMappingService();
+  const units = new UnitMappingService();
+  const deliveryTimes = new DeliveryTimeMappingService();
+
+  return {
+    categories: {
+      list: async (tenantId) =>
+        (await prisma.categoryMapping.findMany({ where: { tenantId }, orderBy: { plentyCategoryId: 'asc' } })).map(
+          (m) => ({ ...m, plentyId: m.plentyCategoryId, shopwareId: m.shopwareCategoryId })
+        ),
+      set: async (tenantId, plentyId, shopwareId) => {
+        const existing = await categories.getMapping(tenantId, plentyId);
+        await categories.upsertMappings(tenantId, [
+          {
+            plentyCategoryId: plentyId,
+            shopwareCategoryId: shopwareId,
+            mappingType: 'MANUAL',
+            lastSyncAction: existing ? 'update' : 'create',
+          },
+        ]);
+      },
+      remove: async (tenantId, plentyId) => (await categories.deleteMappingsByCategoryIds(tenantId, [plentyId])) > 0,
+    },
+    attributes: {
+      list: async (tenantId) =>
+        (await prisma.attributeMapping.findMany({ where: { tenantId }, orderBy: { plentyAttributeId: 'asc' } })).map(
+          (m) => ({ ...m, plentyId: m.plentyAttributeId, shopwareId: m.shopwarePropertyGroupId })
+        ),
+      set: async (tenantId, plentyId, shopwareId) => {
+        const existing = await attributes.getAttributeMapping(tenantId, plentyId);
+        await attributes.upsertAttributeMappings(tenantId, [
+          {
+            plentyAttributeId: plentyId,
+            shopwarePropertyGroupId: shopwareId,
+            mappingType: 'MANUAL',
+            lastSyncAction: existing ? 'update' : 'create',
+          },
+        ]);
+      },
+      remove: async (tenantId, plentyId) => (await attributes.deleteAttributeMappingsByIds(tenantId, [plentyId])) > 0,
+    },
+    'sales-prices': {
+      list: async (tenantId) =>
+        (
+          await prisma.salesPriceMapping.findMany({ where: { tenantId }, orderBy: { plentySalesPriceId: 'asc' } })
+        ).map((m) => ({ ...m, plentyId: m.plentySalesPriceId, shopwareId: m.shopwarePriceId })),
+      set: async (tenantId, plentyId, shopwareId) => {
+        const existing = await salesPrices.getMapping(tenantId, plentyId);
+        await salesPrices.upsertMappings(tenantId, [
+          {
+            plentySalesPriceId: plentyId,
+            shopwarePriceId: shopwareId,
+            mappingType: 'MANUAL',
+            lastSyncAction: existing ? 'update' : 'create',
+          },
+        ]);
+      },
+      remove: async (tenantId, plentyId) =>
+        (await salesPrices.deleteMappingsBySalesPriceIds(tenantId, [plentyId])) > 0,
+    },
+    manufacturers: {
+      list: async (tenantId) =>
+        (
+          await prisma.manufacturerMapping.findMany({ where: { tenantId }, orderBy: { plentyManufacturerId: 'asc' } })
+        ).map((m) => ({ ...m, plentyId: m.plentyManufacturerId, shopwareId: m.shopwareManufacturerId })),
+      set: async (tenantId, plentyId, shopwareId) => {
+        const existing = await manufacturers.getMapping(tenantId, plentyId);
+        await manufacturers.upsertMappings(tenantId, [
+          {
+            plentyManufacturerId: plentyId,
+            shopwareManufacturerId: shopwareId,
+            mappingType: 'MANUAL',
+            lastSyncAction: existing ? 'update' : 'create',
+          },
+        ]);
+      },
+      remove: async (tenantId, plentyId) =>
+        (await manufacturers.deleteMappingsByManufacturerIds(tenantId, [plentyId])) > 0,
+    },
+    units: {
+      list: async (tenantId) =>
+        (await prisma.unitMapping.findMany({ where: { tenantId }, orderBy: { plentyUnitId: 'asc' } })).map((m) => ({
+          ...m,
+          plentyId: m.plentyUnitId,
+          shopwareId: m.shopwareUnitId,
+        })),
+      set: async (tenantId, plentyId, shopwareId) => {
+        const existing = await units.getMapping(tenantId, plentyId);
+        await units.upsertMappings(tenantId, [
+          {
+            plentyUnitId: plentyId,
+            shopwareUnitId: shopwareId,
+            mappingType: 'MANUAL',
+            lastSyncAction: existing ? 'update' : 'create',
+          },
+        ]);
+      },
+      remove: async (tenantId, plentyId) => (await units.deleteMappingsByUnitIds(tenantId, [plentyId])) > 0,
+    },
+    'delivery-times': {
+      list: async (tenantId) =>
+        (
+          await prisma.deliveryTimeMapping.findMany({ where: { tenantId }, orderBy: { plentyAvailabilityId: 'asc' } })
+        ).map((m) => ({ ...m, plentyId: m.plentyAvailabilityId, shopwareId: m.shopwareDeliveryTimeId })),
+      set: (tenantId, plentyId, shopwareId) => deliveryTimes.setMapping(tenantId, plentyId, shopwareId),
+      remove: (tenantId, plentyId) => deliveryTimes.deleteMapping(tenantId, plentyId),
+    },
+  };
+}
+
+export function registerMappingRoutes(router: Router, prisma: PrismaClient): void {
+  const adapters = createAdapters(prisma);
+
+  const getAdapter = (type: string): MappingAdapter => {
+    const adapter = adapters[type];
+    if (!adapter) {
+      throw new HttpError(404, `Unknown mapping type: ${type}. Available: ${Object.keys(adapters).join(', ')}`);
+    }
+    return adapter;
+  };
+
+  router.get('/tenants/:tenantId/mappings/:type', async ({ params }) => {
+    const adapter = getAdapter(params.type);
+    await requireTenant(prisma, params.tenantId);
+    return ok(await adapter.list(params.tenantId));
+  });
+
+  router.put('/tenants/:tenantId/mappings/:type/:plentyId', async ({ params, body }) => {
+    const adapter = getAdapter(params.type);
+    const plentyId = parseIntParam(params.plentyId, 'plentyId');
+    await requireTenant(prisma, params.tenantId);
+    const input = parseBody(setMappingSchema, body);
+    await adapter.set(params.tenantId, plentyId, input.shopwareId);
+    return ok({ plentyId, shopwareId: input.shopwareId, mappingType: 'MANUAL' });
+  });
+
+  router.delete('/tenants/:tenantId/mappings/:type/:plentyId', async ({ params }) => {
+    const adapter = getAdapter(params.type);
+    const plentyId = parseIntParam(params.plentyId, 'plentyId');
+    await requireTenant(prisma, params.tenantId);
+    if (!(await adapter.remove(params.tenantId, plentyId))) {
+      throw new HttpError(404, `No ${params.type} mapping for Plenty ID ${plentyId}`);
+    }
+    return noContent();
+  });
+}
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { PrismaClient, SyncDirection, SyncType } from '@prisma/client';
+import { parseExpression } from 'cron-parser';
+import { HttpError, Router, created, noContent, ok } from '../router';
+import { parseBody } from '../validation';
+import { requireTenant } from './tenants';
+
+const cronSchema = z.string().refine(
+  (value) => {
+    try {
+      parseExpression(value);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Invalid cron expression' }
+);
+
+const createScheduleSchema = z.object({
+  syncType: z.nativeEnum(SyncType),
+  cronSchedule: cronSchema,
+  direction: z.nativeEnum(SyncDirection).default(SyncDirection.PLENTY_TO_SHOPWARE),
+  enabled: z.boolean().default(true),
+  priority: z.number().int().default(0),
+});
+
+const updateScheduleSchema = z
+  .object({
+    cronSchedule: cronSchema,
+    enabled: z.boolean(),
+    priority: z.number().int(),
+  })
+  .partial();
+
+function nextRunFor(cronSchedule: string): Date {
+  return parseExpression(cronSchedule).next().toDate();
+}
+
+export function registerScheduleRoutes(router: Router, prisma: PrismaClient): void {
+  router.get('/tenants/:tenantId/schedules', async ({ params }) => {
+    await requireTenant(prisma, params.tenantId);
+    const schedules = await prisma.syncSchedule.findMany({
+      where: { tenantId: params.tenantId },
+      orderBy: [{ syncType: 'asc' }, { direction: 'asc' }],
+    });
+    return ok(schedules);
+  });
+
+  router.post('/tenants/:tenantId/schedules', async ({ params, body }) => {
+    await requireTenant(prisma, params.tenantId);
+    const input = parseBody(createScheduleSchema, body);
+    const schedule = await prisma.syncSchedule.create({
+      data: {
+        tenantId: params.tenantId,
+        ...input,
+        nextRunAt: nextRunFor(input.cronSchedule),
+      },
+    });
+    return created(schedule);
+  });
+
+  router.get('/schedules/:scheduleId', async ({ params }) => {
+    const schedule = await prisma.syncSchedule.findUnique({ where: { id: params.scheduleId } });
+    if (!schedule) {
+      throw new HttpError(404, `Schedule not found: ${params.scheduleId}`);
+    }
+    return ok(schedule);
+  });
+
+  router.patch('/schedules/:scheduleId', async ({ params, body }) => {
+    const input = parseBody(updateScheduleSchema, body);
+    const schedule = await prisma.syncSchedule.update({
+      where: { id: params.scheduleId },
+      data: {
+        ...input,
+        // Recalculate the next run when the cron expression changes
+        ...(input.cronSchedule && { nextRunAt: nextRunFor(input.cronSchedule) }),
+      },
+    });
+    return ok(schedule);
+  });
+
+  router.delete('/schedules/:scheduleId', async ({ params }) => {
+    await prisma.syncSchedule.delete({ where: { id: params.scheduleId } });
+    return noContent();
+  });
+}
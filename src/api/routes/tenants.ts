@@ -0,0 +1,183 @@
+import { z } from 'zod';
+import { PrismaClient, TenantStatus } from '@prisma/client';
+import type { Tenant } from '@prisma/client';
+import { encryptJSON, generateToken, hashToken } from '../../utils/encryption';
+import type { SyncJobService } from '../../services/SyncJobService';
+import { HttpError, Router, created, noContent, ok } from '../router';
+import { parseBody } from '../validation';
+
+const plentyCredentialsSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+const shopwareCredentialsSchema = z.object({
+  clientId: z.string().min(1),
+  clientSecret: z.string().min(1),
+});
+
+const createTenantSchema = z.object({
+  name: z.string().min(1),
+  plentyUrl: z.string().url(),
+  plentyCredentials: plentyCredentialsSchema,
+  shopwareUrl: z.string().url(),
+  shopwareCredentials: shopwareCredentialsSchema,
+  status: z.nativeEnum(TenantStatus).optional(),
+  configSyncSettings: z.record(z.unknown()).optional(),
+});
+
+const updateTenantSchema = z
+  .object({
+    name: z.string().min(1),
+    plentyUrl: z.string().url(),
+    shopwareUrl: z.string().url(),
+    status: z.nativeEnum(TenantStatus),
+    configSyncSettings: z.record(z.unknown()),
+  })
+  .partial();
+
+const rotateCredentialsSchema = z
+  .object({
+    plenty: plentyCredentialsSchema,
+    shopware: shopwareCredentialsSchema,
+  })
+  .partial()
+  .refine((value) => value.plenty || value.shopware, {
+    message: 'Provide plenty and/or shopware credentials',
+  });
+
+/**
+ * Public tenant representation - encrypted credentials never leave the API
+ */
+function serializeTenant(tenant: Tenant) {
+  return {
+    id: tenant.id,
+    name: tenant.name,
+    plentyUrl: tenant.plentyUrl,
+    shopwareUrl: tenant.shopwareUrl,
+    status: tenant.status,
+    configSyncSettings: tenant.configSyncSettings,
+    webhooksEnabled: tenant.webhookSecretHash !== null,
+    createdAt: tenant.createdAt,
+    updatedAt: tenant.updatedAt,
+  };
+}
+
+/**
+ * Load a tenant or throw 404
+ */
+export async function requireTenant(prisma: PrismaClient, tenantId: string): Promise<Tenant> {
+  const tenant = await prisma.tenant.findUnique({ where: { id: tenantId } });
+  if (!tenant) {
+    throw new HttpError(404, `Tenant not found: ${tenantId}`);
+  }
+  return tenant;
+}
+
+export function registerTenantRoutes(router: Router, prisma: PrismaClient, syncJobService: SyncJobService): void {
+  router.get('/tenants', async () => {
+    const tenants = await prisma.tenant.findMany({ orderBy: { createdAt: 'asc' } });
+    return ok(tenants.map(serializeTenant));
+  });
+
+  router.post('/tenants', async ({ body }) => {
+    const input = parseBody(createTenantSchema, body);
+    const tenant = await prisma.tenant.create({
+      data: {
+        name: input.name,
+        plentyUrl: input.plentyUrl,
+        plentyCredentials: encryptJSON(input.plentyCredentials),
+        shopwareUrl: input.shopwareUrl,
+        shopwareCredentials: encryptJSON(input.shopwareCredentials),
+        status: input.status,
+        ...(input.configSyncSettings && { configSyncSettings: input.configSyncSettings as object }),
+      },
+    });
+    return created(serializeTenant(tenant));
+  });
+
+  router.get('/tenants/:tenantId', async ({ params }) => {
+    return ok(serializeTenant(await requireTenant(prisma, params.tenantId)));
+  });
+
+  router.patch('/tenants/:tenantId', async ({ params, body }) => {
+    const { status, ...input } = parseBody(updateTenantSchema, body);
+    const current = await requireTenant(prisma, params.tenantId);
+
+    // Pausing goes through the pause flow, which also drains the tenant's queued jobs
+    const pausing = status === TenantStatus.PAUSED && current.status !== TenantStatus.PAUSED;
+    if (pausing && current.status !== TenantStatus.ACTIVE) {
+      throw new HttpError(409, `Tenant is not active (status ${current.status})`);
+    }
+
+    const tenant = await prisma.tenant.update({
+      where: { id: params.tenantId },
+      data: {
+        ...input,
+        ...(status && !pausing && { status }),
+        ...(input.configSyncSettings && { configSyncSettings: input.configSyncSettings as object }),
+      },
+    });
+
+    if (pausing) {
+      const cancelledJobs = await syncJobService.pauseTenant(params.tenantId);
+      return ok({ ...serializeTenant(await requireTenant(prisma, params.tenantId)), cancelledJobs });
+    }
+    return ok(serializeTenant(tenant));
+  });
+
+  router.delete('/tenants/:tenantId', async ({ params }) => {
+    await prisma.tenant.delete({ where: { id: params.tenantId } });
+    return noContent();
+  });
+
+  // Credential rotation - new credentials are encrypted before they are stored
+  router.put('/tenants/:tenantId/credentials', async ({ params, body }) => {
+    const input = parseBody(rotateCredentialsSchema, body);
+    const tenant = await prisma.tenant.update({
+      where: { id: params.tenantId },
+      data: {
+        ...(input.plenty && { plentyCredentials: encryptJSON(input.plenty) }),
+        ...(input.shopware && { shopwareCredentials: encryptJSON(input.shopware) }),
+      },
+    });
+    return ok(serializeTenant(tenant));
+  });
+
+  // Webhook secret - returned once, only its hash is stored
+  router.post('/tenants/:tenantId/webhook-secret', async ({ params }) => {
+    const secret = generateToken();
+    await prisma.tenant.update({
+      where: { id: params.tenantId },
+      data: { webhookSecretHash: hashToken(secret) },
+    });
+    return created({ secret, path: `/webhooks/plenty/${params.tenantId}` });
+  });
+
+  router.delete('/tenants/:tenantId/webhook-secret', async ({ params }) => {
+    await prisma.tenant.update({
+      where: { id: params.tenantId },
+      data: { webhookSecretHash: null },
+    });
+    return noContent();
+  });
+
+  // Pause: the scheduler skips the tenant and its queued jobs are cancelled
+  router.post('/tenants/:tenantId/pause', async ({ params }) => {
+    const tenant = await requireTenant(prisma, params.tenantId);
+    if (tenant.status !== TenantStatus.ACTIVE) {
+      throw new HttpError(409, `Tenant is not active (status ${tenant.status})`);
+    }
+    const cancelledJobs = await syncJobService.pauseTenant(params.tenantId);
+    return ok({ ...serializeTenant(await requireTenant(prisma, params.tenantId)), cancelledJobs });
+  });
+
+  router.post('/tenants/:tenantId/resume', async ({ params }) => {
+    const tenant = await requireTenant(prisma, params.tenantId);
+    if (tenant.status !== TenantStatus.PAUSED) {
+      throw new HttpError(409, `Tenant is not paused (status ${tenant.status})`);
+    }
+    await syncJobService.resumeTenant(params.tenantId);
+    return ok(serializeTenant(await requireTenant(prisma, params.tenantId)));
+  });
+}
@@ -0,0 +1,146 @@
+import http from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { createLogger } from '../utils/logger';
+import { HttpError, Router } from './router';
+import type { ApiResponse } from './router';
+
+const MAX_BODY_BYTES = 1024 * 1024; // 1 MB
+
+export interface ApiServerConfig {
+  token: string; // Bearer token required on every route except /health
+  router: Router;
+}
+
+const log = createLogger({ component: 'AdminApi' });
+
+/**
+ * Create the admin API HTTP server
+ * JSON in, JSON out. Handlers throw HttpError for client errors.
+ */
+export function createApiServer(config: ApiServerConfig): http.Server {
+  const expectedToken = digest(config.token);
+
+  return http.createServer(async (req, res) => {
+    const startTime = Date.now();
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = req.method || 'GET';
+
+    let response: ApiResponse;
+    try {
+      if (url.pathname === '/health') {
+        response = { status: 200, body: { status: 'ok' } };
+      } else {
+        authenticate(req, expectedToken);
+        response = await dispatch(config.router, req, method, url);
+      }
+    } catch (error) {
+      response = toErrorResponse(error, method, url.pathname);
+    }
+
+    send(res, response);
+    log.info('API request', {
+      method,
+      path: url.pathname,
+      status: response.status,
+      duration: Date.now() - startTime,
+    });
+  });
+}
+
+async function dispatch(router: Router, req: http.IncomingMessage, method: string, url: URL): Promise<ApiResponse> {
+  const match = router.match(method, url.pathname);
+  if (!match) {
+    throw new HttpError(404, `Not found: ${url.pathname}`);
+  }
+  if ('methodNotAllowed' in match) {
+    throw new HttpError(405, `Method ${method} not allowed on ${url.pathname}`);
+  }
+
+  const body = ['POST', 'PUT', 'PATCH'].includes(method) ? await readJsonBody(req) : undefined;
+  return match.handler({ params: match.params, query: url.searchParams, body });
+}
+
+/**
+ * Check the Authorization: Bearer header (constant-time comparison)
+ */
+function authenticate(req: http.IncomingMessage, expectedToken: Buffer): void {
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+
+  if (scheme !== 'Bearer' || !token || !timingSafeEqual(digest(token), expectedToken)) {
+    throw new HttpError(401, 'Unauthorized');
+  }
+}
+
+export function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+export async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8').trim();
+  if (!raw) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+/**
+ * Map thrown errors to responses
+ * Prisma "record not found" and unique constraint errors become 404/409.
+ */
+export function toErrorResponse(error: unknown, method: string, path: string): ApiResponse {
+  if (error instanceof HttpError) {
+    return {
+      status: error.status,
+      body: { error: error.message, ...(error.details !== undefined && { details: error.details }) },
+    };
+  }
+
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === 'P2025') {
+      return { status: 404, body: { error: 'Record not found' } };
+    }
+    if (error.code === 'P2002') {
+      return { status: 409, body: { error: 'Record already exists', details: error.meta } };
+    }
+  }
+
+  log.error('API request failed', {
+    method,
+    path,
+    error: error instanceof Error ? error.message : String(error),
+  });
+  return { status: 500, body: { error: 'Internal server error' } };
+}
+
+export function send(res: http.ServerResponse, response: ApiResponse): void {
+  if (response.body === undefined) {
+    res.writeHead(response.status);
+    res.end();
+    return;
+  }
+
+  const payload = JSON.stringify(response.body);
+  res.writeHead(response.status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(payload),
+  });
+  res.end(payload);
+}
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { HttpError } from './router';
+
+/**
+ * Validate a request body against a zod schema
+ * Throws a 400 HttpError with the flattened zod issues on failure
+ */
+export function parseBody<T extends z.ZodTypeAny>(schema: T, body: unknown): z.infer<T> {
+  const result = schema.safeParse(body ?? {});
+  if (!result.success) {
+    throw new HttpError(400, 'Invalid request body', result.error.flatten());
+  }
+  return result.data;
+}
+
+/**
+ * Validate query parameters against a zod schema (values arrive as strings - use z.coerce)
+ */
+export function parseQuery<T extends z.ZodTypeAny>(schema: T, query: URLSearchParams): z.infer<T> {
+  const result = schema.safeParse(Object.fromEntries(query.entries()));
+  if (!result.success) {
+    throw new HttpError(400, 'Invalid query parameters', result.error.flatten());
+  }
+  return result.data;
+}
+
+/**
+ * Parse a numeric path parameter (e.g. a Plenty ID)
+ */
+export function parseIntParam(value: string, name: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new HttpError(400, `Invalid ${name}: ${value}`);
+  }
+  return parsed;
+}
+
+export const paginationSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
@@ -0,0 +1,105 @@
+import http from 'http';
+import { z } from 'zod';
+import { createLogger } from '../utils/logger';
+import { WEBHOOK_EVENTS } from '../services/WebhookService';
+import type { WebhookEvent, WebhookService } from '../services/WebhookService';
+import { HttpError, Router, accepted } from './router';
+import type { ApiResponse } from './router';
+import { readJsonBody, send, toErrorResponse } from './server';
+import { parseBody } from './validation';
+
+const variationIdSchema = z.number().int().positive();
+
+// Plenty event procedures send a single variation, our own plugins may send a list
+const webhookEventSchema = z.object({
+  event: z.enum(WEBHOOK_EVENTS as [WebhookEvent, ...WebhookEvent[]]),
+  variationId: variationIdSchema.optional(),
+  variationIds: z.array(variationIdSchema).max(10000).optional(),
+  orderId: z.number().int().positive().optional(),
+});
+
+export interface WebhookServerConfig {
+  webhookService: WebhookService;
+}
+
+const log = createLogger({ component: 'WebhookReceiver' });
+
+/**
+ * Create the webhook receiver HTTP server
+ * POST /webhooks/plenty/:tenantId - authenticated with the tenant's webhook secret,
+ * sent as "X-Webhook-Secret" header or "secret" query parameter (Plenty event
+ * procedures cannot set headers).
+ */
+export function createWebhookServer(config: WebhookServerConfig): http.Server {
+  const { webhookService } = config;
+  const router = createWebhookRouter(webhookService);
+
+  return http.createServer(async (req, res) => {
+    const startTime = Date.now();
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = req.method || 'GET';
+
+    let response: ApiResponse;
+    try {
+      if (url.pathname === '/health') {
+        response = { status: 200, body: { status: 'ok' } };
+      } else {
+        const match = router.match(method, url.pathname);
+        if (!match) {
+          throw new HttpError(404, `Not found: ${url.pathname}`);
+        }
+        if ('methodNotAllowed' in match) {
+          throw new HttpError(405, `Method ${method} not allowed on ${url.pathname}`);
+        }
+
+        // Authenticate before reading the body
+        const secret = req.headers['x-webhook-secret'] || url.searchParams.get('secret') || '';
+        if (typeof secret !== 'string' || !(await webhookService.authenticate(match.params.tenantId, secret))) {
+          throw new HttpError(401, 'Unauthorized');
+        }
+
+        const body = await readJsonBody(req);
+        response = await match.handler({ params: match.params, query: url.searchParams, body });
+      }
+    } catch (error) {
+      response = toErrorResponse(error, method, url.pathname);
+    }
+
+    send(res, response);
+    log.info('Webhook request', {
+      method,
+      path: url.pathname,
+      status: response.status,
+      duration: Date.now() - startTime,
+    });
+  });
+}
+
+/**
+ * Webhook routes - requests reach them only after authentication
+ */
+function createWebhookRouter(webhookService: WebhookService): Router {
+  const router = new Router();
+
+  router.post('/webhooks/plenty/:tenantId', async ({ params, body }) => {
+    const input = parseBody(webhookEventSchema, body);
+
+    if (!(await webhookService.isTenantActive(params.tenantId))) {
+      throw new HttpError(409, 'Tenant is not active - event ignored');
+    }
+
+    const variationIds = [...(input.variationIds || []), ...(input.variationId ? [input.variationId] : [])];
+    const outcome = webhookService.enqueue(params.tenantId, input.event, variationIds);
+
+    log.info('Webhook event received', {
+      tenantId: params.tenantId,
+      event: input.event,
+      orderId: input.orderId,
+      variationIds: variationIds.length,
+    });
+
+    return accepted({ event: input.event, ...outcome });
+  });
+
+  return router;
+}
@@ -5,6 +5,7 @@ import { IShopwareClient, MockShopwareClientConfig } from './interfaces';
 import {
   ShopwareProduct,
   ShopwareStockUpdate,
+  ShopwareStockChange,
   ShopwareSyncResult,
   ShopwareBulkProduct,
   ShopwareBulkSyncResult,
@@ -14,6 +15,19 @@ import {
   ShopwarePropertyOption,
   ShopwareManufacturer,
   ShopwareUnit,
+  ShopwareRuleCondition,
+  ShopwareOrder,
+  ShopwareCustomer,
+  ShopwareCustomerGroup,
+  ShopwareCurrency,
+  ShopwareTax,
+  ShopwareDeliveryTime,
+  ShopwareLanguage,
+  ShopwareSeoUrl,
+  ShopwareSeoUrlResult,
+  ShopwareConfigEntity,
+  ShopwareMediaTranslation,
+  ShopwareMediaMetadata,
 } from '../types/shopware';
 
 /**
@@ -350,6 +364,13 @@ export class MockShopwareClient implements IShopwareClient {
     }
   }
 
+  /**
+   * Get product snapshot - mock products have no associations, same as getProductBySku
+   */
+  async getProductSnapshot(sku: string): Promise<ShopwareProduct | null> {
+    return this.getProductBySku(sku);
+  }
+
   /**
    * Get product by SKU
    */
@@ -455,6 +476,53 @@ export class MockShopwareClient implements IShopwareClient {
     }
   }
 
+  /**
+   * Set products inactive - mock implementation
+   */
+  async deactivateProducts(productIds: string[]): Promise<{ success: boolean; updated: number; errors: string[] }> {
+    const result = await this.prisma.mockShopwareProduct.updateMany({
+      where: { tenantId: this.tenantId, id: { in: productIds } },
+      data: { active: false },
+    });
+
+    this.log.info('Mock Shopware: Products deactivated', { count: result.count });
+    return { success: true, updated: result.count, errors: [] };
+  }
+
+  /**
+   * Delete products - mock implementation
+   */
+  async deleteProducts(productIds: string[]): Promise<{ success: boolean; deleted: number; errors: string[] }> {
+    const result = await this.prisma.mockShopwareProduct.deleteMany({
+      where: { tenantId: this.tenantId, id: { in: productIds } },
+    });
+
+    this.log.info('Mock Shopware: Products deleted', { count: result.count });
+    return { success: true, deleted: result.count, errors: [] };
+  }
+
+  /**
+   * Remove product visibilities - mock implementation (mock products have no visibilities)
+   */
+  async removeProductVisibilities(
+    productIds: string[],
+    salesChannelId?: string
+  ): Promise<{ success: boolean; removed: number; errors: string[] }> {
+    this.log.info('Mock Shopware: Removing product visibilities', { count: productIds.length, salesChannelId });
+    return { success: true, removed: productIds.length, errors: [] };
+  }
+
+  /**
+   * Add product visibilities - mock implementation
+   */
+  async addProductVisibilities(
+    productIds: string[],
+    salesChannelId: string
+  ): Promise<{ success: boolean; added: number; errors: string[] }> {
+    this.log.info('Mock Shopware: Adding product visibilities', { count: productIds.length, salesChannelId });
+    return { success: true, added: productIds.length, errors: [] };
+  }
+
   /**
    * Update stock for a product using SKU (legacy method, prefer updateStockById)
    * @deprecated Use updateStockById instead for more reliable updates
@@ -543,6 +611,32 @@ export class MockShopwareClient implements IShopwareClient {
     return results;
   }
 
+  /**
+   * Get the current stock of the given products
+   */
+  async getProductStocks(productIds: string[]): Promise<ShopwareStockChange[]> {
+    const products = await this.prisma.mockShopwareProduct.findMany({
+      where: {
+        tenantId: this.tenantId,
+        id: { in: productIds },
+      },
+      select: { id: true, productNumber: true, stock: true, updatedAt: true },
+      orderBy: { id: 'asc' },
+    });
+
+    this.log.info('Mock Shopware: Fetched product stocks', {
+      requested: productIds.length,
+      count: products.length,
+    });
+
+    return products.map((p) => ({
+      id: p.id,
+      productNumber: p.productNumber,
+      stock: p.stock,
+      updatedAt: p.updatedAt.toISOString(),
+    }));
+  }
+
   // ============================================
   // MEDIA METHODS
   // ============================================
@@ -555,6 +649,7 @@ export class MockShopwareClient implements IShopwareClient {
     folderId?: string;
     title?: string;
     alt?: string;
+    translations?: Record<string, ShopwareMediaTranslation>;
   }): Promise<ShopwareSyncResult> {
     this.log.info('Mock Shopware: Creating media entity', { fileName: params.fileName });
 
@@ -567,6 +662,7 @@ export class MockShopwareClient implements IShopwareClient {
         title: params.title,
         alt: params.alt,
         folderId: params.folderId,
+        rawShopwareData: params.translations ? ({ translations: params.translations } as unknown as object) : undefined,
       },
     });
 
@@ -611,6 +707,7 @@ export class MockShopwareClient implements IShopwareClient {
     folderId?: string;
     title?: string;
     alt?: string;
+    translations?: Record<string, ShopwareMediaTranslation>;
   }): Promise<ShopwareSyncResult & { mimeType?: string; fileSize?: number }> {
     this.log.info('Mock Shopware: Creating media from URL', { sourceUrl: params.sourceUrl, fileName: params.fileName });
 
@@ -635,6 +732,7 @@ export class MockShopwareClient implements IShopwareClient {
         title: params.title,
         alt: params.alt,
         folderId: params.folderId,
+        rawShopwareData: params.translations ? ({ translations: params.translations } as unknown as object) : undefined,
         sourceUrl: params.sourceUrl,
         fileSize: 0, // We don't actually download in mock mode
       },
@@ -650,6 +748,39 @@ export class MockShopwareClient implements IShopwareClient {
     };
   }
 
+  /**
+   * Update title, alt text and their translations of a media entity
+   */
+  async updateMediaMetadata(mediaId: string, metadata: ShopwareMediaMetadata): Promise<ShopwareSyncResult> {
+    this.log.info('Mock Shopware: Updating media metadata', { mediaId });
+
+    try {
+      await this.prisma.mockShopwareMedia.update({
+        where: { id: mediaId },
+        data: {
+          title: metadata.title || null,
+          alt: metadata.alt || null,
+          rawShopwareData: { translations: metadata.translations || {} } as unknown as object,
+        },
+      });
+
+      return {
+        id: mediaId,
+        productNumber: '',
+        action: 'update',
+        success: true,
+      };
+    } catch (error) {
+      return {
+        id: mediaId,
+        productNumber: '',
+        action: 'error',
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
   /**
    * Get media by ID
    */
@@ -728,6 +859,23 @@ export class MockShopwareClient implements IShopwareClient {
     return { removed: 0, kept: expectedPropertyOptionIds.length, errors: [] };
   }
 
+  /**
+   * Get product price IDs - mock implementation
+   */
+  async getProductPriceIds(_productId: string): Promise<string[]> {
+    return [];
+  }
+
+  /**
+   * Sync advanced prices - mock implementation
+   */
+  async syncProductPrices(
+    _productId: string,
+    expectedPriceIds: string[]
+  ): Promise<{ removed: number; kept: number; errors: string[] }> {
+    return { removed: 0, kept: expectedPriceIds.length, errors: [] };
+  }
+
   /**
    * Sync configurator settings for a parent product (mock implementation)
    */
@@ -764,6 +912,18 @@ export class MockShopwareClient implements IShopwareClient {
     };
   }
 
+  /**
+   * Get all taxes (mock implementation)
+   * Returns the German standard, reduced and zero rates
+   */
+  async getTaxes(): Promise<ShopwareTax[]> {
+    return [
+      { id: '0193e95fe3a6749ebcaa24ff0f3f5c82', taxRate: 19, name: 'Standard rate', position: 1 },
+      { id: '0193e95fe3a6749ebcaa24ff0f3f5c85', taxRate: 7, name: 'Reduced rate', position: 2 },
+      { id: '0193e95fe3a6749ebcaa24ff0f3f5c86', taxRate: 0, name: 'Tax free', position: 3 },
+    ];
+  }
+
   /**
    * Get the default currency (mock implementation)
    * Returns EUR as the default currency
@@ -776,6 +936,77 @@ export class MockShopwareClient implements IShopwareClient {
     };
   }
 
+  /**
+   * Get all currencies (mock implementation)
+   * Returns EUR (system default), CHF and GBP with fixed factors
+   */
+  async getCurrencies(): Promise<ShopwareCurrency[]> {
+    return [
+      {
+        id: 'b7d2554b0ce847cd82f3ac9bd1c0dfca',
+        isoCode: 'EUR',
+        factor: 1,
+        symbol: '€',
+        shortName: 'EUR',
+        name: 'Euro',
+        position: 1,
+        isSystemDefault: true,
+      },
+      {
+        id: '0193e95fe3a6749ebcaa24ff0f3f5c83',
+        isoCode: 'CHF',
+        factor: 0.94,
+        symbol: 'CHF',
+        shortName: 'CHF',
+        name: 'Swiss franc',
+        position: 2,
+        isSystemDefault: false,
+      },
+      {
+        id: '0193e95fe3a6749ebcaa24ff0f3f5c84',
+        isoCode: 'GBP',
+        factor: 0.85,
+        symbol: '£',
+        shortName: 'GBP',
+        name: 'Pound',
+        position: 3,
+        isSystemDefault: false,
+      },
+    ];
+  }
+
+  /**
+   * Get all delivery times (mock implementation)
+   * Returns the Shopware default delivery times
+   */
+  async getDeliveryTimes(): Promise<ShopwareDeliveryTime[]> {
+    return [
+      { id: '0193e95fe3a6749ebcaa24ff0f3f5c87', name: '1-3 days', min: 1, max: 3, unit: 'day' },
+      { id: '0193e95fe3a6749ebcaa24ff0f3f5c88', name: '2-5 days', min: 2, max: 5, unit: 'day' },
+      { id: '0193e95fe3a6749ebcaa24ff0f3f5c89', name: '1-2 weeks', min: 1, max: 2, unit: 'week' },
+    ];
+  }
+
+  /**
+   * Get all languages (mock implementation)
+   * Returns German (system default) and English
+   */
+  async getLanguages(): Promise<ShopwareLanguage[]> {
+    return [
+      { id: '2fbb5fe2e29a4d70aa5854ce7ce3e20b', name: 'Deutsch', localeCode: 'de-DE' },
+      { id: '0193e95fe3a6749ebcaa24ff0f3f5c8a', name: 'English', localeCode: 'en-GB' },
+    ];
+  }
+
+  /**
+   * Set canonical SEO URLs (mock implementation)
+   * Mock mode has no storefront - the URLs are only logged
+   */
+  async updateCanonicalSeoUrls(seoUrls: ShopwareSeoUrl[]): Promise<ShopwareSeoUrlResult[]> {
+    this.log.info('Mock Shopware: Updating canonical SEO URLs', { count: seoUrls.length });
+    return seoUrls.map((seoUrl) => ({ seoUrl, success: true }));
+  }
+
   /**
    * Check if authenticated
    */
@@ -894,6 +1125,8 @@ export class MockShopwareClient implements IShopwareClient {
       active: category.active,
       visible: category.visible,
       level: category.level,
+      afterCategoryId: (category.rawShopwareData as Partial<ShopwareCategory> | null)?.afterCategoryId ?? null,
+      mediaId: (category.rawShopwareData as Partial<ShopwareCategory> | null)?.mediaId ?? null,
       _plentyCategoryId: category.plentyCategoryId || undefined,
     };
   }
@@ -1081,6 +1314,7 @@ export class MockShopwareClient implements IShopwareClient {
       name: string;
       priority?: number;
       translations?: Record<string, { name: string }>;
+      conditions?: ShopwareRuleCondition[]; // Replaces the rule's existing conditions when set
     }>
   ): Promise<ShopwareBulkSyncResult> {
     this.log.info('Mock Shopware: Bulk syncing prices', { count: prices.length });
@@ -1430,6 +1664,54 @@ export class MockShopwareClient implements IShopwareClient {
     };
   }
 
+  /**
+   * Deactivate categories - mock implementation
+   */
+  async deactivateCategories(categoryIds: string[]): Promise<{ success: boolean; updated: number; errors: string[] }> {
+    const result = await this.prisma.mockShopwareCategory.updateMany({
+      where: { tenantId: this.tenantId, id: { in: categoryIds } },
+      data: { active: false },
+    });
+
+    this.log.info('Mock Shopware: Categories deactivated', { count: result.count });
+    return { success: true, updated: result.count, errors: [] };
+  }
+
+  /**
+   * Delete config entities - mock implementation
+   */
+  async deleteConfigEntities(
+    entity: ShopwareConfigEntity,
+    ids: string[]
+  ): Promise<{ success: boolean; deleted: number; errors: string[] }> {
+    const where = { tenantId: this.tenantId, id: { in: ids } };
+    let result: { count: number };
+
+    switch (entity) {
+      case 'category':
+        result = await this.prisma.mockShopwareCategory.deleteMany({ where });
+        break;
+      case 'property_group':
+        await this.prisma.mockShopwarePropertyOption.deleteMany({
+          where: { tenantId: this.tenantId, propertyGroupId: { in: ids } },
+        });
+        result = await this.prisma.mockShopwarePropertyGroup.deleteMany({ where });
+        break;
+      case 'property_group_option':
+        result = await this.prisma.mockShopwarePropertyOption.deleteMany({ where });
+        break;
+      case 'product_manufacturer':
+        result = await this.prisma.mockShopwareManufacturer.deleteMany({ where });
+        break;
+      case 'unit':
+        result = await this.prisma.mockShopwareUnit.deleteMany({ where });
+        break;
+    }
+
+    this.log.info('Mock Shopware: Config entities deleted', { entity, count: result.count });
+    return { success: true, deleted: result.count, errors: [] };
+  }
+
   /**
    * Create a property group
    */
@@ -1807,6 +2089,182 @@ export class MockShopwareClient implements IShopwareClient {
     return null;
   }
 
+  // ============================================
+  // ORDER METHODS
+  // ============================================
+
+  /**
+   * Get orders created since the given date (oldest first)
+   * Returns orders seeded via seedOrder()
+   */
+  async getOrdersSince(since: Date | null, limit?: number): Promise<ShopwareOrder[]> {
+    const orders = await this.prisma.mockShopwareOrder.findMany({
+      where: {
+        tenantId: this.tenantId,
+        ...(since ? { createdAt: { gte: since } } : {}),
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+
+    this.log.info('Mock Shopware: Fetched orders', { since: since?.toISOString(), count: orders.length });
+
+    return orders.map((o) => ({
+      ...(o.rawShopwareData as unknown as ShopwareOrder),
+      id: o.id,
+      createdAt: o.createdAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Seed a mock order (mock only - for testing order import offline)
+   */
+  async seedOrder(order: Omit<ShopwareOrder, 'id'> & { id?: string }): Promise<ShopwareOrder> {
+    const id = order.id || crypto.randomUUID().replace(/-/g, '');
+    const payload: ShopwareOrder = { ...order, id };
+
+    const created = await this.prisma.mockShopwareOrder.create({
+      data: {
+        id,
+        tenantId: this.tenantId,
+        orderNumber: order.orderNumber,
+        orderDate: new Date(order.orderDateTime),
+        customerEmail: order.orderCustomer.email,
+        amountTotal: order.amountTotal,
+        currency: order.currencyIsoCode || 'EUR',
+        rawShopwareData: payload as unknown as object,
+      },
+    });
+
+    this.log.info('Mock Shopware: Order seeded', {
+      id: created.id,
+      orderNumber: created.orderNumber,
+      lineItems: order.lineItems.length,
+    });
+
+    return { ...payload, createdAt: created.createdAt.toISOString() };
+  }
+
+  /**
+   * Delete all orders for this tenant (useful for testing)
+   */
+  async deleteAllOrders(): Promise<number> {
+    const result = await this.prisma.mockShopwareOrder.deleteMany({
+      where: { tenantId: this.tenantId },
+    });
+    this.log.info('Mock Shopware: Deleted all orders', { count: result.count });
+    return result.count;
+  }
+
+  // ============================================
+  // CUSTOMER METHODS
+  // ============================================
+
+  /**
+   * Get customers created or updated since the given date (oldest change first)
+   * Returns customers seeded via seedCustomer()
+   */
+  async getCustomersChangedSince(since: Date | null, limit?: number): Promise<ShopwareCustomer[]> {
+    const customers = await this.prisma.mockShopwareCustomer.findMany({
+      where: {
+        tenantId: this.tenantId,
+        ...(since ? { updatedAt: { gte: since } } : {}),
+      },
+      orderBy: { updatedAt: 'asc' },
+      take: limit,
+    });
+
+    this.log.info('Mock Shopware: Fetched customers', {
+      since: since?.toISOString(),
+      count: customers.length,
+    });
+
+    return customers.map((c) => ({
+      ...(c.rawShopwareData as unknown as ShopwareCustomer),
+      id: c.id,
+      createdAt: c.createdAt.toISOString(),
+      updatedAt: c.updatedAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Get customer groups referenced by the seeded customers
+   */
+  async getCustomerGroups(): Promise<ShopwareCustomerGroup[]> {
+    const customers = await this.prisma.mockShopwareCustomer.findMany({
+      where: { tenantId: this.tenantId },
+      select: { groupId: true, rawShopwareData: true },
+    });
+
+    const groups = new Map<string, ShopwareCustomerGroup>();
+    for (const customer of customers) {
+      const data = customer.rawShopwareData as unknown as ShopwareCustomer;
+      groups.set(customer.groupId, {
+        id: customer.groupId,
+        name: data.groupName || customer.groupId,
+      });
+    }
+
+    return Array.from(groups.values());
+  }
+
+  /**
+   * Seed (or update) a mock customer (mock only - for testing customer sync offline)
+   * Re-seeding an existing customer number bumps updatedAt, so it is picked up by the next delta run.
+   */
+  async seedCustomer(
+    customer: Omit<ShopwareCustomer, 'id'> & { id?: string }
+  ): Promise<ShopwareCustomer> {
+    const existing = await this.prisma.mockShopwareCustomer.findUnique({
+      where: {
+        tenantId_customerNumber: { tenantId: this.tenantId, customerNumber: customer.customerNumber },
+      },
+    });
+    const id = existing?.id || customer.id || crypto.randomUUID().replace(/-/g, '');
+    const payload: ShopwareCustomer = { ...customer, id };
+
+    const saved = await this.prisma.mockShopwareCustomer.upsert({
+      where: { id },
+      create: {
+        id,
+        tenantId: this.tenantId,
+        customerNumber: customer.customerNumber,
+        email: customer.email,
+        groupId: customer.groupId,
+        rawShopwareData: payload as unknown as object,
+      },
+      update: {
+        email: customer.email,
+        groupId: customer.groupId,
+        rawShopwareData: payload as unknown as object,
+      },
+    });
+
+    this.log.info('Mock Shopware: Customer seeded', {
+      id: saved.id,
+      customerNumber: saved.customerNumber,
+      addresses: customer.addresses.length,
+      action: existing ? 'update' : 'create',
+    });
+
+    return {
+      ...payload,
+      createdAt: saved.createdAt.toISOString(),
+      updatedAt: saved.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Delete all customers for this tenant (useful for testing)
+   */
+  async deleteAllCustomers(): Promise<number> {
+    const result = await this.prisma.mockShopwareCustomer.deleteMany({
+      where: { tenantId: this.tenantId },
+    });
+    this.log.info('Mock Shopware: Deleted all customers', { count: result.count });
+    return result.count;
+  }
+
   /**
    * Delete all products for this tenant (useful for testing)
    */
@@ -1,5 +1,7 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
 import { createLogger } from '../utils/logger';
+import { mapWithConcurrency } from '../utils/concurrency';
+import type { PlentyRateLimiter } from './PlentyRateLimiter';
 import {
   PlentyCredentials,
   PlentyAuthResponse,
@@ -14,19 +16,42 @@ import {
   PlentyUnit,
   PlentyProperty,
   PlentyStockManagementEntry,
+  PlentyStorageLocationStock,
+  PlentyStockCorrection,
   PlentyItemImage,
   PlentyImageVariationLink,
+  PlentyOrder,
+  PlentyOrderCreateRequest,
+  PlentyContact,
+  PlentyContactCreateRequest,
+  PlentyContactUpdateRequest,
+  PlentyContactOption,
+  PlentyContactOptionRequest,
+  PlentyCustomerClass,
+  PlentyAddress,
+  PlentyAddressCreateRequest,
+  PlentyCountry,
+  PlentyVatConfiguration,
+  PlentyAvailability,
 } from '../types/plenty';
 
 const DEFAULT_TIMEOUT = 30000; // 30 seconds
 const DEFAULT_ITEMS_PER_PAGE = 100;
+const VARIATION_ID_CHUNK_SIZE = 100; // IDs per request for targeted variation lookups
 const MAX_RETRIES = 3;
 const RETRY_DELAY_MS = 1000;
+const IMAGE_FETCH_CONCURRENCY = 5; // Parallel image / image link requests
+
+export interface VariationIterationOptions {
+  startPage?: number; // First page to fetch (default 1)
+  prefetch?: number; // Pages fetched ahead of the consumer (default 1, 0 = strictly sequential)
+}
 
 export interface PlentyClientConfig {
   baseUrl: string;
   credentials: PlentyCredentials;
   timeout?: number;
+  rateLimiter?: PlentyRateLimiter; // Shares the API quota with other workers (without: 429s are only retried)
 }
 
 export class PlentyClient {
@@ -35,15 +60,19 @@ export class PlentyClient {
   private credentials: PlentyCredentials;
   private accessToken: string | null = null;
   private tokenExpiresAt: Date | null = null;
+  private rateLimiter: PlentyRateLimiter | null;
+  private timeout: number;
   private log = createLogger({ client: 'PlentyClient' });
 
   constructor(config: PlentyClientConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, ''); // Remove trailing slash
     this.credentials = config.credentials;
+    this.rateLimiter = config.rateLimiter || null;
+    this.timeout = config.timeout || DEFAULT_TIMEOUT;
 
     this.client = axios.create({
       baseURL: this.baseUrl,
-      timeout: config.timeout || DEFAULT_TIMEOUT,
+      timeout: this.timeout,
       headers: {
         'Content-Type': 'application/json',
         Accept: 'application/json',
@@ -57,24 +86,6 @@ export class PlentyClient {
       }
       return config;
     });
-
-    // Add response interceptor for error handling
-    this.client.interceptors.response.use(
-      (response) => response,
-      async (error: AxiosError) => {
-        if (error.response?.status === 401) {
-          // Token expired, try to re-authenticate
-          this.log.warn('Token expired, re-authenticating');
-          await this.authenticate();
-          // Retry the original request
-          if (error.config) {
-            error.config.headers.Authorization = `Bearer ${this.accessToken}`;
-            return this.client.request(error.config);
-          }
-        }
-        throw error;
-      }
-    );
   }
 
   private isTokenExpired(): boolean {
@@ -90,9 +101,13 @@ export class PlentyClient {
     try {
       this.log.info('Authenticating with Plenty API', { baseUrl: this.baseUrl });
 
-      const response = await axios.post<PlentyAuthResponse>(`${this.baseUrl}/rest/login`, {
-        username: this.credentials.username,
-        password: this.credentials.password,
+      const response = await this.schedule<PlentyAuthResponse>({
+        method: 'post',
+        url: '/rest/login',
+        data: {
+          username: this.credentials.username,
+          password: this.credentials.password,
+        },
       });
 
       this.accessToken = response.data.accessToken;
@@ -146,7 +161,7 @@ export class PlentyClient {
         }
         console.log('Full Request URL:', url.toString());
 
-        const response = await this.client.get<T>(endpoint, { params });
+        const response = await this.send<T>({ method: 'get', url: endpoint, params });
         return response.data;
       } catch (error) {
         const axiosError = error as AxiosError;
@@ -179,11 +194,13 @@ export class PlentyClient {
           throw lastError;
         }
 
-        // Rate limit - wait longer
+        // Rate limit - wait longer (the rate limiter already paused all requests to this system)
         if (axiosError.response?.status === 429) {
-          const retryAfter = parseInt(axiosError.response.headers['retry-after'] || '60', 10);
-          this.log.warn('Rate limited, waiting', { retryAfter, attempt });
-          await this.delay(retryAfter * 1000);
+          if (!this.rateLimiter) {
+            const retryAfter = parseInt(axiosError.response.headers['retry-after'] || '60', 10);
+            this.log.warn('Rate limited, waiting', { retryAfter, attempt });
+            await this.delay(retryAfter * 1000);
+          }
           continue;
         }
 
@@ -202,6 +219,91 @@ export class PlentyClient {
     throw lastError || new Error('Request failed after max retries');
   }
 
+  /**
+   * Generic POST request
+   */
+  private async post<T>(endpoint: string, data: unknown): Promise<T> {
+    return this.write<T>('post', endpoint, data);
+  }
+
+  /**
+   * Generic PUT request
+   */
+  private async put<T>(endpoint: string, data: unknown): Promise<T> {
+    return this.write<T>('put', endpoint, data);
+  }
+
+  /**
+   * Write request (POST/PUT)
+   * Only retried on rate limiting (429) - other failures are not retried
+   * because write requests (e.g. order creation) are not idempotent.
+   */
+  private async write<T>(method: 'post' | 'put', endpoint: string, data: unknown): Promise<T> {
+    await this.ensureAuthenticated();
+
+    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+      try {
+        const response = await this.send<T>({ method, url: endpoint, data });
+        return response.data;
+      } catch (error) {
+        const axiosError = error as AxiosError;
+
+        if (axiosError.response?.status === 429 && attempt < MAX_RETRIES) {
+          if (!this.rateLimiter) {
+            const retryAfter = parseInt(axiosError.response.headers['retry-after'] || '60', 10);
+            this.log.warn('Rate limited, waiting', { retryAfter, attempt, endpoint });
+            await this.delay(retryAfter * 1000);
+          }
+          continue;
+        }
+
+        this.log.error('API write request failed', {
+          method,
+          status: axiosError.response?.status,
+          data: axiosError.response?.data,
+          endpoint,
+        });
+
+        throw new Error(
+          `${axiosError.message} - ${JSON.stringify(axiosError.response?.data || {})}`
+        );
+      }
+    }
+
+    throw new Error('Request failed after max retries');
+  }
+
+  /**
+   * Send a request - re-authenticates and retries once if the token was rejected (401)
+   */
+  private async send<T>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    try {
+      return await this.schedule<T>(config);
+    } catch (error) {
+      if ((error as AxiosError).response?.status !== 401) {
+        throw error;
+      }
+      this.log.warn('Token expired, re-authenticating');
+      await this.authenticate();
+      return this.schedule<T>(config);
+    }
+  }
+
+  /**
+   * Run a request - through the rate limiter if one is configured
+   * The retry after a 401 is scheduled separately, so it never waits for a slot while holding one.
+   */
+  private schedule<T>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    if (!this.rateLimiter) {
+      return this.client.request<T>(config);
+    }
+    return this.rateLimiter.schedule(
+      this.baseUrl,
+      () => this.client.request<T>(config),
+      config.timeout || this.timeout
+    );
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
@@ -238,14 +340,39 @@ export class PlentyClient {
       queryParams.isMain = params.isMain;
     }
 
+    if (params.id) {
+      queryParams.id = params.id;
+    }
+
+    if (params.numberExact) {
+      queryParams.numberExact = params.numberExact;
+    }
+
     if (params.itemId) {
       queryParams.itemId = params.itemId;
     }
 
+    if (params.plentyId) {
+      queryParams.plentyId = params.plentyId;
+    }
+
+    if (params.referrerId) {
+      queryParams.referrerId = params.referrerId;
+    }
+
+    if (params.categoryId) {
+      queryParams.categoryId = params.categoryId;
+    }
+
     if (params.lang) {
       queryParams.lang = params.lang;
     }
 
+    if (params.sortBy) {
+      queryParams.sortBy = params.sortBy;
+      queryParams.sortOrder = params.sortOrder || 'asc';
+    }
+
     console.log('\n=== PLENTY API REQUEST ===');
     console.log('Endpoint: /rest/items/variations');
     console.log('Params:', JSON.stringify(queryParams, null, 2));
@@ -259,6 +386,45 @@ export class PlentyClient {
     return response;
   }
 
+  /**
+   * Iterate variations page by page
+   * Up to `prefetch` pages are requested ahead while the caller processes the current page.
+   * Fetching stops when that buffer is full (back-pressure), so memory stays bounded.
+   */
+  async *iterateVariations(
+    params: Omit<PlentyVariationQueryParams, 'page'> = {},
+    options: VariationIterationOptions = {}
+  ): AsyncGenerator<PlentyPaginatedResponse<PlentyVariation>> {
+    const prefetch = Math.max(0, options.prefetch ?? 1);
+    const pending: Promise<PlentyPaginatedResponse<PlentyVariation>>[] = [];
+    let nextPage = options.startPage ?? 1;
+    let lastPageNumber: number | null = null; // Unknown until the first response
+
+    const fill = (capacity: number) => {
+      while (pending.length < capacity && (lastPageNumber === null || nextPage <= lastPageNumber)) {
+        const request = this.getVariations({ ...params, page: nextPage++ });
+        // Prefetched pages may fail while the caller is busy - the error surfaces when awaited
+        request.catch(() => undefined);
+        pending.push(request);
+      }
+    };
+
+    fill(1);
+    while (pending.length > 0) {
+      const response = await pending.shift()!;
+      lastPageNumber = response.isLastPage ? response.page : response.lastPageNumber;
+
+      // Request the next pages before handing this one out
+      fill(prefetch);
+      yield response;
+
+      if (response.isLastPage) {
+        return;
+      }
+      fill(1);
+    }
+  }
+
   /**
    * Get all variations with automatic pagination
    * Use for full sync (be careful with large catalogs)
@@ -294,6 +460,7 @@ export class PlentyClient {
 
   /**
    * Get variations updated since a specific date (for delta sync)
+   * @param filters - Additional query filters (e.g. the tenant's sync scope)
    */
   async getVariationsDelta(
     since: Date,
@@ -303,7 +470,8 @@ export class PlentyClient {
       'variationAttributeValues',
       'variationCategories',
       // Removed: 'stock', 'item', 'images' - testing minimal params
-    ]
+    ],
+    filters: Omit<PlentyVariationQueryParams, 'page' | 'updatedBetween' | 'with'> = {}
   ): Promise<PlentyVariation[]> {
     console.log('\n>>> getVariationsDelta called <<<');
     console.log('Input Date (since):', since);
@@ -318,12 +486,88 @@ export class PlentyClient {
     this.log.info('Fetching delta variations', { since: new Date(unixTimestamp * 1000).toISOString() });
 
     return this.getAllVariations({
+      ...filters,
       updatedBetween,
       with: withRelations.join(','),
-      'itemId': 23423
     });
   }
 
+  /**
+   * Get specific variations by ID (for targeted syncs)
+   * IDs are requested in chunks to keep the query string short
+   */
+  async getVariationsByIds(
+    variationIds: number[],
+    withRelations: string[],
+    filters: Omit<PlentyVariationQueryParams, 'page' | 'id' | 'with'> = {}
+  ): Promise<PlentyVariation[]> {
+    const variations: PlentyVariation[] = [];
+
+    for (let i = 0; i < variationIds.length; i += VARIATION_ID_CHUNK_SIZE) {
+      const chunk = variationIds.slice(i, i + VARIATION_ID_CHUNK_SIZE);
+      variations.push(
+        ...(await this.getAllVariations({
+          ...filters,
+          id: chunk.join(','),
+          with: withRelations.join(','),
+        }))
+      );
+    }
+
+    this.log.info('Fetched variations by ID', { requested: variationIds.length, found: variations.length });
+    return variations;
+  }
+
+  /**
+   * Get all variations of specific items (for targeted syncs)
+   */
+  async getVariationsByItemIds(
+    itemIds: number[],
+    withRelations: string[],
+    filters: Omit<PlentyVariationQueryParams, 'page' | 'itemId' | 'with'> = {}
+  ): Promise<PlentyVariation[]> {
+    const variations: PlentyVariation[] = [];
+
+    for (let i = 0; i < itemIds.length; i += VARIATION_ID_CHUNK_SIZE) {
+      const chunk = itemIds.slice(i, i + VARIATION_ID_CHUNK_SIZE);
+      variations.push(
+        ...(await this.getAllVariations({
+          ...filters,
+          itemId: chunk.join(','),
+          with: withRelations.join(','),
+        }))
+      );
+    }
+
+    this.log.info('Fetched variations by item ID', { requested: itemIds.length, found: variations.length });
+    return variations;
+  }
+
+  /**
+   * Get variations by variation number (for targeted syncs)
+   * The API only matches one number per request
+   */
+  async getVariationsBySkus(
+    skus: string[],
+    withRelations: string[],
+    filters: Omit<PlentyVariationQueryParams, 'page' | 'numberExact' | 'with'> = {}
+  ): Promise<PlentyVariation[]> {
+    const variations: PlentyVariation[] = [];
+
+    for (const sku of skus) {
+      variations.push(
+        ...(await this.getAllVariations({
+          ...filters,
+          numberExact: sku,
+          with: withRelations.join(','),
+        }))
+      );
+    }
+
+    this.log.info('Fetched variations by SKU', { requested: skus.length, found: variations.length });
+    return variations;
+  }
+
   // ============================================
   // CATEGORY ENDPOINTS
   // ============================================
@@ -369,7 +613,7 @@ export class PlentyClient {
     while (!isLastPage) {
       const response = await this.getCategories({
         page,
-        with: 'details',
+        with: 'details,clients',
         type: 'item'
       });
       allCategories.push(...response.entries);
@@ -542,6 +786,40 @@ export class PlentyClient {
     return response.entries;
   }
 
+  // ============================================
+  // VAT ENDPOINTS
+  // ============================================
+
+  /**
+   * Get the standard VAT configuration (country of the main location)
+   * Its vatRates resolve the vatId of variations to a rate
+   */
+  async getStandardVat(): Promise<PlentyVatConfiguration> {
+    const response = await this.get<PlentyVatConfiguration>('/rest/vat/standard');
+
+    this.log.info('Fetched standard VAT configuration', {
+      id: response.id,
+      rates: response.vatRates?.length || 0,
+    });
+    return response;
+  }
+
+  // ============================================
+  // AVAILABILITY ENDPOINTS
+  // ============================================
+
+  /**
+   * Get all item availabilities (the IDs referenced by variation.availability)
+   */
+  async getAvailabilities(): Promise<PlentyAvailability[]> {
+    const response = await this.get<PlentyAvailability[] | PlentyPaginatedResponse<PlentyAvailability>>(
+      '/rest/availabilities',
+      { with: 'names' }
+    );
+
+    return Array.isArray(response) ? response : response?.entries || [];
+  }
+
   // ============================================
   // PROPERTY ENDPOINTS
   // ============================================
@@ -700,30 +978,19 @@ export class PlentyClient {
     const uniqueItemIds = [...new Set(itemIds)];
 
     // Fetch in parallel with concurrency limit
-    const BATCH_SIZE = 10;
-    for (let i = 0; i < uniqueItemIds.length; i += BATCH_SIZE) {
-      const batch = uniqueItemIds.slice(i, i + BATCH_SIZE);
-
-      const promises = batch.map(async (itemId) => {
-        const images = await this.getItemImages(itemId);
-
-        // Fetch variation links for each image if requested
-        if (includeVariationLinks && images.length > 0) {
-          await this.enrichImagesWithVariationLinks(itemId, images);
-        }
+    const itemResults = await mapWithConcurrency(uniqueItemIds, IMAGE_FETCH_CONCURRENCY, async (itemId) => {
+      const images = await this.getItemImages(itemId);
 
-        return { itemId, images };
-      });
-
-      const batchResults = await Promise.all(promises);
-      for (const { itemId, images } of batchResults) {
-        results.set(itemId, images);
+      // Fetch variation links for each image if requested
+      if (includeVariationLinks && images.length > 0) {
+        await this.enrichImagesWithVariationLinks(itemId, images);
       }
 
-      // Small delay between batches to avoid rate limiting
-      if (i + BATCH_SIZE < uniqueItemIds.length) {
-        await this.delay(50);
-      }
+      return { itemId, images };
+    });
+
+    for (const { itemId, images } of itemResults) {
+      results.set(itemId, images);
     }
 
     const totalImages = Array.from(results.values()).reduce((sum, imgs) => sum + imgs.length, 0);
@@ -745,14 +1012,12 @@ export class PlentyClient {
    * Fetches variation_images for each image and attaches to the image object
    */
   private async enrichImagesWithVariationLinks(itemId: number, images: PlentyItemImage[]): Promise<void> {
-    // Fetch variation links in parallel for all images
-    const linkPromises = images.map(async (img) => {
+    // Fetch variation links in parallel (bounded) for all images
+    const linkResults = await mapWithConcurrency(images, IMAGE_FETCH_CONCURRENCY, async (img) => {
       const links = await this.getImageVariationLinks(itemId, img.id);
       return { imageId: img.id, links };
     });
 
-    const linkResults = await Promise.all(linkPromises);
-
     // Attach links to corresponding images
     for (const { imageId, links } of linkResults) {
       const image = images.find(img => img.id === imageId);
@@ -799,6 +1064,183 @@ export class PlentyClient {
     return response.entries;
   }
 
+  /**
+   * Get stock per storage location of a variation in a warehouse
+   */
+  async getStorageLocationStock(
+    warehouseId: number,
+    variationId: number
+  ): Promise<PlentyStorageLocationStock[]> {
+    const response = await this.get<PlentyPaginatedResponse<PlentyStorageLocationStock>>(
+      `/rest/stockmanagement/warehouses/${warehouseId}/stock/storageLocations`,
+      { variationId }
+    );
+
+    return response.entries || [];
+  }
+
+  /**
+   * Book stock corrections in a warehouse
+   * Each correction sets the absolute quantity of a variation at a storage location.
+   */
+  async bookStockCorrections(warehouseId: number, corrections: PlentyStockCorrection[]): Promise<void> {
+    this.log.info('Booking stock corrections', { warehouseId, count: corrections.length });
+
+    await this.put(`/rest/stockmanagement/warehouses/${warehouseId}/stock/correction`, {
+      corrections,
+    });
+  }
+
+  // ============================================
+  // ORDER ENDPOINTS
+  // ============================================
+
+  /**
+   * Create an order
+   */
+  async createOrder(order: PlentyOrderCreateRequest): Promise<PlentyOrder> {
+    this.log.info('Creating order', {
+      plentyId: order.plentyId,
+      items: order.orderItems.length,
+    });
+
+    return this.post<PlentyOrder>('/rest/orders', order);
+  }
+
+  /**
+   * Find an order of a client by its external order ID
+   * Returns null if no order exists
+   */
+  async findOrderByExternalOrderId(plentyId: number, externalOrderId: string): Promise<PlentyOrder | null> {
+    const response = await this.get<PlentyPaginatedResponse<PlentyOrder>>('/rest/orders', {
+      plentyId,
+      externalOrderId,
+      itemsPerPage: 1,
+    });
+
+    return response.entries?.[0] || null;
+  }
+
+  /**
+   * Get all shipping countries (for ISO code → country ID lookup)
+   */
+  async getCountries(): Promise<PlentyCountry[]> {
+    const response = await this.get<PlentyCountry[]>('/rest/orders/shipping/countries');
+    return Array.isArray(response) ? response : [];
+  }
+
+  // ============================================
+  // CONTACT ENDPOINTS
+  // ============================================
+
+  /**
+   * Find a contact by email address
+   * Returns null if no contact exists
+   */
+  async findContactByEmail(email: string): Promise<PlentyContact | null> {
+    const response = await this.get<PlentyPaginatedResponse<PlentyContact>>(
+      '/rest/accounts/contacts',
+      { contactEmail: email, itemsPerPage: 1 }
+    );
+
+    return response.entries?.[0] || null;
+  }
+
+  /**
+   * Create a contact
+   */
+  async createContact(contact: PlentyContactCreateRequest): Promise<PlentyContact> {
+    this.log.info('Creating contact', { typeId: contact.typeId });
+    return this.post<PlentyContact>('/rest/accounts/contacts', contact);
+  }
+
+  /**
+   * Create an address for a contact
+   * @param typeId - Address type (1 = billing, 2 = delivery)
+   */
+  async createContactAddress(
+    contactId: number,
+    address: PlentyAddressCreateRequest,
+    typeId: number
+  ): Promise<PlentyAddress> {
+    return this.post<PlentyAddress>(`/rest/accounts/contacts/${contactId}/addresses`, {
+      ...address,
+      typeId,
+    });
+  }
+
+  /**
+   * Update a contact
+   */
+  async updateContact(contactId: number, contact: PlentyContactUpdateRequest): Promise<PlentyContact> {
+    this.log.info('Updating contact', { contactId });
+    return this.put<PlentyContact>(`/rest/accounts/contacts/${contactId}`, contact);
+  }
+
+  /**
+   * Get the options (email, phone, ...) of a contact
+   */
+  async getContactOptions(contactId: number): Promise<PlentyContactOption[]> {
+    const response = await this.get<PlentyContactOption[]>(
+      `/rest/accounts/contacts/${contactId}/options`
+    );
+    return Array.isArray(response) ? response : [];
+  }
+
+  /**
+   * Add an option to a contact
+   */
+  async createContactOption(
+    contactId: number,
+    option: PlentyContactOptionRequest
+  ): Promise<PlentyContactOption> {
+    return this.post<PlentyContactOption>(`/rest/accounts/contacts/${contactId}/options`, option);
+  }
+
+  /**
+   * Update an existing option of a contact
+   */
+  async updateContactOption(
+    contactId: number,
+    optionId: number,
+    option: PlentyContactOptionRequest
+  ): Promise<PlentyContactOption> {
+    return this.put<PlentyContactOption>(
+      `/rest/accounts/contacts/${contactId}/options/${optionId}`,
+      option
+    );
+  }
+
+  /**
+   * Update an existing address of a contact
+   */
+  async updateContactAddress(
+    contactId: number,
+    addressId: number,
+    address: PlentyAddressCreateRequest
+  ): Promise<PlentyAddress> {
+    return this.put<PlentyAddress>(
+      `/rest/accounts/contacts/${contactId}/addresses/${addressId}`,
+      address
+    );
+  }
+
+  /**
+   * Get all customer classes
+   * The endpoint returns a map of class ID → name
+   */
+  async getCustomerClasses(): Promise<PlentyCustomerClass[]> {
+    const response = await this.get<Record<string, string> | PlentyCustomerClass[]>(
+      '/rest/accounts/contacts/classes'
+    );
+
+    if (Array.isArray(response)) {
+      return response;
+    }
+
+    return Object.entries(response || {}).map(([id, name]) => ({ id: parseInt(id, 10), name }));
+  }
+
   // ============================================
   // UTILITY METHODS
   // ============================================
@@ -0,0 +1,300 @@
+import { createHash, randomUUID } from 'crypto';
+import Redis from 'ioredis';
+import type { AxiosError, AxiosResponse } from 'axios';
+import { createLogger } from '../utils/logger';
+
+const KEY_PREFIX = 'plenty:ratelimit';
+const KEY_TTL_MS = 60 * 60 * 1000; // Idle buckets expire after an hour
+const POLL_INTERVAL_MS = 100;
+const CALLS_LEFT_RESERVE = 1; // Stop before the last call of a period - other systems may share the quota
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+const LEASE_MARGIN_MS = 10000; // Added to the request timeout - covers applying the quota afterwards
+
+export interface PlentyRateLimiterConfig {
+  redis: {
+    host: string;
+    port: number;
+    password?: string;
+  };
+  callsPerMinute: number; // Token refill rate per Plenty system
+  burst: number; // Token bucket capacity
+  maxConcurrency: number; // Parallel requests per Plenty system, across all workers
+}
+
+/**
+ * Token bucket: refills continuously, a request needs one token.
+ * blockedUntil is set from Plenty's quota headers and 429 responses.
+ * Returns 0 if a token was taken, otherwise the milliseconds to wait.
+ */
+const ACQUIRE_TOKEN_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local ratePerMs = tonumber(ARGV[1])
+local capacity = tonumber(ARGV[2])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt', 'blockedUntil')
+local blockedUntil = tonumber(state[3]) or 0
+if blockedUntil > now then
+  return blockedUntil - now
+end
+local tokens = tonumber(state[1]) or capacity
+local updatedAt = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + (now - updatedAt) * ratePerMs)
+if tokens < 1 then
+  redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+  return math.ceil((1 - tokens) / ratePerMs)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens - 1), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], ARGV[3])
+return 0
+`;
+
+/**
+ * Apply Plenty's quota: cap the tokens at the calls left and block the bucket
+ * until the period decays when (almost) nothing is left.
+ */
+const APPLY_QUOTA_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local callsLeft = tonumber(ARGV[1])
+local blockForMs = tonumber(ARGV[2])
+if callsLeft >= 0 then
+  local tokens = tonumber(redis.call('HGET', KEYS[1], 'tokens'))
+  if tokens == nil or callsLeft < tokens then
+    redis.call('HSET', KEYS[1], 'tokens', callsLeft, 'updatedAt', now)
+  end
+end
+if blockForMs > 0 then
+  local blockedUntil = now + blockForMs
+  local current = tonumber(redis.call('HGET', KEYS[1], 'blockedUntil')) or 0
+  if blockedUntil > current then
+    redis.call('HSET', KEYS[1], 'blockedUntil', blockedUntil)
+  end
+end
+redis.call('PEXPIRE', KEYS[1], ARGV[3])
+return 0
+`;
+
+/**
+ * Concurrency semaphore: a sorted set of leases scored by their expiry.
+ * Returns 1 if a slot was taken.
+ */
+const ACQUIRE_SLOT_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+if redis.call('ZCARD', KEYS[1]) >= tonumber(ARGV[1]) then
+  return 0
+end
+redis.call('ZADD', KEYS[1], now + tonumber(ARGV[2]), ARGV[3])
+redis.call('PEXPIRE', KEYS[1], ARGV[2])
+return 1
+`;
+
+/**
+ * Quota state Plenty reports in its response headers
+ */
+interface PlentyQuota {
+  callsLeft: number; // Lowest calls left over all reported periods (-1 = no headers)
+  blockForMs: number; // How long to stop calling (0 = keep going)
+}
+
+/**
+ * Plenty Rate Limiter
+ * Shares Plenty's API quota between all workers calling the same Plenty system
+ *
+ * Key features:
+ * - Redis token bucket per Plenty base URL (callsPerMinute, burst)
+ * - Reads the X-Plenty-*-Calls-Left / -Decay headers and pauses all workers before the quota runs out
+ * - 429 responses block the bucket for Retry-After
+ * - Limits parallel requests per Plenty system (maxConcurrency)
+ */
+export class PlentyRateLimiter {
+  private redis: Redis;
+  private log = createLogger({ client: 'PlentyRateLimiter' });
+
+  constructor(private config: PlentyRateLimiterConfig) {
+    this.redis = new Redis({
+      host: config.redis.host,
+      port: config.redis.port,
+      password: config.redis.password,
+    });
+  }
+
+  /**
+   * Run a request under the limits of the given Plenty system
+   * The token is taken before the concurrency slot, so a slot is only held while the request runs.
+   * Its lease expires after the request timeout (slots of crashed workers are freed).
+   * The quota headers of the response (or error response) are applied afterwards.
+   */
+  async schedule<T>(
+    baseUrl: string,
+    request: () => Promise<AxiosResponse<T>>,
+    timeoutMs: number
+  ): Promise<AxiosResponse<T>> {
+    const key = this.getKey(baseUrl);
+    await this.acquireToken(key);
+    const leaseId = await this.acquireSlot(key, timeoutMs + LEASE_MARGIN_MS);
+
+    try {
+      const response = await request();
+      await this.applyQuota(key, this.readQuota(response.headers));
+      return response;
+    } catch (error) {
+      const response = (error as AxiosError).response;
+      if (response) {
+        const quota = this.readQuota(response.headers);
+        if (response.status === 429) {
+          const retryAfter = parseInt(
+            String(response.headers['retry-after'] || DEFAULT_RETRY_AFTER_SECONDS),
+            10
+          );
+          quota.blockForMs = Math.max(quota.blockForMs, retryAfter * 1000);
+          this.log.warn('Rate limited by Plenty - pausing all requests', { baseUrl, retryAfter });
+        }
+        await this.applyQuota(key, quota);
+      }
+      throw error;
+    } finally {
+      await this.redis.zrem(`${key}:slots`, leaseId);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+
+  private getKey(baseUrl: string): string {
+    const hash = createHash('sha256').update(baseUrl.toLowerCase()).digest('hex').substring(0, 16);
+    return `${KEY_PREFIX}:${hash}`;
+  }
+
+  private async acquireSlot(key: string, leaseTtlMs: number): Promise<string> {
+    const leaseId = randomUUID();
+
+    for (;;) {
+      const acquired = await this.redis.eval(
+        ACQUIRE_SLOT_SCRIPT,
+        1,
+        `${key}:slots`,
+        this.config.maxConcurrency,
+        leaseTtlMs,
+        leaseId
+      );
+      if (acquired === 1) {
+        return leaseId;
+      }
+      await this.delay(POLL_INTERVAL_MS);
+    }
+  }
+
+  private async acquireToken(key: string): Promise<void> {
+    const ratePerMs = this.config.callsPerMinute / 60000;
+
+    for (;;) {
+      const waitMs = Number(
+        await this.redis.eval(
+          ACQUIRE_TOKEN_SCRIPT,
+          1,
+          `${key}:bucket`,
+          ratePerMs,
+          this.config.burst,
+          KEY_TTL_MS
+        )
+      );
+      if (waitMs <= 0) {
+        return;
+      }
+      if (waitMs > 5000) {
+        this.log.info('Waiting for Plenty API quota', { waitMs });
+      }
+      await this.delay(waitMs);
+    }
+  }
+
+  private async applyQuota(key: string, quota: PlentyQuota): Promise<void> {
+    if (quota.callsLeft < 0 && quota.blockForMs === 0) {
+      return;
+    }
+    await this.redis.eval(
+      APPLY_QUOTA_SCRIPT,
+      1,
+      `${key}:bucket`,
+      quota.callsLeft,
+      quota.blockForMs,
+      KEY_TTL_MS
+    );
+  }
+
+  /**
+   * Read the quota headers, e.g. X-Plenty-Global-Short-Period-Calls-Left / -Decay (seconds)
+   * Every period at or below the reserve blocks until it decays.
+   */
+  private readQuota(headers: AxiosResponse['headers']): PlentyQuota {
+    const quota: PlentyQuota = { callsLeft: -1, blockForMs: 0 };
+
+    for (const [name, value] of Object.entries(headers || {})) {
+      const match = /^x-plenty-(.+)-calls-left$/i.exec(name);
+      if (!match) continue;
+
+      const callsLeft = parseInt(String(value), 10);
+      if (isNaN(callsLeft)) continue;
+
+      quota.callsLeft = quota.callsLeft < 0 ? callsLeft : Math.min(quota.callsLeft, callsLeft);
+
+      if (callsLeft <= CALLS_LEFT_RESERVE) {
+        const decay = parseInt(
+          String(headers[`x-plenty-${match[1].toLowerCase()}-decay`] ?? ''),
+          10
+        );
+        const blockForMs = (isNaN(decay) ? DEFAULT_RETRY_AFTER_SECONDS : decay) * 1000;
+        quota.blockForMs = Math.max(quota.blockForMs, blockForMs);
+        this.log.warn('Plenty API quota nearly used up - pausing', {
+          period: match[1],
+          callsLeft,
+          blockForMs,
+        });
+      }
+    }
+
+    return quota;
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+// ============================================
+// SHARED INSTANCE
+// ============================================
+
+let sharedLimiter: PlentyRateLimiter | null = null;
+
+/**
+ * Get the process-wide rate limiter (configured from environment variables)
+ */
+export function getPlentyRateLimiter(): PlentyRateLimiter {
+  if (!sharedLimiter) {
+    sharedLimiter = new PlentyRateLimiter({
+      redis: {
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379', 10),
+        password: process.env.REDIS_PASSWORD,
+      },
+      callsPerMinute: parseInt(process.env.PLENTY_API_RATE_LIMIT_PER_MINUTE || '60', 10),
+      burst: parseInt(process.env.PLENTY_API_RATE_LIMIT_BURST || '10', 10),
+      maxConcurrency: parseInt(process.env.PLENTY_API_MAX_CONCURRENCY || '3', 10),
+    });
+  }
+  return sharedLimiter;
+}
+
+/**
+ * Close the shared rate limiter's Redis connection (on shutdown)
+ */
+export async function closePlentyRateLimiter(): Promise<void> {
+  if (sharedLimiter) {
+    await sharedLimiter.close();
+    sharedLimiter = null;
+  }
+}
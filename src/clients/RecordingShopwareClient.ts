@@ -0,0 +1,826 @@
+import crypto from 'crypto';
+import { createLogger } from '../utils/logger';
+import type { IShopwareClient } from './interfaces';
+import type {
+  ShopwareProduct,
+  ShopwareStockUpdate,
+  ShopwareStockChange,
+  ShopwareSyncResult,
+  ShopwareBulkProduct,
+  ShopwareBulkSyncResult,
+  ShopwareBulkItemResult,
+  ShopwareCategory,
+  ShopwarePropertyGroup,
+  ShopwarePropertyOption,
+  ShopwareManufacturer,
+  ShopwareUnit,
+  ShopwareRuleCondition,
+  ShopwareOrder,
+  ShopwareCustomer,
+  ShopwareCustomerGroup,
+  ShopwareCurrency,
+  ShopwareTax,
+  ShopwareDeliveryTime,
+  ShopwareLanguage,
+  ShopwareSeoUrl,
+  ShopwareSeoUrlResult,
+  ShopwareConfigEntity,
+  ShopwareMediaTranslation,
+  ShopwareMediaMetadata,
+  ShopwarePrice,
+  ShopwareProductPrice,
+  ShopwareProductMedia,
+  ShopwareProductVisibility,
+} from '../types/shopware';
+import type { DryRunChange, DryRunReport } from '../types/sync';
+
+const MAX_LISTED_CHANGES = 5000; // Keeps SyncJob.metadata bounded for full catalog dry runs
+
+type Fields = Record<string, unknown>;
+
+/**
+ * Product fields loaded by getProductSnapshot - other payload fields are listed as not compared
+ */
+const COMPARED_PRODUCT_FIELDS = new Set([
+  'productNumber', 'name', 'description', 'stock', 'active', 'price', 'taxId', 'manufacturerId', 'unitId',
+  'parentId', 'ean', 'manufacturerNumber', 'deliveryTimeId', 'purchaseUnit', 'referenceUnit', 'weight',
+  'width', 'height', 'length', 'purchasePrices', 'customFields', 'prices', 'categories', 'properties',
+  'options', 'visibilities', 'media', 'translations',
+]);
+
+function round(value: unknown): unknown {
+  return typeof value === 'number' ? Math.round(value * 100) / 100 : value ?? null;
+}
+
+function normalizePrices(prices: ShopwarePrice[] | undefined): unknown {
+  return [...(prices || [])]
+    .sort((a, b) => a.currencyId.localeCompare(b.currencyId))
+    .map((p) => ({ currencyId: p.currencyId, gross: round(p.gross), net: round(p.net), linked: p.linked }));
+}
+
+function normalizeIds(entities: Array<{ id: string }> | undefined): string[] {
+  return (entities || []).map((e) => e.id).sort();
+}
+
+/**
+ * Pick the keys of the payload from the current state ('' and missing values count as null)
+ */
+function project(current: Fields | undefined, keys: string[]): Fields {
+  return Object.fromEntries(keys.map((key) => [key, current?.[key] === '' ? null : current?.[key] ?? null]));
+}
+
+/**
+ * Bring a product (payload or current state) into a comparable form: id sets for associations,
+ * prices without Shopware's extra price fields, rounded amounts
+ */
+function normalizeProductField(key: string, value: unknown): unknown {
+  switch (key) {
+    case 'price':
+    case 'purchasePrices':
+      return normalizePrices(value as ShopwarePrice[]);
+    case 'prices':
+      return [...((value as ShopwareProductPrice[]) || [])]
+        .sort((a, b) => a.ruleId.localeCompare(b.ruleId) || a.quantityStart - b.quantityStart)
+        .map((p) => ({
+          ruleId: p.ruleId,
+          quantityStart: p.quantityStart,
+          quantityEnd: p.quantityEnd ?? null,
+          price: normalizePrices(p.price),
+        }));
+    case 'categories':
+    case 'properties':
+    case 'options':
+      return normalizeIds(value as Array<{ id: string }>);
+    case 'media':
+      return [...((value as ShopwareProductMedia[]) || [])]
+        .map((m) => ({ mediaId: m.mediaId, position: m.position ?? 0 }))
+        .sort((a, b) => a.position - b.position || a.mediaId.localeCompare(b.mediaId));
+    case 'visibilities':
+      return ((value as ShopwareProductVisibility[]) || [])
+        .map((v) => `${v.salesChannelId}:${v.visibility}`)
+        .sort();
+    case 'weight':
+    case 'width':
+    case 'height':
+    case 'length':
+    case 'purchaseUnit':
+    case 'referenceUnit':
+      return round(value);
+    default:
+      return value === '' ? null : value ?? null;
+  }
+}
+
+/**
+ * Project a translation (or its custom fields) of the current state onto the keys of the payload
+ */
+function projectTranslation(current: Fields | undefined, payload: Fields): Fields {
+  const projected = project(current, Object.keys(payload));
+  if (payload.customFields && typeof payload.customFields === 'object') {
+    projected.customFields = project(current?.customFields as Fields | undefined, Object.keys(payload.customFields));
+  }
+  return projected;
+}
+
+/**
+ * Recording Shopware Client (dry run)
+ * Decorates a real or mock client: reads are passed through, writes are recorded
+ * as a diff against the current Shopware state and reported as successful.
+ */
+export class RecordingShopwareClient implements IShopwareClient {
+  private inner: IShopwareClient;
+  private changes: DryRunChange[] = [];
+  private summary: DryRunReport['summary'] = { creates: 0, updates: 0, unchanged: 0, deletes: 0 };
+  private truncated = 0;
+  private mediaFolders = new Map<string, string>();
+  private log: ReturnType<typeof createLogger>;
+
+  constructor(inner: IShopwareClient, tenantId: string) {
+    this.inner = inner;
+    this.log = createLogger({ client: 'RecordingShopwareClient', tenantId });
+  }
+
+  /**
+   * Build the report of all recorded writes
+   */
+  getReport(): DryRunReport {
+    return {
+      generatedAt: new Date().toISOString(),
+      summary: { ...this.summary },
+      changes: [...this.changes],
+      truncated: this.truncated,
+    };
+  }
+
+  /**
+   * Record a write that does not go through Shopware (e.g. Plenty stock write-back)
+   */
+  recordChange(change: DryRunChange): void {
+    this.summary[`${change.action}s` as 'creates' | 'updates' | 'deletes']++;
+    this.addChange(change);
+  }
+
+  // ============================================
+  // RECORDING HELPERS
+  // ============================================
+
+  private addChange(change: DryRunChange): void {
+    if (this.changes.length >= MAX_LISTED_CHANGES) {
+      this.truncated++;
+      return;
+    }
+    this.changes.push(change);
+  }
+
+  private recordCreate(entity: string, id: string, label: string | undefined, data: object): void {
+    this.summary.creates++;
+    this.addChange({ action: 'create', entity, id, label, data: this.stripInternal(data as Fields) });
+  }
+
+  /**
+   * Record an update with the fields that differ from the current state
+   * Without a known current state (before = null) all fields are listed.
+   */
+  private recordUpdate(
+    entity: string,
+    id: string,
+    label: string | undefined,
+    before: object | null,
+    after: object,
+    notCompared?: string[]
+  ): void {
+    const fields = this.diffFields((before as Fields | null) ?? {}, after as Fields);
+    if (Object.keys(fields).length === 0) {
+      this.summary.unchanged++;
+      return;
+    }
+
+    this.summary.updates++;
+    this.addChange({
+      action: 'update',
+      entity,
+      id,
+      label,
+      fields,
+      ...(notCompared && notCompared.length > 0 && { notCompared }),
+    });
+  }
+
+  /**
+   * Record a product update against the current product (getProductSnapshot)
+   * Both sides are normalized; payload fields the snapshot does not load are listed as not compared.
+   */
+  private recordProductUpdate(
+    id: string,
+    label: string | undefined,
+    current: ShopwareProduct | null,
+    product: Partial<ShopwareProduct>
+  ): void {
+    if (!current) {
+      this.recordUpdate('product', id, label, null, product);
+      return;
+    }
+
+    const currentFields = current as unknown as Fields;
+    const before: Fields = {};
+    const after: Fields = {};
+    const notCompared: string[] = [];
+    for (const [key, value] of Object.entries(product)) {
+      if (key === 'id' || key.startsWith('_') || value === undefined) {
+        continue;
+      }
+      if (!COMPARED_PRODUCT_FIELDS.has(key)) {
+        notCompared.push(key);
+        continue;
+      }
+
+      if (key === 'customFields') {
+        after[key] = project(value as Fields, Object.keys(value as Fields));
+        before[key] = project(currentFields[key] as Fields | undefined, Object.keys(value as Fields));
+      } else if (key === 'translations') {
+        const translations = Object.entries(value as Record<string, Fields>);
+        const currentTranslations = (currentFields[key] || {}) as Record<string, Fields>;
+        after[key] = Object.fromEntries(translations.map(([locale, t]) => [locale, projectTranslation(t, t)]));
+        before[key] = Object.fromEntries(
+          translations.map(([locale, t]) => [locale, projectTranslation(currentTranslations[locale], t)])
+        );
+      } else {
+        after[key] = normalizeProductField(key, value);
+        before[key] = normalizeProductField(key, currentFields[key]);
+      }
+    }
+
+    this.recordUpdate('product', id, label, before, after, notCompared);
+  }
+
+  private recordDelete(entity: string, id: string, label?: string): void {
+    this.summary.deletes++;
+    this.addChange({ action: 'delete', entity, id, label });
+  }
+
+  /**
+   * Record an upsert as create or update depending on whether the entity exists
+   */
+  private async recordUpsert<T extends object>(
+    entity: string,
+    id: string,
+    label: string | undefined,
+    payload: T,
+    loadCurrent: () => Promise<object | null>
+  ): Promise<'create' | 'update'> {
+    const current = await loadCurrent();
+    if (!current) {
+      this.recordCreate(entity, id, label, payload);
+      return 'create';
+    }
+    this.recordUpdate(entity, id, label, current, payload);
+    return 'update';
+  }
+
+  private diffFields(before: Fields, after: Fields): Record<string, { before: unknown; after: unknown }> {
+    const fields: Record<string, { before: unknown; after: unknown }> = {};
+    for (const [key, value] of Object.entries(after)) {
+      if (key === 'id' || key.startsWith('_') || value === undefined) {
+        continue;
+      }
+      if (JSON.stringify(before[key] ?? null) !== JSON.stringify(value ?? null)) {
+        fields[key] = { before: before[key] ?? null, after: value };
+      }
+    }
+    return fields;
+  }
+
+  private stripInternal(data: Fields): Fields {
+    return Object.fromEntries(Object.entries(data).filter(([key]) => !key.startsWith('_')));
+  }
+
+  private newId(): string {
+    return crypto.randomUUID().replace(/-/g, '');
+  }
+
+  private ok(id: string, action: 'create' | 'update', productNumber = ''): ShopwareSyncResult {
+    return { id, productNumber, action, success: true };
+  }
+
+  private async upsertAll<T extends { id: string; name?: string }>(
+    entity: string,
+    items: T[],
+    loadCurrent: (id: string) => Promise<object | null>
+  ): Promise<ShopwareBulkSyncResult> {
+    const results: ShopwareBulkItemResult[] = [];
+    for (const item of items) {
+      const action = await this.recordUpsert(entity, item.id, item.name, item, () => loadCurrent(item.id));
+      results.push({ productNumber: item.name || item.id, shopwareId: item.id, action, success: true });
+    }
+    return { success: true, results };
+  }
+
+  // ============================================
+  // PRODUCTS & STOCK
+  // ============================================
+
+  async authenticate(): Promise<void> {
+    await this.inner.authenticate();
+  }
+
+  async createProduct(product: ShopwareProduct): Promise<ShopwareSyncResult> {
+    const id = product.id || this.newId();
+    this.recordCreate('product', id, product.productNumber, product);
+    return this.ok(id, 'create', product.productNumber);
+  }
+
+  async updateProduct(id: string, product: Partial<ShopwareProduct>): Promise<ShopwareSyncResult> {
+    const current = product.productNumber ? await this.inner.getProductSnapshot(product.productNumber) : null;
+    this.recordProductUpdate(id, product.productNumber, current, product);
+    return this.ok(id, 'update', product.productNumber);
+  }
+
+  async updateProductBySku(sku: string, product: Partial<ShopwareProduct>): Promise<ShopwareSyncResult> {
+    const current = await this.inner.getProductSnapshot(sku);
+    this.recordProductUpdate(current?.id || sku, sku, current, product);
+    return this.ok(current?.id || sku, 'update', sku);
+  }
+
+  async getProductSnapshot(sku: string): Promise<ShopwareProduct | null> {
+    return this.inner.getProductSnapshot(sku);
+  }
+
+  async getProductBySku(sku: string): Promise<ShopwareProduct | null> {
+    return this.inner.getProductBySku(sku);
+  }
+
+  async productExists(sku: string): Promise<boolean> {
+    return this.inner.productExists(sku);
+  }
+
+  async bulkSyncProducts(products: ShopwareBulkProduct[]): Promise<ShopwareBulkSyncResult> {
+    const results: ShopwareBulkItemResult[] = [];
+    for (const product of products) {
+      const current = await this.inner.getProductSnapshot(product.productNumber);
+      const id = product.id || current?.id || this.newId();
+      if (current) {
+        this.recordProductUpdate(id, product.productNumber, current, product);
+      } else {
+        this.recordCreate('product', id, product.productNumber, product);
+      }
+      const action = current ? 'update' : 'create';
+      results.push({ productNumber: product.productNumber, shopwareId: id, action, success: true });
+    }
+    return { success: true, results };
+  }
+
+  async deactivateProducts(productIds: string[]): Promise<{ success: boolean; updated: number; errors: string[] }> {
+    for (const id of productIds) {
+      this.recordUpdate('product', id, undefined, null, { active: false });
+    }
+    return { success: true, updated: productIds.length, errors: [] };
+  }
+
+  async deleteProducts(productIds: string[]): Promise<{ success: boolean; deleted: number; errors: string[] }> {
+    for (const id of productIds) {
+      this.recordDelete('product', id);
+    }
+    return { success: true, deleted: productIds.length, errors: [] };
+  }
+
+  async removeProductVisibilities(
+    productIds: string[],
+    salesChannelId?: string
+  ): Promise<{ success: boolean; removed: number; errors: string[] }> {
+    for (const id of productIds) {
+      this.recordDelete('product_visibility', id, salesChannelId ? `sales channel ${salesChannelId}` : 'all sales channels');
+    }
+    return { success: true, removed: productIds.length, errors: [] };
+  }
+
+  async addProductVisibilities(
+    productIds: string[],
+    salesChannelId: string
+  ): Promise<{ success: boolean; added: number; errors: string[] }> {
+    for (const id of productIds) {
+      this.recordCreate('product_visibility', id, `sales channel ${salesChannelId}`, { productId: id, salesChannelId, visibility: 30 });
+    }
+    return { success: true, added: productIds.length, errors: [] };
+  }
+
+  async updateStock(sku: string, stock: number): Promise<ShopwareSyncResult> {
+    const current = await this.inner.getProductBySku(sku);
+    this.recordUpdate('product', current?.id || sku, sku, current, { stock });
+    return this.ok(current?.id || sku, 'update', sku);
+  }
+
+  async batchUpdateStock(updates: ShopwareStockUpdate[]): Promise<ShopwareSyncResult[]> {
+    const results: ShopwareSyncResult[] = [];
+    for (const update of updates) {
+      const current = update.productNumber ? await this.inner.getProductBySku(update.productNumber) : null;
+      this.recordUpdate('product', update.id, update.productNumber, current, { stock: update.stock });
+      results.push(this.ok(update.id, 'update', update.productNumber));
+    }
+    return results;
+  }
+
+  async getProductStocks(productIds: string[]): Promise<ShopwareStockChange[]> {
+    return this.inner.getProductStocks(productIds);
+  }
+
+  // ============================================
+  // CATEGORIES & PROPERTIES
+  // ============================================
+
+  async createCategory(category: ShopwareCategory): Promise<ShopwareSyncResult> {
+    const id = category.id || this.newId();
+    this.recordCreate('category', id, category.name, category);
+    return this.ok(id, 'create');
+  }
+
+  async updateCategory(id: string, category: Partial<ShopwareCategory>): Promise<ShopwareSyncResult> {
+    this.recordUpdate('category', id, category.name, await this.inner.getCategoryById(id), category);
+    return this.ok(id, 'update');
+  }
+
+  async getCategoryById(id: string): Promise<ShopwareCategory | null> {
+    return this.inner.getCategoryById(id);
+  }
+
+  async categoryExists(id: string): Promise<boolean> {
+    return this.inner.categoryExists(id);
+  }
+
+  async bulkSyncCategories(categories: ShopwareCategory[]): Promise<ShopwareBulkSyncResult> {
+    return this.upsertAll('category', categories, (id) => this.inner.getCategoryById(id));
+  }
+
+  async createPropertyGroup(group: ShopwarePropertyGroup): Promise<ShopwareSyncResult> {
+    const id = group.id || this.newId();
+    this.recordCreate('property_group', id, group.name, group);
+    return this.ok(id, 'create');
+  }
+
+  async updatePropertyGroup(id: string, group: Partial<ShopwarePropertyGroup>): Promise<ShopwareSyncResult> {
+    this.recordUpdate('property_group', id, group.name, await this.inner.getPropertyGroupById(id), group);
+    return this.ok(id, 'update');
+  }
+
+  async getPropertyGroupById(id: string): Promise<ShopwarePropertyGroup | null> {
+    return this.inner.getPropertyGroupById(id);
+  }
+
+  async propertyGroupExists(id: string): Promise<boolean> {
+    return this.inner.propertyGroupExists(id);
+  }
+
+  async createPropertyOption(option: ShopwarePropertyOption): Promise<ShopwareSyncResult> {
+    const id = option.id || this.newId();
+    this.recordCreate('property_group_option', id, option.name, option);
+    return this.ok(id, 'create');
+  }
+
+  async updatePropertyOption(id: string, option: Partial<ShopwarePropertyOption>): Promise<ShopwareSyncResult> {
+    this.recordUpdate('property_group_option', id, option.name, await this.inner.getPropertyOptionById(id), option);
+    return this.ok(id, 'update');
+  }
+
+  async getPropertyOptionById(id: string): Promise<ShopwarePropertyOption | null> {
+    return this.inner.getPropertyOptionById(id);
+  }
+
+  async propertyOptionExists(id: string): Promise<boolean> {
+    return this.inner.propertyOptionExists(id);
+  }
+
+  async bulkSyncPropertyGroups(groups: ShopwarePropertyGroup[]): Promise<ShopwareBulkSyncResult> {
+    return this.upsertAll('property_group', groups, (id) => this.inner.getPropertyGroupById(id));
+  }
+
+  async bulkSyncPropertyOptions(options: ShopwarePropertyOption[]): Promise<ShopwareBulkSyncResult> {
+    return this.upsertAll('property_group_option', options, (id) => this.inner.getPropertyOptionById(id));
+  }
+
+  /**
+   * Schema setup only - not part of the diff
+   */
+  async ensurePlentyCustomFieldSet(): Promise<void> {
+    this.log.debug('Dry run: skipping custom field set setup');
+  }
+
+  // ============================================
+  // PRICES, MANUFACTURERS & UNITS
+  // ============================================
+
+  async createPrice(price: {
+    name: string;
+    type?: string;
+    isGross?: boolean;
+    plentySalesPriceId?: number;
+    translations?: Record<string, string>;
+  }): Promise<ShopwareSyncResult> {
+    const id = this.newId();
+    this.recordCreate('rule', id, price.name, price);
+    return this.ok(id, 'create');
+  }
+
+  async updatePrice(
+    id: string,
+    price: {
+      name?: string;
+      type?: string;
+      isGross?: boolean;
+      translations?: Record<string, string>;
+    }
+  ): Promise<ShopwareSyncResult> {
+    this.recordUpdate('rule', id, price.name, await this.inner.getPriceById(id), price);
+    return this.ok(id, 'update');
+  }
+
+  async getPriceById(id: string): Promise<{ id: string; name: string; type: string } | null> {
+    return this.inner.getPriceById(id);
+  }
+
+  async priceExists(id: string): Promise<boolean> {
+    return this.inner.priceExists(id);
+  }
+
+  async bulkSyncPrices(
+    prices: Array<{
+      id: string;
+      name: string;
+      priority?: number;
+      translations?: Record<string, { name: string }>;
+      conditions?: ShopwareRuleCondition[];
+    }>
+  ): Promise<ShopwareBulkSyncResult> {
+    return this.upsertAll('rule', prices, (id) => this.inner.getPriceById(id));
+  }
+
+  async createManufacturer(manufacturer: ShopwareManufacturer): Promise<ShopwareSyncResult> {
+    const id = manufacturer.id || this.newId();
+    this.recordCreate('product_manufacturer', id, manufacturer.name, manufacturer);
+    return this.ok(id, 'create');
+  }
+
+  async updateManufacturer(id: string, manufacturer: Partial<ShopwareManufacturer>): Promise<ShopwareSyncResult> {
+    const current = await this.inner.getManufacturerById(id);
+    this.recordUpdate('product_manufacturer', id, manufacturer.name, current, manufacturer);
+    return this.ok(id, 'update');
+  }
+
+  async getManufacturerById(id: string): Promise<ShopwareManufacturer | null> {
+    return this.inner.getManufacturerById(id);
+  }
+
+  async manufacturerExists(id: string): Promise<boolean> {
+    return this.inner.manufacturerExists(id);
+  }
+
+  async bulkSyncManufacturers(manufacturers: ShopwareManufacturer[]): Promise<ShopwareBulkSyncResult> {
+    return this.upsertAll('product_manufacturer', manufacturers, (id) => this.inner.getManufacturerById(id));
+  }
+
+  async createUnit(unit: ShopwareUnit): Promise<ShopwareSyncResult> {
+    const id = unit.id || this.newId();
+    this.recordCreate('unit', id, unit.name || unit.shortCode, unit);
+    return this.ok(id, 'create');
+  }
+
+  async updateUnit(id: string, unit: Partial<ShopwareUnit>): Promise<ShopwareSyncResult> {
+    this.recordUpdate('unit', id, unit.name || unit.shortCode, await this.inner.getUnitById(id), unit);
+    return this.ok(id, 'update');
+  }
+
+  async getUnitById(id: string): Promise<ShopwareUnit | null> {
+    return this.inner.getUnitById(id);
+  }
+
+  async unitExists(id: string): Promise<boolean> {
+    return this.inner.unitExists(id);
+  }
+
+  async bulkSyncUnits(units: ShopwareUnit[]): Promise<ShopwareBulkSyncResult> {
+    return this.upsertAll('unit', units, (id) => this.inner.getUnitById(id));
+  }
+
+  async deactivateCategories(categoryIds: string[]): Promise<{ success: boolean; updated: number; errors: string[] }> {
+    for (const id of categoryIds) {
+      this.recordUpdate('category', id, undefined, await this.inner.getCategoryById(id), { active: false });
+    }
+    return { success: true, updated: categoryIds.length, errors: [] };
+  }
+
+  async deleteConfigEntities(
+    entity: ShopwareConfigEntity,
+    ids: string[]
+  ): Promise<{ success: boolean; deleted: number; errors: string[] }> {
+    for (const id of ids) {
+      this.recordDelete(entity, id);
+    }
+    return { success: true, deleted: ids.length, errors: [] };
+  }
+
+  // ============================================
+  // MEDIA
+  // ============================================
+
+  async createMedia(params: {
+    fileName: string;
+    folderId?: string;
+    title?: string;
+    alt?: string;
+    translations?: Record<string, ShopwareMediaTranslation>;
+  }): Promise<ShopwareSyncResult> {
+    const id = this.newId();
+    this.recordCreate('media', id, params.fileName, params);
+    return this.ok(id, 'create');
+  }
+
+  async uploadMediaFromUrl(mediaId: string, sourceUrl: string, fileName: string): Promise<ShopwareSyncResult> {
+    this.recordUpdate('media', mediaId, fileName, null, { sourceUrl, fileName });
+    return this.ok(mediaId, 'update');
+  }
+
+  async createMediaFromUrl(params: {
+    sourceUrl: string;
+    fileName: string;
+    folderId?: string;
+    title?: string;
+    alt?: string;
+    translations?: Record<string, ShopwareMediaTranslation>;
+  }): Promise<ShopwareSyncResult & { mimeType?: string; fileSize?: number }> {
+    const id = this.newId();
+    this.recordCreate('media', id, params.fileName, params);
+    return this.ok(id, 'create');
+  }
+
+  async updateMediaMetadata(mediaId: string, metadata: ShopwareMediaMetadata): Promise<ShopwareSyncResult> {
+    this.recordUpdate('media', mediaId, metadata.title, null, metadata);
+    return this.ok(mediaId, 'update');
+  }
+
+  async getMediaById(id: string): Promise<{ id: string; fileName: string; mimeType: string; fileSize: number } | null> {
+    return this.inner.getMediaById(id);
+  }
+
+  async mediaExists(id: string): Promise<boolean> {
+    return this.inner.mediaExists(id);
+  }
+
+  /**
+   * The folder may already exist - there is no read-only lookup, so it is recorded once per name
+   */
+  async getOrCreateMediaFolder(folderName: string): Promise<string> {
+    let folderId = this.mediaFolders.get(folderName);
+    if (!folderId) {
+      folderId = this.newId();
+      this.mediaFolders.set(folderName, folderId);
+      this.recordCreate('media_folder', folderId, folderName, { name: folderName });
+    }
+    return folderId;
+  }
+
+  async getProductMedia(productId: string): Promise<Array<{ id: string; mediaId: string; position: number }>> {
+    return this.inner.getProductMedia(productId);
+  }
+
+  async deleteProductMedia(productMediaIds: string[]): Promise<{ success: boolean; deleted: number; errors: string[] }> {
+    for (const id of productMediaIds) {
+      this.recordDelete('product_media', id);
+    }
+    return { success: true, deleted: productMediaIds.length, errors: [] };
+  }
+
+  async syncProductMedia(
+    productId: string,
+    newProductMediaIds: string[]
+  ): Promise<{ removed: number; kept: number; errors: string[] }> {
+    const expected = new Set(newProductMediaIds);
+    const stale = (await this.inner.getProductMedia(productId)).filter((pm) => !expected.has(pm.id));
+    for (const productMedia of stale) {
+      this.recordDelete('product_media', productMedia.id, `product ${productId}`);
+    }
+    return { removed: stale.length, kept: newProductMediaIds.length, errors: [] };
+  }
+
+  /**
+   * Not recorded separately - the product diff already shows the property changes
+   */
+  async syncProductProperties(
+    _productId: string,
+    expectedPropertyOptionIds: string[]
+  ): Promise<{ removed: number; kept: number; errors: string[] }> {
+    return { removed: 0, kept: expectedPropertyOptionIds.length, errors: [] };
+  }
+
+  async getProductPriceIds(productId: string): Promise<string[]> {
+    return this.inner.getProductPriceIds(productId);
+  }
+
+  async syncProductPrices(
+    productId: string,
+    expectedPriceIds: string[]
+  ): Promise<{ removed: number; kept: number; errors: string[] }> {
+    const expected = new Set(expectedPriceIds);
+    const stale = (await this.inner.getProductPriceIds(productId)).filter((id) => !expected.has(id));
+    for (const id of stale) {
+      this.recordDelete('product_price', id, `product ${productId}`);
+    }
+    return { removed: stale.length, kept: expectedPriceIds.length, errors: [] };
+  }
+
+  async syncConfiguratorSettings(
+    parentProductId: string,
+    optionIds: string[]
+  ): Promise<{ success: boolean; created: number; errors: string[] }> {
+    this.recordUpdate('product_configurator_setting', parentProductId, undefined, null, { optionIds });
+    return { success: true, created: 0, errors: [] };
+  }
+
+  async testConnection(): Promise<boolean> {
+    return this.inner.testConnection();
+  }
+
+  isAuthenticated(): boolean {
+    return this.inner.isAuthenticated();
+  }
+
+  // ============================================
+  // CUSTOM FIELDS, SYSTEM DEFAULTS, ORDERS & CUSTOMERS (read-only)
+  // ============================================
+
+  /**
+   * Schema setup only - not part of the diff
+   */
+  async ensureCustomFieldSet(customFieldSet: { id: string; name: string }): Promise<ShopwareSyncResult> {
+    return this.ok(customFieldSet.id, 'update');
+  }
+
+  async getCustomFieldSetByName(name: string): Promise<{
+    id: string;
+    name: string;
+    config?: Record<string, unknown>;
+    customFields?: Array<{ id: string; name: string; type: string }>;
+  } | null> {
+    return this.inner.getCustomFieldSetByName(name);
+  }
+
+  async getDefaultTax(): Promise<{ id: string; taxRate: number; name: string } | null> {
+    return this.inner.getDefaultTax();
+  }
+
+  async getTaxes(): Promise<ShopwareTax[]> {
+    return this.inner.getTaxes();
+  }
+
+  async getDefaultCurrency(): Promise<{ id: string; isoCode: string; factor: number } | null> {
+    return this.inner.getDefaultCurrency();
+  }
+
+  async getCurrencies(): Promise<ShopwareCurrency[]> {
+    return this.inner.getCurrencies();
+  }
+
+  async getDeliveryTimes(): Promise<ShopwareDeliveryTime[]> {
+    return this.inner.getDeliveryTimes();
+  }
+
+  async getLanguages(): Promise<ShopwareLanguage[]> {
+    return this.inner.getLanguages();
+  }
+
+  async updateCanonicalSeoUrls(seoUrls: ShopwareSeoUrl[]): Promise<ShopwareSeoUrlResult[]> {
+    for (const seoUrl of seoUrls) {
+      this.recordUpdate('seo_url', seoUrl.foreignKey, seoUrl.seoPathInfo, null, {
+        routeName: seoUrl.routeName,
+        salesChannelId: seoUrl.salesChannelId,
+        languageId: seoUrl.languageId,
+        seoPathInfo: seoUrl.seoPathInfo,
+      });
+    }
+    return seoUrls.map((seoUrl) => ({ seoUrl, success: true }));
+  }
+
+  async getOrdersSince(since: Date | null, limit?: number): Promise<ShopwareOrder[]> {
+    return this.inner.getOrdersSince(since, limit);
+  }
+
+  async getCustomersChangedSince(since: Date | null, limit?: number): Promise<ShopwareCustomer[]> {
+    return this.inner.getCustomersChangedSince(since, limit);
+  }
+
+  async getCustomerGroups(): Promise<ShopwareCustomerGroup[]> {
+    return this.inner.getCustomerGroups();
+  }
+}
+
+/**
+ * True if writes through this client are only recorded (dry run)
+ * Services check it before persisting mappings of entities that were never created.
+ */
+export function isDryRunClient(client: IShopwareClient): client is RecordingShopwareClient {
+  return client instanceof RecordingShopwareClient;
+}
+
+/**
+ * True if the job was triggered as a dry run (SyncJobData.metadata.dryRun)
+ */
+export function isDryRunJob(jobData: { metadata?: Record<string, unknown> }): boolean {
+  return jobData.metadata?.dryRun === true;
+}
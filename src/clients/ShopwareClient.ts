@@ -4,6 +4,7 @@ import { IShopwareClient, ShopwareClientConfig } from './interfaces';
 import {
   ShopwareProduct,
   ShopwareStockUpdate,
+  ShopwareStockChange,
   ShopwareSyncResult,
   ShopwareBulkProduct,
   ShopwareBulkSyncResult,
@@ -13,7 +14,23 @@ import {
   ShopwarePropertyOption,
   ShopwareManufacturer,
   ShopwareUnit,
+  ShopwareRuleCondition,
   ShopwareAuthResponse,
+  ShopwareOrder,
+  ShopwareCustomer,
+  ShopwareCustomerGroup,
+  ShopwareCurrency,
+  ShopwareTax,
+  ShopwareDeliveryTime,
+  ShopwareLanguage,
+  ShopwareSeoUrl,
+  ShopwareSeoUrlResult,
+  ShopwareConfigEntity,
+  ShopwareMediaTranslation,
+  ShopwareMediaMetadata,
+  ShopwareOrderAddress,
+  ShopwareProductTranslation,
+  ShopwareProductVisibility,
 } from '../types/shopware';
 
 /**
@@ -149,6 +166,7 @@ export class ShopwareClient implements IShopwareClient {
     folderId?: string;
     title?: string;
     alt?: string;
+    translations?: Record<string, ShopwareMediaTranslation>;
   }): Promise<ShopwareSyncResult> {
     try {
       this.log.info('Creating media entity', { fileName: params.fileName });
@@ -157,6 +175,7 @@ export class ShopwareClient implements IShopwareClient {
       if (params.folderId) payload.mediaFolderId = params.folderId;
       if (params.title) payload.title = params.title;
       if (params.alt) payload.alt = params.alt;
+      if (params.translations) payload.translations = params.translations;
 
       const response = await this.http.post('/api/media', payload);
 
@@ -290,6 +309,7 @@ export class ShopwareClient implements IShopwareClient {
     folderId?: string;
     title?: string;
     alt?: string;
+    translations?: Record<string, ShopwareMediaTranslation>;
   }): Promise<ShopwareSyncResult & { mimeType?: string; fileSize?: number }> {
     try {
       this.log.info('Creating media from URL', { sourceUrl: params.sourceUrl, fileName: params.fileName });
@@ -361,6 +381,7 @@ export class ShopwareClient implements IShopwareClient {
       if (params.folderId) createPayload.mediaFolderId = params.folderId;
       if (params.title) createPayload.title = params.title;
       if (params.alt) createPayload.alt = params.alt;
+      if (params.translations) createPayload.translations = params.translations;
 
       let mediaId: string;
       try {
@@ -447,6 +468,42 @@ export class ShopwareClient implements IShopwareClient {
     }
   }
 
+  /**
+   * Update title, alt text and their translations of an existing media entity
+   */
+  async updateMediaMetadata(mediaId: string, metadata: ShopwareMediaMetadata): Promise<ShopwareSyncResult> {
+    try {
+      // Empty values clear texts that were removed in the source
+      const payload: Record<string, unknown> = {
+        title: metadata.title || null,
+        alt: metadata.alt || null,
+      };
+      if (metadata.translations) payload.translations = metadata.translations;
+
+      await this.http.patch(`/api/media/${mediaId}`, payload);
+
+      this.log.debug('Media metadata updated', { mediaId });
+
+      return {
+        id: mediaId,
+        productNumber: '',
+        action: 'update',
+        success: true,
+      };
+    } catch (error) {
+      const errorMessage = this.extractErrorMessage(error);
+      this.log.error('Failed to update media metadata', { mediaId, error: errorMessage });
+
+      return {
+        id: mediaId,
+        productNumber: '',
+        action: 'error',
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
   /**
    * Get media by ID
    */
@@ -724,6 +781,80 @@ export class ShopwareClient implements IShopwareClient {
     }
   }
 
+  /**
+   * Get the IDs of all advanced prices (product_price entries) of a product
+   */
+  async getProductPriceIds(productId: string): Promise<string[]> {
+    const pageSize = 500;
+    const ids: string[] = [];
+    let page = 1;
+    let isLastPage = false;
+
+    while (!isLastPage) {
+      const response = await this.http.post('/api/search/product-price', {
+        page,
+        limit: pageSize,
+        filter: [{ type: 'equals', field: 'productId', value: productId }],
+        sort: [{ field: 'id', order: 'ASC' }],
+        includes: { product_price: ['id'] },
+      });
+
+      const entries: Array<{ id: string }> = response.data?.data || [];
+      ids.push(...entries.map(entry => entry.id));
+      isLastPage = entries.length < pageSize;
+      page++;
+    }
+
+    return ids;
+  }
+
+  /**
+   * Sync advanced prices - removes product_price entries no longer present in Plenty
+   * Advanced prices are only upserted with the product, so prices of removed sales prices,
+   * rules or quantity tiers would otherwise stay active.
+   * @param productId - Shopware product ID
+   * @param expectedPriceIds - Array of product_price IDs that should exist (from current sync)
+   * @returns Object with removed and kept counts
+   */
+  async syncProductPrices(
+    productId: string,
+    expectedPriceIds: string[]
+  ): Promise<{ removed: number; kept: number; errors: string[] }> {
+    try {
+      const expectedIds = new Set(expectedPriceIds);
+      const idsToRemove = (await this.getProductPriceIds(productId)).filter(id => !expectedIds.has(id));
+
+      if (idsToRemove.length === 0) {
+        return { removed: 0, kept: expectedPriceIds.length, errors: [] };
+      }
+
+      this.log.info('Removing orphaned advanced prices', {
+        productId,
+        removingCount: idsToRemove.length,
+        removingIds: idsToRemove,
+        keepingCount: expectedPriceIds.length,
+      });
+
+      await this.http.post('/api/_action/sync', {
+        'delete-product-price': {
+          entity: 'product_price',
+          action: 'delete',
+          payload: idsToRemove.map(id => ({ id })),
+        },
+      });
+
+      return {
+        removed: idsToRemove.length,
+        kept: expectedPriceIds.length,
+        errors: [],
+      };
+    } catch (error) {
+      const errorMessage = this.extractErrorMessage(error);
+      this.log.error('Failed to sync advanced prices', { productId, error: errorMessage });
+      return { removed: 0, kept: 0, errors: [errorMessage] };
+    }
+  }
+
   /**
    * Sync configurator settings for a parent product
    * Creates product_configurator_setting entries for each option used by variants
@@ -850,6 +981,31 @@ export class ShopwareClient implements IShopwareClient {
     }
   }
 
+  /**
+   * Get all taxes configured in Shopware
+   */
+  async getTaxes(): Promise<ShopwareTax[]> {
+    try {
+      await this.authenticate();
+
+      const response = await this.http.post('/api/search/tax', {
+        limit: 500,
+        sort: [{ field: 'position', order: 'ASC' }],
+      });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return (response.data?.data || []).map((tax: any) => ({
+        id: tax.id,
+        taxRate: tax.taxRate,
+        name: tax.name,
+        position: tax.position,
+      }));
+    } catch (error) {
+      const errorMessage = this.extractErrorMessage(error);
+      this.log.error('Failed to fetch taxes', { error: errorMessage });
+      throw new Error(`Failed to fetch Shopware taxes: ${errorMessage}`);
+    }
+  }
+
   /**
    * Get the default currency from Shopware
    * Returns the system default currency (marked as isSystemDefault)
@@ -905,6 +1061,124 @@ export class ShopwareClient implements IShopwareClient {
     }
   }
 
+  /**
+   * Get all currencies configured in Shopware
+   */
+  async getCurrencies(): Promise<ShopwareCurrency[]> {
+    try {
+      await this.authenticate();
+
+      const response = await this.http.post('/api/search/currency', { limit: 500 });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return (response.data?.data || []).map((currency: any) => ({
+        id: currency.id,
+        isoCode: currency.isoCode,
+        factor: currency.factor,
+        symbol: currency.symbol,
+        shortName: currency.translated?.shortName || currency.shortName,
+        name: currency.translated?.name || currency.name,
+        position: currency.position,
+        isSystemDefault: currency.isSystemDefault,
+      }));
+    } catch (error) {
+      const errorMessage = this.extractErrorMessage(error);
+      this.log.error('Failed to fetch currencies', { error: errorMessage });
+      throw new Error(`Failed to fetch Shopware currencies: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Get all delivery times configured in Shopware
+   */
+  async getDeliveryTimes(): Promise<ShopwareDeliveryTime[]> {
+    try {
+      await this.authenticate();
+
+      const response = await this.http.post('/api/search/delivery-time', { limit: 500 });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return (response.data?.data || []).map((deliveryTime: any) => ({
+        id: deliveryTime.id,
+        name: deliveryTime.translated?.name || deliveryTime.name,
+        min: deliveryTime.min,
+        max: deliveryTime.max,
+        unit: deliveryTime.unit,
+      }));
+    } catch (error) {
+      const errorMessage = this.extractErrorMessage(error);
+      this.log.error('Failed to fetch delivery times', { error: errorMessage });
+      throw new Error(`Failed to fetch Shopware delivery times: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Get all languages configured in Shopware
+   */
+  async getLanguages(): Promise<ShopwareLanguage[]> {
+    try {
+      await this.authenticate();
+
+      const response = await this.http.post('/api/search/language', {
+        limit: 500,
+        associations: { locale: {} },
+      });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return (response.data?.data || []).map((language: any) => ({
+        id: language.id,
+        name: language.name,
+        localeCode: language.locale?.code || '',
+      }));
+    } catch (error) {
+      const errorMessage = this.extractErrorMessage(error);
+      this.log.error('Failed to fetch languages', { error: errorMessage });
+      throw new Error(`Failed to fetch Shopware languages: ${errorMessage}`);
+    }
+  }
+
+  // ============================================
+  // SEO URL METHODS
+  // ============================================
+
+  /**
+   * Set canonical SEO URLs
+   * Goes through Shopware's canonical endpoint (as the administration does): it demotes the
+   * previous canonical URL, which then redirects to the new one. One request per URL - the
+   * language is taken from the request context.
+   */
+  async updateCanonicalSeoUrls(seoUrls: ShopwareSeoUrl[]): Promise<ShopwareSeoUrlResult[]> {
+    const results: ShopwareSeoUrlResult[] = [];
+
+    for (const seoUrl of seoUrls) {
+      try {
+        const pathPrefix = seoUrl.routeName === 'frontend.detail.page' ? 'detail' : 'navigation';
+
+        await this.http.patch(
+          '/api/_action/seo-url/canonical',
+          {
+            foreignKey: seoUrl.foreignKey,
+            routeName: seoUrl.routeName,
+            pathInfo: `/${pathPrefix}/${seoUrl.foreignKey}`,
+            seoPathInfo: seoUrl.seoPathInfo,
+            salesChannelId: seoUrl.salesChannelId,
+            isModified: true,
+          },
+          { headers: { 'sw-language-id': seoUrl.languageId } }
+        );
+
+        results.push({ seoUrl, success: true });
+      } catch (error) {
+        const errorMessage = this.extractErrorMessage(error);
+        this.log.warn('Failed to update SEO URL', {
+          foreignKey: seoUrl.foreignKey,
+          seoPathInfo: seoUrl.seoPathInfo,
+          error: errorMessage,
+        });
+        results.push({ seoUrl, success: false, error: errorMessage });
+      }
+    }
+
+    return results;
+  }
+
   // ============================================
   // PRODUCT METHODS
   // ============================================
@@ -1037,6 +1311,34 @@ export class ShopwareClient implements IShopwareClient {
     }
   }
 
+  /**
+   * Get product by SKU with the associations a product write sets (current state for dry-run diffs)
+   * Translations are keyed by locale code, like the product payload.
+   */
+  async getProductSnapshot(sku: string): Promise<ShopwareProduct | null> {
+    try {
+      const response = await this.http.post('/api/search/product', {
+        filter: [{ type: 'equals', field: 'productNumber', value: sku }],
+        associations: {
+          categories: {},
+          properties: {},
+          options: {},
+          visibilities: {},
+          media: {},
+          prices: {},
+          translations: { associations: { language: { associations: { locale: {} } } } },
+        },
+        limit: 1,
+      });
+
+      const data = response.data?.data?.[0];
+      return data ? this.mapApiResponseToProductSnapshot(data) : null;
+    } catch (error) {
+      this.log.error('Failed to get product snapshot', { sku, error: this.extractErrorMessage(error) });
+      return null;
+    }
+  }
+
   /**
    * Check if product exists by SKU
    */
@@ -1144,6 +1446,168 @@ export class ShopwareClient implements IShopwareClient {
     }
   }
 
+  /**
+   * Set products inactive via the sync API
+   */
+  async deactivateProducts(productIds: string[]): Promise<{ success: boolean; updated: number; errors: string[] }> {
+    if (productIds.length === 0) {
+      return { success: true, updated: 0, errors: [] };
+    }
+
+    try {
+      await this.http.post('/api/_action/sync', {
+        'deactivate-products': {
+          entity: 'product',
+          action: 'upsert',
+          payload: productIds.map((id) => ({ id, active: false })),
+        },
+      });
+
+      this.log.info('Deactivated products', { count: productIds.length });
+      return { success: true, updated: productIds.length, errors: [] };
+    } catch (error) {
+      const errorMessage = this.extractErrorMessage(error);
+      this.log.error('Failed to deactivate products', { error: errorMessage, count: productIds.length });
+      return { success: false, updated: 0, errors: [errorMessage] };
+    }
+  }
+
+  /**
+   * Delete products via the sync API
+   * Deleting a parent also deletes its variants in Shopware
+   */
+  async deleteProducts(productIds: string[]): Promise<{ success: boolean; deleted: number; errors: string[] }> {
+    if (productIds.length === 0) {
+      return { success: true, deleted: 0, errors: [] };
+    }
+
+    try {
+      await this.http.post('/api/_action/sync', {
+        'delete-products': {
+          entity: 'product',
+          action: 'delete',
+          payload: productIds.map((id) => ({ id })),
+        },
+      });
+
+      this.log.info('Deleted products', { count: productIds.length });
+      return { success: true, deleted: productIds.length, errors: [] };
+    } catch (error) {
+      const errorMessage = this.extractErrorMessage(error);
+      this.log.error('Failed to delete products', { error: errorMessage, count: productIds.length });
+      return { success: false, deleted: 0, errors: [errorMessage] };
+    }
+  }
+
+  /**
+   * Remove product_visibility entries of products (all sales channels or only the given one)
+   */
+  async removeProductVisibilities(
+    productIds: string[],
+    salesChannelId?: string
+  ): Promise<{ success: boolean; removed: number; errors: string[] }> {
+    if (productIds.length === 0) {
+      return { success: true, removed: 0, errors: [] };
+    }
+
+    try {
+      const filter: Array<Record<string, unknown>> = [
+        { type: 'equalsAny', field: 'productId', value: productIds },
+      ];
+      if (salesChannelId) {
+        filter.push({ type: 'equals', field: 'salesChannelId', value: salesChannelId });
+      }
+
+      const pageSize = 500;
+      const visibilityIds: string[] = [];
+      let page = 1;
+      let isLastPage = false;
+      while (!isLastPage) {
+        const response = await this.http.post('/api/search-ids/product-visibility', {
+          page,
+          limit: pageSize,
+          filter,
+          sort: [{ field: 'id', order: 'ASC' }],
+        });
+        const ids: string[] = response.data?.data || [];
+        visibilityIds.push(...ids);
+        isLastPage = ids.length < pageSize;
+        page++;
+      }
+
+      if (visibilityIds.length > 0) {
+        await this.http.post('/api/_action/sync', {
+          'delete-product-visibilities': {
+            entity: 'product_visibility',
+            action: 'delete',
+            payload: visibilityIds.map((id) => ({ id })),
+          },
+        });
+      }
+
+      this.log.info('Removed product visibilities', { products: productIds.length, removed: visibilityIds.length });
+      return { success: true, removed: visibilityIds.length, errors: [] };
+    } catch (error) {
+      const errorMessage = this.extractErrorMessage(error);
+      this.log.error('Failed to remove product visibilities', { error: errorMessage, count: productIds.length });
+      return { success: false, removed: 0, errors: [errorMessage] };
+    }
+  }
+
+  /**
+   * Make products visible in a sales channel again (e.g. after hide-from-sales-channel)
+   * Only products without a product_visibility entry for the sales channel get one.
+   */
+  async addProductVisibilities(
+    productIds: string[],
+    salesChannelId: string
+  ): Promise<{ success: boolean; added: number; errors: string[] }> {
+    if (productIds.length === 0) {
+      return { success: true, added: 0, errors: [] };
+    }
+
+    try {
+      const pageSize = 500;
+      const visibleIds = new Set<string>();
+      let page = 1;
+      let isLastPage = false;
+      while (!isLastPage) {
+        const response = await this.http.post('/api/search/product-visibility', {
+          page,
+          limit: pageSize,
+          filter: [
+            { type: 'equalsAny', field: 'productId', value: productIds },
+            { type: 'equals', field: 'salesChannelId', value: salesChannelId },
+          ],
+          sort: [{ field: 'id', order: 'ASC' }],
+          includes: { product_visibility: ['productId'] },
+        });
+        const entries: Array<{ productId: string }> = response.data?.data || [];
+        entries.forEach((entry) => visibleIds.add(entry.productId));
+        isLastPage = entries.length < pageSize;
+        page++;
+      }
+
+      const missing = productIds.filter((id) => !visibleIds.has(id));
+      if (missing.length > 0) {
+        await this.http.post('/api/_action/sync', {
+          'add-product-visibilities': {
+            entity: 'product_visibility',
+            action: 'upsert',
+            payload: missing.map((productId) => ({ productId, salesChannelId, visibility: 30 })),
+          },
+        });
+      }
+
+      this.log.info('Added product visibilities', { products: productIds.length, added: missing.length });
+      return { success: true, added: missing.length, errors: [] };
+    } catch (error) {
+      const errorMessage = this.extractErrorMessage(error);
+      this.log.error('Failed to add product visibilities', { error: errorMessage, count: productIds.length });
+      return { success: false, added: 0, errors: [errorMessage] };
+    }
+  }
+
   /**
    * Update stock for a product by SKU
    */
@@ -1229,6 +1693,43 @@ export class ShopwareClient implements IShopwareClient {
     }
   }
 
+  /**
+   * Get the current stock of the given products
+   * Only fetches the fields needed for stock comparison. The IDs are requested in chunks of
+   * one page each, sorted by ID so the result is stable.
+   */
+  async getProductStocks(productIds: string[]): Promise<ShopwareStockChange[]> {
+    const pageSize = 500;
+    const stocks: ShopwareStockChange[] = [];
+
+    try {
+      for (let i = 0; i < productIds.length; i += pageSize) {
+        const response = await this.http.post('/api/search/product', {
+          limit: pageSize,
+          filter: [{ type: 'equalsAny', field: 'id', value: productIds.slice(i, i + pageSize) }],
+          sort: [{ field: 'id', order: 'ASC' }],
+          includes: { product: ['id', 'productNumber', 'stock', 'updatedAt', 'createdAt'] },
+        });
+
+        for (const entry of response.data?.data || []) {
+          stocks.push({
+            id: entry.id,
+            productNumber: entry.productNumber,
+            stock: entry.stock ?? 0,
+            updatedAt: entry.updatedAt || entry.createdAt,
+          });
+        }
+      }
+
+      this.log.info('Fetched product stocks', { requested: productIds.length, count: stocks.length });
+      return stocks;
+    } catch (error) {
+      const errorMessage = this.extractErrorMessage(error);
+      this.log.error('Failed to fetch product stocks', { requested: productIds.length, error: errorMessage });
+      throw new Error(`Failed to fetch Shopware product stocks: ${errorMessage}`);
+    }
+  }
+
   // ============================================
   // CATEGORY METHODS
   // ============================================
@@ -2070,6 +2571,7 @@ export class ShopwareClient implements IShopwareClient {
       name: string;
       priority?: number;
       translations?: Record<string, { name: string }>;
+      conditions?: ShopwareRuleCondition[]; // Replaces the rule's existing conditions when set
     }>
   ): Promise<ShopwareBulkSyncResult> {
     this.log.info('Bulk syncing prices', { count: prices.length });
@@ -2080,8 +2582,23 @@ export class ShopwareClient implements IShopwareClient {
         name: p.name,
         priority: p.priority ?? 100,
         ...(p.translations && { translations: p.translations }),
+        ...(p.conditions && { conditions: p.conditions }),
       }));
 
+      // Conditions are replaced, not merged - remove existing ones that are not in the new trees
+      const staleConditionIds = await this.getStaleRuleConditionIds(
+        prices.filter((p) => p.conditions !== undefined)
+      );
+      if (staleConditionIds.length > 0) {
+        await this.http.post('/api/_action/sync', {
+          'delete-rule-conditions': {
+            entity: 'rule_condition',
+            action: 'delete',
+            payload: staleConditionIds.map((id) => ({ id })),
+          },
+        });
+      }
+
       await this.http.post('/api/_action/sync', {
         'upsert-rule': {
           entity: 'rule',
@@ -2116,6 +2633,33 @@ export class ShopwareClient implements IShopwareClient {
     }
   }
 
+  /**
+   * Get IDs of existing conditions of the given rules that are not part of their new condition trees
+   */
+  private async getStaleRuleConditionIds(
+    rules: Array<{ id: string; conditions?: ShopwareRuleCondition[] }>
+  ): Promise<string[]> {
+    if (rules.length === 0) {
+      return [];
+    }
+
+    const keepIds = new Set<string>();
+    const collect = (conditions: ShopwareRuleCondition[]) => {
+      for (const condition of conditions) {
+        keepIds.add(condition.id);
+        collect(condition.children || []);
+      }
+    };
+    rules.forEach((rule) => collect(rule.conditions || []));
+
+    const response = await this.http.post('/api/search-ids/rule-condition', {
+      filter: [{ type: 'equalsAny', field: 'ruleId', value: rules.map((r) => r.id) }],
+    });
+    const existingIds: string[] = response.data?.data || [];
+
+    return existingIds.filter((id) => !keepIds.has(id));
+  }
+
   // ============================================
   // MANUFACTURER METHODS
   // ============================================
@@ -2388,6 +2932,196 @@ export class ShopwareClient implements IShopwareClient {
     }
   }
 
+  // ============================================
+  // ORPHANED CONFIG ENTITIES
+  // ============================================
+
+  /**
+   * Set categories inactive via the sync API (hides them from the storefront navigation)
+   */
+  async deactivateCategories(categoryIds: string[]): Promise<{ success: boolean; updated: number; errors: string[] }> {
+    if (categoryIds.length === 0) {
+      return { success: true, updated: 0, errors: [] };
+    }
+
+    try {
+      await this.http.post('/api/_action/sync', {
+        'deactivate-categories': {
+          entity: 'category',
+          action: 'upsert',
+          payload: categoryIds.map((id) => ({ id, active: false })),
+        },
+      });
+
+      this.log.info('Deactivated categories', { count: categoryIds.length });
+      return { success: true, updated: categoryIds.length, errors: [] };
+    } catch (error) {
+      const errorMessage = this.extractErrorMessage(error);
+      this.log.error('Failed to deactivate categories', { error: errorMessage, count: categoryIds.length });
+      return { success: false, updated: 0, errors: [errorMessage] };
+    }
+  }
+
+  /**
+   * Delete config entities via the sync API
+   * Deleting a category also deletes its subcategories, deleting a property group its options
+   */
+  async deleteConfigEntities(
+    entity: ShopwareConfigEntity,
+    ids: string[]
+  ): Promise<{ success: boolean; deleted: number; errors: string[] }> {
+    if (ids.length === 0) {
+      return { success: true, deleted: 0, errors: [] };
+    }
+
+    try {
+      await this.http.post('/api/_action/sync', {
+        [`delete-${entity}`]: {
+          entity,
+          action: 'delete',
+          payload: ids.map((id) => ({ id })),
+        },
+      });
+
+      this.log.info('Deleted config entities', { entity, count: ids.length });
+      return { success: true, deleted: ids.length, errors: [] };
+    } catch (error) {
+      const errorMessage = this.extractErrorMessage(error);
+      this.log.error('Failed to delete config entities', { entity, error: errorMessage, count: ids.length });
+      return { success: false, deleted: 0, errors: [errorMessage] };
+    }
+  }
+
+  // ============================================
+  // ORDER METHODS
+  // ============================================
+
+  /**
+   * Get orders created since the given date (oldest first)
+   * Pages through /api/search/order with all associations needed for import
+   */
+  async getOrdersSince(since: Date | null, limit?: number): Promise<ShopwareOrder[]> {
+    const pageSize = 100;
+    const orders: ShopwareOrder[] = [];
+    let page = 1;
+    let isLastPage = false;
+
+    try {
+      while (!isLastPage) {
+        const response = await this.http.post('/api/search/order', {
+          page,
+          limit: pageSize,
+          filter: since
+            ? [{ type: 'range', field: 'createdAt', parameters: { gte: since.toISOString() } }]
+            : [],
+          sort: [{ field: 'createdAt', order: 'ASC' }],
+          associations: {
+            lineItems: {},
+            currency: {},
+            transactions: {},
+            orderCustomer: { associations: { salutation: {} } },
+            billingAddress: { associations: { country: {} } },
+            deliveries: {
+              associations: { shippingOrderAddress: { associations: { country: {} } } },
+            },
+          },
+        });
+
+        const entries = response.data?.data || [];
+        for (const entry of entries) {
+          orders.push(this.mapApiResponseToOrder(entry));
+        }
+
+        isLastPage = entries.length < pageSize || (limit !== undefined && orders.length >= limit);
+        page++;
+      }
+
+      this.log.info('Fetched orders', { since: since?.toISOString(), count: orders.length });
+      return limit !== undefined ? orders.slice(0, limit) : orders;
+    } catch (error) {
+      const errorMessage = this.extractErrorMessage(error);
+      this.log.error('Failed to fetch orders', { since: since?.toISOString(), error: errorMessage });
+      throw new Error(`Failed to fetch Shopware orders: ${errorMessage}`);
+    }
+  }
+
+  // ============================================
+  // CUSTOMER METHODS
+  // ============================================
+
+  /**
+   * Get customers created or updated since the given date (oldest change first)
+   * Guest accounts are skipped - their data only lives on orders
+   */
+  async getCustomersChangedSince(since: Date | null, limit?: number): Promise<ShopwareCustomer[]> {
+    const pageSize = 100;
+    const customers: ShopwareCustomer[] = [];
+    let page = 1;
+    let isLastPage = false;
+
+    const filter: Record<string, unknown>[] = [{ type: 'equals', field: 'guest', value: false }];
+    if (since) {
+      filter.push({
+        type: 'multi',
+        operator: 'or',
+        queries: [
+          { type: 'range', field: 'createdAt', parameters: { gte: since.toISOString() } },
+          { type: 'range', field: 'updatedAt', parameters: { gte: since.toISOString() } },
+          // Address changes do not touch the customer's updatedAt
+          { type: 'range', field: 'addresses.createdAt', parameters: { gte: since.toISOString() } },
+          { type: 'range', field: 'addresses.updatedAt', parameters: { gte: since.toISOString() } },
+        ],
+      });
+    }
+
+    try {
+      while (!isLastPage) {
+        const response = await this.http.post('/api/search/customer', {
+          page,
+          limit: pageSize,
+          filter,
+          sort: [{ field: 'createdAt', order: 'ASC' }],
+          associations: {
+            salutation: {},
+            group: {},
+            addresses: { associations: { country: {} } },
+          },
+        });
+
+        const entries = response.data?.data || [];
+        for (const entry of entries) {
+          customers.push(this.mapApiResponseToCustomer(entry));
+        }
+
+        isLastPage = entries.length < pageSize || (limit !== undefined && customers.length >= limit);
+        page++;
+      }
+
+      this.log.info('Fetched customers', { since: since?.toISOString(), count: customers.length });
+      return limit !== undefined ? customers.slice(0, limit) : customers;
+    } catch (error) {
+      const errorMessage = this.extractErrorMessage(error);
+      this.log.error('Failed to fetch customers', { since: since?.toISOString(), error: errorMessage });
+      throw new Error(`Failed to fetch Shopware customers: ${errorMessage}`);
+    }
+  }
+
+  async getCustomerGroups(): Promise<ShopwareCustomerGroup[]> {
+    try {
+      const response = await this.http.post('/api/search/customer-group', { limit: 500 });
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return (response.data?.data || []).map((group: any) => ({
+        id: group.id,
+        name: group.translated?.name || group.name,
+        displayGross: group.displayGross,
+      }));
+    } catch (error) {
+      const errorMessage = this.extractErrorMessage(error);
+      this.log.error('Failed to fetch customer groups', { error: errorMessage });
+      throw new Error(`Failed to fetch Shopware customer groups: ${errorMessage}`);
+    }
+  }
+
   // ============================================
   // PAYLOAD BUILDERS
   // ============================================
@@ -2398,15 +3132,28 @@ export class ShopwareClient implements IShopwareClient {
 
     if (product.id) payload.id = product.id;
     if (product.productNumber) payload.productNumber = product.productNumber;
+    if (product.ean !== undefined) payload.ean = product.ean;
+    if (product.manufacturerNumber !== undefined) payload.manufacturerNumber = product.manufacturerNumber;
     if (product.name !== undefined) payload.name = product.name;
     if (product.description !== undefined) payload.description = product.description;
     // Stock MUST be an integer for Shopware
     if (product.stock !== undefined) payload.stock = Math.floor(Number(product.stock));
     if (product.active !== undefined) payload.active = product.active;
     if (product.price) payload.price = product.price;
+    if (product.prices) payload.prices = product.prices;
     if (product.taxId) payload.taxId = product.taxId;
     if (product.manufacturerId) payload.manufacturerId = product.manufacturerId;
     if (product.unitId) payload.unitId = product.unitId;
+    // Packaging content and reference amount for the base price ("3,99 € / 1 kg")
+    if (product.purchaseUnit !== undefined) payload.purchaseUnit = product.purchaseUnit;
+    if (product.referenceUnit !== undefined) payload.referenceUnit = product.referenceUnit;
+    // Physical attributes (weight in kg, dimensions in mm)
+    if (product.weight !== undefined) payload.weight = product.weight;
+    if (product.width !== undefined) payload.width = product.width;
+    if (product.height !== undefined) payload.height = product.height;
+    if (product.length !== undefined) payload.length = product.length;
+    if (product.purchasePrices) payload.purchasePrices = product.purchasePrices;
+    if (product.deliveryTimeId) payload.deliveryTimeId = product.deliveryTimeId;
     // Parent-child relationship
     if (product.parentId) payload.parentId = product.parentId;
     // Options for variant products (child products use options, not properties for variant-defining attributes)
@@ -2473,10 +3220,12 @@ export class ShopwareClient implements IShopwareClient {
 
     if (category.id) payload.id = category.id;
     if (category.parentId) payload.parentId = category.parentId;
+    if (category.afterCategoryId !== undefined) payload.afterCategoryId = category.afterCategoryId;
     if (category.name !== undefined) payload.name = category.name;
     if (category.active !== undefined) payload.active = category.active;
     if (category.visible !== undefined) payload.visible = category.visible;
     if (category.cmsPageId) payload.cmsPageId = category.cmsPageId;
+    if (category.mediaId !== undefined) payload.mediaId = category.mediaId;
     if (category.translations) payload.translations = category.translations;
 
     // Remove internal tracking fields
@@ -2588,6 +3337,60 @@ export class ShopwareClient implements IShopwareClient {
     };
   }
 
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private mapApiResponseToProductSnapshot(data: any): ShopwareProduct {
+    const translations: Record<string, ShopwareProductTranslation> = {};
+    for (const translation of data.translations || []) {
+      const locale = translation.language?.locale?.code;
+      if (!locale) continue;
+      translations[locale] = {
+        name: translation.name,
+        description: translation.description,
+        metaDescription: translation.metaDescription,
+        metaTitle: translation.metaTitle,
+        keywords: translation.keywords,
+        customFields: translation.customFields,
+      };
+    }
+
+    return {
+      ...this.mapApiResponseToProduct(data),
+      parentId: data.parentId ?? undefined,
+      ean: data.ean,
+      manufacturerNumber: data.manufacturerNumber,
+      deliveryTimeId: data.deliveryTimeId,
+      purchaseUnit: data.purchaseUnit,
+      referenceUnit: data.referenceUnit,
+      weight: data.weight,
+      width: data.width,
+      height: data.height,
+      length: data.length,
+      purchasePrices: data.purchasePrices,
+      customFields: data.customFields,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      prices: (data.prices || []).map((p: any) => ({
+        id: p.id,
+        ruleId: p.ruleId,
+        quantityStart: p.quantityStart,
+        quantityEnd: p.quantityEnd ?? null,
+        price: p.price,
+      })),
+      categories: (data.categories || []).map((c: { id: string }) => ({ id: c.id })),
+      properties: (data.properties || []).map((p: { id: string }) => ({ id: p.id })),
+      options: (data.options || []).map((o: { id: string }) => ({ id: o.id })),
+      visibilities: (data.visibilities || []).map((v: ShopwareProductVisibility) => ({
+        salesChannelId: v.salesChannelId,
+        visibility: v.visibility,
+      })),
+      media: (data.media || []).map((m: { id: string; mediaId: string; position: number }) => ({
+        id: m.id,
+        mediaId: m.mediaId,
+        position: m.position,
+      })),
+      translations,
+    };
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private mapApiResponseToCategory(data: any): ShopwareCategory {
     return {
@@ -2597,6 +3400,8 @@ export class ShopwareClient implements IShopwareClient {
       active: data.active,
       visible: data.visible,
       level: data.level,
+      afterCategoryId: data.afterCategoryId ?? null,
+      mediaId: data.mediaId ?? null,
     };
   }
 
@@ -2643,6 +3448,102 @@ export class ShopwareClient implements IShopwareClient {
     };
   }
 
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private mapApiResponseToOrder(data: any): ShopwareOrder {
+    const transactions = [...(data.transactions || [])].sort(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (a: any, b: any) => String(a.createdAt).localeCompare(String(b.createdAt))
+    );
+    const delivery = data.deliveries?.[0];
+
+    return {
+      id: data.id,
+      orderNumber: data.orderNumber,
+      orderDateTime: data.orderDateTime,
+      createdAt: data.createdAt,
+      salesChannelId: data.salesChannelId,
+      currencyId: data.currencyId,
+      currencyIsoCode: data.currency?.isoCode,
+      currencyFactor: data.currencyFactor,
+      amountTotal: data.amountTotal,
+      amountNet: data.amountNet,
+      shippingTotal: data.shippingTotal,
+      taxStatus: data.taxStatus,
+      customerComment: data.customerComment || undefined,
+      paymentMethodId: transactions[transactions.length - 1]?.paymentMethodId,
+      shippingMethodId: delivery?.shippingMethodId,
+      orderCustomer: {
+        customerId: data.orderCustomer?.customerId || undefined,
+        customerNumber: data.orderCustomer?.customerNumber || undefined,
+        email: data.orderCustomer?.email,
+        firstName: data.orderCustomer?.firstName,
+        lastName: data.orderCustomer?.lastName,
+        salutation: data.orderCustomer?.salutation?.salutationKey,
+        company: data.orderCustomer?.company || undefined,
+      },
+      billingAddress: this.mapApiResponseToOrderAddress(data.billingAddress),
+      shippingAddress: delivery?.shippingOrderAddress
+        ? this.mapApiResponseToOrderAddress(delivery.shippingOrderAddress)
+        : undefined,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      lineItems: (data.lineItems || []).map((item: any) => ({
+        id: item.id,
+        type: item.type,
+        productId: item.productId || undefined,
+        productNumber: item.payload?.productNumber,
+        label: item.label,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        totalPrice: item.totalPrice,
+        taxRate: item.price?.calculatedTaxes?.[0]?.taxRate,
+        position: item.position,
+      })),
+    };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private mapApiResponseToOrderAddress(data: any): ShopwareOrderAddress {
+    return {
+      id: data?.id,
+      firstName: data?.firstName || '',
+      lastName: data?.lastName || '',
+      company: data?.company || undefined,
+      street: data?.street || '',
+      additionalAddressLine1: data?.additionalAddressLine1 || undefined,
+      additionalAddressLine2: data?.additionalAddressLine2 || undefined,
+      zipcode: data?.zipcode || '',
+      city: data?.city || '',
+      countryIso: data?.country?.iso,
+      phoneNumber: data?.phoneNumber || undefined,
+    };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private mapApiResponseToCustomer(data: any): ShopwareCustomer {
+    return {
+      id: data.id,
+      customerNumber: data.customerNumber,
+      email: data.email,
+      firstName: data.firstName,
+      lastName: data.lastName,
+      salutation: data.salutation?.salutationKey,
+      company: data.company || undefined,
+      groupId: data.groupId,
+      groupName: data.group?.translated?.name || data.group?.name,
+      active: data.active,
+      guest: data.guest,
+      defaultBillingAddressId: data.defaultBillingAddressId || undefined,
+      defaultShippingAddressId: data.defaultShippingAddressId || undefined,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      addresses: (data.addresses || []).map((address: any) => ({
+        ...this.mapApiResponseToOrderAddress(address),
+        id: address.id,
+      })),
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt || undefined,
+    };
+  }
+
   // ============================================
   // UTILITY METHODS
   // ============================================
@@ -1,6 +1,10 @@
 import { IShopwareClient, ShopwareClientConfig, MockShopwareClientConfig } from './interfaces';
 import { MockShopwareClient } from './MockShopwareClient';
 import { ShopwareClient } from './ShopwareClient';
+import { RecordingShopwareClient, isDryRunJob } from './RecordingShopwareClient';
+import { getPrismaClient } from '../database/client';
+import { TenantConfigService } from '../services/TenantConfigService';
+import { decryptJSON } from '../utils/encryption';
 import { createLogger } from '../utils/logger';
 
 const log = createLogger({ component: 'ShopwareClientFactory' });
@@ -19,13 +23,26 @@ export interface ShopwareClientFactoryConfig {
   };
 }
 
+/**
+ * Tenant Shopware connection details (decrypted)
+ * DecryptedSyncJobData satisfies this shape, so processors can pass their job data directly
+ */
+export interface TenantShopwareConnection {
+  tenantId: string;
+  shopwareUrl: string;
+  shopwareCredentials: {
+    clientId: string;
+    clientSecret: string;
+  };
+}
+
 /**
  * Factory function to create the appropriate Shopware client
  * based on configuration
  */
 export function createShopwareClient(config: ShopwareClientFactoryConfig): IShopwareClient {
-  // Check environment variable if useMock is not explicitly set
-  const useMock = config.useMock ?? process.env.USE_MOCK_SHOPWARE !== 'false';
+  // Fall back to the process-wide default if useMock is not explicitly set
+  const useMock = config.useMock ?? shouldUseMockShopware();
 
   if (useMock) {
     log.info('Creating MockShopwareClient', { tenantId: config.tenantId });
@@ -35,16 +52,15 @@ export function createShopwareClient(config: ShopwareClientFactoryConfig): IShop
     return new MockShopwareClient(mockConfig);
   }
 
-  // Use real Shopware client
-  // Get config from parameter or environment variables
-  const baseUrl = config.shopwareConfig?.baseUrl || process.env.SHOPWARE_API_URL;
-  const clientId = config.shopwareConfig?.clientId || process.env.SHOPWARE_CLIENT_ID;
-  const clientSecret = config.shopwareConfig?.clientSecret || process.env.SHOPWARE_CLIENT_SECRET;
+  // Use real Shopware client with the tenant's own connection
+  const baseUrl = config.shopwareConfig?.baseUrl;
+  const clientId = config.shopwareConfig?.clientId;
+  const clientSecret = config.shopwareConfig?.clientSecret;
 
   if (!baseUrl || !clientId || !clientSecret) {
     throw new Error(
-      'Shopware configuration missing. Set SHOPWARE_API_URL, SHOPWARE_CLIENT_ID, and SHOPWARE_CLIENT_SECRET ' +
-        'environment variables or provide shopwareConfig parameter.'
+      `Shopware configuration missing for tenant ${config.tenantId}. ` +
+        'Set shopwareUrl and shopwareCredentials on the tenant.'
     );
   }
 
@@ -63,7 +79,77 @@ export function createShopwareClient(config: ShopwareClientFactoryConfig): IShop
 }
 
 /**
- * Check if mock Shopware client should be used
+ * Create the Shopware client for a tenant
+ * Uses the tenant's own Shopware URL and credentials, and the tenant's
+ * useMockShopware setting (falls back to USE_MOCK_SHOPWARE if not configured).
+ * If no connection is given, the tenant is loaded and its credentials decrypted.
+ */
+export async function createTenantShopwareClient(
+  tenantId: string,
+  connection?: TenantShopwareConnection
+): Promise<IShopwareClient> {
+  const tenantConfig = new TenantConfigService();
+  const useMock = (await tenantConfig.getUseMockShopware(tenantId)) ?? shouldUseMockShopware();
+
+  if (useMock) {
+    return createShopwareClient({ tenantId, useMock });
+  }
+
+  const resolved = connection ?? (await loadTenantShopwareConnection(tenantId));
+
+  return createShopwareClient({
+    tenantId,
+    useMock,
+    shopwareConfig: {
+      baseUrl: resolved.shopwareUrl,
+      clientId: resolved.shopwareCredentials.clientId,
+      clientSecret: resolved.shopwareCredentials.clientSecret,
+    },
+  });
+}
+
+/**
+ * Create the Shopware client for a sync job
+ * Dry-run jobs get the tenant client wrapped in a RecordingShopwareClient, so writes are only recorded.
+ */
+export async function createJobShopwareClient(
+  jobData: TenantShopwareConnection & { metadata?: Record<string, unknown> }
+): Promise<IShopwareClient> {
+  const client = await createTenantShopwareClient(jobData.tenantId, jobData);
+
+  if (isDryRunJob(jobData)) {
+    log.info('Dry run - Shopware writes are recorded, not sent', { tenantId: jobData.tenantId });
+    return new RecordingShopwareClient(client, jobData.tenantId);
+  }
+
+  return client;
+}
+
+/**
+ * Load and decrypt a tenant's Shopware connection from the database
+ */
+async function loadTenantShopwareConnection(tenantId: string): Promise<TenantShopwareConnection> {
+  const tenant = await getPrismaClient().tenant.findUnique({
+    where: { id: tenantId },
+    select: { shopwareUrl: true, shopwareCredentials: true },
+  });
+
+  if (!tenant) {
+    throw new Error(`Tenant not found: ${tenantId}`);
+  }
+
+  return {
+    tenantId,
+    shopwareUrl: tenant.shopwareUrl,
+    shopwareCredentials: decryptJSON<{ clientId: string; clientSecret: string }>(
+      tenant.shopwareCredentials
+    ),
+  };
+}
+
+/**
+ * Check if mock Shopware client should be used by default
+ * (tenants can override this with the useMockShopware config key)
  */
 export function shouldUseMockShopware(): boolean {
   return process.env.USE_MOCK_SHOPWARE !== 'false';
@@ -2,4 +2,5 @@ export * from './PlentyClient';
 export * from './MockShopwareClient';
 export * from './ShopwareClient';
 export * from './ShopwareClientFactory';
+export * from './RecordingShopwareClient';
 export * from './interfaces';
@@ -4,11 +4,25 @@ import {
   ShopwarePropertyGroup,
   ShopwarePropertyOption,
   ShopwareStockUpdate,
+  ShopwareStockChange,
   ShopwareSyncResult,
   ShopwareBulkProduct,
   ShopwareBulkSyncResult,
   ShopwareManufacturer,
   ShopwareUnit,
+  ShopwareRuleCondition,
+  ShopwareOrder,
+  ShopwareCustomer,
+  ShopwareCustomerGroup,
+  ShopwareCurrency,
+  ShopwareTax,
+  ShopwareDeliveryTime,
+  ShopwareLanguage,
+  ShopwareSeoUrl,
+  ShopwareSeoUrlResult,
+  ShopwareConfigEntity,
+  ShopwareMediaTranslation,
+  ShopwareMediaMetadata,
 } from '../types/shopware';
 
 /**
@@ -41,6 +55,11 @@ export interface IShopwareClient {
    */
   getProductBySku(sku: string): Promise<ShopwareProduct | null>;
 
+  /**
+   * Get product by SKU with the associations a product write sets (current state for dry-run diffs)
+   */
+  getProductSnapshot(sku: string): Promise<ShopwareProduct | null>;
+
   /**
    * Check if product exists by SKU
    */
@@ -52,6 +71,33 @@ export interface IShopwareClient {
    */
   bulkSyncProducts(products: ShopwareBulkProduct[]): Promise<ShopwareBulkSyncResult>;
 
+  /**
+   * Set products inactive (deletion propagation)
+   */
+  deactivateProducts(productIds: string[]): Promise<{ success: boolean; updated: number; errors: string[] }>;
+
+  /**
+   * Delete products by their IDs (deletion propagation)
+   */
+  deleteProducts(productIds: string[]): Promise<{ success: boolean; deleted: number; errors: string[] }>;
+
+  /**
+   * Remove product visibilities, optionally only for one sales channel
+   * The products stay in Shopware but no longer appear in the storefront
+   */
+  removeProductVisibilities(
+    productIds: string[],
+    salesChannelId?: string
+  ): Promise<{ success: boolean; removed: number; errors: string[] }>;
+
+  /**
+   * Make products visible in a sales channel again (only products without a visibility there)
+   */
+  addProductVisibilities(
+    productIds: string[],
+    salesChannelId: string
+  ): Promise<{ success: boolean; added: number; errors: string[] }>;
+
   /**
    * Update stock for a product
    */
@@ -62,6 +108,13 @@ export interface IShopwareClient {
    */
   batchUpdateStock(updates: ShopwareStockUpdate[]): Promise<ShopwareSyncResult[]>;
 
+  /**
+   * Get the current stock of the given products
+   * Order-driven stock changes do not touch product.updatedAt, so changes can only be
+   * detected by reading the stock of every product.
+   */
+  getProductStocks(productIds: string[]): Promise<ShopwareStockChange[]>;
+
   /**
    * Create a new category
    */
@@ -179,6 +232,7 @@ export interface IShopwareClient {
 
   /**
    * Bulk sync prices (create or update in batch)
+   * Prices are Shopware rules - advanced product prices reference them by rule ID
    */
   bulkSyncPrices(
     prices: Array<{
@@ -186,6 +240,7 @@ export interface IShopwareClient {
       name: string;
       priority?: number;
       translations?: Record<string, { name: string }>;
+      conditions?: ShopwareRuleCondition[]; // Replaces the rule's existing conditions when set
     }>
   ): Promise<ShopwareBulkSyncResult>;
 
@@ -239,6 +294,23 @@ export interface IShopwareClient {
    */
   bulkSyncUnits(units: ShopwareUnit[]): Promise<ShopwareBulkSyncResult>;
 
+  // ============================================
+  // ORPHANED CONFIG ENTITIES
+  // ============================================
+
+  /**
+   * Set categories inactive (orphan policy 'deactivate')
+   */
+  deactivateCategories(categoryIds: string[]): Promise<{ success: boolean; updated: number; errors: string[] }>;
+
+  /**
+   * Delete categories, property groups/options, manufacturers or units by their IDs (orphan policy 'delete')
+   */
+  deleteConfigEntities(
+    entity: ShopwareConfigEntity,
+    ids: string[]
+  ): Promise<{ success: boolean; deleted: number; errors: string[] }>;
+
   // ============================================
   // MEDIA METHODS
   // ============================================
@@ -251,6 +323,7 @@ export interface IShopwareClient {
     folderId?: string;
     title?: string;
     alt?: string;
+    translations?: Record<string, ShopwareMediaTranslation>;
   }): Promise<ShopwareSyncResult>;
 
   /**
@@ -269,8 +342,15 @@ export interface IShopwareClient {
     folderId?: string;
     title?: string;
     alt?: string;
+    translations?: Record<string, ShopwareMediaTranslation>;
   }): Promise<ShopwareSyncResult & { mimeType?: string; fileSize?: number }>;
 
+  /**
+   * Update title, alt text and their translations of an existing media entity
+   * The file itself is not touched.
+   */
+  updateMediaMetadata(mediaId: string, metadata: ShopwareMediaMetadata): Promise<ShopwareSyncResult>;
+
   /**
    * Get media by ID
    */
@@ -315,6 +395,19 @@ export interface IShopwareClient {
     expectedPropertyOptionIds: string[]
   ): Promise<{ removed: number; kept: number; errors: string[] }>;
 
+  /**
+   * Get the IDs of all advanced prices (product_price entries) of a product
+   */
+  getProductPriceIds(productId: string): Promise<string[]>;
+
+  /**
+   * Sync advanced prices - removes product_price entries no longer present in Plenty
+   */
+  syncProductPrices(
+    productId: string,
+    expectedPriceIds: string[]
+  ): Promise<{ removed: number; kept: number; errors: string[] }>;
+
   /**
    * Sync configurator settings for a parent product
    * Creates product_configurator_setting entries for each option used by variants
@@ -383,11 +476,68 @@ export interface IShopwareClient {
    */
   getDefaultTax(): Promise<{ id: string; taxRate: number; name: string } | null>;
 
+  /**
+   * Get all tax entities configured in Shopware
+   * Used to resolve mapped tax IDs to rates and to suggest Plenty VAT ID mappings
+   */
+  getTaxes(): Promise<ShopwareTax[]>;
+
   /**
    * Get the default currency from Shopware
    * Returns the system default currency (typically EUR)
    */
   getDefaultCurrency(): Promise<{ id: string; isoCode: string; factor: number } | null>;
+
+  /**
+   * Get all currencies configured in Shopware
+   * Used to resolve Plenty currency ISO codes to Shopware currency IDs
+   */
+  getCurrencies(): Promise<ShopwareCurrency[]>;
+
+  /**
+   * Get all delivery times configured in Shopware
+   * Used to map Plenty availabilities to deliveryTimeId
+   */
+  getDeliveryTimes(): Promise<ShopwareDeliveryTime[]>;
+
+  /**
+   * Get all languages configured in Shopware (with their locale codes)
+   * Used to resolve Plenty languages to Shopware language IDs
+   */
+  getLanguages(): Promise<ShopwareLanguage[]>;
+
+  /**
+   * Set canonical SEO URLs (marked as modified, so Shopware's indexer keeps them)
+   * The previous canonical URL stays as a non-canonical URL that redirects to the new one.
+   */
+  updateCanonicalSeoUrls(seoUrls: ShopwareSeoUrl[]): Promise<ShopwareSeoUrlResult[]>;
+
+  // ============================================
+  // ORDER METHODS
+  // ============================================
+
+  /**
+   * Get orders created since the given date (oldest first)
+   * Includes order customer, billing/shipping address and line items.
+   * Pass null to fetch all orders.
+   */
+  getOrdersSince(since: Date | null, limit?: number): Promise<ShopwareOrder[]>;
+
+  // ============================================
+  // CUSTOMER METHODS
+  // ============================================
+
+  /**
+   * Get customers created or updated since the given date (oldest change first)
+   * Includes addresses (with country), salutation and customer group.
+   * Pass null to fetch all customers.
+   */
+  getCustomersChangedSince(since: Date | null, limit?: number): Promise<ShopwareCustomer[]>;
+
+  /**
+   * Get all customer groups (for customer group → Plenty customer class mappings)
+   */
+  getCustomerGroups(): Promise<ShopwareCustomerGroup[]>;
 }
 
 /**
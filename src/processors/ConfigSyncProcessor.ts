@@ -1,20 +1,29 @@
-import { PrismaClient, SyncType } from '@prisma/client';
+import { PrismaClient, SyncType, SyncDirection } from '@prisma/client';
 import { getPrismaClient } from '../database/client';
 import { createJobLogger } from '../utils/logger';
 import { PlentyClient } from '../clients/PlentyClient';
 import type { PlentyClientConfig } from '../clients/PlentyClient';
-import { createShopwareClient } from '../clients/ShopwareClientFactory';
+import { getPlentyRateLimiter } from '../clients/PlentyRateLimiter';
+import { createJobShopwareClient } from '../clients/ShopwareClientFactory';
+import { isDryRunClient } from '../clients/RecordingShopwareClient';
 import type { IShopwareClient } from '../clients/interfaces';
 import type {
   PlentyCategory,
+  PlentyCategoryDetail,
   PlentyAttribute,
   PlentySalesPrice,
   PlentyManufacturer,
   PlentyUnit,
   PlentyProperty,
 } from '../types/plenty';
+import type { ShopwareCategoryTranslation, ShopwareSeoPath } from '../types/shopware';
 import type { DecryptedSyncJobData, ConfigSyncResult, EntitySyncResult } from '../types/sync';
 import { getSyncLogService, SyncLogService } from '../services/SyncLogService';
+import { SeoUrlService, buildSeoPaths } from '../services/SeoUrlService';
+import { OrphanPolicyService } from '../services/OrphanPolicyService';
+import type { CategoryMappingLookup, CategoryMappingRecord } from '../services/CategoryMappingService';
+import { getCategoryPlentyIds, resolveCategoryRoot } from '../services/CategorySyncService';
+import type { CategoryRoots } from '../services/CategorySyncService';
 
 /**
  * Configuration Sync Processor
@@ -65,19 +74,28 @@ export class ConfigSyncProcessor {
     };
 
     try {
+      // Config entities are only ever written Plenty → Shopware
+      if (jobData.direction === SyncDirection.SHOPWARE_TO_PLENTY) {
+        throw new Error(
+          `Config sync does not support ${SyncDirection.SHOPWARE_TO_PLENTY} - use ${SyncDirection.PLENTY_TO_SHOPWARE}`
+        );
+      }
+      if (jobData.direction === SyncDirection.BI_DIRECTIONAL) {
+        log.warn('Config sync only writes Plenty → Shopware - BI_DIRECTIONAL runs as PLENTY_TO_SHOPWARE');
+      }
+
       // Initialize Plenty client
       const plentyConfig: PlentyClientConfig = {
         baseUrl: jobData.plentyUrl,
         credentials: jobData.plentyCredentials,
+        rateLimiter: getPlentyRateLimiter(),
       };
       const plenty = new PlentyClient(plentyConfig);
       await plenty.authenticate();
       await this.syncLog.logInfo(jobData.tenantId, jobData.id, SyncType.CONFIG, 'Plenty API authenticated');
 
-      // Initialize Shopware client
-      const shopware: IShopwareClient = createShopwareClient({
-        tenantId: jobData.tenantId,
-      });
+      // Initialize Shopware client (recording client for dry runs)
+      const shopware: IShopwareClient = await createJobShopwareClient(jobData);
       await shopware.authenticate();
       await this.syncLog.logInfo(jobData.tenantId, jobData.id, SyncType.CONFIG, 'Shopware API authenticated');
 
@@ -122,8 +140,20 @@ export class ConfigSyncProcessor {
         jobData.tenantId, jobData.id, SyncType.CONFIG, 'properties', result.properties
       );
 
-      // Update sync state
-      await this.updateSyncState(jobData.tenantId);
+      // Apply the orphan policies to entities deleted in Plenty (after all syncs - moves are applied first)
+      log.info('Applying orphan policies');
+      result.orphanPolicies = await new OrphanPolicyService().applyPolicies(jobData.tenantId, shopware);
+      if (result.orphanPolicies.length > 0) {
+        log.info('Orphan policies applied', { orphanPolicies: result.orphanPolicies });
+      }
+
+      // Update sync state (a dry run changed nothing)
+      if (isDryRunClient(shopware)) {
+        result.dryRunReport = shopware.getReport();
+        log.info('Dry run report', { summary: result.dryRunReport.summary });
+      } else {
+        await this.updateSyncState(jobData.tenantId);
+      }
 
       // Calculate aggregate totals from per-entity results
       const allResults: EntitySyncResult[] = [
@@ -172,6 +202,7 @@ export class ConfigSyncProcessor {
         manufacturers: result.manufacturers,
         units: result.units,
         properties: result.properties,
+        orphanPolicies: result.orphanPolicies,
       });
 
       return result;
@@ -205,6 +236,7 @@ export class ConfigSyncProcessor {
     shopware: IShopwareClient
   ): Promise<EntitySyncResult> {
     const log = createJobLogger('', tenantId, 'CONFIG');
+    const dryRun = isDryRunClient(shopware); // Mappings are not stored - the entities were only recorded
 
     try {
       const categories = await plenty.getAllCategories();
@@ -229,10 +261,16 @@ export class ConfigSyncProcessor {
         categories.map((c) => c.id)
       );
 
-      // Get Shopware root category ID for navigation integration
-      const shopwareRootCategoryId = await configService.getShopwareRootCategoryId(tenantId);
-      if (shopwareRootCategoryId) {
-        log.info('Using Shopware root category for navigation', { rootCategoryId: shopwareRootCategoryId });
+      // Get Shopware root categories (default and per Plenty client) for navigation integration
+      const categoryRoots: CategoryRoots = {
+        defaultRootId: await configService.getShopwareRootCategoryId(tenantId),
+        rootsByPlentyId: await configService.getShopwareRootCategoryIdsByPlentyId(tenantId),
+      };
+      if (categoryRoots.defaultRootId || Object.keys(categoryRoots.rootsByPlentyId).length > 0) {
+        log.info('Using Shopware root categories for navigation', {
+          rootCategoryId: categoryRoots.defaultRootId,
+          rootCategoryIdsByPlentyId: categoryRoots.rootsByPlentyId,
+        });
       } else {
         log.warn(
           'No shopwareRootCategoryId configured. Categories will be created at root level. ' +
@@ -240,6 +278,17 @@ export class ConfigSyncProcessor {
         );
       }
 
+      // Upload category images (deduplicated by URL, so unchanged images are not uploaded again)
+      const plentyFrontendUrl = await configService.getPlentyFrontendUrl(tenantId);
+      const imageMediaIds = await this.uploadCategoryImages(tenantId, categories, shopware, plentyFrontendUrl);
+
+      // SEO URLs from the Plenty nameUrl paths (need the storefront sales channel)
+      const seoUrlService = new SeoUrlService();
+      const salesChannelId = await configService.getShopwareSalesChannelId(tenantId);
+      const languageIds = salesChannelId ? await seoUrlService.getLanguageIds(tenantId, shopware) : null;
+      const seoPathsByCategory = new Map<number, ShopwareSeoPath[]>();
+      const categoriesById = new Map(categories.map((c) => [c.id, c]));
+
       // Step 3: Group categories by level for hierarchical processing
       const categoriesByLevel = new Map<number, PlentyCategory[]>();
       for (const category of categories) {
@@ -284,9 +333,24 @@ export class ConfigSyncProcessor {
         pl: 'pl-PL',
       };
 
+      // Plenty client of each category's tree (root categories resolve it, children inherit it)
+      const treePlentyIds = new Map<number, number | null>();
+
+      // Plenty parents a category moved away from - the chain of their remaining children is sent again
+      const vacatedParentIds = new Set<number | null>();
+      for (const category of categories) {
+        const existing = existingMappings[category.id];
+        const tracked = existing && (existing.position ?? null) !== null;
+        if (tracked && (existing.plentyParentId ?? null) !== (category.parentCategoryId ?? null)) {
+          vacatedParentIds.add(existing.plentyParentId ?? null);
+        }
+      }
+
       let totalCreated = 0;
       let totalUpdated = 0;
       let totalErrors = 0;
+      let totalMoved = 0;
+      let totalReordered = 0;
 
       // Step 4: Process each level in order
       for (const level of sortedLevels) {
@@ -298,42 +362,66 @@ export class ConfigSyncProcessor {
           id: string;
           name: string;
           parentId?: string;
+          afterCategoryId?: string | null;
           active: boolean;
           visible: boolean;
-          translations: Record<string, { name: string }>;
+          mediaId?: string | null;
+          translations: Record<string, ShopwareCategoryTranslation>;
         }> = [];
 
-        const mappingUpdates: Array<{
-          plentyCategoryId: number;
-          shopwareCategoryId: string;
-          mappingType: 'MANUAL' | 'AUTO';
-          lastSyncAction: 'create' | 'update';
-        }> = [];
+        const mappingUpdates: CategoryMappingRecord[] = [];
 
         for (const category of levelCategories) {
-          // Extract localized names from details
-          const names: Record<string, string> = {};
-          if (category.details) {
-            for (const detail of category.details) {
-              names[detail.lang] = detail.name;
-            }
+          // Resolve the Plenty client of the tree (and the Shopware root for root categories)
+          let treePlentyId: number | null = null;
+          let rootCategoryId: string | null = null;
+          if (category.parentCategoryId) {
+            treePlentyId = treePlentyIds.get(category.parentCategoryId) ?? null;
+          } else {
+            const root = resolveCategoryRoot(getCategoryPlentyIds(category), categoryRoots);
+            treePlentyId = root.plentyId;
+            rootCategoryId = root.rootId;
           }
+          treePlentyIds.set(category.id, treePlentyId);
+
+          // Extract localized details (of the tree's Plenty client)
+          const details = this.getCategoryDetailsByLang(category, treePlentyId);
 
           // Convert string Y/N to boolean
           const linklist = category.linklist === 'Y' || category.linklist === true;
 
-          // Get category name (prefer de -> en -> first available)
-          const categoryName = names['de'] || names['en'] || Object.values(names)[0] || `Category ${category.id}`;
+          // Get main details (prefer de -> en -> first available)
+          const mainDetail = details['de'] || details['en'] || Object.values(details)[0];
+          const categoryName = mainDetail?.name || `Category ${category.id}`;
 
-          // Build translations for Shopware
-          const translations: Record<string, { name: string }> = {};
-          for (const [lang, name] of Object.entries(names)) {
+          // Build translations for Shopware (texts, SEO metadata and images per language)
+          const translations: Record<string, ShopwareCategoryTranslation> = {};
+          for (const [lang, detail] of Object.entries(details)) {
             const shopwareLang = localeMap[lang] || lang;
-            translations[shopwareLang] = { name };
+            translations[shopwareLang] = this.buildCategoryTranslation(detail, imageMediaIds, plentyFrontendUrl);
           }
 
+          // Category image from the main language: null removes an image deleted in Plenty,
+          // undefined keeps the current one (image not uploaded)
+          let mediaId: string | null | undefined = null;
+          if (mainDetail && this.getCategoryImagePath(mainDetail, 'image')) {
+            const mainImageUrl = this.getCategoryImageUrl(mainDetail, 'image', plentyFrontendUrl);
+            mediaId = mainImageUrl ? imageMediaIds.get(mainImageUrl) : undefined;
+          }
+
+          if (salesChannelId && languageIds) {
+            const slugsByLocale: Record<string, string | null> = {};
+            for (const lang of Object.keys(details)) {
+              slugsByLocale[localeMap[lang] || lang] = this.getCategoryUrlPath(category, lang, treePlentyId, categoriesById);
+            }
+            seoPathsByCategory.set(category.id, buildSeoPaths(slugsByLocale, salesChannelId, languageIds));
+          }
+
+          const existingMapping = existingMappings[category.id];
+
           // Resolve parent Shopware ID from our tracking map
           let shopwareParentId: string | undefined;
+          let plentyParentId = category.parentCategoryId ?? null;
           if (category.parentCategoryId) {
             // Has parent in Plenty - look up in mappings
             shopwareParentId = allMappings.get(category.parentCategoryId);
@@ -343,13 +431,21 @@ export class ConfigSyncProcessor {
                 parentCategoryId: category.parentCategoryId,
               });
             }
-          } else if (shopwareRootCategoryId) {
+          } else if (rootCategoryId) {
             // Root category in Plenty - use configured Shopware root for navigation integration
-            shopwareParentId = shopwareRootCategoryId;
+            shopwareParentId = rootCategoryId;
+          } else if (existingMapping?.plentyParentId) {
+            // Moved to the Plenty root, but no Shopware root is configured to move it to - it stays
+            // under its current parent (and is not recorded as moved, so the next sync reports it again)
+            plentyParentId = existingMapping.plentyParentId;
+            shopwareParentId = allMappings.get(existingMapping.plentyParentId);
+            log.warn('Category moved to the Plenty root not moved in Shopware - no root category configured', {
+              categoryId: category.id,
+              previousParentCategoryId: existingMapping.plentyParentId,
+            });
           }
 
           // Get or generate Shopware ID
-          const existingMapping = existingMappings[category.id];
           const shopwareId = existingMapping?.shopwareCategoryId || generateUuid();
 
           // Track this mapping for child categories
@@ -361,17 +457,30 @@ export class ConfigSyncProcessor {
             ...(shopwareParentId && { parentId: shopwareParentId }),
             active: linklist,
             visible: linklist,
+            mediaId,
             translations,
           });
 
+          const position = parseInt(mainDetail?.position ?? '', 10);
+
           mappingUpdates.push({
             plentyCategoryId: category.id,
             shopwareCategoryId: shopwareId,
             mappingType: (existingMapping?.mappingType as 'MANUAL' | 'AUTO') || 'AUTO',
             lastSyncAction: existingMapping ? 'update' : 'create',
+            plentyParentId,
+            position: isNaN(position) ? 0 : position,
           });
         }
 
+        // Apply moves and the Plenty sort order via afterCategoryId
+        const structure = this.applyCategorySortOrder(bulkPayload, mappingUpdates, existingMappings, vacatedParentIds);
+        totalMoved += structure.moved;
+        totalReordered += structure.reordered;
+        if (structure.moved > 0 || structure.reordered > 0) {
+          log.info('Category structure changed in Plenty', { level, ...structure });
+        }
+
         // Step 5: Bulk sync this level to Shopware
         if (bulkPayload.length > 0) {
           log.info('Executing bulk sync for level', { level, count: bulkPayload.length });
@@ -381,15 +490,20 @@ export class ConfigSyncProcessor {
               id: p.id,
               name: p.name,
               parentId: p.parentId,
+              afterCategoryId: p.afterCategoryId,
               active: p.active,
               visible: p.visible,
+              mediaId: p.mediaId,
               translations: p.translations,
             }))
           );
 
           // Step 6: Update mappings based on results
           if (bulkResult.success) {
-            await mappingService.upsertMappings(tenantId, mappingUpdates);
+            await this.syncCategorySeoUrls(shopware, seoUrlService, mappingUpdates, seoPathsByCategory, existingMappings);
+            if (!dryRun) {
+              await mappingService.upsertMappings(tenantId, mappingUpdates);
+            }
             // Count creates vs updates
             const levelCreated = mappingUpdates.filter((m) => m.lastSyncAction === 'create').length;
             const levelUpdated = mappingUpdates.filter((m) => m.lastSyncAction === 'update').length;
@@ -403,7 +517,8 @@ export class ConfigSyncProcessor {
 
             // Only update mappings for successful items
             const successfulMappings = mappingUpdates.filter((_, index) => bulkResult.results[index]?.success);
-            if (successfulMappings.length > 0) {
+            await this.syncCategorySeoUrls(shopware, seoUrlService, successfulMappings, seoPathsByCategory, existingMappings);
+            if (successfulMappings.length > 0 && !dryRun) {
               await mappingService.upsertMappings(tenantId, successfulMappings);
             }
 
@@ -421,6 +536,11 @@ export class ConfigSyncProcessor {
       // Step 7: Orphan detection
       // Get all active mappings and compare with fetched Plenty category IDs
       const fetchedPlentyIds = new Set(categories.map((c) => c.id));
+
+      // Categories that reappeared in Plenty are managed again (the sync above re-activated them in Shopware)
+      if (!dryRun) {
+        await mappingService.reactivateMappings(tenantId, Array.from(fetchedPlentyIds));
+      }
       const activeMappingIds = await mappingService.getAllActiveMappings(tenantId);
 
       // Find mappings that are no longer in Plenty
@@ -428,11 +548,11 @@ export class ConfigSyncProcessor {
       let totalOrphaned = 0;
 
       if (orphanedIds.length > 0) {
-        totalOrphaned = await mappingService.markAsOrphaned(tenantId, orphanedIds);
+        totalOrphaned = dryRun ? orphanedIds.length : await mappingService.markAsOrphaned(tenantId, orphanedIds);
         log.info('Detected orphaned categories', { count: totalOrphaned, orphanedIds });
       }
 
-      log.info('Bulk category sync completed', { created: totalCreated, updated: totalUpdated, errors: totalErrors, orphaned: totalOrphaned });
+      log.info('Bulk category sync completed', { created: totalCreated, updated: totalUpdated, moved: totalMoved, reordered: totalReordered, errors: totalErrors, orphaned: totalOrphaned });
       return { created: totalCreated, updated: totalUpdated, errors: totalErrors, orphaned: totalOrphaned };
     } catch (error) {
       log.error('Failed to sync categories', { error: error instanceof Error ? error.message : String(error) });
@@ -440,6 +560,270 @@ export class ConfigSyncProcessor {
     }
   }
 
+  /**
+   * Get the details of a category by language
+   * Prefers the details of the given Plenty client; categories without details for it use all details.
+   */
+  private getCategoryDetailsByLang(category: PlentyCategory, plentyId: number | null): Record<string, PlentyCategoryDetail> {
+    const allDetails = category.details || [];
+    const clientDetails = plentyId !== null ? allDetails.filter((detail) => Number(detail.plentyId) === plentyId) : [];
+
+    const details: Record<string, PlentyCategoryDetail> = {};
+    for (const detail of clientDetails.length > 0 ? clientDetails : allDetails) {
+      details[detail.lang] = detail;
+    }
+    return details;
+  }
+
+  /**
+   * Chain the categories of each sibling group via afterCategoryId in Plenty position order
+   * Only groups with a new, moved or re-positioned category are sent (compared to the mapping), and
+   * groups a category moved away from (their chain pointed at it).
+   * Payload and records are reordered together, so each category is written after its predecessor.
+   */
+  private applyCategorySortOrder(
+    payload: Array<{ id: string; parentId?: string; afterCategoryId?: string | null }>,
+    records: CategoryMappingRecord[],
+    existingMappings: CategoryMappingLookup,
+    vacatedParentIds: Set<number | null>
+  ): { moved: number; reordered: number } {
+    let moved = 0;
+    let reordered = 0;
+
+    // Group siblings by Shopware parent ('' = Shopware root level)
+    const groups = new Map<string, number[]>();
+    payload.forEach((entry, index) => {
+      const key = entry.parentId || '';
+      if (!groups.has(key)) {
+        groups.set(key, []);
+      }
+      groups.get(key)!.push(index);
+    });
+
+    const order: number[] = [];
+    for (const indices of groups.values()) {
+      indices.sort(
+        (a, b) =>
+          (records[a].position ?? 0) - (records[b].position ?? 0) ||
+          records[a].plentyCategoryId - records[b].plentyCategoryId
+      );
+
+      let changed = false;
+      for (const index of indices) {
+        const existing = existingMappings[records[index].plentyCategoryId];
+        if (vacatedParentIds.has(records[index].plentyParentId ?? null)) {
+          changed = true; // A sibling moved away
+        }
+        if (!existing || (existing.position ?? null) === null) {
+          changed = true; // New category or not synced with its position yet
+        } else if ((existing.plentyParentId ?? null) !== records[index].plentyParentId) {
+          changed = true;
+          moved++;
+        } else if (existing.position !== records[index].position) {
+          changed = true;
+          reordered++;
+        }
+      }
+
+      if (changed) {
+        indices.forEach((index, position) => {
+          payload[index].afterCategoryId = position === 0 ? null : payload[indices[position - 1]].id;
+        });
+      }
+      order.push(...indices);
+    }
+
+    const sortedPayload = order.map((index) => payload[index]);
+    const sortedRecords = order.map((index) => records[index]);
+    payload.splice(0, payload.length, ...sortedPayload);
+    records.splice(0, records.length, ...sortedRecords);
+
+    return { moved, reordered };
+  }
+
+  /**
+   * Build the URL path of a category in one language from the nameUrl of the category and its parents
+   * (as Plenty builds its category URLs). Null if a category on the way has no nameUrl in that language.
+   */
+  private getCategoryUrlPath(
+    category: PlentyCategory,
+    lang: string,
+    plentyId: number | null,
+    categoriesById: Map<number, PlentyCategory>
+  ): string | null {
+    const segments: string[] = [];
+    let current: PlentyCategory | undefined = category;
+
+    while (current) {
+      const nameUrl = this.getCategoryDetailsByLang(current, plentyId)[lang]?.nameUrl;
+      if (!nameUrl) {
+        return null;
+      }
+      segments.unshift(nameUrl);
+
+      if (!current.parentCategoryId) {
+        break;
+      }
+      current = categoriesById.get(current.parentCategoryId);
+      if (!current || segments.length > 50) {
+        return null; // Parent not fetched (or a cycle)
+      }
+    }
+
+    return segments.join('/');
+  }
+
+  /**
+   * Write the changed SEO URLs of synced categories and set the paths on their mapping records
+   */
+  private async syncCategorySeoUrls(
+    shopware: IShopwareClient,
+    seoUrlService: SeoUrlService,
+    records: CategoryMappingRecord[],
+    seoPathsByCategory: Map<number, ShopwareSeoPath[]>,
+    existingMappings: CategoryMappingLookup
+  ): Promise<void> {
+    for (const record of records) {
+      const seoPaths = seoPathsByCategory.get(record.plentyCategoryId);
+      if (!seoPaths) continue;
+
+      const seoResult = await seoUrlService.syncSeoUrls(
+        shopware,
+        'frontend.navigation.page',
+        record.shopwareCategoryId,
+        seoPaths,
+        existingMappings[record.plentyCategoryId]?.seoPaths ?? null
+      );
+      record.seoPaths = seoResult.seoPaths;
+    }
+  }
+
+  /**
+   * Build the Shopware translation of one category language
+   * Plenty fields without a Shopware counterpart are kept as custom fields.
+   * Empty strings are sent as well, so texts removed in Plenty are removed in Shopware.
+   */
+  private buildCategoryTranslation(
+    detail: PlentyCategoryDetail,
+    imageMediaIds: Map<string, string>,
+    plentyFrontendUrl: string | null
+  ): ShopwareCategoryTranslation {
+    const imageUrl = this.getCategoryImageUrl(detail, 'image', plentyFrontendUrl);
+    const image2Url = this.getCategoryImageUrl(detail, 'image2', plentyFrontendUrl);
+
+    return {
+      name: detail.name,
+      description: detail.description ?? '',
+      metaTitle: detail.metaTitle ?? '',
+      metaDescription: detail.metaDescription ?? '',
+      keywords: detail.metaKeywords ?? '',
+      customFields: {
+        plentyDescription2: detail.description2 || null,
+        plentyShortDescription: detail.shortDescription || null,
+        plentyCanonicalLink: detail.canonicalLink || null,
+        plentyMetaRobots: detail.metaRobots || null,
+        plentyImageMediaId: (imageUrl && imageMediaIds.get(imageUrl)) || null,
+        plentyImage2MediaId: (image2Url && imageMediaIds.get(image2Url)) || null,
+      },
+    };
+  }
+
+  /**
+   * Get the path of a category image (image or image2) of one language, as stored in Plenty
+   */
+  private getCategoryImagePath(detail: PlentyCategoryDetail, field: 'image' | 'image2'): string | null {
+    return (field === 'image' ? detail.imagePath || detail.image : detail.image2Path || detail.image2) || null;
+  }
+
+  /**
+   * Resolve the URL of a category image of one language
+   * Relative paths are resolved against the Plenty frontend URL (null if it is not configured).
+   */
+  private getCategoryImageUrl(
+    detail: PlentyCategoryDetail,
+    field: 'image' | 'image2',
+    plentyFrontendUrl: string | null
+  ): string | null {
+    const path = this.getCategoryImagePath(detail, field);
+    if (!path) {
+      return null;
+    }
+    if (/^https?:\/\//i.test(path)) {
+      return path;
+    }
+    if (!plentyFrontendUrl) {
+      return null;
+    }
+    return `${plentyFrontendUrl.replace(/\/$/, '')}/${path.replace(/^\//, '')}`;
+  }
+
+  /**
+   * Upload the images of all categories and languages to Shopware
+   * Returns a map of image URL -> Shopware media ID (failed uploads are missing)
+   */
+  private async uploadCategoryImages(
+    tenantId: string,
+    categories: PlentyCategory[],
+    shopware: IShopwareClient,
+    plentyFrontendUrl: string | null
+  ): Promise<Map<string, string>> {
+    const log = createJobLogger('', tenantId, 'CONFIG');
+    const { MediaService } = await import('../services/MediaService');
+    const { ConfigKeys } = await import('../services/TenantConfigService');
+    const mediaService = new MediaService();
+    const imageMediaIds = new Map<string, string>();
+    let skippedRelative = 0;
+    let failed = 0;
+
+    for (const category of categories) {
+      for (const detail of category.details || []) {
+        for (const field of ['image', 'image2'] as const) {
+          if (!this.getCategoryImagePath(detail, field)) continue;
+
+          const imageUrl = this.getCategoryImageUrl(detail, field, plentyFrontendUrl);
+          if (!imageUrl) {
+            skippedRelative++;
+            continue;
+          }
+          if (imageMediaIds.has(imageUrl)) continue;
+
+          const uploadResult = await mediaService.uploadFromUrl(tenantId, shopware, {
+            sourceUrl: imageUrl,
+            sourceType: 'CATEGORY_IMAGE',
+            sourceEntityId: `${category.id}_${detail.lang}_${field}`,
+            folderName: 'Category Images',
+            title: detail.name,
+            alt: detail.name,
+          });
+
+          if (uploadResult.success && uploadResult.shopwareMediaId) {
+            imageMediaIds.set(imageUrl, uploadResult.shopwareMediaId);
+          } else {
+            failed++;
+            log.warn('Failed to upload category image', {
+              categoryId: category.id,
+              lang: detail.lang,
+              field,
+              imageUrl,
+              error: uploadResult.error || 'Unknown error',
+            });
+          }
+        }
+      }
+    }
+
+    if (skippedRelative > 0) {
+      log.warn(
+        'Plenty frontend URL not configured, skipping relative category image paths. Set config key: ' +
+          ConfigKeys.PLENTY_FRONTEND_URL,
+        { skipped: skippedRelative }
+      );
+    }
+
+    log.info('Category image uploads completed', { uploadedCount: imageMediaIds.size, failed });
+    return imageMediaIds;
+  }
+
   /**
    * Bulk upsert categories to local cache
    */
@@ -508,6 +892,7 @@ export class ConfigSyncProcessor {
     shopware: IShopwareClient
   ): Promise<EntitySyncResult> {
     const log = createJobLogger('', tenantId, 'CONFIG');
+    const dryRun = isDryRunClient(shopware); // Mappings are not stored - the entities were only recorded
 
     try {
       const attributes = await plenty.getAllAttributes();
@@ -669,7 +1054,9 @@ export class ConfigSyncProcessor {
       let totalErrors = 0;
 
       if (groupResult.success) {
-        await mappingService.upsertAttributeMappings(tenantId, attributeMappingUpdates);
+        if (!dryRun) {
+          await mappingService.upsertAttributeMappings(tenantId, attributeMappingUpdates);
+        }
         // Count creates vs updates for property groups
         const groupCreated = attributeMappingUpdates.filter((m) => m.lastSyncAction === 'create').length;
         const groupUpdated = attributeMappingUpdates.filter((m) => m.lastSyncAction === 'update').length;
@@ -681,7 +1068,7 @@ export class ConfigSyncProcessor {
         const errorCount = groupResult.results.filter((r) => !r.success).length;
 
         const successfulMappings = attributeMappingUpdates.filter((_, index) => groupResult.results[index]?.success);
-        if (successfulMappings.length > 0) {
+        if (successfulMappings.length > 0 && !dryRun) {
           await mappingService.upsertAttributeMappings(tenantId, successfulMappings);
         }
 
@@ -846,7 +1233,9 @@ export class ConfigSyncProcessor {
         const optionResult = await shopware.bulkSyncPropertyOptions(propertyOptionPayload);
 
         if (optionResult.success) {
-          await mappingService.upsertAttributeValueMappings(tenantId, valueMappingUpdates);
+          if (!dryRun) {
+            await mappingService.upsertAttributeValueMappings(tenantId, valueMappingUpdates);
+          }
           // Count creates vs updates for property options
           const optionCreated = valueMappingUpdates.filter((m) => m.lastSyncAction === 'create').length;
           const optionUpdated = valueMappingUpdates.filter((m) => m.lastSyncAction === 'update').length;
@@ -858,7 +1247,7 @@ export class ConfigSyncProcessor {
           const errorCount = optionResult.results.filter((r) => !r.success).length;
 
           const successfulMappings = valueMappingUpdates.filter((_, index) => optionResult.results[index]?.success);
-          if (successfulMappings.length > 0) {
+          if (successfulMappings.length > 0 && !dryRun) {
             await mappingService.upsertAttributeValueMappings(tenantId, successfulMappings);
           }
 
@@ -883,6 +1272,12 @@ export class ConfigSyncProcessor {
         }
       }
 
+      // Attributes and values that reappeared in Plenty are managed again
+      if (!dryRun) {
+        await mappingService.reactivateAttributeMappings(tenantId, Array.from(fetchedAttributeIds));
+        await mappingService.reactivateAttributeValueMappings(tenantId, Array.from(fetchedValueIds));
+      }
+
       // Get active mappings
       const activeAttributeIds = await mappingService.getAllActiveAttributeMappings(tenantId);
       const activeValueIds = await mappingService.getAllActiveAttributeValueMappings(tenantId);
@@ -891,7 +1286,7 @@ export class ConfigSyncProcessor {
       const orphanedAttributeIds = activeAttributeIds.filter((id) => !fetchedAttributeIds.has(id));
       let orphanedAttributes = 0;
       if (orphanedAttributeIds.length > 0) {
-        orphanedAttributes = await mappingService.markAttributesAsOrphaned(tenantId, orphanedAttributeIds);
+        orphanedAttributes = dryRun ? orphanedAttributeIds.length : await mappingService.markAttributesAsOrphaned(tenantId, orphanedAttributeIds);
         log.info('Detected orphaned attributes', { count: orphanedAttributes, orphanedIds: orphanedAttributeIds });
       }
 
@@ -899,7 +1294,7 @@ export class ConfigSyncProcessor {
       const orphanedValueIds = activeValueIds.filter((id) => !fetchedValueIds.has(id));
       let orphanedValues = 0;
       if (orphanedValueIds.length > 0) {
-        orphanedValues = await mappingService.markAttributeValuesAsOrphaned(tenantId, orphanedValueIds);
+        orphanedValues = dryRun ? orphanedValueIds.length : await mappingService.markAttributeValuesAsOrphaned(tenantId, orphanedValueIds);
         log.info('Detected orphaned attribute values', { count: orphanedValues });
       }
 
@@ -970,14 +1365,14 @@ export class ConfigSyncProcessor {
   }
 
   /**
-   * Sync sales prices from Plenty - cache locally only
-   * Sales prices are used during product sync to determine which price to use
-   * We don't sync them to Shopware as entities - the price values come from variations
+   * Sync sales prices from Plenty - cache locally and create Shopware rules
+   * The price values come from variations; customer class / referrer restrictions
+   * become Shopware rules that the product sync uses for advanced prices
    */
   private async syncSalesPrices(
     tenantId: string,
     plenty: PlentyClient,
-    _shopware: IShopwareClient // Unused - kept for interface consistency
+    shopware: IShopwareClient
   ): Promise<EntitySyncResult> {
     const log = createJobLogger('', tenantId, 'CONFIG');
 
@@ -1013,9 +1408,20 @@ export class ConfigSyncProcessor {
       }));
       log.info('Available sales price types for configuration', { priceTypes });
 
-      // No orphan detection for sales prices - they're only cached locally, not synced to Shopware
-      log.info('Sales prices cached successfully', { created, updated, errors: 0, orphaned: 0 });
-      return { created, updated, errors: 0, orphaned: 0 };
+      // Rules are shared between sales prices with identical conditions
+      const { SalesPriceRuleService } = await import('../services/SalesPriceRuleService');
+      const ruleResult = await new SalesPriceRuleService().syncRules(tenantId, salesPrices, shopware);
+
+      // No orphan detection for sales prices - rules of removed prices stay in Shopware and are no longer used
+      log.info('Sales prices synced successfully', {
+        created,
+        updated,
+        errors: ruleResult.errors,
+        orphaned: 0,
+        rules: ruleResult.rules,
+        skipped: ruleResult.skipped,
+      });
+      return { created, updated, errors: ruleResult.errors, orphaned: 0 };
     } catch (error) {
       log.error('Failed to sync sales prices', { error: error instanceof Error ? error.message : String(error) });
       throw new Error(`Failed to sync sales prices: ${error}`);
@@ -1100,6 +1506,7 @@ export class ConfigSyncProcessor {
     shopware: IShopwareClient
   ): Promise<EntitySyncResult> {
     const log = createJobLogger('', tenantId, 'CONFIG');
+    const dryRun = isDryRunClient(shopware); // Mappings are not stored - the entities were only recorded
 
     try {
       const manufacturers = await plenty.getManufacturers();
@@ -1207,7 +1614,9 @@ export class ConfigSyncProcessor {
       let totalErrors = 0;
 
       if (bulkResult.success) {
-        await mappingService.upsertMappings(tenantId, mappingUpdates);
+        if (!dryRun) {
+          await mappingService.upsertMappings(tenantId, mappingUpdates);
+        }
         totalCreated = mappingUpdates.filter((m) => m.lastSyncAction === 'create').length;
         totalUpdated = mappingUpdates.filter((m) => m.lastSyncAction === 'update').length;
       } else {
@@ -1215,7 +1624,7 @@ export class ConfigSyncProcessor {
 
         // Only update mappings for successful items
         const successfulMappings = mappingUpdates.filter((_, index) => bulkResult.results[index]?.success);
-        if (successfulMappings.length > 0) {
+        if (successfulMappings.length > 0 && !dryRun) {
           await mappingService.upsertMappings(tenantId, successfulMappings);
         }
 
@@ -1225,13 +1634,16 @@ export class ConfigSyncProcessor {
 
       // Step 7: Orphan detection
       const fetchedPlentyIds = new Set(manufacturers.map((m) => m.id));
+      if (!dryRun) {
+        await mappingService.reactivateMappings(tenantId, Array.from(fetchedPlentyIds));
+      }
       const activeMappingIds = await mappingService.getAllActiveMappings(tenantId);
 
       const orphanedIds = activeMappingIds.filter((id) => !fetchedPlentyIds.has(id));
       let totalOrphaned = 0;
 
       if (orphanedIds.length > 0) {
-        totalOrphaned = await mappingService.markAsOrphaned(tenantId, orphanedIds);
+        totalOrphaned = dryRun ? orphanedIds.length : await mappingService.markAsOrphaned(tenantId, orphanedIds);
         log.info('Detected orphaned manufacturers', { count: totalOrphaned, orphanedIds });
       }
 
@@ -1476,6 +1888,7 @@ export class ConfigSyncProcessor {
     shopware: IShopwareClient
   ): Promise<EntitySyncResult> {
     const log = createJobLogger('', tenantId, 'CONFIG');
+    const dryRun = isDryRunClient(shopware); // Mappings are not stored - the entities were only recorded
 
     try {
       const units = await plenty.getUnits();
@@ -1583,7 +1996,9 @@ export class ConfigSyncProcessor {
       let totalErrors = 0;
 
       if (bulkResult.success) {
-        await mappingService.upsertMappings(tenantId, mappingUpdates);
+        if (!dryRun) {
+          await mappingService.upsertMappings(tenantId, mappingUpdates);
+        }
         totalCreated = mappingUpdates.filter((m) => m.lastSyncAction === 'create').length;
         totalUpdated = mappingUpdates.filter((m) => m.lastSyncAction === 'update').length;
       } else {
@@ -1591,7 +2006,7 @@ export class ConfigSyncProcessor {
 
         // Only update mappings for successful items
         const successfulMappings = mappingUpdates.filter((_, index) => bulkResult.results[index]?.success);
-        if (successfulMappings.length > 0) {
+        if (successfulMappings.length > 0 && !dryRun) {
           await mappingService.upsertMappings(tenantId, successfulMappings);
         }
 
@@ -1601,13 +2016,16 @@ export class ConfigSyncProcessor {
 
       // Step 6: Orphan detection
       const fetchedPlentyIds = new Set(units.map((u) => u.id));
+      if (!dryRun) {
+        await mappingService.reactivateMappings(tenantId, Array.from(fetchedPlentyIds));
+      }
       const activeMappingIds = await mappingService.getAllActiveMappings(tenantId);
 
       const orphanedIds = activeMappingIds.filter((id) => !fetchedPlentyIds.has(id));
       let totalOrphaned = 0;
 
       if (orphanedIds.length > 0) {
-        totalOrphaned = await mappingService.markAsOrphaned(tenantId, orphanedIds);
+        totalOrphaned = dryRun ? orphanedIds.length : await mappingService.markAsOrphaned(tenantId, orphanedIds);
         log.info('Detected orphaned units', { count: totalOrphaned, orphanedIds });
       }
 
@@ -1673,6 +2091,7 @@ export class ConfigSyncProcessor {
     shopware: IShopwareClient
   ): Promise<EntitySyncResult> {
     const log = createJobLogger('', tenantId, 'CONFIG');
+    const dryRun = isDryRunClient(shopware); // Mappings are not stored - the entities were only recorded
 
     try {
       // Get filter settings from tenant config
@@ -1846,7 +2265,9 @@ export class ConfigSyncProcessor {
       let totalErrors = 0;
 
       if (groupResult.success) {
-        await mappingService.upsertPropertyMappings(tenantId, propertyMappingUpdates);
+        if (!dryRun) {
+          await mappingService.upsertPropertyMappings(tenantId, propertyMappingUpdates);
+        }
         // Count creates vs updates for property groups
         const groupCreated = propertyMappingUpdates.filter((m) => m.lastSyncAction === 'create').length;
         const groupUpdated = propertyMappingUpdates.filter((m) => m.lastSyncAction === 'update').length;
@@ -1857,7 +2278,7 @@ export class ConfigSyncProcessor {
         const errorCount = groupResult.results.filter((r) => !r.success).length;
 
         const successfulMappings = propertyMappingUpdates.filter((_, index) => groupResult.results[index]?.success);
-        if (successfulMappings.length > 0) {
+        if (successfulMappings.length > 0 && !dryRun) {
           await mappingService.upsertPropertyMappings(tenantId, successfulMappings);
         }
 
@@ -1944,7 +2365,9 @@ export class ConfigSyncProcessor {
         const optionResult = await shopware.bulkSyncPropertyOptions(propertyOptionPayload);
 
         if (optionResult.success) {
-          await mappingService.upsertPropertySelectionMappings(tenantId, selectionMappingUpdates);
+          if (!dryRun) {
+            await mappingService.upsertPropertySelectionMappings(tenantId, selectionMappingUpdates);
+          }
           // Count creates vs updates for property options
           const optionCreated = selectionMappingUpdates.filter((m) => m.lastSyncAction === 'create').length;
           const optionUpdated = selectionMappingUpdates.filter((m) => m.lastSyncAction === 'update').length;
@@ -1955,7 +2378,7 @@ export class ConfigSyncProcessor {
           const errorCount = optionResult.results.filter((r) => !r.success).length;
 
           const successfulMappings = selectionMappingUpdates.filter((_, index) => optionResult.results[index]?.success);
-          if (successfulMappings.length > 0) {
+          if (successfulMappings.length > 0 && !dryRun) {
             await mappingService.upsertPropertySelectionMappings(tenantId, successfulMappings);
           }
 
@@ -1982,6 +2405,12 @@ export class ConfigSyncProcessor {
         }
       }
 
+      // Properties and selections that reappeared in Plenty are managed again (also if filtered out)
+      if (!dryRun) {
+        await mappingService.reactivatePropertyMappings(tenantId, Array.from(fetchedPropertyIds));
+        await mappingService.reactivatePropertySelectionMappings(tenantId, Array.from(fetchedSelectionIds));
+      }
+
       // Get active mappings
       const activePropertyIds = await mappingService.getAllActivePropertyMappings(tenantId);
       const activeSelectionIds = await mappingService.getAllActivePropertySelectionMappings(tenantId);
@@ -1990,7 +2419,7 @@ export class ConfigSyncProcessor {
       const orphanedPropertyIds = activePropertyIds.filter((id) => !fetchedPropertyIds.has(id));
       let orphanedProperties = 0;
       if (orphanedPropertyIds.length > 0) {
-        orphanedProperties = await mappingService.markPropertiesAsOrphaned(tenantId, orphanedPropertyIds);
+        orphanedProperties = dryRun ? orphanedPropertyIds.length : await mappingService.markPropertiesAsOrphaned(tenantId, orphanedPropertyIds);
         log.info('Detected orphaned properties', { count: orphanedProperties, orphanedIds: orphanedPropertyIds });
       }
 
@@ -1998,7 +2427,7 @@ export class ConfigSyncProcessor {
       const orphanedSelectionIds = activeSelectionIds.filter((id) => !fetchedSelectionIds.has(id));
       let orphanedSelections = 0;
       if (orphanedSelectionIds.length > 0) {
-        orphanedSelections = await mappingService.markPropertySelectionsAsOrphaned(tenantId, orphanedSelectionIds);
+        orphanedSelections = dryRun ? orphanedSelectionIds.length : await mappingService.markPropertySelectionsAsOrphaned(tenantId, orphanedSelectionIds);
         log.info('Detected orphaned property selections', { count: orphanedSelections });
       }
 
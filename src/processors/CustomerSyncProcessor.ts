@@ -0,0 +1,325 @@
+import { PrismaClient, SyncType, SyncDirection } from '@prisma/client';
+import { getPrismaClient } from '../database/client';
+import { createJobLogger } from '../utils/logger';
+import { PlentyClient } from '../clients/PlentyClient';
+import type { PlentyClientConfig } from '../clients/PlentyClient';
+import { getPlentyRateLimiter } from '../clients/PlentyRateLimiter';
+import { createTenantShopwareClient } from '../clients/ShopwareClientFactory';
+import type { IShopwareClient } from '../clients/interfaces';
+import { CustomerMappingService } from '../services/CustomerMappingService';
+import type { CustomerMappingLookup } from '../services/CustomerMappingService';
+import { TenantConfigService } from '../services/TenantConfigService';
+import { ContactTransformer } from '../transformers/ContactTransformer';
+import { PlentyAddressType } from '../types/plenty';
+import type { DecryptedSyncJobData, SyncResult } from '../types/sync';
+import type { ShopwareCustomer } from '../types/shopware';
+
+/**
+ * Per-run context shared by all customers of a job
+ */
+interface CustomerSyncContext {
+  plenty: PlentyClient;
+  plentyId: number | null;
+  referrerId: number | null;
+  customerGroupMappings: Record<string, string>;
+  countryIdsByIso: Map<string, number>;
+}
+
+/**
+ * Customer Sync Processor
+ * Handles CUSTOMER sync type (SHOPWARE_TO_PLENTY)
+ *
+ * Syncs Shopware customers and their addresses to Plenty contacts. The Shopware
+ * customer group decides the Plenty customer class (customerGroupMappings config).
+ * Runs are incremental: only customers created or updated since the last run are fetched.
+ */
+export class CustomerSyncProcessor {
+  private prisma: PrismaClient;
+  private customerMappingService: CustomerMappingService;
+  private configService: TenantConfigService;
+  private contactTransformer: ContactTransformer;
+
+  constructor() {
+    this.prisma = getPrismaClient();
+    this.customerMappingService = new CustomerMappingService();
+    this.configService = new TenantConfigService();
+    this.contactTransformer = new ContactTransformer();
+  }
+
+  /**
+   * Process a customer sync job
+   */
+  async process(jobData: DecryptedSyncJobData): Promise<SyncResult> {
+    const log = createJobLogger(jobData.id, jobData.tenantId, jobData.syncType);
+    const startTime = Date.now();
+    const runStartedAt = new Date(startTime);
+
+    const result: SyncResult = {
+      success: true,
+      itemsProcessed: 0,
+      itemsCreated: 0,
+      itemsUpdated: 0,
+      itemsFailed: 0,
+      itemsSkipped: 0,
+      errors: [],
+      duration: 0,
+    };
+
+    try {
+      if (jobData.direction !== SyncDirection.SHOPWARE_TO_PLENTY) {
+        throw new Error(
+          `Customer sync only supports ${SyncDirection.SHOPWARE_TO_PLENTY} (got ${jobData.direction})`
+        );
+      }
+
+      const settings = await this.configService.getCustomerSyncSettings(jobData.tenantId);
+
+      log.info('Starting customer sync', {
+        plentyId: settings.plentyId,
+        referrerId: settings.referrerId,
+        mappedCustomerGroups: Object.keys(settings.customerGroupMappings).length,
+      });
+
+      // Initialize clients
+      const plentyConfig: PlentyClientConfig = {
+        baseUrl: jobData.plentyUrl,
+        credentials: jobData.plentyCredentials,
+        rateLimiter: getPlentyRateLimiter(),
+      };
+      const plenty = new PlentyClient(plentyConfig);
+      await plenty.authenticate();
+
+      const shopware: IShopwareClient = await createTenantShopwareClient(jobData.tenantId, jobData);
+      await shopware.authenticate();
+
+      // Fetch customers changed since the last run
+      const since = await this.getLastSyncTime(jobData.tenantId);
+      const customers = await shopware.getCustomersChangedSince(since);
+      log.info('Fetched Shopware customers', { since: since?.toISOString(), count: customers.length });
+
+      // Oldest failed customer - the next run starts from here so it is retried
+      let oldestFailedAt: Date | null = null;
+
+      if (customers.length > 0) {
+        const mappings = await this.customerMappingService.getMappings(
+          jobData.tenantId,
+          customers.map((c) => c.id)
+        );
+
+        const countries = await plenty.getCountries();
+        const context: CustomerSyncContext = {
+          plenty,
+          plentyId: settings.plentyId,
+          referrerId: settings.referrerId,
+          customerGroupMappings: settings.customerGroupMappings,
+          countryIdsByIso: new Map(countries.map((c) => [c.isoCode2.toUpperCase(), c.id])),
+        };
+
+        const unmappedGroups = new Set<string>();
+
+        for (const customer of customers) {
+          result.itemsProcessed++;
+
+          if (!context.customerGroupMappings[customer.groupId]) {
+            unmappedGroups.add(customer.groupName || customer.groupId);
+          }
+
+          try {
+            const action = await this.syncCustomer(
+              jobData.tenantId,
+              customer,
+              mappings[customer.id] || null,
+              context
+            );
+
+            if (action === 'create') {
+              result.itemsCreated++;
+            } else {
+              result.itemsUpdated++;
+            }
+            log.debug('Customer synced', { customerNumber: customer.customerNumber, action });
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            result.itemsFailed++;
+            result.errors.push({
+              entityId: customer.customerNumber,
+              entityType: 'customer',
+              error: errorMessage,
+              details: { shopwareCustomerId: customer.id },
+            });
+            log.error('Failed to sync customer', {
+              customerNumber: customer.customerNumber,
+              error: errorMessage,
+            });
+
+            const changedAt = new Date(customer.updatedAt || customer.createdAt || runStartedAt);
+            if (!oldestFailedAt || changedAt < oldestFailedAt) {
+              oldestFailedAt = changedAt;
+            }
+          }
+        }
+
+        if (unmappedGroups.size > 0) {
+          log.warn('Customer groups without Plenty customer class mapping (set customerGroupMappings)', {
+            groups: Array.from(unmappedGroups),
+          });
+        }
+      }
+
+      await this.updateSyncState(jobData.tenantId, oldestFailedAt ?? runStartedAt);
+
+      result.duration = Date.now() - startTime;
+      log.info('Customer sync completed', {
+        itemsProcessed: result.itemsProcessed,
+        itemsCreated: result.itemsCreated,
+        itemsUpdated: result.itemsUpdated,
+        itemsFailed: result.itemsFailed,
+        duration: result.duration,
+      });
+
+      return result;
+    } catch (error) {
+      result.success = false;
+      result.duration = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      result.errors.push({
+        entityId: 'customer-sync',
+        entityType: 'sync',
+        error: errorMessage,
+      });
+      log.error('Customer sync failed', { error, result });
+      throw error;
+    }
+  }
+
+  /**
+   * Sync a single customer: create/link/update the contact, then its addresses
+   * The mapping is saved even if an address fails, so created records are not duplicated on retry.
+   */
+  private async syncCustomer(
+    tenantId: string,
+    customer: ShopwareCustomer,
+    mapping: CustomerMappingLookup | null,
+    context: CustomerSyncContext
+  ): Promise<'create' | 'update' | 'link'> {
+    const { plenty } = context;
+    const mappedClassId = context.customerGroupMappings[customer.groupId];
+    const classId = mappedClassId !== undefined ? Number(mappedClassId) : undefined;
+
+    const contactOptions = {
+      plentyId: context.plentyId ?? undefined,
+      referrerId: context.referrerId ?? undefined,
+      classId,
+    };
+    const contactUpdate = this.contactTransformer.toPlentyContactUpdate(customer, contactOptions);
+
+    let contactId: number;
+    let action: 'create' | 'update' | 'link';
+
+    if (mapping) {
+      contactId = mapping.plentyContactId;
+      await plenty.updateContact(contactId, contactUpdate);
+
+      // Contact updates leave the options out - a changed email updates the email option
+      const emailChange = this.contactTransformer.toPlentyEmailOptionChange(
+        await plenty.getContactOptions(contactId),
+        customer.email
+      );
+      if (emailChange?.optionId) {
+        await plenty.updateContactOption(contactId, emailChange.optionId, emailChange.option);
+      } else if (emailChange) {
+        await plenty.createContactOption(contactId, emailChange.option);
+      }
+      action = 'update';
+    } else {
+      const existing = await plenty.findContactByEmail(customer.email);
+      if (existing) {
+        contactId = existing.id;
+        await plenty.updateContact(contactId, contactUpdate);
+        action = 'link';
+      } else {
+        const created = await plenty.createContact(
+          this.contactTransformer.toPlentyContact(customer, contactOptions)
+        );
+        contactId = created.id;
+        action = 'create';
+      }
+    }
+
+    const addressMappings: Record<string, number> = { ...(mapping?.addressMappings || {}) };
+
+    try {
+      for (const address of customer.addresses) {
+        const request = this.contactTransformer.toPlentyAddress(address, context.countryIdsByIso, customer);
+        const plentyAddressId = addressMappings[address.id];
+
+        if (plentyAddressId) {
+          await plenty.updateContactAddress(contactId, plentyAddressId, request);
+        } else {
+          const typeId =
+            address.id === customer.defaultBillingAddressId
+              ? PlentyAddressType.BILLING
+              : PlentyAddressType.DELIVERY;
+          const created = await plenty.createContactAddress(contactId, request, typeId);
+          addressMappings[address.id] = created.id;
+        }
+      }
+    } finally {
+      await this.customerMappingService.upsertMapping(
+        tenantId,
+        {
+          shopwareCustomerId: customer.id,
+          shopwareCustomerNumber: customer.customerNumber,
+          plentyContactId: contactId,
+          plentyClassId: classId ?? null,
+          addressMappings,
+        },
+        action
+      );
+    }
+
+    return action;
+  }
+
+  /**
+   * Get last customer sync time (start of the next fetch window)
+   */
+  private async getLastSyncTime(tenantId: string): Promise<Date | null> {
+    const syncState = await this.prisma.syncState.findUnique({
+      where: {
+        tenantId_syncType: {
+          tenantId,
+          syncType: SyncType.CUSTOMER,
+        },
+      },
+    });
+
+    return syncState?.lastSyncAt || null;
+  }
+
+  /**
+   * Update sync state
+   * @param windowStart - Start of the next fetch window (run start, or oldest failed customer change)
+   */
+  private async updateSyncState(tenantId: string, windowStart: Date): Promise<void> {
+    const now = new Date();
+    await this.prisma.syncState.upsert({
+      where: {
+        tenantId_syncType: {
+          tenantId,
+          syncType: SyncType.CUSTOMER,
+        },
+      },
+      create: {
+        tenantId,
+        syncType: SyncType.CUSTOMER,
+        lastSyncAt: windowStart,
+        lastSuccessfulSyncAt: now,
+      },
+      update: {
+        lastSyncAt: windowStart,
+        lastSuccessfulSyncAt: now,
+      },
+    });
+  }
+}
@@ -0,0 +1,516 @@
+import { PrismaClient, SyncType, SyncDirection } from '@prisma/client';
+import { getPrismaClient } from '../database/client';
+import { createJobLogger } from '../utils/logger';
+import { PlentyClient } from '../clients/PlentyClient';
+import type { PlentyClientConfig } from '../clients/PlentyClient';
+import { getPlentyRateLimiter } from '../clients/PlentyRateLimiter';
+import { createTenantShopwareClient } from '../clients/ShopwareClientFactory';
+import type { IShopwareClient } from '../clients/interfaces';
+import { ProductMappingService } from '../services/ProductMappingService';
+import { OrderMappingService } from '../services/OrderMappingService';
+import { CustomerMappingService } from '../services/CustomerMappingService';
+import { TenantConfigService } from '../services/TenantConfigService';
+import { ContactTransformer } from '../transformers/ContactTransformer';
+import {
+  PlentyOrderItemType,
+  PlentyOrderPropertyType,
+  PlentyAddressType,
+} from '../types/plenty';
+import type {
+  PlentyOrderCreateRequest,
+  PlentyOrderItemCreateRequest,
+  PlentyOrderItemAmount,
+} from '../types/plenty';
+import type { DecryptedSyncJobData, SyncResult } from '../types/sync';
+import type { ShopwareOrder } from '../types/shopware';
+
+const PLENTY_SALES_ORDER_TYPE = 1;
+const MAX_IMPORT_ATTEMPTS = 5; // A failing order stops holding back the fetch window after this
+
+/**
+ * Order sync state kept in SyncState.metadata
+ */
+interface OrderSyncMetadata {
+  failedAttempts?: Record<string, number>; // Shopware order ID -> failed imports in a row
+  orderAddresses?: Record<string, OrderAddressIds>; // Shopware order ID -> addresses of a failed import
+}
+
+/**
+ * Plenty addresses created for an order - kept when the import fails and reused by the retry,
+ * so failed attempts do not leave unused addresses on the contact
+ */
+interface OrderAddressIds {
+  contactId?: number;
+  billingAddressId?: number;
+  deliveryAddressId?: number;
+}
+
+/**
+ * Per-run context shared by all orders of a job
+ */
+interface OrderImportContext {
+  plenty: PlentyClient;
+  plentyId: number;
+  referrerId: number | null;
+  statusId: number | null;
+  paymentMethodMappings: Record<string, string>;
+  countryIdsByIso: Map<string, number>;
+  variationsByProductId: Record<string, { plentyItemId: number; plentyVariationId: number }>;
+}
+
+/**
+ * Order Sync Processor
+ * Handles ORDER sync type (SHOPWARE_TO_PLENTY)
+ *
+ * Imports new Shopware orders into PlentyMarkets. Each imported order is recorded
+ * in OrderMapping, so overlapping fetch windows never create an order twice.
+ * An order that exists in Plenty without a mapping (the mapping write failed) is found
+ * by its external order ID and only gets its mapping.
+ */
+export class OrderSyncProcessor {
+  private prisma: PrismaClient;
+  private productMappingService: ProductMappingService;
+  private orderMappingService: OrderMappingService;
+  private customerMappingService: CustomerMappingService;
+  private configService: TenantConfigService;
+  private contactTransformer: ContactTransformer;
+
+  constructor() {
+    this.prisma = getPrismaClient();
+    this.productMappingService = new ProductMappingService();
+    this.orderMappingService = new OrderMappingService();
+    this.customerMappingService = new CustomerMappingService();
+    this.configService = new TenantConfigService();
+    this.contactTransformer = new ContactTransformer();
+  }
+
+  /**
+   * Process an order sync job
+   */
+  async process(jobData: DecryptedSyncJobData): Promise<SyncResult> {
+    const log = createJobLogger(jobData.id, jobData.tenantId, jobData.syncType);
+    const startTime = Date.now();
+    const runStartedAt = new Date(startTime);
+
+    const result: SyncResult = {
+      success: true,
+      itemsProcessed: 0,
+      itemsCreated: 0,
+      itemsUpdated: 0,
+      itemsFailed: 0,
+      itemsSkipped: 0,
+      errors: [],
+      duration: 0,
+    };
+
+    try {
+      if (jobData.direction !== SyncDirection.SHOPWARE_TO_PLENTY) {
+        throw new Error(
+          `Order sync only supports ${SyncDirection.SHOPWARE_TO_PLENTY} (got ${jobData.direction})`
+        );
+      }
+
+      const settings = await this.configService.getOrderImportSettings(jobData.tenantId);
+      if (!settings.plentyId) {
+        throw new Error(
+          'Order import not configured: set the orderPlentyId config key to the Plenty client ID'
+        );
+      }
+
+      log.info('Starting order sync', {
+        plentyId: settings.plentyId,
+        referrerId: settings.referrerId,
+        statusId: settings.statusId,
+      });
+
+      // Initialize clients
+      const plentyConfig: PlentyClientConfig = {
+        baseUrl: jobData.plentyUrl,
+        credentials: jobData.plentyCredentials,
+        rateLimiter: getPlentyRateLimiter(),
+      };
+      const plenty = new PlentyClient(plentyConfig);
+      await plenty.authenticate();
+
+      const shopware: IShopwareClient = await createTenantShopwareClient(jobData.tenantId, jobData);
+      await shopware.authenticate();
+
+      // Fetch orders created since the last run
+      const { since, failedAttempts, orderAddresses } = await this.getSyncState(jobData.tenantId);
+      const orders = await shopware.getOrdersSince(since);
+      log.info('Fetched Shopware orders', { since: since?.toISOString(), count: orders.length });
+
+      // Skip orders that were already imported
+      const importedIds = await this.orderMappingService.getImportedOrderIds(
+        jobData.tenantId,
+        orders.map((o) => o.id)
+      );
+      const newOrders = orders.filter((o) => !importedIds.has(o.id));
+      log.info('Orders to import', { new: newOrders.length, alreadyImported: importedIds.size });
+
+      // Oldest failed order - the next run starts from here so it is retried
+      let oldestFailedAt: Date | null = null;
+      const nextFailedAttempts: Record<string, number> = {};
+      const nextOrderAddresses: Record<string, OrderAddressIds> = {};
+
+      if (newOrders.length > 0) {
+        // Resolve line items (Shopware product ID → Plenty variation ID)
+        const productIds = [
+          ...new Set(
+            newOrders.flatMap((o) =>
+              o.lineItems.filter((li) => li.productId).map((li) => li.productId as string)
+            )
+          ),
+        ];
+        const variationsByProductId = await this.productMappingService.getMappingsByShopwareIds(
+          jobData.tenantId,
+          productIds
+        );
+
+        const countries = await plenty.getCountries();
+        const countryIdsByIso = new Map(countries.map((c) => [c.isoCode2.toUpperCase(), c.id]));
+
+        const context: OrderImportContext = {
+          plenty,
+          plentyId: settings.plentyId,
+          referrerId: settings.referrerId,
+          statusId: settings.statusId,
+          paymentMethodMappings: settings.paymentMethodMappings,
+          countryIdsByIso,
+          variationsByProductId,
+        };
+
+        for (const order of newOrders) {
+          result.itemsProcessed++;
+          const addresses: OrderAddressIds = { ...orderAddresses[order.id] };
+
+          try {
+            // Created by an earlier run whose mapping write failed - only the mapping is missing
+            const existing = await plenty.findOrderByExternalOrderId(settings.plentyId, order.orderNumber);
+            const { plentyOrderId, plentyContactId } = existing
+              ? { plentyOrderId: existing.id, plentyContactId: undefined }
+              : await this.importOrder(jobData.tenantId, order, context, addresses);
+
+            try {
+              await this.orderMappingService.createMapping(jobData.tenantId, {
+                shopwareOrderId: order.id,
+                shopwareOrderNumber: order.orderNumber,
+                shopwareOrderDate: new Date(order.orderDateTime),
+                plentyOrderId,
+                plentyContactId,
+              });
+            } catch (error) {
+              const errorMessage = error instanceof Error ? error.message : String(error);
+              throw new Error(
+                `Order created in Plenty (${plentyOrderId}) but its mapping was not saved - ` +
+                  `the next run records it: ${errorMessage}`
+              );
+            }
+
+            if (existing) {
+              result.itemsSkipped++;
+              log.info('Order already in Plenty - mapping recorded', {
+                orderNumber: order.orderNumber,
+                plentyOrderId,
+              });
+            } else {
+              result.itemsCreated++;
+              log.info('Order imported', { orderNumber: order.orderNumber, plentyOrderId });
+            }
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            const attempts = (failedAttempts[order.id] ?? 0) + 1;
+            const givenUp = attempts >= MAX_IMPORT_ATTEMPTS;
+            result.itemsFailed++;
+            result.errors.push({
+              entityId: order.orderNumber,
+              entityType: 'order',
+              error: errorMessage,
+              details: { shopwareOrderId: order.id, attempts, givenUp },
+            });
+            log.error('Failed to import order', { orderNumber: order.orderNumber, attempts, error: errorMessage });
+
+            nextFailedAttempts[order.id] = attempts;
+            if (addresses.billingAddressId || addresses.deliveryAddressId) {
+              nextOrderAddresses[order.id] = addresses;
+            }
+            if (givenUp) {
+              // No longer retried - the fetch window moves on, the order has to be imported manually
+              log.error('Giving up on order import', { orderNumber: order.orderNumber, attempts });
+              continue;
+            }
+
+            const createdAt = new Date(order.createdAt || order.orderDateTime);
+            if (!oldestFailedAt || createdAt < oldestFailedAt) {
+              oldestFailedAt = createdAt;
+            }
+          }
+        }
+      }
+
+      await this.updateSyncState(jobData.tenantId, oldestFailedAt ?? runStartedAt, {
+        failedAttempts: nextFailedAttempts,
+        orderAddresses: nextOrderAddresses,
+      });
+
+      result.duration = Date.now() - startTime;
+      log.info('Order sync completed', {
+        itemsProcessed: result.itemsProcessed,
+        itemsCreated: result.itemsCreated,
+        itemsFailed: result.itemsFailed,
+        duration: result.duration,
+      });
+
+      return result;
+    } catch (error) {
+      result.success = false;
+      result.duration = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      result.errors.push({
+        entityId: 'order-sync',
+        entityType: 'sync',
+        error: errorMessage,
+      });
+      log.error('Order sync failed', { error, result });
+      throw error;
+    }
+  }
+
+  /**
+   * Import a single order: find/create contact, create addresses, create order
+   * @param addresses - Addresses of an earlier failed attempt (reused for the same contact);
+   *                    filled with the addresses created now
+   */
+  private async importOrder(
+    tenantId: string,
+    order: ShopwareOrder,
+    context: OrderImportContext,
+    addresses: OrderAddressIds
+  ): Promise<{ plentyOrderId: number; plentyContactId: number }> {
+    // Validate line items before writing anything to Plenty
+    const orderItems = this.buildOrderItems(order, context);
+
+    const { plenty } = context;
+    const customer = order.orderCustomer;
+
+    // Use the contact from customer sync if the customer is mapped, otherwise find or create it
+    let contactId = customer.customerId
+      ? await this.customerMappingService.getPlentyContactId(tenantId, customer.customerId)
+      : null;
+    if (!contactId) {
+      const contact =
+        (await plenty.findContactByEmail(customer.email)) ||
+        (await plenty.createContact(
+          this.contactTransformer.toPlentyContact(customer, {
+            plentyId: context.plentyId,
+            referrerId: context.referrerId ?? undefined,
+          })
+        ));
+      contactId = contact.id;
+    }
+
+    // Create billing and delivery addresses (unless created for this contact by a failed attempt)
+    if (addresses.contactId !== contactId) {
+      addresses.contactId = contactId;
+      addresses.billingAddressId = undefined;
+      addresses.deliveryAddressId = undefined;
+    }
+    if (!addresses.billingAddressId) {
+      const billingAddress = await plenty.createContactAddress(
+        contactId,
+        this.contactTransformer.toPlentyAddress(order.billingAddress, context.countryIdsByIso, customer),
+        PlentyAddressType.BILLING
+      );
+      addresses.billingAddressId = billingAddress.id;
+    }
+    if (!addresses.deliveryAddressId) {
+      const deliveryAddress = await plenty.createContactAddress(
+        contactId,
+        this.contactTransformer.toPlentyAddress(
+          order.shippingAddress || order.billingAddress,
+          context.countryIdsByIso,
+          customer
+        ),
+        PlentyAddressType.DELIVERY
+      );
+      addresses.deliveryAddressId = deliveryAddress.id;
+    }
+
+    const properties: Array<{ typeId: number; value: string }> = [
+      { typeId: PlentyOrderPropertyType.EXTERNAL_ORDER_ID, value: order.orderNumber },
+    ];
+    const plentyPaymentMethodId = order.paymentMethodId
+      ? context.paymentMethodMappings[order.paymentMethodId]
+      : undefined;
+    if (plentyPaymentMethodId) {
+      properties.push({ typeId: PlentyOrderPropertyType.PAYMENT_METHOD, value: plentyPaymentMethodId });
+    }
+
+    const request: PlentyOrderCreateRequest = {
+      typeId: PLENTY_SALES_ORDER_TYPE,
+      plentyId: context.plentyId,
+      referrerId: context.referrerId ?? undefined,
+      statusId: context.statusId ?? undefined,
+      orderItems,
+      addressRelations: [
+        { typeId: PlentyAddressType.BILLING, addressId: addresses.billingAddressId },
+        { typeId: PlentyAddressType.DELIVERY, addressId: addresses.deliveryAddressId },
+      ],
+      relations: [{ referenceType: 'contact', referenceId: contactId, relation: 'receiver' }],
+      properties,
+    };
+
+    const plentyOrder = await plenty.createOrder(request);
+
+    return { plentyOrderId: plentyOrder.id, plentyContactId: contactId };
+  }
+
+  /**
+   * Build Plenty order items from Shopware line items and shipping costs
+   * Throws if a product line item has no Plenty variation mapping
+   */
+  private buildOrderItems(
+    order: ShopwareOrder,
+    context: OrderImportContext
+  ): PlentyOrderItemCreateRequest[] {
+    const items: PlentyOrderItemCreateRequest[] = [];
+    const lineItems = [...order.lineItems].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+
+    for (const lineItem of lineItems) {
+      const vatRate = order.taxStatus === 'tax-free' ? 0 : lineItem.taxRate ?? 0;
+      const amounts = [this.buildAmount(order, this.toGross(order, lineItem.unitPrice, vatRate))];
+
+      if (lineItem.type === 'product') {
+        const mapping = lineItem.productId
+          ? context.variationsByProductId[lineItem.productId]
+          : undefined;
+
+        if (!mapping) {
+          throw new Error(
+            `Line item ${lineItem.productNumber || lineItem.label} (${lineItem.productId}) ` +
+              'has no Plenty variation mapping'
+          );
+        }
+
+        items.push({
+          typeId: PlentyOrderItemType.VARIATION,
+          itemVariationId: mapping.plentyVariationId,
+          quantity: lineItem.quantity,
+          orderItemName: lineItem.label,
+          referrerId: context.referrerId ?? undefined,
+          vatRate,
+          amounts,
+        });
+      } else {
+        items.push({
+          typeId:
+            lineItem.type === 'promotion'
+              ? PlentyOrderItemType.PROMOTIONAL_COUPON
+              : PlentyOrderItemType.UNASSIGNED_VARIATION,
+          quantity: lineItem.quantity,
+          orderItemName: lineItem.label,
+          referrerId: context.referrerId ?? undefined,
+          vatRate,
+          amounts,
+        });
+      }
+    }
+
+    if (order.shippingTotal > 0) {
+      // Shopware reports shippingTotal in the order's tax status - use the highest line item rate
+      const shippingVatRate =
+        order.taxStatus === 'tax-free'
+          ? 0
+          : Math.max(0, ...order.lineItems.map((li) => li.taxRate ?? 0));
+
+      items.push({
+        typeId: PlentyOrderItemType.SHIPPING_COSTS,
+        quantity: 1,
+        orderItemName: 'Shipping',
+        referrerId: context.referrerId ?? undefined,
+        vatRate: shippingVatRate,
+        amounts: [this.buildAmount(order, this.toGross(order, order.shippingTotal, shippingVatRate))],
+      });
+    }
+
+    return items;
+  }
+
+  /**
+   * Build a Plenty order item amount in the order currency
+   */
+  private buildAmount(order: ShopwareOrder, priceGross: number): PlentyOrderItemAmount {
+    const exchangeRate = order.currencyFactor || 1;
+
+    return {
+      isSystemCurrency: exchangeRate === 1,
+      currency: order.currencyIsoCode || 'EUR',
+      exchangeRate,
+      priceOriginalGross: Math.round(priceGross * 100) / 100,
+    };
+  }
+
+  /**
+   * Convert a Shopware line price to gross (net orders store net prices)
+   */
+  private toGross(order: ShopwareOrder, price: number, vatRate: number): number {
+    return order.taxStatus === 'net' ? price * (1 + vatRate / 100) : price;
+  }
+
+  /**
+   * Get the start of the next fetch window, and the failed attempts and addresses of the orders in it
+   */
+  private async getSyncState(tenantId: string): Promise<{
+    since: Date | null;
+    failedAttempts: Record<string, number>;
+    orderAddresses: Record<string, OrderAddressIds>;
+  }> {
+    const syncState = await this.prisma.syncState.findUnique({
+      where: {
+        tenantId_syncType: {
+          tenantId,
+          syncType: SyncType.ORDER,
+        },
+      },
+    });
+
+    const metadata = syncState?.metadata as OrderSyncMetadata | null;
+    return {
+      since: syncState?.lastSyncAt || null,
+      failedAttempts: metadata?.failedAttempts || {},
+      orderAddresses: metadata?.orderAddresses || {},
+    };
+  }
+
+  /**
+   * Update sync state
+   * @param windowStart - Start of the next fetch window (run start, or oldest failed order)
+   */
+  private async updateSyncState(
+    tenantId: string,
+    windowStart: Date,
+    metadata: OrderSyncMetadata
+  ): Promise<void> {
+    const now = new Date();
+    await this.prisma.syncState.upsert({
+      where: {
+        tenantId_syncType: {
+          tenantId,
+          syncType: SyncType.ORDER,
+        },
+      },
+      create: {
+        tenantId,
+        syncType: SyncType.ORDER,
+        lastSyncAt: windowStart,
+        lastSuccessfulSyncAt: now,
+        metadata: metadata as object,
+      },
+      update: {
+        lastSyncAt: windowStart,
+        lastSuccessfulSyncAt: now,
+        metadata: metadata as object,
+      },
+    });
+  }
+}
@@ -1,20 +1,32 @@
-import { PrismaClient, SyncType } from '@prisma/client';
+import { Prisma, PrismaClient, SyncType, SyncDirection, MappingStatus } from '@prisma/client';
 import { getPrismaClient } from '../database/client';
 import { createJobLogger } from '../utils/logger';
 import { PlentyClient } from '../clients/PlentyClient';
 import type { PlentyClientConfig } from '../clients/PlentyClient';
-import { createShopwareClient } from '../clients/ShopwareClientFactory';
+import { getPlentyRateLimiter } from '../clients/PlentyRateLimiter';
+import { createJobShopwareClient } from '../clients/ShopwareClientFactory';
+import { isDryRunClient } from '../clients/RecordingShopwareClient';
 import type { IShopwareClient } from '../clients/interfaces';
 import type { PlentyVariation, PlentyItemImage } from '../types/plenty';
-import type { DecryptedSyncJobData, SyncResult, FieldMapping } from '../types/sync';
-import type { ShopwareBulkProduct } from '../types/shopware';
+import { getSyncJobTarget } from '../types/sync';
+import type {
+  DecryptedSyncJobData,
+  SyncResult,
+  FieldMapping,
+  CancellationCheck,
+  SyncJobTarget,
+} from '../types/sync';
+import type { ShopwareBulkProduct, ShopwareSeoPath } from '../types/shopware';
 import { ProductTransformer, TransformContext } from '../transformers/ProductTransformer';
 import { ConfigSyncProcessor } from './ConfigSyncProcessor';
 import { ProductMappingService } from '../services/ProductMappingService';
 import type { ProductMappingRecord } from '../services/ProductMappingService';
+import { SeoUrlService } from '../services/SeoUrlService';
+import type { ResolvedSyncScope, SyncScopeService } from '../services/SyncScopeService';
 
 const DEFAULT_BATCH_SIZE = 100;
 const BULK_SYNC_BATCH_SIZE = 100;
+const PAGE_PREFETCH = 1; // Pages fetched ahead while the current window is being synced
 
 // Updated relations to support full product structure
 const DEFAULT_WITH_RELATIONS = [
@@ -27,7 +39,8 @@ const DEFAULT_WITH_RELATIONS = [
   'variationTexts',       // For multi-language
   'variationImages',      // For variation-specific image links
   'stock',
-  'item',                 // For mainVariationId and parent-child relationship
+  'item',                 // For mainVariationId, parent-child relationship and manufacturerId
+  'unit',                 // For unitId/content (base price display)
 ];
 
 export interface ProductSyncOptions {
@@ -35,6 +48,49 @@ export interface ProductSyncOptions {
   batchSize?: number;
   skipExisting?: boolean;
   skipImages?: boolean;  // Option to skip image sync for faster processing
+  isCancelled?: CancellationCheck; // Checked between batches - stops the sync early when true
+}
+
+type FullSyncPhase = 'parents' | 'children';
+
+/**
+ * Position of a running full sync, stored in SyncState.metadata after every batch
+ */
+interface FullSyncCheckpoint {
+  jobId: string; // Only a retry of this job resumes from the checkpoint
+  startedAt: string; // ISO - becomes the delta sync baseline once the full sync completes
+  itemsPerPage: number; // Pages must be re-fetched with the same size
+  page: number; // Plenty variations page the current window starts on
+  firstItemId: number | null; // First item of the window (earlier items on that page are done)
+  phase: FullSyncPhase;
+  batch: number; // Completed batches of the phase on this page
+  lastItemId: number | null; // Plenty item ID at the end of the last completed batch
+  counters: {
+    processed: number;
+    created: number;
+    updated: number;
+    failed: number;
+  };
+}
+
+/**
+ * Where to continue within a window after a restart
+ */
+type ChunkResumePoint = Pick<FullSyncCheckpoint, 'phase' | 'batch' | 'lastItemId'>;
+
+/**
+ * Clients and state shared by all chunks of one sync run
+ */
+interface ChunkSyncContext {
+  jobData: DecryptedSyncJobData;
+  plenty: PlentyClient;
+  shopware: IShopwareClient;
+  transformContext: TransformContext; // Without item images - those are fetched per chunk
+  options: ProductSyncOptions;
+  log: ReturnType<typeof createJobLogger>;
+  result: SyncResult;
+  skipUnchanged: boolean; // Skip products whose payload hash matches the last push (delta runs)
+  onBatchComplete?: (position: ChunkResumePoint) => Promise<void>;
 }
 
 /**
@@ -56,12 +112,14 @@ export class ProductSyncProcessor {
   private transformer: ProductTransformer;
   private configProcessor: ConfigSyncProcessor;
   private mappingService: ProductMappingService;
+  private seoUrlService: SeoUrlService;
 
   constructor() {
     this.prisma = getPrismaClient();
     this.transformer = new ProductTransformer();
     this.configProcessor = new ConfigSyncProcessor();
     this.mappingService = new ProductMappingService();
+    this.seoUrlService = new SeoUrlService();
   }
 
   /**
@@ -80,11 +138,22 @@ export class ProductSyncProcessor {
       itemsCreated: 0,
       itemsUpdated: 0,
       itemsFailed: 0,
+      itemsSkipped: 0,
       errors: [],
       duration: 0,
     };
 
     try {
+      // Products are only ever written Plenty → Shopware
+      if (jobData.direction === SyncDirection.SHOPWARE_TO_PLENTY) {
+        throw new Error(
+          `Product sync does not support ${SyncDirection.SHOPWARE_TO_PLENTY} - use ${SyncDirection.PLENTY_TO_SHOPWARE}`
+        );
+      }
+      if (jobData.direction === SyncDirection.BI_DIRECTIONAL) {
+        log.warn('Product sync only writes Plenty → Shopware - BI_DIRECTIONAL runs as PLENTY_TO_SHOPWARE');
+      }
+
       // Ensure config exists
       await this.ensureConfigExists(jobData.tenantId, log);
 
@@ -92,14 +161,15 @@ export class ProductSyncProcessor {
       const plentyConfig: PlentyClientConfig = {
         baseUrl: jobData.plentyUrl,
         credentials: jobData.plentyCredentials,
+        rateLimiter: getPlentyRateLimiter(),
       };
       const plenty = new PlentyClient(plentyConfig);
       await plenty.authenticate();
 
-      const shopware: IShopwareClient = createShopwareClient({
-        tenantId: jobData.tenantId,
-      });
+      // Dry runs get a recording client - nothing below is written to Shopware or the mappings
+      const shopware: IShopwareClient = await createJobShopwareClient(jobData);
       await shopware.authenticate();
+      const dryRun = isDryRunClient(shopware);
 
       // Get Shopware system defaults (required for product creation)
       // First try from config, then fetch from API and cache
@@ -109,10 +179,18 @@ export class ProductSyncProcessor {
         log
       );
 
+      // Shopware currencies by ISO code (for Plenty sales prices restricted to a currency)
+      const shopwareCurrencies = await this.fetchShopwareCurrencies(jobData.tenantId, shopware, log);
+
+      // Tax mappings (Plenty vatId -> Shopware tax) and the rates of all Shopware taxes
+      const { TaxMappingService } = await import('../services/TaxMappingService');
+      const taxContext = await new TaxMappingService().loadResolutionContext(jobData.tenantId, shopware);
+
       // Get sales channel ID for product visibility
       const { TenantConfigService } = await import('../services/TenantConfigService');
       const configService = new TenantConfigService();
       const salesChannelId = await configService.getShopwareSalesChannelId(jobData.tenantId);
+      const barcodeMappings = await configService.getBarcodeMappings(jobData.tenantId);
 
       if (!salesChannelId) {
         log.warn(
@@ -121,6 +199,9 @@ export class ProductSyncProcessor {
         );
       }
 
+      // Shopware language IDs for the SEO URLs written from the Plenty slugs and the media texts
+      const languageIds = await this.seoUrlService.getLanguageIds(jobData.tenantId, shopware);
+
       log.info('Using Shopware defaults', {
         taxId: shopwareDefaults.taxId,
         taxRate: shopwareDefaults.taxRate,
@@ -135,187 +216,918 @@ export class ProductSyncProcessor {
       const isFullSync =
         options.fullSync || jobData.syncType === SyncType.FULL_PRODUCT;
 
-      let variations: PlentyVariation[];
+      // Resolve the tenant's product selection scope into API filters
+      const { SyncScopeService } = await import('../services/SyncScopeService');
+      const scopeService = new SyncScopeService();
+      const syncScope = await scopeService.resolve(jobData.tenantId);
+      log.info('Using product sync scope', { scope: syncScope.scope });
+
+      // Create transform context with Shopware defaults (item images are added per chunk)
+      const transformContext: TransformContext = {
+        tenantId: jobData.tenantId,
+        shopwareClient: shopware,
+        customMappings: mappings,
+        // Shopware system defaults (required for products)
+        defaultTaxId: shopwareDefaults.taxId,
+        defaultTaxRate: shopwareDefaults.taxRate,
+        defaultCurrencyId: shopwareDefaults.currencyId,
+        taxMappings: taxContext.taxMappings,
+        taxRates: taxContext.taxRates,
+        currencies: shopwareCurrencies,
+        barcodeMappings,
+        // Sales channel for product visibility in storefront
+        salesChannelId: salesChannelId || undefined,
+        languageIds,
+        // Forced media refresh (per item with a targeted job, per tenant with a full sync)
+        refreshMedia: jobData.metadata?.refreshMedia === true,
+        refreshedMediaUrls: new Set<string>(),
+      };
+
+      // Targeted jobs (webhooks) only sync the given variations
+      const target = isFullSync ? null : getSyncJobTarget(jobData);
+      const lastSyncAt = isFullSync || target ? null : await this.getLastSyncTime(jobData.tenantId);
+
+      const chunkContext: ChunkSyncContext = {
+        jobData,
+        plenty,
+        shopware,
+        transformContext,
+        options,
+        log,
+        result,
+        // Full syncs always push every product - they also repair changes made in Shopware
+        skipUnchanged: lastSyncAt !== null || (target !== null && !target.force),
+      };
+
+      if (target) {
+        log.info('Starting targeted product sync', {
+          variationIds: target.variationIds.length,
+          itemIds: target.itemIds.length,
+          skus: target.skus.length,
+          force: target.force,
+        });
+        let variations = await this.fetchTargetVariations(plenty, target, syncScope, log);
+
+        // Variations outside the sync scope are not synced, even when targeted
+        variations = scopeService.filterVariations(variations, syncScope);
+        log.info('Fetched targeted variations', { count: variations.length });
+
+        if (variations.length > 0) {
+          await this.syncVariationChunk(chunkContext, variations);
+        }
+        // No sync state update - the next delta run still covers everything changed since the last one
+      } else if (!lastSyncAt) {
+        if (!isFullSync) {
+          log.warn('No previous sync state found. Performing full sync.');
+        }
+        // Streams window by window and checkpoints after each batch (resumable on retry)
+        await this.runFullSync(chunkContext, syncScope, scopeService);
+      } else {
+        // Delta sync
+        log.info('Starting delta product sync', { since: lastSyncAt.toISOString() });
+        let variations = await plenty.getVariationsDelta(
+          lastSyncAt,
+          DEFAULT_WITH_RELATIONS,
+          syncScope.queryParams
+        );
+
+        // Apply scope criteria the API cannot filter on (e.g. item type)
+        variations = scopeService.filterVariations(variations, syncScope);
+
+        log.info('Fetched variations', { count: variations.length });
+
+        if (variations.length === 0) {
+          log.info('No variations to sync');
+          if (isDryRunClient(shopware)) {
+            result.dryRunReport = shopware.getReport();
+          }
+          result.duration = Date.now() - startTime;
+          return result;
+        }
+
+        await this.syncVariationChunk(chunkContext, variations);
+
+        // Update sync state (not on cancellation - the next delta run has to pick up the rest)
+        if (!result.cancelled && !dryRun) {
+          await this.updateSyncState(jobData.tenantId, jobData.syncType);
+        }
+      }
+
+      if (isDryRunClient(shopware)) {
+        result.dryRunReport = shopware.getReport();
+        log.info('Dry run report', { summary: result.dryRunReport.summary });
+      }
+
+      result.success = result.itemsFailed === 0;
+      result.duration = Date.now() - startTime;
+
+      log.info(result.cancelled ? 'Product sync cancelled' : 'Product sync completed', {
+        processed: result.itemsProcessed,
+        created: result.itemsCreated,
+        updated: result.itemsUpdated,
+        failed: result.itemsFailed,
+        skipped: result.itemsSkipped,
+        duration: result.duration,
+      });
+
+      return result;
+    } catch (error) {
+      result.success = false;
+      result.duration = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      result.errors.push({
+        entityId: '',
+        entityType: 'sync',
+        error: errorMessage,
+      });
+      log.error('Product sync failed', { error: errorMessage, result });
+      throw error;
+    }
+  }
+
+  // ============================================
+  // TARGETED SYNC
+  // ============================================
+
+  /**
+   * Fetch the variations a targeted job asks for (by variation ID, item ID and SKU)
+   * Variations matched by more than one criterion are returned once. Child variations come
+   * with the main variation of their item, so the item is grouped with its real parent.
+   */
+  private async fetchTargetVariations(
+    plenty: PlentyClient,
+    target: SyncJobTarget,
+    syncScope: ResolvedSyncScope,
+    log: ReturnType<typeof createJobLogger>
+  ): Promise<PlentyVariation[]> {
+    const byId = new Map<number, PlentyVariation>();
+
+    const fetched = [
+      ...(target.variationIds.length > 0
+        ? await plenty.getVariationsByIds(target.variationIds, DEFAULT_WITH_RELATIONS, syncScope.queryParams)
+        : []),
+      // The target item IDs replace the scope's item filter - filterVariations still applies it
+      ...(target.itemIds.length > 0
+        ? await plenty.getVariationsByItemIds(target.itemIds, DEFAULT_WITH_RELATIONS, syncScope.queryParams)
+        : []),
+      ...(target.skus.length > 0
+        ? await plenty.getVariationsBySkus(target.skus, DEFAULT_WITH_RELATIONS, syncScope.queryParams)
+        : []),
+    ];
+
+    for (const variation of fetched) {
+      byId.set(variation.id, variation);
+    }
+
+    // Targeted children need their main variation - otherwise the child would be synced as the parent
+    const itemIdsWithMain = new Set(
+      Array.from(byId.values())
+        .filter((variation) => variation.isMain)
+        .map((variation) => variation.itemId)
+    );
+    const itemIdsWithoutMain = Array.from(
+      new Set(Array.from(byId.values()).map((variation) => variation.itemId))
+    ).filter((itemId) => !itemIdsWithMain.has(itemId));
+
+    if (itemIdsWithoutMain.length > 0) {
+      const mainVariations = await plenty.getVariationsByItemIds(itemIdsWithoutMain, DEFAULT_WITH_RELATIONS, {
+        ...syncScope.queryParams,
+        isMain: true,
+      });
+      for (const variation of mainVariations) {
+        byId.set(variation.id, variation);
+      }
+      log.info('Fetched main variations of targeted child variations', {
+        items: itemIdsWithoutMain.length,
+        found: mainVariations.length,
+      });
+    }
+
+    const foundSkus = new Set(Array.from(byId.values()).map((variation) => variation.number));
+    const missingSkus = target.skus.filter((sku) => !foundSkus.has(sku));
+    if (missingSkus.length > 0) {
+      log.warn('Targeted SKUs not found in Plenty (or outside the sync scope)', { skus: missingSkus });
+    }
+
+    return Array.from(byId.values());
+  }
+
+  // ============================================
+  // FULL SYNC (STREAMED + CHECKPOINTED)
+  // ============================================
+
+  /**
+   * Run a full sync window by window
+   * Pages are streamed sorted by item ID; the variations of the last item on a page are
+   * held back until the next page, so no item is split across windows. The checkpoint in
+   * SyncState is updated after every batch; a retry of the same job (BullMQ retry or
+   * stalled job recovery) continues from it instead of starting over.
+   */
+  private async runFullSync(
+    ctx: ChunkSyncContext,
+    syncScope: ResolvedSyncScope,
+    scopeService: SyncScopeService
+  ): Promise<void> {
+    const { jobData, plenty, options, log, result } = ctx;
+    const checkpoint = await this.loadCheckpoint(jobData.tenantId, jobData.id);
+
+    const startedAt = checkpoint ? new Date(checkpoint.startedAt) : new Date();
+    const itemsPerPage = checkpoint?.itemsPerPage ?? (options.batchSize || DEFAULT_BATCH_SIZE);
+    let resumeFrom: ChunkResumePoint | undefined;
+    let skipBelowItemId: number | null = null;
+
+    if (checkpoint) {
+      // Counters continue where the interrupted attempt stopped
+      result.itemsProcessed = checkpoint.counters.processed;
+      result.itemsCreated = checkpoint.counters.created;
+      result.itemsUpdated = checkpoint.counters.updated;
+      result.itemsFailed = checkpoint.counters.failed;
+      resumeFrom = { phase: checkpoint.phase, batch: checkpoint.batch, lastItemId: checkpoint.lastItemId };
+      skipBelowItemId = checkpoint.firstItemId;
+
+      log.info('Resuming full product sync from checkpoint', {
+        page: checkpoint.page,
+        firstItemId: checkpoint.firstItemId,
+        phase: checkpoint.phase,
+        batch: checkpoint.batch,
+        lastItemId: checkpoint.lastItemId,
+        counters: checkpoint.counters,
+      });
+    } else {
+      log.info('Starting full product sync');
+    }
+
+    // Dry runs keep no checkpoint and track seen variations in memory instead of on the mappings
+    const dryRun = isDryRunClient(ctx.shopware);
+    const seenInDryRun = new Set<number>();
+
+    const saveCheckpoint = async (position: Omit<FullSyncCheckpoint, 'jobId' | 'startedAt' | 'itemsPerPage' | 'counters'>) => {
+      if (dryRun) {
+        return;
+      }
+      await this.saveCheckpoint(jobData.tenantId, {
+        jobId: jobData.id,
+        startedAt: startedAt.toISOString(),
+        itemsPerPage,
+        ...position,
+        counters: {
+          processed: result.itemsProcessed,
+          created: result.itemsCreated,
+          updated: result.itemsUpdated,
+          failed: result.itemsFailed,
+        },
+      });
+    };
+
+    const pages = plenty.iterateVariations(
+      {
+        ...syncScope.queryParams,
+        with: DEFAULT_WITH_RELATIONS.join(','),
+        itemsPerPage,
+        sortBy: 'itemId',
+        sortOrder: 'asc',
+      },
+      { startPage: checkpoint?.page ?? 1, prefetch: PAGE_PREFETCH }
+    );
+
+    // Variations of the trailing item, held back from the previous page(s)
+    let carry: PlentyVariation[] = [];
+    let carryPage = 0;
+
+    for await (const response of pages) {
+      // Apply scope criteria the API cannot filter on (e.g. item type)
+      let entries = scopeService.filterVariations(response.entries, syncScope);
+      if (skipBelowItemId !== null) {
+        // Resumed page: items before the interrupted window are already done
+        const firstItemId = skipBelowItemId;
+        entries = entries.filter((v) => v.itemId >= firstItemId);
+        skipBelowItemId = null;
+      }
+
+      const windowStartPage = carry.length > 0 ? carryPage : response.page;
+      const pageVariations = [...carry, ...entries].sort((a, b) => a.itemId - b.itemId);
+      const { window, trailing } = response.isLastPage
+        ? { window: pageVariations, trailing: [] }
+        : this.splitTrailingItem(pageVariations);
+
+      // The held back item starts on the carry page if it is the item carried over again
+      const continuesCarry = carry.length > 0 && trailing.length > 0 && trailing[0].itemId === carry[0].itemId;
+      carryPage = continuesCarry ? carryPage : response.page;
+      carry = trailing;
+
+      log.info('Processing variations window', {
+        page: response.page,
+        lastPage: response.lastPageNumber,
+        count: window.length,
+        heldBack: trailing.length,
+      });
 
-      if (isFullSync) {
-        log.info('Starting full product sync');
-        variations = await plenty.getAllVariations(
+      if (window.length > 0) {
+        const firstItemId = window[0].itemId;
+        await this.syncVariationChunk(
           {
-            with: DEFAULT_WITH_RELATIONS.join(','),
-            itemsPerPage: options.batchSize || DEFAULT_BATCH_SIZE,
-            'itemId': 23423
+            ...ctx,
+            onBatchComplete: (position) => saveCheckpoint({ page: windowStartPage, firstItemId, ...position }),
           },
-          (page, total) => {
-            log.debug('Fetching page', { page, total });
-          }
+          window,
+          resumeFrom
         );
-      } else {
-        // Delta sync
-        const lastSyncAt = await this.getLastSyncTime(jobData.tenantId);
+        resumeFrom = undefined;
 
-        if (lastSyncAt) {
-          log.info('Starting delta product sync', { since: lastSyncAt.toISOString() });
-          variations = await plenty.getVariationsDelta(lastSyncAt, DEFAULT_WITH_RELATIONS);
+        // Everything in the window still exists in Plenty (input for the reconciliation below)
+        if (dryRun) {
+          window.forEach((v) => seenInDryRun.add(v.id));
         } else {
-          log.warn('No previous sync state found. Performing full sync.');
-          variations = await plenty.getAllVariations({
-            with: DEFAULT_WITH_RELATIONS.join(','),
-            itemsPerPage: options.batchSize || DEFAULT_BATCH_SIZE,
-            'itemId': 23423
-          });
+          await this.mappingService.markSeen(jobData.tenantId, window.map((v) => v.id));
         }
       }
 
-      log.info('Fetched variations', { count: variations.length });
+      if (result.cancelled) {
+        break;
+      }
 
-      if (variations.length === 0) {
-        log.info('No variations to sync');
-        result.duration = Date.now() - startTime;
-        return result;
+      if (!response.isLastPage) {
+        // The next window starts with the held back item (or on the next page)
+        await saveCheckpoint({
+          page: carry.length > 0 ? carryPage : response.page + 1,
+          firstItemId: carry.length > 0 ? carry[0].itemId : null,
+          phase: 'parents',
+          batch: 0,
+          lastItemId: window.length > 0 ? window[window.length - 1].itemId : null,
+        });
       }
+    }
 
-      // Group variations by item for parent-child processing
-      const variationGroups = this.groupVariationsByItem(variations);
-      log.info('Grouped variations by item', {
-        groups: variationGroups.length,
-        totalVariations: variations.length,
+    if (result.cancelled) {
+      return;
+    }
+
+    // Propagate Plenty deletions: mappings not seen by this run are orphans
+    const { ProductReconciliationService } = await import('../services/ProductReconciliationService');
+    const reconciliation = await new ProductReconciliationService().reconcile(
+      jobData.tenantId,
+      ctx.shopware,
+      startedAt,
+      dryRun ? seenInDryRun : undefined
+    );
+    result.metadata = { ...result.metadata, reconciliation };
+    if (reconciliation.aborted) {
+      result.errors.push({
+        entityId: '',
+        entityType: 'reconciliation',
+        error: reconciliation.abortReason || 'Product reconciliation aborted',
       });
+    }
+
+    if (dryRun) {
+      return;
+    }
+
+    // Done - drop the checkpoint; delta syncs continue from when this full sync started
+    await this.clearCheckpoint(jobData.tenantId);
+    await this.updateSyncState(jobData.tenantId, jobData.syncType, startedAt);
+  }
+
+  /**
+   * Split off the variations of the last item (they may continue on the next page)
+   * Expects variations sorted by item ID.
+   */
+  private splitTrailingItem(variations: PlentyVariation[]): {
+    window: PlentyVariation[];
+    trailing: PlentyVariation[];
+  } {
+    if (variations.length === 0) {
+      return { window: [], trailing: [] };
+    }
+
+    const lastItemId = variations[variations.length - 1].itemId;
+    const splitIndex = variations.findIndex((v) => v.itemId === lastItemId);
+
+    return {
+      window: variations.slice(0, splitIndex),
+      trailing: variations.slice(splitIndex),
+    };
+  }
+
+  /**
+   * Load the full sync checkpoint if it was written by this job
+   * Checkpoints of other (cancelled or abandoned) jobs are ignored.
+   */
+  private async loadCheckpoint(tenantId: string, jobId: string): Promise<FullSyncCheckpoint | null> {
+    const state = await this.prisma.syncState.findUnique({
+      where: {
+        tenantId_syncType: {
+          tenantId,
+          syncType: SyncType.FULL_PRODUCT,
+        },
+      },
+    });
+
+    const checkpoint = (state?.metadata as { checkpoint?: FullSyncCheckpoint } | null)?.checkpoint;
+    return checkpoint?.jobId === jobId ? checkpoint : null;
+  }
+
+  /**
+   * Persist the full sync checkpoint (SyncState row FULL_PRODUCT)
+   */
+  private async saveCheckpoint(tenantId: string, checkpoint: FullSyncCheckpoint): Promise<void> {
+    const data = {
+      lastSyncAt: new Date(),
+      lastSyncedPlentyItemId: checkpoint.lastItemId,
+      metadata: { checkpoint } as object,
+    };
+
+    await this.prisma.syncState.upsert({
+      where: {
+        tenantId_syncType: {
+          tenantId,
+          syncType: SyncType.FULL_PRODUCT,
+        },
+      },
+      create: {
+        tenantId,
+        syncType: SyncType.FULL_PRODUCT,
+        ...data,
+      },
+      update: data,
+    });
+  }
 
-      // Fetch images for all items if not skipped
-      let itemImages: Map<number, PlentyItemImage[]> | undefined;
-      if (!options.skipImages) {
-        const itemIds = variationGroups.map((g) => g.itemId);
-        log.info('Fetching images for items', { itemCount: itemIds.length, itemIds });
-        itemImages = await plenty.getBatchItemImages(itemIds);
-
-        // Log detailed image counts per item
-        const totalImages = Array.from(itemImages.values()).reduce((sum, imgs) => sum + imgs.length, 0);
-        const itemsWithImages = Array.from(itemImages.entries()).filter(([, imgs]) => imgs.length > 0).length;
-
-        log.info('Fetched item images', {
-          itemCount: itemIds.length,
-          itemsWithImages,
-          totalImages,
+  /**
+   * Remove the checkpoint after a completed full sync
+   */
+  private async clearCheckpoint(tenantId: string): Promise<void> {
+    const now = new Date();
+    const data = {
+      lastSyncAt: now,
+      lastSuccessfulSyncAt: now,
+      lastSyncedPlentyItemId: null,
+      metadata: Prisma.DbNull,
+    };
+
+    await this.prisma.syncState.upsert({
+      where: {
+        tenantId_syncType: {
+          tenantId,
+          syncType: SyncType.FULL_PRODUCT,
+        },
+      },
+      create: {
+        tenantId,
+        syncType: SyncType.FULL_PRODUCT,
+        ...data,
+      },
+      update: data,
+    });
+  }
+
+  /**
+   * Number of leading batches a resumed run can skip
+   * Only trusted if the checkpoint's last item still ends that batch on the re-fetched page;
+   * otherwise the page is processed again from the start (product upserts are idempotent).
+   */
+  private getResumableBatchCount<T>(
+    batches: T[][],
+    resumeFrom: ChunkResumePoint | undefined,
+    phase: FullSyncPhase,
+    getItemId: (entry: T) => number,
+    log: ReturnType<typeof createJobLogger>
+  ): number {
+    if (!resumeFrom || resumeFrom.phase !== phase || resumeFrom.batch === 0) {
+      return 0;
+    }
+
+    const lastBatch = batches[resumeFrom.batch - 1];
+    if (!lastBatch || getItemId(lastBatch[lastBatch.length - 1]) !== resumeFrom.lastItemId) {
+      log.warn('Checkpoint does not match the re-fetched page - processing the page again', {
+        phase,
+        batch: resumeFrom.batch,
+        lastItemId: resumeFrom.lastItemId,
+      });
+      return 0;
+    }
+
+    return resumeFrom.batch;
+  }
+
+  // ============================================
+  // CHUNK PROCESSING
+  // ============================================
+
+  /**
+   * Sync a set of variations to Shopware: parents, then children, then configurator settings
+   * Called once for delta syncs and once per page for full syncs.
+   */
+  private async syncVariationChunk(
+    ctx: ChunkSyncContext,
+    variations: PlentyVariation[],
+    resumeFrom?: ChunkResumePoint
+  ): Promise<void> {
+    const { jobData, plenty, shopware, options, log, result } = ctx;
+
+    // Group variations by item for parent-child processing
+    const variationGroups = this.groupVariationsByItem(variations);
+    if (variationGroups.length === 0) {
+      return;
+    }
+
+    log.info('Grouped variations by item', {
+      groups: variationGroups.length,
+      totalVariations: variations.length,
+    });
+
+    // Fetch images for all items if not skipped
+    let itemImages: Map<number, PlentyItemImage[]> | undefined;
+    if (!options.skipImages) {
+      const itemIds = variationGroups.map((g) => g.itemId);
+      log.info('Fetching images for items', { itemCount: itemIds.length, itemIds });
+      itemImages = await plenty.getBatchItemImages(itemIds);
+
+      // Log detailed image counts per item
+      const totalImages = Array.from(itemImages.values()).reduce((sum, imgs) => sum + imgs.length, 0);
+      const itemsWithImages = Array.from(itemImages.entries()).filter(([, imgs]) => imgs.length > 0).length;
+
+      log.info('Fetched item images', {
+        itemCount: itemIds.length,
+        itemsWithImages,
+        totalImages,
+      });
+
+      // Log ALL images with their IDs, URLs, and variation links for debugging
+      for (const [itemId, images] of itemImages.entries()) {
+        log.info('Item images detail', {
+          itemId,
+          imageCount: images.length,
+          images: images.map(img => ({
+            id: img.id,
+            url: img.url,
+            position: img.position,
+            variationLinkCount: img.variationLinks?.length || 0,
+            linkedVariationIds: img.variationLinks?.map(vl => vl.variationId) || [],
+          })),
         });
+      }
+    }
 
-        // Log ALL images with their IDs, URLs, and variation links for debugging
-        for (const [itemId, images] of itemImages.entries()) {
-          log.info('Item images detail', {
-            itemId,
-            imageCount: images.length,
-            images: images.map(img => ({
-              id: img.id,
-              url: img.url,
-              position: img.position,
-              variationLinkCount: img.variationLinks?.length || 0,
-              linkedVariationIds: img.variationLinks?.map(vl => vl.variationId) || [],
-            })),
-          });
+    const transformContext: TransformContext = { ...ctx.transformContext, itemImages };
+
+    // Load existing mappings for all variations
+    const variationIds = variations.map((v) => v.id);
+    const existingMappings = await this.mappingService.getBatchMappings(
+      jobData.tenantId,
+      variationIds
+    );
+    log.info('Loaded existing mappings', { count: Object.keys(existingMappings).length });
+
+    // ============================================
+    // PHASE 1: SYNC PARENT PRODUCTS (Main Variations)
+    // ============================================
+    log.info('Phase 1: Syncing parent products', { count: variationGroups.length });
+
+    const parentResults = new Map<number, { shopwareProductId: string; success: boolean }>();
+
+    // Process parent variations in batches
+    const parentBatches = this.createBatches(variationGroups, BULK_SYNC_BATCH_SIZE);
+    const skippedParentBatches =
+      resumeFrom?.phase === 'children'
+        ? parentBatches.length
+        : this.getResumableBatchCount(parentBatches, resumeFrom, 'parents', (g) => g.itemId, log);
+
+    // Parents synced before the resume point - their mappings were saved per batch
+    for (const group of parentBatches.slice(0, skippedParentBatches).flat()) {
+      const mapping = existingMappings[group.mainVariation.id];
+      parentResults.set(group.mainVariation.id, {
+        shopwareProductId: mapping?.shopwareProductId || '',
+        success: !!mapping,
+      });
+    }
+
+    for (let batchIndex = skippedParentBatches; batchIndex < parentBatches.length; batchIndex++) {
+      if (await this.shouldStop(options, log, 'parent', batchIndex, parentBatches.length)) {
+        result.cancelled = true;
+        break;
+      }
+
+      const batch = parentBatches[batchIndex];
+      const parentMappingRecords: ProductMappingRecord[] = [];
+      const payloadHashes = new Map<number, string>();
+      log.debug('Processing parent batch', { batch: batchIndex + 1, total: parentBatches.length });
+
+      try {
+        // Ensure categories and attributes exist for each variation
+        await this.ensureDependencies(batch.map((g) => g.mainVariation), jobData.tenantId, shopware, log);
+
+        // Transform parent variations
+        const parentProducts: ShopwareBulkProduct[] = [];
+        for (const group of batch) {
+          try {
+            const product = await this.transformer.transformAsParent(
+              group.mainVariation,
+              transformContext
+            );
+
+            // Log media count from transformer
+            if (product.media && product.media.length > 0) {
+              log.info('Transform returned media', {
+                variationId: group.mainVariation.id,
+                mediaCount: product.media.length,
+              });
+            } else {
+              log.debug('Transform returned no media', {
+                variationId: group.mainVariation.id,
+              });
+            }
+
+            // Add existing Shopware ID if mapped
+            const mapping = existingMappings[group.mainVariation.id];
+            if (mapping) {
+              product.id = mapping.shopwareProductId;
+              // Remove visibilities on update - they already exist and would cause duplicate key error
+              // Media uses deterministic IDs so it can be upserted safely
+              delete product.visibilities;
+              log.info('Using existing mapping for parent', {
+                variationId: group.mainVariation.id,
+                shopwareProductId: mapping.shopwareProductId,
+                visibilitiesRemoved: true,
+              });
+            } else {
+              log.info('No existing mapping for parent, creating new', {
+                variationId: group.mainVariation.id,
+                hasVisibilities: !!product.visibilities,
+              });
+            }
+
+            product._plentyItemId = group.itemId;
+            product._plentyVariationId = group.mainVariation.id;
+
+            // Unchanged since the last push - no write and no media/property cleanup needed
+            // Reappeared products are always written: the deletion policy changed them in Shopware
+            const payloadHash = this.mappingService.hashProduct(product as ShopwareBulkProduct);
+            const reappeared = mapping?.status === MappingStatus.ORPHANED;
+            if (ctx.skipUnchanged && !reappeared && mapping?.payloadHash === payloadHash) {
+              result.itemsProcessed++;
+              result.itemsSkipped++;
+              parentResults.set(group.mainVariation.id, {
+                shopwareProductId: mapping.shopwareProductId,
+                success: true,
+              });
+              continue;
+            }
+            payloadHashes.set(group.mainVariation.id, payloadHash);
+
+            parentProducts.push(product as ShopwareBulkProduct);
+          } catch (error) {
+            log.warn('Failed to transform parent variation', {
+              variationId: group.mainVariation.id,
+              error: error instanceof Error ? error.message : String(error),
+            });
+            parentResults.set(group.mainVariation.id, { shopwareProductId: '', success: false });
+          }
+        }
+
+        // Bulk sync parent products
+        if (parentProducts.length > 0) {
+          const bulkResult = await shopware.bulkSyncProducts(parentProducts);
+
+          for (const itemResult of bulkResult.results) {
+            result.itemsProcessed++;
+
+            const product = parentProducts.find((p) => p.productNumber === itemResult.productNumber);
+            const variationId = product?._plentyVariationId;
+
+            if (itemResult.success) {
+              if (itemResult.action === 'create') {
+                result.itemsCreated++;
+              } else {
+                result.itemsUpdated++;
+              }
+
+              if (variationId) {
+                parentResults.set(variationId, {
+                  shopwareProductId: itemResult.shopwareId,
+                  success: true,
+                });
+
+                // Canonical SEO URLs from the Plenty slugs (only changed slugs are written)
+                let payloadHash = payloadHashes.get(variationId);
+                let seoPaths: ShopwareSeoPath[] | undefined;
+                if (product?._seoPaths) {
+                  const seoResult = await this.seoUrlService.syncSeoUrls(
+                    shopware,
+                    'frontend.detail.page',
+                    itemResult.shopwareId,
+                    product._seoPaths,
+                    existingMappings[variationId]?.seoPaths ?? null
+                  );
+                  seoPaths = seoResult.seoPaths;
+                  if (seoResult.failed > 0) {
+                    payloadHash = undefined; // Not skipped by the next delta sync - the SEO URLs are retried
+                  }
+                }
+
+                parentMappingRecords.push({
+                  plentyItemId: product?._plentyItemId || 0,
+                  plentyVariationId: variationId,
+                  shopwareProductId: itemResult.shopwareId,
+                  shopwareProductNumber: itemResult.productNumber,
+                  isParent: true,
+                  shopwareParentId: undefined,
+                  lastSyncAction: itemResult.action,
+                  payloadHash,
+                  seoPaths,
+                });
+
+                // Clean up orphaned product_media (images deleted in Plenty)
+                if (product?.media !== undefined) {
+                  const expectedMediaIds = product.media.map(m => m.id).filter((id): id is string => !!id);
+                  const mediaCleanup = await shopware.syncProductMedia(itemResult.shopwareId, expectedMediaIds);
+                  if (mediaCleanup.removed > 0) {
+                    log.info('Cleaned up orphaned product media', {
+                      productId: itemResult.shopwareId,
+                      removed: mediaCleanup.removed,
+                      kept: mediaCleanup.kept,
+                    });
+                  }
+                }
+
+                // Clean up orphaned product properties (properties changed in Plenty)
+                if (product?.properties !== undefined) {
+                  const expectedPropertyIds = product.properties.map(p => p.id).filter((id): id is string => !!id);
+                  const propertyCleanup = await shopware.syncProductProperties(itemResult.shopwareId, expectedPropertyIds);
+                  if (propertyCleanup.removed > 0) {
+                    log.info('Cleaned up orphaned product properties', {
+                      productId: itemResult.shopwareId,
+                      removed: propertyCleanup.removed,
+                      kept: propertyCleanup.kept,
+                    });
+                  }
+                }
+
+                // Clean up orphaned advanced prices (sales prices, rules or tiers removed in Plenty)
+                if (product?.prices !== undefined) {
+                  const expectedPriceIds = product.prices.map(p => p.id).filter((id): id is string => !!id);
+                  const priceCleanup = await shopware.syncProductPrices(itemResult.shopwareId, expectedPriceIds);
+                  if (priceCleanup.removed > 0) {
+                    log.info('Cleaned up orphaned advanced prices', {
+                      productId: itemResult.shopwareId,
+                      removed: priceCleanup.removed,
+                      kept: priceCleanup.kept,
+                    });
+                  }
+                }
+              }
+            } else {
+              result.itemsFailed++;
+              result.errors.push({
+                entityId: itemResult.productNumber,
+                entityType: 'parent_variation',
+                error: itemResult.error || 'Unknown error',
+              });
+
+              if (variationId) {
+                parentResults.set(variationId, { shopwareProductId: '', success: false });
+              }
+            }
+          }
+
+          // Visibilities are only sent on create - restore them for products that reappeared in Plenty
+          // (the hide-from-sales-channel deletion policy removed them)
+          const reappearedIds = batch
+            .filter((g) => existingMappings[g.mainVariation.id]?.status === MappingStatus.ORPHANED)
+            .map((g) => parentResults.get(g.mainVariation.id))
+            .filter((r): r is { shopwareProductId: string; success: boolean } => !!r?.success)
+            .map((r) => r.shopwareProductId);
+          if (reappearedIds.length > 0 && transformContext.salesChannelId) {
+            const restored = await shopware.addProductVisibilities(reappearedIds, transformContext.salesChannelId);
+            if (restored.success) {
+              log.info('Restored visibilities of reappeared products', { count: reappearedIds.length, added: restored.added });
+            } else {
+              log.warn('Failed to restore visibilities of reappeared products', { count: reappearedIds.length, errors: restored.errors });
+            }
+          }
+        }
+      } catch (error) {
+        log.error('Failed to process parent batch', {
+          batch: batchIndex + 1,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        // Mark all items in batch as failed
+        for (const group of batch) {
+          result.itemsProcessed++;
+          result.itemsFailed++;
+          parentResults.set(group.mainVariation.id, { shopwareProductId: '', success: false });
         }
       }
 
-      // Create transform context with Shopware defaults
-      const transformContext: TransformContext = {
-        tenantId: jobData.tenantId,
-        shopwareClient: shopware,
-        itemImages,
-        customMappings: mappings,
-        // Shopware system defaults (required for products)
-        defaultTaxId: shopwareDefaults.taxId,
-        defaultTaxRate: shopwareDefaults.taxRate,
-        defaultCurrencyId: shopwareDefaults.currencyId,
-        // Sales channel for product visibility in storefront
-        salesChannelId: salesChannelId || undefined,
-      };
+      // Save parent mappings after each batch (a resumed run relies on them)
+      if (parentMappingRecords.length > 0 && !isDryRunClient(shopware)) {
+        await this.mappingService.upsertMappings(jobData.tenantId, parentMappingRecords);
+        log.info('Saved parent mappings', { count: parentMappingRecords.length });
+      }
 
-      // Load existing mappings for all variations
-      const variationIds = variations.map((v) => v.id);
-      const existingMappings = await this.mappingService.getBatchMappings(
-        jobData.tenantId,
-        variationIds
-      );
-      log.info('Loaded existing mappings', { count: Object.keys(existingMappings).length });
+      await ctx.onBatchComplete?.({
+        phase: 'parents',
+        batch: batchIndex + 1,
+        lastItemId: batch[batch.length - 1].itemId,
+      });
+    }
 
-      // ============================================
-      // PHASE 1: SYNC PARENT PRODUCTS (Main Variations)
-      // ============================================
-      log.info('Phase 1: Syncing parent products', { count: variationGroups.length });
+    // ============================================
+    // PHASE 2: SYNC CHILD PRODUCTS (Child Variations)
+    // ============================================
+    const allChildVariations: Array<{ variation: PlentyVariation; parentShopwareId: string }> = [];
 
-      const parentMappingRecords: ProductMappingRecord[] = [];
-      const parentResults = new Map<number, { shopwareProductId: string; success: boolean }>();
+    for (const group of variationGroups) {
+      const parentResult = parentResults.get(group.mainVariation.id);
+
+      // Skip children if parent failed or if there are no children
+      if (!parentResult?.success || group.childVariations.length === 0) {
+        continue;
+      }
 
-      // Process parent variations in batches
-      const parentBatches = this.createBatches(variationGroups, BULK_SYNC_BATCH_SIZE);
+      for (const childVariation of group.childVariations) {
+        allChildVariations.push({
+          variation: childVariation,
+          parentShopwareId: parentResult.shopwareProductId,
+        });
+      }
+    }
 
-      for (let batchIndex = 0; batchIndex < parentBatches.length; batchIndex++) {
-        const batch = parentBatches[batchIndex];
-        log.debug('Processing parent batch', { batch: batchIndex + 1, total: parentBatches.length });
+    log.info('Phase 2: Syncing child products', { count: allChildVariations.length });
+
+    if (allChildVariations.length > 0) {
+      const childBatches = this.createBatches(allChildVariations, BULK_SYNC_BATCH_SIZE);
+      const skippedChildBatches = this.getResumableBatchCount(
+        childBatches,
+        resumeFrom,
+        'children',
+        (c) => c.variation.itemId,
+        log
+      );
+
+      for (let batchIndex = skippedChildBatches; batchIndex < childBatches.length; batchIndex++) {
+        if (await this.shouldStop(options, log, 'child', batchIndex, childBatches.length)) {
+          result.cancelled = true;
+          break;
+        }
+
+        const batch = childBatches[batchIndex];
+        const childMappingRecords: ProductMappingRecord[] = [];
+        const payloadHashes = new Map<number, string>();
+        log.debug('Processing child batch', { batch: batchIndex + 1, total: childBatches.length });
 
         try {
-          // Ensure categories and attributes exist for each variation
-          await this.ensureDependencies(batch.map((g) => g.mainVariation), jobData.tenantId, shopware, log);
+          // Ensure dependencies for child variations
+          await this.ensureDependencies(batch.map((c) => c.variation), jobData.tenantId, shopware, log);
 
-          // Transform parent variations
-          const parentProducts: ShopwareBulkProduct[] = [];
-          for (const group of batch) {
+          // Transform child variations
+          const childProducts: ShopwareBulkProduct[] = [];
+          for (const { variation, parentShopwareId } of batch) {
             try {
-              const product = await this.transformer.transformAsParent(
-                group.mainVariation,
+              const product = await this.transformer.transformAsChild(
+                variation,
+                parentShopwareId,
                 transformContext
               );
 
-              // Log media count from transformer
-              if (product.media && product.media.length > 0) {
-                log.info('Transform returned media', {
-                  variationId: group.mainVariation.id,
-                  mediaCount: product.media.length,
-                });
-              } else {
-                log.debug('Transform returned no media', {
-                  variationId: group.mainVariation.id,
-                });
-              }
-
               // Add existing Shopware ID if mapped
-              const mapping = existingMappings[group.mainVariation.id];
+              const mapping = existingMappings[variation.id];
               if (mapping) {
                 product.id = mapping.shopwareProductId;
-                // Remove visibilities on update - they already exist and would cause duplicate key error
                 // Media uses deterministic IDs so it can be upserted safely
-                delete product.visibilities;
-                log.info('Using existing mapping for parent', {
-                  variationId: group.mainVariation.id,
-                  shopwareProductId: mapping.shopwareProductId,
-                  visibilitiesRemoved: true,
-                });
-              } else {
-                log.info('No existing mapping for parent, creating new', {
-                  variationId: group.mainVariation.id,
-                  hasVisibilities: !!product.visibilities,
-                });
               }
 
-              product._plentyItemId = group.itemId;
-              product._plentyVariationId = group.mainVariation.id;
+              product._plentyItemId = variation.itemId;
+              product._plentyVariationId = variation.id;
 
-              parentProducts.push(product as ShopwareBulkProduct);
+              const payloadHash = this.mappingService.hashProduct(product as ShopwareBulkProduct);
+              const reappeared = mapping?.status === MappingStatus.ORPHANED;
+              if (ctx.skipUnchanged && !reappeared && mapping?.payloadHash === payloadHash) {
+                result.itemsProcessed++;
+                result.itemsSkipped++;
+                continue;
+              }
+              payloadHashes.set(variation.id, payloadHash);
+
+              childProducts.push(product as ShopwareBulkProduct);
             } catch (error) {
-              log.warn('Failed to transform parent variation', {
-                variationId: group.mainVariation.id,
+              log.warn('Failed to transform child variation', {
+                variationId: variation.id,
                 error: error instanceof Error ? error.message : String(error),
               });
-              parentResults.set(group.mainVariation.id, { shopwareProductId: '', success: false });
+              result.itemsFailed++;
             }
           }
 
-          // Bulk sync parent products
-          if (parentProducts.length > 0) {
-            const bulkResult = await shopware.bulkSyncProducts(parentProducts);
+          // Bulk sync child products
+          if (childProducts.length > 0) {
+            const bulkResult = await shopware.bulkSyncProducts(childProducts);
 
             for (const itemResult of bulkResult.results) {
               result.itemsProcessed++;
 
-              const product = parentProducts.find((p) => p.productNumber === itemResult.productNumber);
+              const product = childProducts.find((p) => p.productNumber === itemResult.productNumber);
               const variationId = product?._plentyVariationId;
 
               if (itemResult.success) {
@@ -325,28 +1137,24 @@ export class ProductSyncProcessor {
                   result.itemsUpdated++;
                 }
 
-                if (variationId) {
-                  parentResults.set(variationId, {
-                    shopwareProductId: itemResult.shopwareId,
-                    success: true,
-                  });
-
-                  parentMappingRecords.push({
-                    plentyItemId: product?._plentyItemId || 0,
+                if (variationId && product) {
+                  childMappingRecords.push({
+                    plentyItemId: product._plentyItemId || 0,
                     plentyVariationId: variationId,
                     shopwareProductId: itemResult.shopwareId,
                     shopwareProductNumber: itemResult.productNumber,
-                    isParent: true,
-                    shopwareParentId: undefined,
+                    isParent: false,
+                    shopwareParentId: product.parentId,
                     lastSyncAction: itemResult.action,
+                    payloadHash: payloadHashes.get(variationId),
                   });
 
                   // Clean up orphaned product_media (images deleted in Plenty)
-                  if (product?.media !== undefined) {
+                  if (product.media !== undefined) {
                     const expectedMediaIds = product.media.map(m => m.id).filter((id): id is string => !!id);
                     const mediaCleanup = await shopware.syncProductMedia(itemResult.shopwareId, expectedMediaIds);
                     if (mediaCleanup.removed > 0) {
-                      log.info('Cleaned up orphaned product media', {
+                      log.info('Cleaned up orphaned product media (child)', {
                         productId: itemResult.shopwareId,
                         removed: mediaCleanup.removed,
                         kept: mediaCleanup.kept,
@@ -355,295 +1163,133 @@ export class ProductSyncProcessor {
                   }
 
                   // Clean up orphaned product properties (properties changed in Plenty)
-                  if (product?.properties !== undefined) {
+                  if (product.properties !== undefined) {
                     const expectedPropertyIds = product.properties.map(p => p.id).filter((id): id is string => !!id);
                     const propertyCleanup = await shopware.syncProductProperties(itemResult.shopwareId, expectedPropertyIds);
                     if (propertyCleanup.removed > 0) {
-                      log.info('Cleaned up orphaned product properties', {
+                      log.info('Cleaned up orphaned product properties (child)', {
                         productId: itemResult.shopwareId,
                         removed: propertyCleanup.removed,
                         kept: propertyCleanup.kept,
                       });
                     }
                   }
+
+                  // Clean up orphaned advanced prices (sales prices, rules or tiers removed in Plenty)
+                  if (product.prices !== undefined) {
+                    const expectedPriceIds = product.prices.map(p => p.id).filter((id): id is string => !!id);
+                    const priceCleanup = await shopware.syncProductPrices(itemResult.shopwareId, expectedPriceIds);
+                    if (priceCleanup.removed > 0) {
+                      log.info('Cleaned up orphaned advanced prices (child)', {
+                        productId: itemResult.shopwareId,
+                        removed: priceCleanup.removed,
+                        kept: priceCleanup.kept,
+                      });
+                    }
+                  }
                 }
               } else {
                 result.itemsFailed++;
                 result.errors.push({
                   entityId: itemResult.productNumber,
-                  entityType: 'parent_variation',
+                  entityType: 'child_variation',
                   error: itemResult.error || 'Unknown error',
                 });
-
-                if (variationId) {
-                  parentResults.set(variationId, { shopwareProductId: '', success: false });
-                }
               }
             }
           }
         } catch (error) {
-          log.error('Failed to process parent batch', {
+          log.error('Failed to process child batch', {
             batch: batchIndex + 1,
             error: error instanceof Error ? error.message : String(error),
           });
 
           // Mark all items in batch as failed
-          for (const group of batch) {
+          for (const { variation } of batch) {
             result.itemsProcessed++;
             result.itemsFailed++;
-            parentResults.set(group.mainVariation.id, { shopwareProductId: '', success: false });
-          }
-        }
-      }
-
-      // Save parent mappings
-      if (parentMappingRecords.length > 0) {
-        await this.mappingService.upsertMappings(jobData.tenantId, parentMappingRecords);
-        log.info('Saved parent mappings', { count: parentMappingRecords.length });
-      }
-
-      // ============================================
-      // PHASE 2: SYNC CHILD PRODUCTS (Child Variations)
-      // ============================================
-      const allChildVariations: Array<{ variation: PlentyVariation; parentShopwareId: string }> = [];
-
-      for (const group of variationGroups) {
-        const parentResult = parentResults.get(group.mainVariation.id);
-
-        // Skip children if parent failed or if there are no children
-        if (!parentResult?.success || group.childVariations.length === 0) {
-          continue;
-        }
-
-        for (const childVariation of group.childVariations) {
-          allChildVariations.push({
-            variation: childVariation,
-            parentShopwareId: parentResult.shopwareProductId,
-          });
-        }
-      }
-
-      log.info('Phase 2: Syncing child products', { count: allChildVariations.length });
-
-      if (allChildVariations.length > 0) {
-        const childMappingRecords: ProductMappingRecord[] = [];
-        const childBatches = this.createBatches(allChildVariations, BULK_SYNC_BATCH_SIZE);
-
-        for (let batchIndex = 0; batchIndex < childBatches.length; batchIndex++) {
-          const batch = childBatches[batchIndex];
-          log.debug('Processing child batch', { batch: batchIndex + 1, total: childBatches.length });
-
-          try {
-            // Ensure dependencies for child variations
-            await this.ensureDependencies(batch.map((c) => c.variation), jobData.tenantId, shopware, log);
-
-            // Transform child variations
-            const childProducts: ShopwareBulkProduct[] = [];
-            for (const { variation, parentShopwareId } of batch) {
-              try {
-                const product = await this.transformer.transformAsChild(
-                  variation,
-                  parentShopwareId,
-                  transformContext
-                );
-
-                // Add existing Shopware ID if mapped
-                const mapping = existingMappings[variation.id];
-                if (mapping) {
-                  product.id = mapping.shopwareProductId;
-                  // Media uses deterministic IDs so it can be upserted safely
-                }
-
-                product._plentyItemId = variation.itemId;
-                product._plentyVariationId = variation.id;
-
-                childProducts.push(product as ShopwareBulkProduct);
-              } catch (error) {
-                log.warn('Failed to transform child variation', {
-                  variationId: variation.id,
-                  error: error instanceof Error ? error.message : String(error),
-                });
-                result.itemsFailed++;
-              }
-            }
-
-            // Bulk sync child products
-            if (childProducts.length > 0) {
-              const bulkResult = await shopware.bulkSyncProducts(childProducts);
-
-              for (const itemResult of bulkResult.results) {
-                result.itemsProcessed++;
-
-                const product = childProducts.find((p) => p.productNumber === itemResult.productNumber);
-                const variationId = product?._plentyVariationId;
-
-                if (itemResult.success) {
-                  if (itemResult.action === 'create') {
-                    result.itemsCreated++;
-                  } else {
-                    result.itemsUpdated++;
-                  }
-
-                  if (variationId && product) {
-                    childMappingRecords.push({
-                      plentyItemId: product._plentyItemId || 0,
-                      plentyVariationId: variationId,
-                      shopwareProductId: itemResult.shopwareId,
-                      shopwareProductNumber: itemResult.productNumber,
-                      isParent: false,
-                      shopwareParentId: product.parentId,
-                      lastSyncAction: itemResult.action,
-                    });
-
-                    // Clean up orphaned product_media (images deleted in Plenty)
-                    if (product.media !== undefined) {
-                      const expectedMediaIds = product.media.map(m => m.id).filter((id): id is string => !!id);
-                      const mediaCleanup = await shopware.syncProductMedia(itemResult.shopwareId, expectedMediaIds);
-                      if (mediaCleanup.removed > 0) {
-                        log.info('Cleaned up orphaned product media (child)', {
-                          productId: itemResult.shopwareId,
-                          removed: mediaCleanup.removed,
-                          kept: mediaCleanup.kept,
-                        });
-                      }
-                    }
-
-                    // Clean up orphaned product properties (properties changed in Plenty)
-                    if (product.properties !== undefined) {
-                      const expectedPropertyIds = product.properties.map(p => p.id).filter((id): id is string => !!id);
-                      const propertyCleanup = await shopware.syncProductProperties(itemResult.shopwareId, expectedPropertyIds);
-                      if (propertyCleanup.removed > 0) {
-                        log.info('Cleaned up orphaned product properties (child)', {
-                          productId: itemResult.shopwareId,
-                          removed: propertyCleanup.removed,
-                          kept: propertyCleanup.kept,
-                        });
-                      }
-                    }
-                  }
-                } else {
-                  result.itemsFailed++;
-                  result.errors.push({
-                    entityId: itemResult.productNumber,
-                    entityType: 'child_variation',
-                    error: itemResult.error || 'Unknown error',
-                  });
-                }
-              }
-            }
-          } catch (error) {
-            log.error('Failed to process child batch', {
-              batch: batchIndex + 1,
-              error: error instanceof Error ? error.message : String(error),
+            result.errors.push({
+              entityId: variation.id.toString(),
+              entityType: 'child_variation',
+              error: error instanceof Error ? error.message : 'Batch processing failed',
             });
-
-            // Mark all items in batch as failed
-            for (const { variation } of batch) {
-              result.itemsProcessed++;
-              result.itemsFailed++;
-              result.errors.push({
-                entityId: variation.id.toString(),
-                entityType: 'child_variation',
-                error: error instanceof Error ? error.message : 'Batch processing failed',
-              });
-            }
           }
         }
 
-        // Save child mappings
-        if (childMappingRecords.length > 0) {
+        // Save child mappings after each batch (a resumed run relies on them)
+        if (childMappingRecords.length > 0 && !isDryRunClient(shopware)) {
           await this.mappingService.upsertMappings(jobData.tenantId, childMappingRecords);
           log.info('Saved child mappings', { count: childMappingRecords.length });
         }
 
-        // ============================================
-        // PHASE 3: SYNC CONFIGURATOR SETTINGS
-        // ============================================
-        // Collect all options from child variants and create configurator settings on parents
-        // This is required for Shopware to calculate displayGroup properly
-        log.info('Phase 3: Syncing configurator settings for parent products');
+        await ctx.onBatchComplete?.({
+          phase: 'children',
+          batch: batchIndex + 1,
+          lastItemId: batch[batch.length - 1].variation.itemId,
+        });
+      }
 
-        // Group options by parent product ID
-        const parentOptionsMap = new Map<string, Set<string>>();
+      // ============================================
+      // PHASE 3: SYNC CONFIGURATOR SETTINGS
+      // ============================================
+      // Collect all options from child variants and create configurator settings on parents
+      // This is required for Shopware to calculate displayGroup properly
+      // (skipped on cancellation - the next run completes them)
+      log.info('Phase 3: Syncing configurator settings for parent products');
 
-        for (const { variation, parentShopwareId } of allChildVariations) {
-          if (!parentShopwareId) continue;
+      // Group options by parent product ID
+      const parentOptionsMap = new Map<string, Set<string>>();
 
-          // Get option IDs from the variation's attribute values
-          const optionIds = (variation.variationAttributeValues || [])
-            .map(vav => vav.valueId || vav.attributeValueId)
-            .filter((id): id is number => id !== undefined && id !== null);
+      for (const { variation, parentShopwareId } of result.cancelled ? [] : allChildVariations) {
+        if (!parentShopwareId) continue;
 
-          if (optionIds.length === 0) continue;
+        // Get option IDs from the variation's attribute values
+        const optionIds = (variation.variationAttributeValues || [])
+          .map(vav => vav.valueId || vav.attributeValueId)
+          .filter((id): id is number => id !== undefined && id !== null);
 
-          // Look up Shopware option IDs from attribute value mappings
-          const { AttributeMappingService } = await import('../services/AttributeMappingService');
-          const attributeMappingService = new AttributeMappingService();
+        if (optionIds.length === 0) continue;
 
-          for (const plentyValueId of optionIds) {
-            const mapping = await attributeMappingService.getAttributeValueMapping(
-              jobData.tenantId,
-              plentyValueId
-            );
+        // Look up Shopware option IDs from attribute value mappings
+        const { AttributeMappingService } = await import('../services/AttributeMappingService');
+        const attributeMappingService = new AttributeMappingService();
 
-            if (mapping?.shopwarePropertyOptionId) {
-              if (!parentOptionsMap.has(parentShopwareId)) {
-                parentOptionsMap.set(parentShopwareId, new Set());
-              }
-              parentOptionsMap.get(parentShopwareId)!.add(mapping.shopwarePropertyOptionId);
+        for (const plentyValueId of optionIds) {
+          const mapping = await attributeMappingService.getAttributeValueMapping(
+            jobData.tenantId,
+            plentyValueId
+          );
+
+          if (mapping?.shopwarePropertyOptionId) {
+            if (!parentOptionsMap.has(parentShopwareId)) {
+              parentOptionsMap.set(parentShopwareId, new Set());
             }
+            parentOptionsMap.get(parentShopwareId)!.add(mapping.shopwarePropertyOptionId);
           }
         }
+      }
 
-        // Create configurator settings for each parent
-        for (const [parentProductId, optionIds] of parentOptionsMap.entries()) {
-          try {
-            const configResult = await shopware.syncConfiguratorSettings(
-              parentProductId,
-              Array.from(optionIds)
-            );
+      // Create configurator settings for each parent
+      for (const [parentProductId, optionIds] of parentOptionsMap.entries()) {
+        try {
+          const configResult = await shopware.syncConfiguratorSettings(
+            parentProductId,
+            Array.from(optionIds)
+          );
 
-            if (configResult.created > 0) {
-              log.info('Created configurator settings for parent', {
-                parentProductId,
-                optionsCreated: configResult.created,
-              });
-            }
-          } catch (error) {
-            log.warn('Failed to sync configurator settings', {
+          if (configResult.created > 0) {
+            log.info('Created configurator settings for parent', {
               parentProductId,
-              error: error instanceof Error ? error.message : String(error),
+              optionsCreated: configResult.created,
             });
           }
+        } catch (error) {
+          log.warn('Failed to sync configurator settings', {
+            parentProductId,
+            error: error instanceof Error ? error.message : String(error),
+          });
         }
       }
-
-      // Update sync state
-      await this.updateSyncState(jobData.tenantId, jobData.syncType);
-
-      result.success = result.itemsFailed === 0;
-      result.duration = Date.now() - startTime;
-
-      log.info('Product sync completed', {
-        processed: result.itemsProcessed,
-        created: result.itemsCreated,
-        updated: result.itemsUpdated,
-        failed: result.itemsFailed,
-        duration: result.duration,
-      });
-
-      return result;
-    } catch (error) {
-      result.success = false;
-      result.duration = Date.now() - startTime;
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      result.errors.push({
-        entityId: '',
-        entityType: 'sync',
-        error: errorMessage,
-      });
-      log.error('Product sync failed', { error: errorMessage, result });
-      throw error;
     }
   }
 
@@ -697,6 +1343,28 @@ export class ProductSyncProcessor {
     return validGroups;
   }
 
+  /**
+   * Check for a cancellation request before the next batch
+   */
+  private async shouldStop(
+    options: ProductSyncOptions,
+    log: ReturnType<typeof createJobLogger>,
+    phase: 'parent' | 'child',
+    batchIndex: number,
+    totalBatches: number
+  ): Promise<boolean> {
+    if (!options.isCancelled || !(await options.isCancelled())) {
+      return false;
+    }
+
+    log.warn('Cancellation requested - stopping product sync', {
+      phase,
+      completedBatches: batchIndex,
+      totalBatches,
+    });
+    return true;
+  }
+
   /**
    * Create batches from an array
    */
@@ -721,6 +1389,11 @@ export class ProductSyncProcessor {
     shopware: IShopwareClient,
     log: ReturnType<typeof createJobLogger>
   ): Promise<void> {
+    // Dry run: the services would store mappings for entities that are never created
+    if (isDryRunClient(shopware)) {
+      return;
+    }
+
     const { CategorySyncService } = await import('../services/CategorySyncService');
     const { AttributeSyncService } = await import('../services/AttributeSyncService');
     const { PropertySyncService } = await import('../services/PropertySyncService');
@@ -820,6 +1493,39 @@ export class ProductSyncProcessor {
     return defaults;
   }
 
+  /**
+   * Fetch the Shopware currencies (by ISO code) once per job
+   * The result refreshes the cached config value, which is only used if Shopware cannot be reached.
+   */
+  private async fetchShopwareCurrencies(
+    tenantId: string,
+    shopware: IShopwareClient,
+    log: ReturnType<typeof createJobLogger>
+  ): Promise<Record<string, { id: string; factor: number }>> {
+    const { TenantConfigService } = await import('../services/TenantConfigService');
+    const configService = new TenantConfigService();
+
+    try {
+      const currencies: Record<string, { id: string; factor: number }> = {};
+      for (const currency of await shopware.getCurrencies()) {
+        currencies[currency.isoCode.toUpperCase()] = { id: currency.id, factor: currency.factor };
+      }
+
+      await configService.setShopwareCurrencies(tenantId, currencies);
+      log.info('Fetched Shopware currencies', { isoCodes: Object.keys(currencies) });
+      return currencies;
+    } catch (error) {
+      const cachedCurrencies = await configService.getShopwareCurrencies(tenantId);
+      if (!cachedCurrencies) {
+        throw error;
+      }
+      log.warn('Failed to fetch Shopware currencies - using cached currencies', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return cachedCurrencies;
+    }
+  }
+
   /**
    * Ensure config exists
    */
@@ -889,9 +1595,9 @@ export class ProductSyncProcessor {
 
   /**
    * Update sync state
+   * @param syncedAt - Baseline for the next delta sync (a full sync passes its start time)
    */
-  private async updateSyncState(tenantId: string, syncType: SyncType): Promise<void> {
-    const now = new Date();
+  private async updateSyncState(tenantId: string, syncType: SyncType, syncedAt: Date = new Date()): Promise<void> {
     const syncTypeKey = syncType === SyncType.FULL_PRODUCT ? 'PRODUCT_DELTA' : syncType;
 
     await this.prisma.syncState.upsert({
@@ -904,12 +1610,12 @@ export class ProductSyncProcessor {
       create: {
         tenantId,
         syncType: syncTypeKey,
-        lastSyncAt: now,
-        lastSuccessfulSyncAt: now,
+        lastSyncAt: syncedAt,
+        lastSuccessfulSyncAt: syncedAt,
       },
       update: {
-        lastSyncAt: now,
-        lastSuccessfulSyncAt: now,
+        lastSyncAt: syncedAt,
+        lastSuccessfulSyncAt: syncedAt,
       },
     });
   }
@@ -1,14 +1,43 @@
-import { PrismaClient, SyncType } from '@prisma/client';
+import { PrismaClient, SyncType, SyncDirection } from '@prisma/client';
 import { getPrismaClient } from '../database/client';
 import { createJobLogger } from '../utils/logger';
 import { PlentyClient } from '../clients/PlentyClient';
 import type { PlentyClientConfig } from '../clients/PlentyClient';
-import { createShopwareClient } from '../clients/ShopwareClientFactory';
+import { getPlentyRateLimiter } from '../clients/PlentyRateLimiter';
+import { createJobShopwareClient } from '../clients/ShopwareClientFactory';
+import { isDryRunClient } from '../clients/RecordingShopwareClient';
+import type { RecordingShopwareClient } from '../clients/RecordingShopwareClient';
 import type { IShopwareClient } from '../clients/interfaces';
 import { ProductMappingService } from '../services/ProductMappingService';
-import type { PlentyStockManagementEntry } from '../types/plenty';
-import type { DecryptedSyncJobData, SyncResult, SyncError } from '../types/sync';
-import type { ShopwareStockUpdate } from '../types/shopware';
+import type { ProductMappingLookup } from '../services/ProductMappingService';
+import { OrderMappingService } from '../services/OrderMappingService';
+import { TenantConfigService } from '../services/TenantConfigService';
+import type { PlentyStockManagementEntry, PlentyStockCorrection } from '../types/plenty';
+import { getSyncJobTarget } from '../types/sync';
+import type { DecryptedSyncJobData, SyncResult, SyncError, CancellationCheck } from '../types/sync';
+import type { ShopwareStockUpdate, ShopwareStockChange } from '../types/shopware';
+
+export interface StockSyncOptions {
+  isCancelled?: CancellationCheck; // Checked between batches - stops the sync early when true
+}
+
+/**
+ * Shopware stock change that should be written back to Plenty
+ */
+interface StockWriteBack {
+  variationId: number;
+  shopwareStock: number;
+  plentyStock: number;
+}
+
+/**
+ * Outcome of comparing both systems for all mapped variations
+ */
+interface StockSyncPlan {
+  shopwareUpdates: ShopwareStockUpdate[];
+  plentyWriteBacks: StockWriteBack[];
+  conflicts: number;
+}
 
 /**
  * Stock Sync Processor
@@ -16,22 +45,43 @@ import type { ShopwareStockUpdate } from '../types/shopware';
  *
  * Note: The Plenty stock management endpoint does not support updatedAt filtering,
  * so we fetch all stock data and update Shopware accordingly.
+ *
+ * Directions:
+ * - PLENTY_TO_SHOPWARE: Plenty net stock is pushed to Shopware
+ * - SHOPWARE_TO_PLENTY: Shopware stock changes are booked as Plenty stock corrections
+ * - BI_DIRECTIONAL: both; if both sides changed since the last run, the newer change wins
+ *
+ * Changes are detected against the stock recorded on the product mapping after the last run.
+ * The Shopware stock of every mapped product is read on each run - order-driven stock changes
+ * do not touch the product's updatedAt.
+ *
+ * Write-back directions treat Shopware orders that the order sync has not imported yet as
+ * already deducted in Plenty. Otherwise the sale would be booked as a stock correction and
+ * deducted a second time by the order import.
  */
 export class StockSyncProcessor {
   private prisma: PrismaClient;
   private mappingService: ProductMappingService;
+  private orderMappingService: OrderMappingService;
+  private configService: TenantConfigService;
 
   constructor() {
     this.prisma = getPrismaClient();
     this.mappingService = new ProductMappingService();
+    this.orderMappingService = new OrderMappingService();
+    this.configService = new TenantConfigService();
   }
 
   /**
    * Process a stock sync job
    */
-  async process(jobData: DecryptedSyncJobData): Promise<SyncResult> {
+  async process(jobData: DecryptedSyncJobData, options: StockSyncOptions = {}): Promise<SyncResult> {
     const log = createJobLogger(jobData.id, jobData.tenantId, jobData.syncType);
     const startTime = Date.now();
+    const runStartedAt = new Date(startTime);
+    const direction = jobData.direction;
+    const writeBack = direction !== SyncDirection.PLENTY_TO_SHOPWARE;
+    const target = getSyncJobTarget(jobData);
 
     const result: SyncResult = {
       success: true,
@@ -39,25 +89,34 @@ export class StockSyncProcessor {
       itemsCreated: 0,
       itemsUpdated: 0,
       itemsFailed: 0,
+      itemsSkipped: 0,
       errors: [],
       duration: 0,
     };
 
     try {
-      log.info('Starting stock sync');
+      log.info('Starting stock sync', { direction, target });
+
+      const writeBackSettings = await this.configService.getStockWriteBackSettings(jobData.tenantId);
+      if (writeBack && !writeBackSettings.warehouseId) {
+        throw new Error(
+          `Stock write-back not configured: set the stockWriteBackWarehouseId config key for ${direction} stock sync`
+        );
+      }
 
       // Initialize clients
       const plentyConfig: PlentyClientConfig = {
         baseUrl: jobData.plentyUrl,
         credentials: jobData.plentyCredentials,
+        rateLimiter: getPlentyRateLimiter(),
       };
       const plenty = new PlentyClient(plentyConfig);
       await plenty.authenticate();
 
-      const shopware: IShopwareClient = createShopwareClient({
-        tenantId: jobData.tenantId,
-      });
+      // Dry runs get a recording client - Plenty write-backs are recorded on it as well
+      const shopware: IShopwareClient = await createJobShopwareClient(jobData);
       await shopware.authenticate();
+      const recorder = isDryRunClient(shopware) ? shopware : undefined;
 
       // Fetch all stock data from Plenty
       log.info('Fetching stock from Plenty stock management endpoint');
@@ -72,6 +131,22 @@ export class StockSyncProcessor {
 
       // Group stock by variation ID and calculate total net stock per variation
       const stockByVariation = this.aggregateStockByVariation(stockEntries);
+
+      // Targeted jobs only sync the given variations and items (SKUs are not resolved for stock)
+      if (target) {
+        const targetVariationIds = new Set(target.variationIds);
+        const targetItemIds = new Set(target.itemIds);
+        const keep = new Set(
+          stockEntries
+            .filter((entry) => targetVariationIds.has(entry.variationId) || targetItemIds.has(entry.itemId))
+            .map((entry) => entry.variationId)
+        );
+        for (const variationId of Object.keys(stockByVariation).map(Number)) {
+          if (!keep.has(variationId)) {
+            delete stockByVariation[variationId];
+          }
+        }
+      }
       log.info(`Aggregated stock for ${Object.keys(stockByVariation).length} variations`);
 
       // Get all product mappings for this tenant
@@ -86,44 +161,83 @@ export class StockSyncProcessor {
         return result;
       }
 
-      // Prepare stock updates for Shopware
-      const stockUpdates: ShopwareStockUpdate[] = [];
-      for (const variationId of Object.keys(mappings).map(Number)) {
-        const mapping = mappings[variationId];
-        const totalStock = stockByVariation[variationId];
-        if (totalStock !== undefined && mapping) {
-          stockUpdates.push({
-            id: mapping.shopwareProductId, // Use UUID for reliable lookup
-            stock: totalStock,
+      // Current Shopware stock of all mapped products (only needed for write-back)
+      let shopwareStocks: ShopwareStockChange[] = [];
+      let since: Date | null = null;
+      if (writeBack) {
+        since = await this.getLastSyncTime(jobData.tenantId);
+        shopwareStocks = await shopware.getProductStocks(
+          Object.values(mappings).map((mapping) => mapping.shopwareProductId)
+        );
+        log.info(`Fetched Shopware stock of ${shopwareStocks.length} products`);
+
+        // Plenty stock as it will be once the pending Shopware orders are imported
+        const pending = await this.getPendingOrderQuantities(jobData.tenantId, shopware, mappings);
+        for (const [variationId, quantity] of Object.entries(pending)) {
+          if (stockByVariation[Number(variationId)] !== undefined) {
+            stockByVariation[Number(variationId)] -= quantity;
+          }
+        }
+        if (Object.keys(pending).length > 0) {
+          log.info('Excluding Shopware orders not yet imported into Plenty', {
+            variations: Object.keys(pending).length,
           });
         }
       }
 
-      log.info(`Prepared ${stockUpdates.length} stock updates for Shopware`);
+      const plan = this.planStockSync(
+        direction,
+        mappings,
+        stockByVariation,
+        this.getLastModifiedByVariation(stockEntries),
+        shopwareStocks,
+        since
+      );
+      log.info('Stock sync plan', {
+        shopwareUpdates: plan.shopwareUpdates.length,
+        plentyWriteBacks: plan.plentyWriteBacks.length,
+        conflicts: plan.conflicts,
+      });
 
-      if (stockUpdates.length === 0) {
-        log.warn('No stock updates to process');
-        result.duration = Date.now() - startTime;
-        return result;
-      }
+      // Stock both systems agree on after this run (variation ID → stock)
+      const syncedStock: Record<number, number> = {};
+      const variationIdsByProductId = new Map(
+        Object.entries(mappings).map(([variationId, mapping]) => [
+          mapping.shopwareProductId,
+          Number(variationId),
+        ])
+      );
 
       // Update stock in Shopware (in batches)
       const batchSize = 100;
-      const batches = this.createBatches(stockUpdates, batchSize);
+      const batches = this.createBatches(plan.shopwareUpdates, batchSize);
 
       log.info(`Processing ${batches.length} batches of stock updates`);
 
       for (let i = 0; i < batches.length; i++) {
+        if (options.isCancelled && (await options.isCancelled())) {
+          log.warn('Cancellation requested - stopping stock sync', {
+            completedBatches: i,
+            totalBatches: batches.length,
+          });
+          result.cancelled = true;
+          break;
+        }
+
         const batch = batches[i];
         log.info(`Processing batch ${i + 1}/${batches.length} (${batch.length} items)`);
 
         try {
           const batchResults = await shopware.batchUpdateStock(batch);
 
-          for (const batchResult of batchResults) {
+          for (const [index, batchResult] of batchResults.entries()) {
             result.itemsProcessed++;
             if (batchResult.success) {
               result.itemsUpdated++;
+              const variationId = variationIdsByProductId.get(batch[index].id);
+              if (variationId !== undefined) {
+                syncedStock[variationId] = batch[index].stock;
+              }
             } else {
               result.itemsFailed++;
               if (batchResult.error) {
@@ -146,11 +260,47 @@ export class StockSyncProcessor {
         }
       }
 
-      // Update sync state
-      await this.updateSyncState(jobData.tenantId, jobData.syncType);
+      // Write Shopware stock changes back to Plenty (skipped on cancellation)
+      if (!result.cancelled && plan.plentyWriteBacks.length > 0 && writeBackSettings.warehouseId) {
+        const writeBackErrors = await this.writeBackToPlenty(
+          plenty,
+          writeBackSettings.warehouseId,
+          writeBackSettings.reasonId,
+          plan.plentyWriteBacks,
+          syncedStock,
+          log,
+          recorder
+        );
+
+        result.itemsProcessed += plan.plentyWriteBacks.length;
+        result.itemsFailed += writeBackErrors.length;
+        result.itemsUpdated += plan.plentyWriteBacks.length - writeBackErrors.length;
+        result.errors.push(...writeBackErrors);
+      }
+
+      // Only persist baselines that moved - avoids rewriting every mapping on each run
+      const changedBaselines: Record<number, number> = {};
+      for (const [variationId, stock] of Object.entries(syncedStock)) {
+        if (mappings[Number(variationId)]?.lastSyncedStock !== stock) {
+          changedBaselines[Number(variationId)] = stock;
+        }
+      }
+      if (recorder) {
+        result.dryRunReport = recorder.getReport();
+        log.info('Dry run report', { summary: result.dryRunReport.summary });
+      } else {
+        await this.mappingService.recordSyncedStock(jobData.tenantId, changedBaselines);
+      }
+
+      // Update sync state (next run fetches Shopware changes from this run's start)
+      // Not on cancellation - skipped write-backs must be picked up again by the next run
+      // Not for targeted jobs - Shopware changes of the other variations are still pending
+      if (!result.cancelled && !recorder && !target) {
+        await this.updateSyncState(jobData.tenantId, jobData.syncType, runStartedAt);
+      }
 
       result.duration = Date.now() - startTime;
-      log.info('Stock sync completed', {
+      log.info(result.cancelled ? 'Stock sync cancelled' : 'Stock sync completed', {
         itemsProcessed: result.itemsProcessed,
         itemsUpdated: result.itemsUpdated,
         itemsFailed: result.itemsFailed,
@@ -194,6 +344,258 @@ export class StockSyncProcessor {
     return stockByVariation;
   }
 
+  /**
+   * Latest Plenty stock modification per variation (across all warehouses)
+   */
+  private getLastModifiedByVariation(stockEntries: PlentyStockManagementEntry[]): Record<number, Date> {
+    const lastModified: Record<number, Date> = {};
+
+    for (const entry of stockEntries) {
+      if (!entry.updatedAt) continue;
+      const updatedAt = new Date(entry.updatedAt);
+      const current = lastModified[entry.variationId];
+      if (!current || updatedAt > current) {
+        lastModified[entry.variationId] = updatedAt;
+      }
+    }
+
+    return lastModified;
+  }
+
+  /**
+   * Decide per mapped variation which side's stock wins
+   *
+   * A side "changed" if its stock differs from the stock recorded after the last run.
+   * Without a recorded stock, Plenty is treated as the source (except in SHOPWARE_TO_PLENTY mode,
+   * where any Shopware product modified since the last run that differs from Plenty is written back).
+   * If both sides changed (BI_DIRECTIONAL), the newer change wins. Order stock changes do not
+   * update the product's updatedAt, so a Shopware change counts as made no earlier than the last run.
+   *
+   * @param shopwareStocks - Current stock of the mapped Shopware products
+   * @param since - Start of the last run (null = first run)
+   */
+  private planStockSync(
+    direction: SyncDirection,
+    mappings: ProductMappingLookup,
+    stockByVariation: Record<number, number>,
+    plentyLastModified: Record<number, Date>,
+    shopwareStocks: ShopwareStockChange[],
+    since: Date | null
+  ): StockSyncPlan {
+    const plan: StockSyncPlan = { shopwareUpdates: [], plentyWriteBacks: [], conflicts: 0 };
+    const changesByProductId = new Map(shopwareStocks.map((c) => [c.id, c]));
+
+    for (const variationId of Object.keys(mappings).map(Number)) {
+      const mapping = mappings[variationId];
+      const plentyStock = stockByVariation[variationId];
+      if (plentyStock === undefined || !mapping) {
+        continue;
+      }
+
+      const baseline = mapping.lastSyncedStock ?? null;
+      const shopwareChange = changesByProductId.get(mapping.shopwareProductId);
+
+      const shopwareChanged =
+        !!shopwareChange &&
+        shopwareChange.stock !== plentyStock &&
+        (baseline !== null
+          ? shopwareChange.stock !== baseline
+          : direction === SyncDirection.SHOPWARE_TO_PLENTY &&
+            (!since || new Date(shopwareChange.updatedAt) >= since));
+      const plentyChanged = baseline === null || plentyStock !== baseline;
+
+      const pushToShopware = {
+        id: mapping.shopwareProductId,
+        productNumber: mapping.shopwareProductNumber,
+        stock: plentyStock,
+      };
+      const writeBackToPlenty = {
+        variationId,
+        shopwareStock: shopwareChange?.stock ?? plentyStock,
+        plentyStock,
+      };
+
+      if (direction === SyncDirection.PLENTY_TO_SHOPWARE) {
+        plan.shopwareUpdates.push(pushToShopware);
+      } else if (direction === SyncDirection.SHOPWARE_TO_PLENTY) {
+        if (shopwareChanged) {
+          plan.plentyWriteBacks.push(writeBackToPlenty);
+        }
+      } else if (shopwareChanged && plentyChanged) {
+        // Conflict - both sides changed since the last run: newer change wins
+        plan.conflicts++;
+        const plentyModifiedAt = plentyLastModified[variationId];
+        const updatedAt = new Date(shopwareChange!.updatedAt);
+        const shopwareModifiedAt = since && updatedAt < since ? since : updatedAt;
+        if (!plentyModifiedAt || shopwareModifiedAt > plentyModifiedAt) {
+          plan.plentyWriteBacks.push(writeBackToPlenty);
+        } else {
+          plan.shopwareUpdates.push(pushToShopware);
+        }
+      } else if (shopwareChanged) {
+        plan.plentyWriteBacks.push(writeBackToPlenty);
+      } else {
+        plan.shopwareUpdates.push(pushToShopware);
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Book Shopware stock changes as Plenty stock corrections
+   * The difference between Shopware and Plenty net stock is applied to the standard
+   * storage location of the configured warehouse.
+   * @param recorder - Dry run: corrections are recorded instead of booked
+   * @returns Errors of failed write-backs (successful ones are added to syncedStock)
+   */
+  private async writeBackToPlenty(
+    plenty: PlentyClient,
+    warehouseId: number,
+    reasonId: number,
+    writeBacks: StockWriteBack[],
+    syncedStock: Record<number, number>,
+    log: ReturnType<typeof createJobLogger>,
+    recorder?: RecordingShopwareClient
+  ): Promise<SyncError[]> {
+    const errors: SyncError[] = [];
+    const corrections: Array<{ writeBack: StockWriteBack; correction: PlentyStockCorrection }> = [];
+
+    for (const writeBack of writeBacks) {
+      try {
+        const locations = await plenty.getStorageLocationStock(warehouseId, writeBack.variationId);
+        const location =
+          locations.find((l) => l.storageLocationId === 0) || locations[0] || {
+            storageLocationId: 0,
+            quantity: 0,
+          };
+
+        const delta = writeBack.shopwareStock - writeBack.plentyStock;
+        let quantity = location.quantity + delta;
+        if (quantity < 0) {
+          log.warn('Stock correction would be negative - booking 0 instead', {
+            variationId: writeBack.variationId,
+            warehouseId,
+            quantity,
+          });
+          quantity = 0;
+        }
+
+        corrections.push({
+          writeBack,
+          correction: {
+            variationId: writeBack.variationId,
+            reasonId,
+            quantity,
+            storageLocationId: location.storageLocationId,
+          },
+        });
+      } catch (error) {
+        errors.push({
+          entityId: String(writeBack.variationId),
+          entityType: 'stock-correction',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (recorder) {
+      for (const { writeBack, correction } of corrections) {
+        recorder.recordChange({
+          action: 'update',
+          entity: 'plenty_stock',
+          id: String(writeBack.variationId),
+          label: `warehouse ${warehouseId}, storage location ${correction.storageLocationId}`,
+          fields: { stock: { before: writeBack.plentyStock, after: writeBack.shopwareStock } },
+        });
+      }
+      return errors;
+    }
+
+    for (const batch of this.createBatches(corrections, 100)) {
+      try {
+        await plenty.bookStockCorrections(
+          warehouseId,
+          batch.map((c) => c.correction)
+        );
+        for (const { writeBack } of batch) {
+          syncedStock[writeBack.variationId] = writeBack.shopwareStock;
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        log.error('Failed to book stock corrections', { warehouseId, error: errorMessage });
+        for (const { writeBack } of batch) {
+          errors.push({
+            entityId: String(writeBack.variationId),
+            entityType: 'stock-correction',
+            error: errorMessage,
+          });
+        }
+      }
+    }
+
+    log.info('Wrote Shopware stock changes back to Plenty', {
+      warehouseId,
+      booked: writeBacks.length - errors.length,
+      failed: errors.length,
+    });
+
+    return errors;
+  }
+
+  /**
+   * Quantities of Shopware orders the order sync has not imported into Plenty yet (variation ID → quantity)
+   * Shopware already deducted them, Plenty only does once the order is imported.
+   */
+  private async getPendingOrderQuantities(
+    tenantId: string,
+    shopware: IShopwareClient,
+    mappings: ProductMappingLookup
+  ): Promise<Record<number, number>> {
+    const orderSyncState = await this.prisma.syncState.findUnique({
+      where: {
+        tenantId_syncType: {
+          tenantId,
+          syncType: SyncType.ORDER,
+        },
+      },
+    });
+
+    // No order import for this tenant - Plenty never deducts Shopware orders
+    if (!orderSyncState) {
+      return {};
+    }
+
+    const orders = await shopware.getOrdersSince(orderSyncState.lastSyncAt);
+    const importedIds = await this.orderMappingService.getImportedOrderIds(
+      tenantId,
+      orders.map((order) => order.id)
+    );
+
+    const variationIdsByProductId = new Map(
+      Object.entries(mappings).map(([variationId, mapping]) => [
+        mapping.shopwareProductId,
+        Number(variationId),
+      ])
+    );
+
+    const pending: Record<number, number> = {};
+    for (const order of orders) {
+      if (importedIds.has(order.id)) continue;
+
+      for (const lineItem of order.lineItems) {
+        const variationId = lineItem.productId
+          ? variationIdsByProductId.get(lineItem.productId)
+          : undefined;
+        if (variationId !== undefined) {
+          pending[variationId] = (pending[variationId] || 0) + lineItem.quantity;
+        }
+      }
+    }
+
+    return pending;
+  }
+
   /**
    * Create batches from an array
    */
@@ -205,10 +607,27 @@ export class StockSyncProcessor {
     return batches;
   }
 
+  /**
+   * Get last stock sync time (start of the Shopware change window)
+   */
+  private async getLastSyncTime(tenantId: string): Promise<Date | null> {
+    const syncState = await this.prisma.syncState.findUnique({
+      where: {
+        tenantId_syncType: {
+          tenantId,
+          syncType: SyncType.STOCK,
+        },
+      },
+    });
+
+    return syncState?.lastSyncAt || null;
+  }
+
   /**
    * Update sync state
+   * @param windowStart - Start of the next Shopware change window (this run's start)
    */
-  private async updateSyncState(tenantId: string, syncType: SyncType): Promise<void> {
+  private async updateSyncState(tenantId: string, syncType: SyncType, windowStart: Date): Promise<void> {
     const now = new Date();
     await this.prisma.syncState.upsert({
       where: {
@@ -220,11 +639,11 @@ export class StockSyncProcessor {
       create: {
         tenantId,
         syncType,
-        lastSyncAt: now,
+        lastSyncAt: windowStart,
         lastSuccessfulSyncAt: now,
       },
       update: {
-        lastSyncAt: now,
+        lastSyncAt: windowStart,
         lastSuccessfulSyncAt: now,
       },
     });
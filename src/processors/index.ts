@@ -1,3 +1,5 @@
 export * from './ConfigSyncProcessor';
 export * from './ProductSyncProcessor';
 export * from './StockSyncProcessor';
+export * from './OrderSyncProcessor';
+export * from './CustomerSyncProcessor';
@@ -4,6 +4,10 @@ import { createLogger } from '../utils/logger';
 import { SyncJobData } from '../types/sync';
 
 const DEFAULT_QUEUE_NAME = 'sync-jobs';
+const CANCELLATION_TTL_SECONDS = 24 * 60 * 60;
+
+// Job states in which a job has not been picked up by a worker yet
+const QUEUED_STATES = ['waiting', 'prioritized', 'delayed', 'paused'] as const;
 
 export interface QueueConfig {
   redis: {
@@ -339,6 +343,123 @@ export class QueueService {
     this.log.info('Queue resumed');
   }
 
+  /**
+   * Put a job back on the queue after a worker crash
+   * Failed jobs are retried under the same ID (so processors can resume from their
+   * checkpoints); unknown jobs are added again. Queued or active jobs are left alone.
+   */
+  async requeueJob(jobData: SyncJobData, options: AddJobOptions = {}): Promise<void> {
+    if (!this.queue) {
+      throw new Error('Queue not connected');
+    }
+
+    const job = await this.queue.getJob(jobData.id);
+    if (!job) {
+      await this.addJob(jobData, options);
+      this.log.info('Job re-added to queue', { jobId: jobData.id });
+      return;
+    }
+
+    if ((await job.getState()) === 'failed') {
+      await job.retry();
+      this.log.info('Failed job retried', { jobId: jobData.id });
+    }
+  }
+
+  /**
+   * Flag a job for cancellation
+   * Processors check the flag between batches and stop cooperatively.
+   */
+  async requestCancellation(jobId: string): Promise<void> {
+    if (!this.redis) {
+      throw new Error('Queue not connected');
+    }
+
+    await this.redis.set(this.cancellationKey(jobId), '1', 'EX', CANCELLATION_TTL_SECONDS);
+    this.log.info('Job cancellation requested', { jobId });
+  }
+
+  /**
+   * Check whether cancellation was requested for a job
+   */
+  async isCancellationRequested(jobId: string): Promise<boolean> {
+    if (!this.redis) {
+      throw new Error('Queue not connected');
+    }
+
+    return (await this.redis.exists(this.cancellationKey(jobId))) === 1;
+  }
+
+  /**
+   * Remove a job's cancellation flag (once the job has stopped)
+   */
+  async clearCancellation(jobId: string): Promise<void> {
+    if (!this.redis) {
+      throw new Error('Queue not connected');
+    }
+
+    await this.redis.del(this.cancellationKey(jobId));
+  }
+
+  /**
+   * Remove a job from the queue if no worker has picked it up yet
+   * Returns false if the job is unknown or already active/finished
+   */
+  async removeQueuedJob(jobId: string): Promise<boolean> {
+    if (!this.queue) {
+      throw new Error('Queue not connected');
+    }
+
+    const job = await this.queue.getJob(jobId);
+    if (!job) {
+      return false;
+    }
+
+    const state = await job.getState();
+    if (!(QUEUED_STATES as readonly string[]).includes(state)) {
+      return false;
+    }
+
+    await job.remove();
+    this.log.info('Queued job removed', { jobId, state });
+    return true;
+  }
+
+  /**
+   * Remove all queued (not yet active) jobs of a tenant
+   * Returns the IDs of the removed jobs
+   */
+  async removeTenantJobs(tenantId: string): Promise<string[]> {
+    if (!this.queue) {
+      throw new Error('Queue not connected');
+    }
+
+    const jobs = await this.queue.getJobs([...QUEUED_STATES]);
+    const removed: string[] = [];
+
+    for (const job of jobs) {
+      if (!job?.id || job.data.tenantId !== tenantId) continue;
+
+      try {
+        await job.remove();
+        removed.push(job.id);
+      } catch (error) {
+        // Job was picked up by a worker in the meantime
+        this.log.warn('Could not remove queued job', {
+          jobId: job.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    this.log.info('Tenant jobs removed from queue', { tenantId, count: removed.length });
+    return removed;
+  }
+
+  private cancellationKey(jobId: string): string {
+    return `${this.queueName}:cancel:${jobId}`;
+  }
+
   /**
    * Close connections gracefully
    */
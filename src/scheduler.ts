@@ -37,6 +37,7 @@ async function checkAndCreateJobs(): Promise<void> {
           { nextRunAt: null }, // Never run before
           { nextRunAt: { lte: now } }, // Due to run
         ],
+        // Paused (and suspended) tenants are skipped - their schedules stay due until resumed
         tenant: {
           status: TenantStatus.ACTIVE,
         },
@@ -180,10 +181,10 @@ async function cleanupOldJobs(): Promise<void> {
   cutoffDate.setDate(cutoffDate.getDate() - CLEANUP_OLDER_THAN_DAYS);
 
   try {
-    // Delete old completed jobs
+    // Delete old completed and cancelled jobs
     const completedResult = await prisma.syncJob.deleteMany({
       where: {
-        status: SyncStatus.COMPLETED,
+        status: { in: [SyncStatus.COMPLETED, SyncStatus.CANCELLED] },
         completedAt: { lt: cutoffDate },
       },
     });
@@ -540,4 +540,110 @@ export class AttributeMappingService {
 
     return result.count;
   }
+
+  /**
+   * Get all orphaned attribute mappings for a tenant
+   */
+  async getOrphanedAttributeMappings(tenantId: string): Promise<{
+    plentyAttributeId: number;
+    shopwarePropertyGroupId: string;
+    mappingType: MappingType;
+  }[]> {
+    return this.prisma.attributeMapping.findMany({
+      where: {
+        tenantId,
+        status: MappingStatus.ORPHANED,
+      },
+      select: {
+        plentyAttributeId: true,
+        shopwarePropertyGroupId: true,
+        mappingType: true,
+      },
+    });
+  }
+
+  /**
+   * Reactivate orphaned attribute mappings (if the attribute reappears in Plenty)
+   */
+  async reactivateAttributeMappings(tenantId: string, plentyIds: number[]): Promise<number> {
+    if (plentyIds.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.attributeMapping.updateMany({
+      where: {
+        tenantId,
+        plentyAttributeId: {
+          in: plentyIds,
+        },
+        status: MappingStatus.ORPHANED,
+      },
+      data: {
+        status: MappingStatus.ACTIVE,
+        lastSeenAt: new Date(),
+      },
+    });
+
+    if (result.count > 0) {
+      this.log.info('Reactivated orphaned attribute mappings', {
+        tenantId,
+        count: result.count,
+      });
+    }
+
+    return result.count;
+  }
+
+  /**
+   * Get all orphaned attribute value mappings for a tenant
+   */
+  async getOrphanedAttributeValueMappings(tenantId: string): Promise<{
+    plentyAttributeValueId: number;
+    shopwarePropertyOptionId: string;
+    mappingType: MappingType;
+  }[]> {
+    return this.prisma.attributeValueMapping.findMany({
+      where: {
+        tenantId,
+        status: MappingStatus.ORPHANED,
+      },
+      select: {
+        plentyAttributeValueId: true,
+        shopwarePropertyOptionId: true,
+        mappingType: true,
+      },
+    });
+  }
+
+  /**
+   * Reactivate orphaned attribute value mappings (if the attribute value reappears in Plenty)
+   */
+  async reactivateAttributeValueMappings(tenantId: string, plentyIds: number[]): Promise<number> {
+    if (plentyIds.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.attributeValueMapping.updateMany({
+      where: {
+        tenantId,
+        plentyAttributeValueId: {
+          in: plentyIds,
+        },
+        status: MappingStatus.ORPHANED,
+      },
+      data: {
+        status: MappingStatus.ACTIVE,
+        lastSeenAt: new Date(),
+      },
+    });
+
+    if (result.count > 0) {
+      this.log.info('Reactivated orphaned attribute value mappings', {
+        tenantId,
+        count: result.count,
+      });
+    }
+
+    return result.count;
+  }
 }
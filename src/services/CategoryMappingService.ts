@@ -1,18 +1,25 @@
-import { PrismaClient, MappingType, MappingStatus } from '@prisma/client';
+import { Prisma, PrismaClient, MappingType, MappingStatus } from '@prisma/client';
 import { getPrismaClient } from '../database/client';
 import { createLogger } from '../utils/logger';
+import type { ShopwareSeoPath } from '../types/shopware';
 
 export interface CategoryMappingRecord {
   plentyCategoryId: number;
   shopwareCategoryId: string;
   mappingType: 'MANUAL' | 'AUTO';
   lastSyncAction: 'create' | 'update';
+  seoPaths?: ShopwareSeoPath[]; // Canonical SEO paths written to Shopware - kept if not given
+  plentyParentId?: number | null; // Plenty parent at the time of the sync
+  position?: number | null; // Plenty position at the time of the sync (null = order not applied yet)
 }
 
 export interface CategoryMappingLookup {
   [plentyCategoryId: number]: {
     shopwareCategoryId: string;
     mappingType: 'MANUAL' | 'AUTO';
+    seoPaths?: ShopwareSeoPath[] | null;
+    plentyParentId?: number | null;
+    position?: number | null;
   };
 }
 
@@ -51,6 +58,9 @@ export class CategoryMappingService {
         plentyCategoryId: true,
         shopwareCategoryId: true,
         mappingType: true,
+        seoPaths: true,
+        plentyParentId: true,
+        position: true,
       },
     });
 
@@ -59,6 +69,9 @@ export class CategoryMappingService {
       lookup[mapping.plentyCategoryId] = {
         shopwareCategoryId: mapping.shopwareCategoryId,
         mappingType: mapping.mappingType,
+        seoPaths: mapping.seoPaths as ShopwareSeoPath[] | null,
+        plentyParentId: mapping.plentyParentId,
+        position: mapping.position,
       };
     }
 
@@ -103,6 +116,9 @@ export class CategoryMappingService {
             mappingType: record.mappingType,
             lastSyncedAt: now,
             lastSyncAction: record.lastSyncAction,
+            seoPaths: (record.seoPaths as unknown as Prisma.InputJsonValue) ?? Prisma.DbNull,
+            plentyParentId: record.plentyParentId ?? null,
+            position: record.position ?? null,
             status: MappingStatus.ACTIVE,
             lastSeenAt: now,
           },
@@ -111,6 +127,9 @@ export class CategoryMappingService {
             mappingType: record.mappingType,
             lastSyncedAt: now,
             lastSyncAction: record.lastSyncAction,
+            ...(record.seoPaths && { seoPaths: record.seoPaths as unknown as Prisma.InputJsonValue }),
+            plentyParentId: record.plentyParentId ?? null,
+            position: record.position ?? null,
             status: MappingStatus.ACTIVE,
             lastSeenAt: now,
           },
@@ -265,6 +284,7 @@ export class CategoryMappingService {
   async getOrphanedMappings(tenantId: string): Promise<{
     plentyCategoryId: number;
     shopwareCategoryId: string;
+    mappingType: MappingType;
   }[]> {
     const mappings = await this.prisma.categoryMapping.findMany({
       where: {
@@ -274,6 +294,7 @@ export class CategoryMappingService {
       select: {
         plentyCategoryId: true,
         shopwareCategoryId: true,
+        mappingType: true,
       },
     });
 
@@ -5,7 +5,44 @@ import { CategoryMappingService, CategoryMappingLookup, CategoryMappingRecord }
 import { TenantConfigService } from './TenantConfigService';
 import type { IShopwareClient } from '../clients/interfaces';
 import type { ShopwareCategory } from '../types/shopware';
-import type { PlentyVariation } from '../types/plenty';
+import type { PlentyVariation, PlentyCategory as PlentyCategoryData } from '../types/plenty';
+
+/**
+ * Shopware navigation roots of a tenant
+ */
+export interface CategoryRoots {
+  defaultRootId: string | null; // shopwareRootCategoryId
+  rootsByPlentyId: Record<string, string>; // shopwareRootCategoryIdsByPlentyId
+}
+
+/**
+ * Get the Plenty clients (plentyIds) of a category: its client links first, then the clients of its details
+ */
+export function getCategoryPlentyIds(category: Pick<PlentyCategoryData, 'clients' | 'details'>): number[] {
+  const plentyIds = [
+    ...(category.clients || []).map((client) => Number(client.plentyId)),
+    ...(category.details || []).map((detail) => Number(detail.plentyId)),
+  ];
+  return Array.from(new Set(plentyIds.filter((plentyId) => !!plentyId)));
+}
+
+/**
+ * Resolve the Shopware root (and Plenty client) of a Plenty root category
+ * The first client with a configured root wins; otherwise the default root is used.
+ * A category tree linked to several clients therefore appears in one navigation only.
+ */
+export function resolveCategoryRoot(
+  plentyIds: number[],
+  roots: CategoryRoots
+): { rootId: string | null; plentyId: number | null } {
+  for (const plentyId of plentyIds) {
+    const rootId = roots.rootsByPlentyId[String(plentyId)];
+    if (rootId) {
+      return { rootId, plentyId };
+    }
+  }
+  return { rootId: roots.defaultRootId, plentyId: null };
+}
 
 /**
  * Category Sync Service
@@ -23,7 +60,7 @@ export class CategorySyncService {
   private mappingService: CategoryMappingService;
   private configService: TenantConfigService;
   private categoryCache: Map<number, PlentyCategory> = new Map();
-  private shopwareRootCategoryId: string | null = null;
+  private categoryRoots: CategoryRoots | null = null;
   private shopwareDefaultCmsPageId: string | null = null;
   private log = createLogger({ service: 'CategorySyncService' });
 
@@ -60,12 +97,16 @@ export class CategorySyncService {
       return {};
     }
 
-    // Load Shopware root category ID from config (for navigation integration)
-    if (this.shopwareRootCategoryId === null) {
-      this.shopwareRootCategoryId = await this.configService.getShopwareRootCategoryId(tenantId) || '';
-      if (this.shopwareRootCategoryId) {
-        this.log.info('Using Shopware root category for navigation', {
-          rootCategoryId: this.shopwareRootCategoryId,
+    // Load Shopware root categories from config (for navigation integration)
+    if (this.categoryRoots === null) {
+      this.categoryRoots = {
+        defaultRootId: await this.configService.getShopwareRootCategoryId(tenantId),
+        rootsByPlentyId: await this.configService.getShopwareRootCategoryIdsByPlentyId(tenantId),
+      };
+      if (this.categoryRoots.defaultRootId || Object.keys(this.categoryRoots.rootsByPlentyId).length > 0) {
+        this.log.info('Using Shopware root categories for navigation', {
+          rootCategoryId: this.categoryRoots.defaultRootId,
+          rootCategoryIdsByPlentyId: this.categoryRoots.rootsByPlentyId,
         });
       } else {
         this.log.warn(
@@ -123,12 +164,13 @@ export class CategorySyncService {
           existingMappings
         );
 
-        // Store the new mapping
+        // Store the new mapping (the position is applied by the next CONFIG sync)
         newMappings.push({
           plentyCategoryId: categoryId,
           shopwareCategoryId,
           mappingType: 'AUTO',
           lastSyncAction: 'create',
+          plentyParentId: (await this.getCachedPlentyCategory(tenantId, categoryId))?.parentId ?? null,
         });
 
         // Update local lookup for subsequent categories
@@ -208,14 +250,21 @@ export class CategorySyncService {
           mappingType: 'AUTO',
         };
       }
-    } else if (this.shopwareRootCategoryId) {
+    } else {
       // No parent in Plenty = root category
-      // Use configured Shopware root category as parent for navigation integration
-      parentShopwareId = this.shopwareRootCategoryId;
-      this.log.debug('Using Shopware root category as parent for Plenty root category', {
-        plentyCategoryId,
-        shopwareRootCategoryId: this.shopwareRootCategoryId,
-      });
+      // Use the configured Shopware root of the category's Plenty client for navigation integration
+      const rawCategory = plentyCategory.rawData as PlentyCategoryData | null;
+      const { rootId } = resolveCategoryRoot(
+        rawCategory ? getCategoryPlentyIds(rawCategory) : [],
+        this.categoryRoots!
+      );
+      if (rootId) {
+        parentShopwareId = rootId;
+        this.log.debug('Using Shopware root category as parent for Plenty root category', {
+          plentyCategoryId,
+          shopwareRootCategoryId: rootId,
+        });
+      }
     }
 
     // Transform to Shopware format
@@ -0,0 +1,137 @@
+import { PrismaClient } from '@prisma/client';
+import { getPrismaClient } from '../database/client';
+import { createLogger } from '../utils/logger';
+
+export interface CustomerMappingRecord {
+  shopwareCustomerId: string;
+  shopwareCustomerNumber: string;
+  plentyContactId: number;
+  plentyClassId?: number | null;
+  addressMappings: Record<string, number>; // shopwareAddressId → plentyAddressId
+}
+
+export interface CustomerMappingLookup {
+  plentyContactId: number;
+  plentyClassId: number | null;
+  addressMappings: Record<string, number>;
+}
+
+/**
+ * Customer Mapping Service
+ * Tracks which Plenty contact (and addresses) each Shopware customer was synced to
+ */
+export class CustomerMappingService {
+  private prisma: PrismaClient;
+  private log = createLogger({ service: 'CustomerMappingService' });
+
+  constructor() {
+    this.prisma = getPrismaClient();
+  }
+
+  /**
+   * Get mappings for multiple Shopware customers
+   * Returns a map of shopwareCustomerId → mapping
+   */
+  async getMappings(
+    tenantId: string,
+    shopwareCustomerIds: string[]
+  ): Promise<Record<string, CustomerMappingLookup>> {
+    if (shopwareCustomerIds.length === 0) {
+      return {};
+    }
+
+    const mappings = await this.prisma.customerMapping.findMany({
+      where: {
+        tenantId,
+        shopwareCustomerId: {
+          in: shopwareCustomerIds,
+        },
+      },
+      select: {
+        shopwareCustomerId: true,
+        plentyContactId: true,
+        plentyClassId: true,
+        addressMappings: true,
+      },
+    });
+
+    const result: Record<string, CustomerMappingLookup> = {};
+    for (const mapping of mappings) {
+      result[mapping.shopwareCustomerId] = {
+        plentyContactId: mapping.plentyContactId,
+        plentyClassId: mapping.plentyClassId,
+        addressMappings: (mapping.addressMappings as Record<string, number>) || {},
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the Plenty contact ID for a Shopware customer
+   */
+  async getPlentyContactId(tenantId: string, shopwareCustomerId: string): Promise<number | null> {
+    const mapping = await this.prisma.customerMapping.findUnique({
+      where: {
+        tenantId_shopwareCustomerId: {
+          tenantId,
+          shopwareCustomerId,
+        },
+      },
+      select: {
+        plentyContactId: true,
+      },
+    });
+
+    return mapping?.plentyContactId ?? null;
+  }
+
+  /**
+   * Create or update the mapping for a Shopware customer
+   */
+  async upsertMapping(
+    tenantId: string,
+    record: CustomerMappingRecord,
+    action: 'create' | 'update' | 'link'
+  ): Promise<void> {
+    const data = {
+      shopwareCustomerNumber: record.shopwareCustomerNumber,
+      plentyContactId: record.plentyContactId,
+      plentyClassId: record.plentyClassId ?? null,
+      addressMappings: record.addressMappings,
+      lastSyncedAt: new Date(),
+      lastSyncAction: action,
+    };
+
+    await this.prisma.customerMapping.upsert({
+      where: {
+        tenantId_shopwareCustomerId: {
+          tenantId,
+          shopwareCustomerId: record.shopwareCustomerId,
+        },
+      },
+      create: {
+        tenantId,
+        shopwareCustomerId: record.shopwareCustomerId,
+        ...data,
+      },
+      update: data,
+    });
+
+    this.log.debug('Customer mapping saved', {
+      tenantId,
+      shopwareCustomerNumber: record.shopwareCustomerNumber,
+      plentyContactId: record.plentyContactId,
+      action,
+    });
+  }
+
+  /**
+   * Get count of synced customers for a tenant
+   */
+  async getMappingCount(tenantId: string): Promise<number> {
+    return this.prisma.customerMapping.count({
+      where: { tenantId },
+    });
+  }
+}
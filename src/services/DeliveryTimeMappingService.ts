@@ -0,0 +1,57 @@
+import { PrismaClient } from '@prisma/client';
+import { getPrismaClient } from '../database/client';
+import { createLogger } from '../utils/logger';
+
+/**
+ * Delivery Time Mapping Service
+ * Maps Plenty availability IDs (variation.availability) to Shopware delivery times
+ * Mappings are maintained manually (scripts/manage-delivery-time-mappings.ts)
+ */
+export class DeliveryTimeMappingService {
+  private prisma: PrismaClient;
+  private log = createLogger({ service: 'DeliveryTimeMappingService' });
+
+  constructor() {
+    this.prisma = getPrismaClient();
+  }
+
+  /**
+   * Get all mappings of a tenant
+   * Returns a map of plentyAvailabilityId → shopwareDeliveryTimeId
+   */
+  async getMappings(tenantId: string): Promise<Map<number, string>> {
+    const mappings = await this.prisma.deliveryTimeMapping.findMany({
+      where: { tenantId },
+      select: { plentyAvailabilityId: true, shopwareDeliveryTimeId: true },
+    });
+
+    return new Map(mappings.map((m) => [m.plentyAvailabilityId, m.shopwareDeliveryTimeId]));
+  }
+
+  /**
+   * Create or replace the mapping for a Plenty availability
+   */
+  async setMapping(tenantId: string, plentyAvailabilityId: number, shopwareDeliveryTimeId: string): Promise<void> {
+    await this.prisma.deliveryTimeMapping.upsert({
+      where: {
+        tenantId_plentyAvailabilityId: { tenantId, plentyAvailabilityId },
+      },
+      create: { tenantId, plentyAvailabilityId, shopwareDeliveryTimeId },
+      update: { shopwareDeliveryTimeId },
+    });
+
+    this.log.info('Delivery time mapping saved', { tenantId, plentyAvailabilityId, shopwareDeliveryTimeId });
+  }
+
+  /**
+   * Delete the mapping for a Plenty availability
+   * Returns false if no mapping existed
+   */
+  async deleteMapping(tenantId: string, plentyAvailabilityId: number): Promise<boolean> {
+    const result = await this.prisma.deliveryTimeMapping.deleteMany({
+      where: { tenantId, plentyAvailabilityId },
+    });
+
+    return result.count > 0;
+  }
+}
@@ -257,4 +257,57 @@ export class ManufacturerMappingService {
 
     return result.count;
   }
+
+  /**
+   * Get all orphaned manufacturer mappings for a tenant
+   */
+  async getOrphanedMappings(tenantId: string): Promise<{
+    plentyManufacturerId: number;
+    shopwareManufacturerId: string;
+    mappingType: MappingType;
+  }[]> {
+    return this.prisma.manufacturerMapping.findMany({
+      where: {
+        tenantId,
+        status: MappingStatus.ORPHANED,
+      },
+      select: {
+        plentyManufacturerId: true,
+        shopwareManufacturerId: true,
+        mappingType: true,
+      },
+    });
+  }
+
+  /**
+   * Reactivate orphaned manufacturer mappings (if the manufacturer reappears in Plenty)
+   */
+  async reactivateMappings(tenantId: string, plentyIds: number[]): Promise<number> {
+    if (plentyIds.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.manufacturerMapping.updateMany({
+      where: {
+        tenantId,
+        plentyManufacturerId: {
+          in: plentyIds,
+        },
+        status: MappingStatus.ORPHANED,
+      },
+      data: {
+        status: MappingStatus.ACTIVE,
+        lastSeenAt: new Date(),
+      },
+    });
+
+    if (result.count > 0) {
+      this.log.info('Reactivated orphaned manufacturer mappings', {
+        tenantId,
+        count: result.count,
+      });
+    }
+
+    return result.count;
+  }
 }
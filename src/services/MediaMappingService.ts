@@ -3,15 +3,27 @@ import { getPrismaClient } from '../database/client';
 import { createLogger } from '../utils/logger';
 import crypto from 'crypto';
 
+/**
+ * Version of the source file as reported by the source system (e.g. Plenty image size and dimensions)
+ * The URL may stay the same when the image is replaced - a changed version re-uploads the file.
+ */
+export interface MediaSourceVersion {
+  size?: number; // Bytes
+  width?: number;
+  height?: number;
+}
+
 export interface MediaMappingRecord {
   sourceUrl: string;
   sourceType: MediaSourceType;
   sourceEntityId?: string;
+  sourceVersion?: MediaSourceVersion;
   shopwareMediaId: string;
   shopwareFolderId?: string;
   fileName?: string;
   mimeType?: string;
   fileSize?: number;
+  metadataHash?: string; // Fingerprint of title, alt and translations
   mappingType: 'MANUAL' | 'AUTO';
   lastSyncAction: 'create' | 'update';
 }
@@ -49,7 +61,13 @@ export class MediaMappingService {
   async getMappingByUrl(
     tenantId: string,
     sourceUrl: string
-  ): Promise<{ shopwareMediaId: string; shopwareFolderId?: string; mappingType: string } | null> {
+  ): Promise<{
+    shopwareMediaId: string;
+    shopwareFolderId?: string;
+    metadataHash?: string;
+    sourceVersion: MediaSourceVersion;
+    mappingType: string;
+  } | null> {
     const urlHash = MediaMappingService.hashUrl(sourceUrl);
 
     const mapping = await this.prisma.mediaMapping.findUnique({
@@ -62,6 +80,10 @@ export class MediaMappingService {
       select: {
         shopwareMediaId: true,
         shopwareFolderId: true,
+        metadataHash: true,
+        sourceSize: true,
+        sourceWidth: true,
+        sourceHeight: true,
         mappingType: true,
       },
     });
@@ -71,6 +93,12 @@ export class MediaMappingService {
     return {
       shopwareMediaId: mapping.shopwareMediaId,
       shopwareFolderId: mapping.shopwareFolderId || undefined,
+      metadataHash: mapping.metadataHash || undefined,
+      sourceVersion: {
+        size: mapping.sourceSize ?? undefined,
+        width: mapping.sourceWidth ?? undefined,
+        height: mapping.sourceHeight ?? undefined,
+      },
       mappingType: mapping.mappingType,
     };
   }
@@ -164,11 +192,15 @@ export class MediaMappingService {
         sourceUrlHash: urlHash,
         sourceType: record.sourceType,
         sourceEntityId: record.sourceEntityId,
+        sourceSize: record.sourceVersion?.size,
+        sourceWidth: record.sourceVersion?.width,
+        sourceHeight: record.sourceVersion?.height,
         shopwareMediaId: record.shopwareMediaId,
         shopwareFolderId: record.shopwareFolderId,
         fileName: record.fileName,
         mimeType: record.mimeType,
         fileSize: record.fileSize,
+        metadataHash: record.metadataHash,
         mappingType: record.mappingType,
         lastSyncedAt: new Date(),
         lastSyncAction: record.lastSyncAction,
@@ -176,11 +208,15 @@ export class MediaMappingService {
       update: {
         sourceType: record.sourceType,
         sourceEntityId: record.sourceEntityId,
+        sourceSize: record.sourceVersion?.size,
+        sourceWidth: record.sourceVersion?.width,
+        sourceHeight: record.sourceVersion?.height,
         shopwareMediaId: record.shopwareMediaId,
         shopwareFolderId: record.shopwareFolderId,
         fileName: record.fileName,
         mimeType: record.mimeType,
         fileSize: record.fileSize,
+        metadataHash: record.metadataHash,
         mappingType: record.mappingType,
         lastSyncedAt: new Date(),
         lastSyncAction: record.lastSyncAction,
@@ -221,11 +257,15 @@ export class MediaMappingService {
             sourceUrlHash: urlHash,
             sourceType: record.sourceType,
             sourceEntityId: record.sourceEntityId,
+            sourceSize: record.sourceVersion?.size,
+            sourceWidth: record.sourceVersion?.width,
+            sourceHeight: record.sourceVersion?.height,
             shopwareMediaId: record.shopwareMediaId,
             shopwareFolderId: record.shopwareFolderId,
             fileName: record.fileName,
             mimeType: record.mimeType,
             fileSize: record.fileSize,
+            metadataHash: record.metadataHash,
             mappingType: record.mappingType,
             lastSyncedAt: new Date(),
             lastSyncAction: record.lastSyncAction,
@@ -233,11 +273,15 @@ export class MediaMappingService {
           update: {
             sourceType: record.sourceType,
             sourceEntityId: record.sourceEntityId,
+            sourceSize: record.sourceVersion?.size,
+            sourceWidth: record.sourceVersion?.width,
+            sourceHeight: record.sourceVersion?.height,
             shopwareMediaId: record.shopwareMediaId,
             shopwareFolderId: record.shopwareFolderId,
             fileName: record.fileName,
             mimeType: record.mimeType,
             fileSize: record.fileSize,
+            metadataHash: record.metadataHash,
             mappingType: record.mappingType,
             lastSyncedAt: new Date(),
             lastSyncAction: record.lastSyncAction,
@@ -252,6 +296,51 @@ export class MediaMappingService {
     });
   }
 
+  /**
+   * Store the metadata fingerprint after title, alt and translations were updated in Shopware
+   */
+  async updateMetadataHash(tenantId: string, sourceUrl: string, metadataHash: string): Promise<void> {
+    await this.prisma.mediaMapping.update({
+      where: {
+        tenantId_sourceUrlHash: {
+          tenantId,
+          sourceUrlHash: MediaMappingService.hashUrl(sourceUrl),
+        },
+      },
+      data: {
+        metadataHash,
+        lastSyncedAt: new Date(),
+        lastSyncAction: 'update',
+      },
+    });
+  }
+
+  /**
+   * Store the source version after the file was (re-)uploaded or first versioned
+   */
+  async updateSourceVersion(
+    tenantId: string,
+    sourceUrl: string,
+    sourceVersion: MediaSourceVersion,
+    lastSyncAction: 'create' | 'update'
+  ): Promise<void> {
+    await this.prisma.mediaMapping.update({
+      where: {
+        tenantId_sourceUrlHash: {
+          tenantId,
+          sourceUrlHash: MediaMappingService.hashUrl(sourceUrl),
+        },
+      },
+      data: {
+        sourceSize: sourceVersion.size,
+        sourceWidth: sourceVersion.width,
+        sourceHeight: sourceVersion.height,
+        lastSyncedAt: new Date(),
+        lastSyncAction,
+      },
+    });
+  }
+
   /**
    * Delete mapping by source URL
    */
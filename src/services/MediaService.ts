@@ -1,23 +1,58 @@
 import { MediaSourceType } from '@prisma/client';
 import { createLogger } from '../utils/logger';
 import { MediaMappingService } from './MediaMappingService';
+import type { MediaSourceVersion } from './MediaMappingService';
+import { isDryRunClient } from '../clients/RecordingShopwareClient';
+import { hashPayload } from '../utils/hash';
 import type { IShopwareClient } from '../clients/interfaces';
+import type { ShopwareMediaMetadata, ShopwareMediaTranslation } from '../types/shopware';
 
 export interface UploadMediaResult {
   success: boolean;
   shopwareMediaId?: string;
   wasExisting: boolean;
+  metadataUpdated?: boolean; // Title / alt texts changed - updated without a re-upload
+  reuploaded?: boolean; // Source file changed (or forced refresh) - uploaded into the existing media
   error?: string;
   mimeType?: string;
   fileSize?: number;
 }
 
+/**
+ * Compare the version stored on the mapping with the current source version
+ * Only fields known on both sides are compared. 'unversioned' = the mapping lacks fields the
+ * source reports now (e.g. created before versions were tracked) - the file is assumed current.
+ */
+function compareSourceVersions(
+  stored: MediaSourceVersion,
+  current: MediaSourceVersion | undefined
+): 'unchanged' | 'changed' | 'unversioned' {
+  if (!current) {
+    return 'unchanged';
+  }
+
+  const pairs: Array<[unknown, unknown]> = [
+    [stored.size, current.size],
+    [stored.width, current.width],
+    [stored.height, current.height],
+  ];
+
+  if (pairs.some(([before, now]) => before !== undefined && now !== undefined && before !== now)) {
+    return 'changed';
+  }
+  return pairs.some(([before, now]) => before === undefined && now !== undefined)
+    ? 'unversioned'
+    : 'unchanged';
+}
+
 /**
  * Media Service
  * Orchestrates media uploads from source URLs to Shopware
  * - Checks if media already exists (by URL hash)
  * - Uploads new media to Shopware
  * - Stores mappings for deduplication
+ * - Keeps title, alt texts and their translations up to date (tracked by a fingerprint on the mapping)
+ * - Re-uploads the file into the existing media when the source image changed at the same URL
  */
 export class MediaService {
   private log = createLogger({ service: 'MediaService' });
@@ -30,7 +65,10 @@ export class MediaService {
 
   /**
    * Upload media from URL to Shopware, with deduplication
-   * If the URL was already uploaded, returns the existing media ID
+   * If the URL was already uploaded, returns the existing media ID - changed metadata is updated
+   * on the existing media entity, the file is not uploaded again.
+   * The file is only uploaded again (into the same media ID) if the source version changed
+   * or forceRefresh is set.
    */
   async uploadFromUrl(
     tenantId: string,
@@ -43,9 +81,30 @@ export class MediaService {
       fileName?: string;
       title?: string;
       alt?: string;
+      translations?: Record<string, ShopwareMediaTranslation>; // Keyed by locale code, e.g. 'de-DE'
+      sourceVersion?: MediaSourceVersion; // e.g. Plenty image size and dimensions
+      forceRefresh?: boolean; // Upload the file again even if the source version is unchanged
     }
   ): Promise<UploadMediaResult> {
     try {
+      // Determine file name from URL if not provided
+      let fileName = params.fileName;
+      if (!fileName) {
+        const urlPath = new URL(params.sourceUrl).pathname;
+        fileName = urlPath.split('/').pop() || 'media';
+        // Ensure it has an extension
+        if (!fileName.includes('.')) {
+          fileName += '.jpg';
+        }
+      }
+
+      const metadata: ShopwareMediaMetadata = {
+        title: params.title || fileName.replace(/\.[^/.]+$/, ''),
+        alt: params.alt,
+        translations: params.translations,
+      };
+      const metadataHash = hashPayload({ ...metadata });
+
       // Check if we already have this URL mapped
       const existingMapping = await this.mappingService.getMappingByUrl(tenantId, params.sourceUrl);
 
@@ -55,24 +114,53 @@ export class MediaService {
           shopwareMediaId: existingMapping.shopwareMediaId,
         });
 
+        // Manually mapped media keep the file and texts maintained in Shopware
+        const isAuto = existingMapping.mappingType === 'AUTO';
+        const versionState = compareSourceVersions(
+          existingMapping.sourceVersion,
+          params.sourceVersion
+        );
+
+        let reuploaded = false;
+        if (isAuto && (params.forceRefresh || versionState === 'changed')) {
+          reuploaded = await this.reuploadFile(
+            tenantId,
+            shopware,
+            params.sourceUrl,
+            existingMapping.shopwareMediaId,
+            fileName,
+            params.sourceVersion
+          );
+        } else if (versionState === 'unversioned' && !isDryRunClient(shopware)) {
+          await this.mappingService.updateSourceVersion(
+            tenantId,
+            params.sourceUrl,
+            params.sourceVersion!,
+            'update'
+          );
+        }
+
+        const metadataUpdated =
+          isAuto &&
+          existingMapping.metadataHash !== metadataHash &&
+          (await this.updateMetadata(
+            tenantId,
+            shopware,
+            params.sourceUrl,
+            existingMapping.shopwareMediaId,
+            metadata,
+            metadataHash
+          ));
+
         return {
           success: true,
           shopwareMediaId: existingMapping.shopwareMediaId,
           wasExisting: true,
+          metadataUpdated,
+          reuploaded,
         };
       }
 
-      // Determine file name from URL if not provided
-      let fileName = params.fileName;
-      if (!fileName) {
-        const urlPath = new URL(params.sourceUrl).pathname;
-        fileName = urlPath.split('/').pop() || 'media';
-        // Ensure it has an extension
-        if (!fileName.includes('.')) {
-          fileName += '.jpg';
-        }
-      }
-
       // Get or create the folder
       let folderId: string | undefined;
       if (params.folderName) {
@@ -84,8 +172,7 @@ export class MediaService {
         sourceUrl: params.sourceUrl,
         fileName,
         folderId,
-        title: params.title || fileName.replace(/\.[^/.]+$/, ''),
-        alt: params.alt,
+        ...metadata,
       });
 
       if (!result.success || !result.id) {
@@ -96,19 +183,31 @@ export class MediaService {
         };
       }
 
-      // Store the mapping
-      await this.mappingService.upsertMapping(tenantId, {
-        sourceUrl: params.sourceUrl,
-        sourceType: params.sourceType,
-        sourceEntityId: params.sourceEntityId,
-        shopwareMediaId: result.id,
-        shopwareFolderId: folderId,
-        fileName,
-        mimeType: result.mimeType,
-        fileSize: result.fileSize,
-        mappingType: 'AUTO',
-        lastSyncAction: 'create',
-      });
+      // Media with the same file name already existed in Shopware and was reused - apply the texts
+      let metadataUpdated = false;
+      if (result.action === 'update') {
+        const updateResult = await shopware.updateMediaMetadata(result.id, metadata);
+        metadataUpdated = updateResult.success;
+      }
+
+      // Store the mapping (not in a dry run - the media was only recorded)
+      if (!isDryRunClient(shopware)) {
+        await this.mappingService.upsertMapping(tenantId, {
+          sourceUrl: params.sourceUrl,
+          sourceType: params.sourceType,
+          sourceEntityId: params.sourceEntityId,
+          sourceVersion: params.sourceVersion,
+          shopwareMediaId: result.id,
+          shopwareFolderId: folderId,
+          fileName,
+          mimeType: result.mimeType,
+          fileSize: result.fileSize,
+          // A failed update leaves the hash empty, so it is retried on the next sync
+          metadataHash: result.action !== 'update' || metadataUpdated ? metadataHash : undefined,
+          mappingType: 'AUTO',
+          lastSyncAction: 'create',
+        });
+      }
 
       this.log.info('Media uploaded successfully', {
         sourceUrl: params.sourceUrl,
@@ -120,6 +219,7 @@ export class MediaService {
         success: true,
         shopwareMediaId: result.id,
         wasExisting: false,
+        metadataUpdated,
         mimeType: result.mimeType,
         fileSize: result.fileSize,
       };
@@ -138,6 +238,76 @@ export class MediaService {
     }
   }
 
+  /**
+   * Upload the current source file into already uploaded media and store the new source version
+   * Failed uploads keep the previous file - the unchanged version makes the next sync try again.
+   */
+  private async reuploadFile(
+    tenantId: string,
+    shopware: IShopwareClient,
+    sourceUrl: string,
+    shopwareMediaId: string,
+    fileName: string,
+    sourceVersion: MediaSourceVersion | undefined
+  ): Promise<boolean> {
+    const result = await shopware.uploadMediaFromUrl(shopwareMediaId, sourceUrl, fileName);
+
+    if (!result.success) {
+      this.log.warn('Failed to re-upload changed media - keeping the previous file', {
+        sourceUrl,
+        shopwareMediaId,
+        error: result.error,
+      });
+      return false;
+    }
+
+    // Dry run: the upload was only recorded
+    if (!isDryRunClient(shopware)) {
+      await this.mappingService.updateSourceVersion(
+        tenantId,
+        sourceUrl,
+        sourceVersion || {},
+        'update'
+      );
+    }
+
+    this.log.info('Media file re-uploaded', { sourceUrl, shopwareMediaId });
+
+    return true;
+  }
+
+  /**
+   * Update title, alt texts and translations of already uploaded media and store the new fingerprint
+   */
+  private async updateMetadata(
+    tenantId: string,
+    shopware: IShopwareClient,
+    sourceUrl: string,
+    shopwareMediaId: string,
+    metadata: ShopwareMediaMetadata,
+    metadataHash: string
+  ): Promise<boolean> {
+    const result = await shopware.updateMediaMetadata(shopwareMediaId, metadata);
+
+    if (!result.success) {
+      this.log.warn('Failed to update media metadata', {
+        sourceUrl,
+        shopwareMediaId,
+        error: result.error,
+      });
+      return false;
+    }
+
+    // Dry run: the update was only recorded
+    if (!isDryRunClient(shopware)) {
+      await this.mappingService.updateMetadataHash(tenantId, sourceUrl, metadataHash);
+    }
+
+    this.log.debug('Media metadata updated', { sourceUrl, shopwareMediaId });
+
+    return true;
+  }
+
   /**
    * Get existing media ID for a URL, if it was already uploaded
    */
@@ -0,0 +1,103 @@
+import { PrismaClient } from '@prisma/client';
+import { getPrismaClient } from '../database/client';
+import { createLogger } from '../utils/logger';
+
+export interface OrderMappingRecord {
+  shopwareOrderId: string;
+  shopwareOrderNumber: string;
+  shopwareOrderDate: Date;
+  plentyOrderId: number;
+  plentyContactId?: number;
+}
+
+/**
+ * Order Mapping Service
+ * Tracks which Shopware orders have been imported into PlentyMarkets
+ * The (tenantId, shopwareOrderId) unique key prevents double imports
+ */
+export class OrderMappingService {
+  private prisma: PrismaClient;
+  private log = createLogger({ service: 'OrderMappingService' });
+
+  constructor() {
+    this.prisma = getPrismaClient();
+  }
+
+  /**
+   * Get the subset of Shopware order IDs that were already imported
+   */
+  async getImportedOrderIds(tenantId: string, shopwareOrderIds: string[]): Promise<Set<string>> {
+    if (shopwareOrderIds.length === 0) {
+      return new Set();
+    }
+
+    const mappings = await this.prisma.orderMapping.findMany({
+      where: {
+        tenantId,
+        shopwareOrderId: {
+          in: shopwareOrderIds,
+        },
+      },
+      select: {
+        shopwareOrderId: true,
+      },
+    });
+
+    return new Set(mappings.map((m) => m.shopwareOrderId));
+  }
+
+  /**
+   * Get mapping for a Shopware order
+   */
+  async getMapping(
+    tenantId: string,
+    shopwareOrderId: string
+  ): Promise<{ plentyOrderId: number; plentyContactId: number | null; shopwareOrderNumber: string } | null> {
+    return this.prisma.orderMapping.findUnique({
+      where: {
+        tenantId_shopwareOrderId: {
+          tenantId,
+          shopwareOrderId,
+        },
+      },
+      select: {
+        plentyOrderId: true,
+        plentyContactId: true,
+        shopwareOrderNumber: true,
+      },
+    });
+  }
+
+  /**
+   * Record an imported order
+   */
+  async createMapping(tenantId: string, record: OrderMappingRecord): Promise<void> {
+    await this.prisma.orderMapping.create({
+      data: {
+        tenantId,
+        shopwareOrderId: record.shopwareOrderId,
+        shopwareOrderNumber: record.shopwareOrderNumber,
+        shopwareOrderDate: record.shopwareOrderDate,
+        plentyOrderId: record.plentyOrderId,
+        plentyContactId: record.plentyContactId,
+        lastSyncedAt: new Date(),
+        lastSyncAction: 'create',
+      },
+    });
+
+    this.log.debug('Order mapping created', {
+      tenantId,
+      shopwareOrderNumber: record.shopwareOrderNumber,
+      plentyOrderId: record.plentyOrderId,
+    });
+  }
+
+  /**
+   * Get count of imported orders for a tenant
+   */
+  async getMappingCount(tenantId: string): Promise<number> {
+    return this.prisma.orderMapping.count({
+      where: { tenantId },
+    });
+  }
+}
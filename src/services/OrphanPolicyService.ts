@@ -0,0 +1,318 @@
+import { MappingType } from '@prisma/client';
+import { createLogger } from '../utils/logger';
+import { CategoryMappingService } from './CategoryMappingService';
+import { AttributeMappingService } from './AttributeMappingService';
+import { PropertyMappingService } from './PropertyMappingService';
+import { ManufacturerMappingService } from './ManufacturerMappingService';
+import { UnitMappingService } from './UnitMappingService';
+import { TenantConfigService } from './TenantConfigService';
+import { isDryRunClient } from '../clients/RecordingShopwareClient';
+import type { IShopwareClient } from '../clients/interfaces';
+import type { ShopwareConfigEntity } from '../types/shopware';
+import { ORPHAN_ENTITY_TYPES } from '../types/sync';
+import type { OrphanEntityType, OrphanPolicy, OrphanPolicyResult } from '../types/sync';
+
+const APPLY_BATCH_SIZE = 100;
+
+/**
+ * Orphaned mapping of a config entity
+ * Attributes and properties have two kinds: the property group and its options (values / selections).
+ */
+export interface ConfigOrphan {
+  entityType: OrphanEntityType;
+  shopwareEntity: ShopwareConfigEntity;
+  plentyId: number;
+  shopwareId: string;
+  mappingType: MappingType;
+}
+
+/**
+ * Orphan Policy Service
+ * Decides what happens in Shopware to config entities that were deleted in Plenty
+ *
+ * Key features:
+ * - Config syncs mark mappings whose Plenty entity is gone as ORPHANED
+ * - The tenant's policy per entity type is applied at the end of every config sync
+ * - Manually mapped entities are never deleted from Shopware - 'delete' only unlinks them
+ */
+export class OrphanPolicyService {
+  private categoryMappings = new CategoryMappingService();
+  private attributeMappings = new AttributeMappingService();
+  private propertyMappings = new PropertyMappingService();
+  private manufacturerMappings = new ManufacturerMappingService();
+  private unitMappings = new UnitMappingService();
+  private configService = new TenantConfigService();
+  private log = createLogger({ service: 'OrphanPolicyService' });
+
+  /**
+   * List the orphaned mappings of a tenant (options before their property groups)
+   */
+  async listOrphans(tenantId: string, entityType?: OrphanEntityType): Promise<ConfigOrphan[]> {
+    const orphans: ConfigOrphan[] = [];
+
+    for (const type of entityType ? [entityType] : ORPHAN_ENTITY_TYPES) {
+      orphans.push(...(await this.getOrphans(tenantId, type)));
+    }
+
+    return orphans;
+  }
+
+  /**
+   * Apply the configured orphan policies of all entity types
+   * Entity types with the policy 'keep' are left out of the results.
+   */
+  async applyPolicies(tenantId: string, shopware: IShopwareClient): Promise<OrphanPolicyResult[]> {
+    const policies = await this.configService.getOrphanPolicies(tenantId);
+    const results: OrphanPolicyResult[] = [];
+
+    for (const entityType of ORPHAN_ENTITY_TYPES) {
+      const policy = policies[entityType];
+      if (policy === 'keep') {
+        continue;
+      }
+
+      try {
+        results.push(await this.resolveOrphans(tenantId, shopware, entityType, policy));
+      } catch (error) {
+        this.log.error('Failed to apply orphan policy', {
+          tenantId,
+          entityType,
+          policy,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        results.push({ entityType, policy, orphaned: 0, applied: 0, failed: 1 });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Apply a policy to the orphans of one entity type
+   * @param plentyIds - Only these orphans (Plenty IDs of groups or values); all if not given
+   */
+  async resolveOrphans(
+    tenantId: string,
+    shopware: IShopwareClient,
+    entityType: OrphanEntityType,
+    policy: OrphanPolicy,
+    plentyIds?: number[]
+  ): Promise<OrphanPolicyResult> {
+    if (policy === 'deactivate' && entityType !== 'categories') {
+      throw new Error(
+        `Orphan policy 'deactivate' is only supported for categories, not ${entityType}`
+      );
+    }
+
+    const orphans = (await this.getOrphans(tenantId, entityType)).filter(
+      (orphan) => !plentyIds || plentyIds.includes(orphan.plentyId)
+    );
+    const result: OrphanPolicyResult = {
+      entityType,
+      policy,
+      orphaned: orphans.length,
+      applied: 0,
+      failed: 0,
+    };
+
+    if (orphans.length === 0 || policy === 'keep') {
+      return result;
+    }
+
+    this.log.info('Applying orphan policy', {
+      tenantId,
+      entityType,
+      policy,
+      orphaned: orphans.length,
+    });
+
+    for (let i = 0; i < orphans.length; i += APPLY_BATCH_SIZE) {
+      const batch = orphans.slice(i, i + APPLY_BATCH_SIZE);
+
+      // A batch may span options and groups - apply them per Shopware entity, in order
+      for (const shopwareEntity of Array.from(
+        new Set(batch.map((orphan) => orphan.shopwareEntity))
+      )) {
+        const entityOrphans = batch.filter((orphan) => orphan.shopwareEntity === shopwareEntity);
+        const { success, errors } = await this.applyPolicy(
+          shopware,
+          policy,
+          shopwareEntity,
+          entityOrphans
+        );
+
+        if (!success) {
+          result.failed += entityOrphans.length;
+          this.log.warn('Failed to apply orphan policy to batch', {
+            tenantId,
+            entityType,
+            policy,
+            errors,
+          });
+          continue;
+        }
+
+        result.applied += entityOrphans.length;
+
+        // Dry run: the policy was only recorded - the mappings stay as they are
+        if (isDryRunClient(shopware)) {
+          continue;
+        }
+
+        if (policy === 'delete' || policy === 'unlink') {
+          await this.deleteMappings(
+            tenantId,
+            { entityType, shopwareEntity },
+            entityOrphans.map((orphan) => orphan.plentyId)
+          );
+        }
+      }
+    }
+
+    this.log.info('Orphan policy applied', { tenantId, ...result });
+
+    return result;
+  }
+
+  /**
+   * Apply a policy to one batch of orphans in Shopware
+   */
+  private async applyPolicy(
+    shopware: IShopwareClient,
+    policy: OrphanPolicy,
+    shopwareEntity: ShopwareConfigEntity,
+    orphans: ConfigOrphan[]
+  ): Promise<{ success: boolean; errors: string[] }> {
+    switch (policy) {
+      case 'deactivate':
+        return shopware.deactivateCategories(orphans.map((orphan) => orphan.shopwareId));
+      case 'delete':
+        // Manually mapped entities existed in Shopware before - they are only unlinked
+        return shopware.deleteConfigEntities(
+          shopwareEntity,
+          orphans
+            .filter((orphan) => orphan.mappingType === MappingType.AUTO)
+            .map((orphan) => orphan.shopwareId)
+        );
+      case 'unlink':
+      case 'keep':
+        // Only the mappings change - Shopware stays untouched
+        return { success: true, errors: [] };
+    }
+  }
+
+  /**
+   * Get the orphans of one entity type from its mapping tables
+   */
+  private async getOrphans(
+    tenantId: string,
+    entityType: OrphanEntityType
+  ): Promise<ConfigOrphan[]> {
+    switch (entityType) {
+      case 'categories':
+        return (await this.categoryMappings.getOrphanedMappings(tenantId)).map((m) => ({
+          entityType,
+          shopwareEntity: 'category' as const,
+          plentyId: m.plentyCategoryId,
+          shopwareId: m.shopwareCategoryId,
+          mappingType: m.mappingType,
+        }));
+      case 'attributes': {
+        const [values, attributes] = await Promise.all([
+          this.attributeMappings.getOrphanedAttributeValueMappings(tenantId),
+          this.attributeMappings.getOrphanedAttributeMappings(tenantId),
+        ]);
+        return [
+          ...values.map((m) => ({
+            entityType,
+            shopwareEntity: 'property_group_option' as const,
+            plentyId: m.plentyAttributeValueId,
+            shopwareId: m.shopwarePropertyOptionId,
+            mappingType: m.mappingType,
+          })),
+          ...attributes.map((m) => ({
+            entityType,
+            shopwareEntity: 'property_group' as const,
+            plentyId: m.plentyAttributeId,
+            shopwareId: m.shopwarePropertyGroupId,
+            mappingType: m.mappingType,
+          })),
+        ];
+      }
+      case 'properties': {
+        const [selections, properties] = await Promise.all([
+          this.propertyMappings.getOrphanedPropertySelectionMappings(tenantId),
+          this.propertyMappings.getOrphanedPropertyMappings(tenantId),
+        ]);
+        return [
+          ...selections.map((m) => ({
+            entityType,
+            shopwareEntity: 'property_group_option' as const,
+            plentyId: m.plentySelectionId,
+            shopwareId: m.shopwarePropertyOptionId,
+            mappingType: m.mappingType,
+          })),
+          ...properties.map((m) => ({
+            entityType,
+            shopwareEntity: 'property_group' as const,
+            plentyId: m.plentyPropertyId,
+            shopwareId: m.shopwarePropertyGroupId,
+            mappingType: m.mappingType,
+          })),
+        ];
+      }
+      case 'manufacturers':
+        return (await this.manufacturerMappings.getOrphanedMappings(tenantId)).map((m) => ({
+          entityType,
+          shopwareEntity: 'product_manufacturer' as const,
+          plentyId: m.plentyManufacturerId,
+          shopwareId: m.shopwareManufacturerId,
+          mappingType: m.mappingType,
+        }));
+      case 'units':
+        return (await this.unitMappings.getOrphanedMappings(tenantId)).map((m) => ({
+          entityType,
+          shopwareEntity: 'unit' as const,
+          plentyId: m.plentyUnitId,
+          shopwareId: m.shopwareUnitId,
+          mappingType: m.mappingType,
+        }));
+    }
+  }
+
+  /**
+   * Delete the mappings of resolved orphans
+   * If the Plenty entity comes back, the next config sync creates it in Shopware again.
+   */
+  private async deleteMappings(
+    tenantId: string,
+    orphan: Pick<ConfigOrphan, 'entityType' | 'shopwareEntity'>,
+    plentyIds: number[]
+  ): Promise<void> {
+    switch (orphan.entityType) {
+      case 'categories':
+        await this.categoryMappings.deleteMappingsByCategoryIds(tenantId, plentyIds);
+        break;
+      case 'attributes':
+        if (orphan.shopwareEntity === 'property_group_option') {
+          await this.attributeMappings.deleteAttributeValueMappingsByIds(tenantId, plentyIds);
+        } else {
+          await this.attributeMappings.deleteAttributeMappingsByIds(tenantId, plentyIds);
+        }
+        break;
+      case 'properties':
+        if (orphan.shopwareEntity === 'property_group_option') {
+          await this.propertyMappings.deletePropertySelectionMappingsByIds(tenantId, plentyIds);
+        } else {
+          await this.propertyMappings.deletePropertyMappingsByIds(tenantId, plentyIds);
+        }
+        break;
+      case 'manufacturers':
+        await this.manufacturerMappings.deleteMappingsByManufacturerIds(tenantId, plentyIds);
+        break;
+      case 'units':
+        await this.unitMappings.deleteMappingsByUnitIds(tenantId, plentyIds);
+        break;
+    }
+  }
+}
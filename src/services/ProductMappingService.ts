@@ -1,6 +1,14 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient, MappingStatus } from '@prisma/client';
 import { getPrismaClient } from '../database/client';
 import { createLogger } from '../utils/logger';
+import { hashPayload } from '../utils/hash';
+import type { ShopwareBulkProduct, ShopwareSeoPath } from '../types/shopware';
+
+/**
+ * Product fields left out of the payload hash
+ * id is unknown on create, visibilities are only sent on create, _plenty* is internal tracking
+ */
+const UNHASHED_PRODUCT_FIELDS = ['id', 'visibilities', '_plentyItemId', '_plentyVariationId'];
 
 export interface ProductMappingRecord {
   plentyItemId: number;
@@ -10,6 +18,8 @@ export interface ProductMappingRecord {
   isParent: boolean;
   shopwareParentId?: string;
   lastSyncAction: 'create' | 'update';
+  payloadHash?: string; // Hash of the pushed payload (see hashProduct) - cleared if not given
+  seoPaths?: ShopwareSeoPath[]; // Canonical SEO paths written to Shopware - kept if not given
 }
 
 export interface ProductMappingLookup {
@@ -18,6 +28,10 @@ export interface ProductMappingLookup {
     shopwareProductNumber: string;
     isParent?: boolean;
     shopwareParentId?: string | null;
+    lastSyncedStock?: number | null;
+    payloadHash?: string | null;
+    seoPaths?: ShopwareSeoPath[] | null;
+    status?: MappingStatus;
   };
 }
 
@@ -59,6 +73,10 @@ export class ProductMappingService {
         shopwareProductNumber: true,
         isParent: true,
         shopwareParentId: true,
+        lastSyncedStock: true,
+        payloadHash: true,
+        seoPaths: true,
+        status: true,
       },
     });
 
@@ -69,6 +87,10 @@ export class ProductMappingService {
         shopwareProductNumber: mapping.shopwareProductNumber,
         isParent: mapping.isParent,
         shopwareParentId: mapping.shopwareParentId,
+        lastSyncedStock: mapping.lastSyncedStock,
+        payloadHash: mapping.payloadHash,
+        seoPaths: mapping.seoPaths as ShopwareSeoPath[] | null,
+        status: mapping.status,
       };
     }
 
@@ -81,6 +103,14 @@ export class ProductMappingService {
     return lookup;
   }
 
+  /**
+   * Hash a transformed product for change detection
+   * Equal hashes mean the product would be sent to Shopware unchanged.
+   */
+  hashProduct(product: ShopwareBulkProduct): string {
+    return hashPayload(product as unknown as Record<string, unknown>, UNHASHED_PRODUCT_FIELDS);
+  }
+
   /**
    * Upsert multiple mappings at once (transaction)
    */
@@ -114,6 +144,9 @@ export class ProductMappingService {
             shopwareParentId: record.shopwareParentId,
             lastSyncedAt: new Date(),
             lastSyncAction: record.lastSyncAction,
+            payloadHash: record.payloadHash ?? null,
+            seoPaths: (record.seoPaths as unknown as Prisma.InputJsonValue) ?? Prisma.DbNull,
+            lastSeenAt: new Date(),
           },
           update: {
             shopwareProductId: record.shopwareProductId,
@@ -122,6 +155,11 @@ export class ProductMappingService {
             shopwareParentId: record.shopwareParentId,
             lastSyncedAt: new Date(),
             lastSyncAction: record.lastSyncAction,
+            payloadHash: record.payloadHash ?? null,
+            ...(record.seoPaths && { seoPaths: record.seoPaths as unknown as Prisma.InputJsonValue }),
+            lastSeenAt: new Date(),
+            status: MappingStatus.ACTIVE,
+            orphanedAt: null,
           },
         })
       )
@@ -133,6 +171,37 @@ export class ProductMappingService {
     });
   }
 
+  /**
+   * Record the stock both systems agreed on after a stock sync
+   * @param stockByVariation - Plenty variation ID → synced stock
+   */
+  async recordSyncedStock(tenantId: string, stockByVariation: Record<number, number>): Promise<void> {
+    const entries = Object.entries(stockByVariation);
+    if (entries.length === 0) {
+      return;
+    }
+
+    const now = new Date();
+    await this.prisma.$transaction(
+      entries.map(([variationId, stock]) =>
+        this.prisma.productMapping.update({
+          where: {
+            tenantId_plentyVariationId: {
+              tenantId,
+              plentyVariationId: Number(variationId),
+            },
+          },
+          data: {
+            lastSyncedStock: stock,
+            stockSyncedAt: now,
+          },
+        })
+      )
+    );
+
+    this.log.debug('Recorded synced stock', { tenantId, count: entries.length });
+  }
+
   /**
    * Get a single mapping by variation ID
    */
@@ -158,6 +227,43 @@ export class ProductMappingService {
     return mapping;
   }
 
+  /**
+   * Get mappings by Shopware product IDs (reverse lookup)
+   * Returns a map of shopwareProductId -> Plenty identifiers
+   */
+  async getMappingsByShopwareIds(
+    tenantId: string,
+    shopwareProductIds: string[]
+  ): Promise<Record<string, { plentyItemId: number; plentyVariationId: number }>> {
+    if (shopwareProductIds.length === 0) {
+      return {};
+    }
+
+    const mappings = await this.prisma.productMapping.findMany({
+      where: {
+        tenantId,
+        shopwareProductId: {
+          in: shopwareProductIds,
+        },
+      },
+      select: {
+        shopwareProductId: true,
+        plentyItemId: true,
+        plentyVariationId: true,
+      },
+    });
+
+    const lookup: Record<string, { plentyItemId: number; plentyVariationId: number }> = {};
+    for (const mapping of mappings) {
+      lookup[mapping.shopwareProductId] = {
+        plentyItemId: mapping.plentyItemId,
+        plentyVariationId: mapping.plentyVariationId,
+      };
+    }
+
+    return lookup;
+  }
+
   /**
    * Get the parent product mapping for a given Plenty item ID
    * Used during delta sync to find parent when only child variations are updated
@@ -253,6 +359,104 @@ export class ProductMappingService {
     return result.count;
   }
 
+  // ============================================
+  // DELETION PROPAGATION
+  // ============================================
+
+  /**
+   * Record that variations still exist in Plenty
+   * Orphaned mappings of variations that reappeared become active again.
+   */
+  async markSeen(tenantId: string, variationIds: number[], seenAt: Date = new Date()): Promise<void> {
+    if (variationIds.length === 0) {
+      return;
+    }
+
+    const reactivated = await this.prisma.productMapping.updateMany({
+      where: {
+        tenantId,
+        plentyVariationId: { in: variationIds },
+        status: MappingStatus.ORPHANED,
+      },
+      data: {
+        status: MappingStatus.ACTIVE,
+        orphanedAt: null,
+      },
+    });
+
+    await this.prisma.productMapping.updateMany({
+      where: {
+        tenantId,
+        plentyVariationId: { in: variationIds },
+      },
+      data: { lastSeenAt: seenAt },
+    });
+
+    if (reactivated.count > 0) {
+      this.log.info('Reactivated orphaned product mappings', { tenantId, count: reactivated.count });
+    }
+  }
+
+  /**
+   * Get active mappings not seen since the given time (candidates for orphaning)
+   */
+  async getUnseenMappings(
+    tenantId: string,
+    since: Date
+  ): Promise<Array<{ plentyVariationId: number; shopwareProductId: string; isParent: boolean }>> {
+    return this.prisma.productMapping.findMany({
+      where: {
+        tenantId,
+        status: MappingStatus.ACTIVE,
+        OR: [{ lastSeenAt: null }, { lastSeenAt: { lt: since } }],
+      },
+      select: {
+        plentyVariationId: true,
+        shopwareProductId: true,
+        isParent: true,
+      },
+    });
+  }
+
+  /**
+   * Mark mappings as orphaned (variation no longer exists in Plenty)
+   */
+  async markAsOrphaned(tenantId: string, variationIds: number[]): Promise<number> {
+    if (variationIds.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.productMapping.updateMany({
+      where: {
+        tenantId,
+        plentyVariationId: { in: variationIds },
+        status: MappingStatus.ACTIVE,
+      },
+      data: {
+        status: MappingStatus.ORPHANED,
+        orphanedAt: new Date(),
+      },
+    });
+
+    if (result.count > 0) {
+      this.log.info('Marked product mappings as orphaned', { tenantId, count: result.count });
+    }
+
+    return result.count;
+  }
+
+  /**
+   * Get count of active (non-orphaned) mappings for a tenant
+   */
+  async getActiveCount(tenantId: string): Promise<number> {
+    return this.prisma.productMapping.count({
+      where: {
+        tenantId,
+        status: MappingStatus.ACTIVE,
+      },
+    });
+  }
+
   /**
    * Get count of mappings for a tenant
    */
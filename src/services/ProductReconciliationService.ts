@@ -0,0 +1,135 @@
+import { createLogger } from '../utils/logger';
+import { ProductMappingService } from './ProductMappingService';
+import { TenantConfigService } from './TenantConfigService';
+import { isDryRunClient } from '../clients/RecordingShopwareClient';
+import type { IShopwareClient } from '../clients/interfaces';
+import type { ProductDeletionPolicy, ProductReconciliationResult } from '../types/sync';
+
+const APPLY_BATCH_SIZE = 100;
+
+type OrphanedProduct = { plentyVariationId: number; shopwareProductId: string; isParent: boolean };
+
+/**
+ * Product Reconciliation Service
+ * Propagates Plenty deletions to Shopware at the end of a full sync
+ *
+ * Key features:
+ * - Orphans are active mappings the full sync did not see (lastSeenAt before the sync started)
+ * - The tenant's deletion policy decides what happens in Shopware
+ * - Aborts without changes if more than the configured share of the catalog would be removed
+ */
+export class ProductReconciliationService {
+  private mappingService: ProductMappingService;
+  private configService: TenantConfigService;
+  private log = createLogger({ service: 'ProductReconciliationService' });
+
+  constructor() {
+    this.mappingService = new ProductMappingService();
+    this.configService = new TenantConfigService();
+  }
+
+  /**
+   * Find orphaned products and apply the tenant's deletion policy
+   * @param seenSince - Start of the full sync; mappings not seen since then are orphans
+   * @param seenVariationIds - Dry runs only: variations seen by the run (lastSeenAt is not updated)
+   */
+  async reconcile(
+    tenantId: string,
+    shopware: IShopwareClient,
+    seenSince: Date,
+    seenVariationIds?: Set<number>
+  ): Promise<ProductReconciliationResult> {
+    const { policy, thresholdPercent } = await this.configService.getProductDeletionSettings(tenantId);
+    const [activeMappings, unseen] = await Promise.all([
+      this.mappingService.getActiveCount(tenantId),
+      this.mappingService.getUnseenMappings(tenantId, seenSince),
+    ]);
+    const orphans = seenVariationIds
+      ? unseen.filter((mapping) => !seenVariationIds.has(mapping.plentyVariationId))
+      : unseen;
+
+    const result: ProductReconciliationResult = {
+      policy,
+      activeMappings,
+      orphaned: orphans.length,
+      applied: 0,
+      failed: 0,
+      aborted: false,
+    };
+
+    if (orphans.length === 0) {
+      this.log.info('No orphaned products found', { tenantId, activeMappings });
+      return result;
+    }
+
+    const orphanedPercent = (orphans.length / activeMappings) * 100;
+    if (orphanedPercent > thresholdPercent) {
+      result.aborted = true;
+      result.abortReason =
+        `${orphans.length} of ${activeMappings} products (${orphanedPercent.toFixed(1)}%) ` +
+        `would be removed - above the ${thresholdPercent}% safety threshold`;
+      this.log.error('Product reconciliation aborted', { tenantId, policy, reason: result.abortReason });
+      return result;
+    }
+
+    this.log.info('Reconciling orphaned products', { tenantId, policy, orphaned: orphans.length });
+
+    // Variants first - deleting a parent in Shopware also removes its variants
+    const ordered = [...orphans].sort((a, b) => Number(a.isParent) - Number(b.isParent));
+
+    for (let i = 0; i < ordered.length; i += APPLY_BATCH_SIZE) {
+      const batch = ordered.slice(i, i + APPLY_BATCH_SIZE);
+      const { success, errors } = await this.applyPolicy(tenantId, shopware, policy, batch);
+
+      if (!success) {
+        result.failed += batch.length;
+        this.log.warn('Failed to apply deletion policy to batch', { tenantId, policy, errors });
+        continue;
+      }
+
+      result.applied += batch.length;
+
+      // Dry run: the policy was only recorded - the mappings stay as they are
+      if (isDryRunClient(shopware)) {
+        continue;
+      }
+
+      const variationIds = batch.map((orphan) => orphan.plentyVariationId);
+      if (policy === 'delete') {
+        await this.mappingService.deleteMappingsByVariationIds(tenantId, variationIds);
+      } else {
+        await this.mappingService.markAsOrphaned(tenantId, variationIds);
+      }
+    }
+
+    this.log.info('Product reconciliation completed', { tenantId, ...result });
+
+    return result;
+  }
+
+  /**
+   * Apply the deletion policy to one batch of orphans in Shopware
+   */
+  private async applyPolicy(
+    tenantId: string,
+    shopware: IShopwareClient,
+    policy: ProductDeletionPolicy,
+    orphans: OrphanedProduct[]
+  ): Promise<{ success: boolean; errors: string[] }> {
+    const productIds = orphans.map((orphan) => orphan.shopwareProductId);
+
+    switch (policy) {
+      case 'deactivate':
+        return shopware.deactivateProducts(productIds);
+      case 'delete':
+        return shopware.deleteProducts(productIds);
+      case 'hide-from-sales-channel': {
+        const salesChannelId = await this.configService.getShopwareSalesChannelId(tenantId);
+        return shopware.removeProductVisibilities(productIds, salesChannelId || undefined);
+      }
+      case 'report-only':
+        // Only mark the mappings - Shopware stays untouched
+        return { success: true, errors: [] };
+    }
+  }
+}
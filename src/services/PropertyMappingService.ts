@@ -755,4 +755,110 @@ export class PropertyMappingService {
 
     return result.count;
   }
+
+  /**
+   * Get all orphaned property mappings for a tenant
+   */
+  async getOrphanedPropertyMappings(tenantId: string): Promise<{
+    plentyPropertyId: number;
+    shopwarePropertyGroupId: string;
+    mappingType: MappingType;
+  }[]> {
+    return this.prisma.propertyMapping.findMany({
+      where: {
+        tenantId,
+        status: MappingStatus.ORPHANED,
+      },
+      select: {
+        plentyPropertyId: true,
+        shopwarePropertyGroupId: true,
+        mappingType: true,
+      },
+    });
+  }
+
+  /**
+   * Reactivate orphaned property mappings (if the property reappears in Plenty)
+   */
+  async reactivatePropertyMappings(tenantId: string, plentyIds: number[]): Promise<number> {
+    if (plentyIds.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.propertyMapping.updateMany({
+      where: {
+        tenantId,
+        plentyPropertyId: {
+          in: plentyIds,
+        },
+        status: MappingStatus.ORPHANED,
+      },
+      data: {
+        status: MappingStatus.ACTIVE,
+        lastSeenAt: new Date(),
+      },
+    });
+
+    if (result.count > 0) {
+      this.log.info('Reactivated orphaned property mappings', {
+        tenantId,
+        count: result.count,
+      });
+    }
+
+    return result.count;
+  }
+
+  /**
+   * Get all orphaned property selection mappings for a tenant
+   */
+  async getOrphanedPropertySelectionMappings(tenantId: string): Promise<{
+    plentySelectionId: number;
+    shopwarePropertyOptionId: string;
+    mappingType: MappingType;
+  }[]> {
+    return this.prisma.propertySelectionMapping.findMany({
+      where: {
+        tenantId,
+        status: MappingStatus.ORPHANED,
+      },
+      select: {
+        plentySelectionId: true,
+        shopwarePropertyOptionId: true,
+        mappingType: true,
+      },
+    });
+  }
+
+  /**
+   * Reactivate orphaned property selection mappings (if the property selection reappears in Plenty)
+   */
+  async reactivatePropertySelectionMappings(tenantId: string, plentyIds: number[]): Promise<number> {
+    if (plentyIds.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.propertySelectionMapping.updateMany({
+      where: {
+        tenantId,
+        plentySelectionId: {
+          in: plentyIds,
+        },
+        status: MappingStatus.ORPHANED,
+      },
+      data: {
+        status: MappingStatus.ACTIVE,
+        lastSeenAt: new Date(),
+      },
+    });
+
+    if (result.count > 0) {
+      this.log.info('Reactivated orphaned property selection mappings', {
+        tenantId,
+        count: result.count,
+      });
+    }
+
+    return result.count;
+  }
 }
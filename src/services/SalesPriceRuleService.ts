@@ -0,0 +1,212 @@
+import { createLogger } from '../utils/logger';
+import { generateDeterministicUuid } from '../utils';
+import { SalesPriceMappingService } from './SalesPriceMappingService';
+import type { SalesPriceMappingRecord } from './SalesPriceMappingService';
+import { TenantConfigService } from './TenantConfigService';
+import { isDryRunClient } from '../clients/RecordingShopwareClient';
+import type { IShopwareClient } from '../clients/interfaces';
+import type { PlentySalesPrice } from '../types/plenty';
+import type { ShopwareRuleCondition } from '../types/shopware';
+
+/**
+ * Sales prices that share the same conditions (and therefore one Shopware rule)
+ */
+interface SalesPriceRuleGroup {
+  ruleId: string;
+  customerGroupIds: string[];
+  salesChannelIds: string[];
+  salesPrices: PlentySalesPrice[];
+}
+
+export interface SalesPriceRuleSyncResult {
+  rules: number;
+  mapped: number;
+  skipped: number;
+  errors: number;
+}
+
+/**
+ * Sales Price Rule Service
+ * Creates one Shopware rule per distinct set of Plenty sales price restrictions
+ *
+ * Plenty customer classes become a customer group condition, referrers a sales channel
+ * condition. Sales prices that only differ in minimumOrderQuantity share a rule, so
+ * they end up as quantity tiers of the same advanced price.
+ */
+export class SalesPriceRuleService {
+  private mappingService: SalesPriceMappingService;
+  private configService: TenantConfigService;
+  private log = createLogger({ service: 'SalesPriceRuleService' });
+
+  constructor() {
+    this.mappingService = new SalesPriceMappingService();
+    this.configService = new TenantConfigService();
+  }
+
+  /**
+   * Create/update rules for all advanced-price sales prices and store the mappings
+   * RRP prices are skipped (they become the list price). Manual mappings are never overwritten.
+   */
+  async syncRules(
+    tenantId: string,
+    salesPrices: PlentySalesPrice[],
+    shopware: IShopwareClient
+  ): Promise<SalesPriceRuleSyncResult> {
+    const result: SalesPriceRuleSyncResult = { rules: 0, mapped: 0, skipped: 0, errors: 0 };
+
+    const candidates = salesPrices.filter((sp) => sp.type !== 'rrp');
+    const existing = await this.mappingService.getBatchMappings(
+      tenantId,
+      candidates.map((sp) => sp.id)
+    );
+    const { customerGroupsByClassId, salesChannelsByReferrerId } =
+      await this.configService.getSalesPriceRuleMappings(tenantId);
+
+    const groups = new Map<string, SalesPriceRuleGroup>();
+
+    for (const salesPrice of candidates) {
+      if (existing[salesPrice.id]?.mappingType === 'MANUAL') {
+        continue;
+      }
+
+      // Customer classes restrict who gets the price - without a mapped group the price must not be exposed
+      const classIds = (salesPrice.customerClasses || []).map((c) => c.customerClassId);
+      const customerGroupIds = [
+        ...new Set(classIds.flatMap((id) => customerGroupsByClassId[String(id)] || [])),
+      ].sort();
+      if (classIds.length > 0 && customerGroupIds.length === 0) {
+        this.log.warn('Sales price skipped - none of its customer classes is mapped to a customer group', {
+          salesPriceId: salesPrice.id,
+          customerClassIds: classIds,
+        });
+        result.skipped++;
+        continue;
+      }
+
+      // Referrers only narrow the sales channel - unmapped referrers are ignored
+      const salesChannelIds = [
+        ...new Set(
+          (salesPrice.referrers || [])
+            .map((r) => salesChannelsByReferrerId[String(r.referrerId)])
+            .filter((id): id is string => !!id)
+        ),
+      ].sort();
+
+      const key = `groups:${customerGroupIds.join(',')}|channels:${salesChannelIds.join(',')}`;
+      const group = groups.get(key) || {
+        ruleId: generateDeterministicUuid('sales-price-rule', tenantId, key),
+        customerGroupIds,
+        salesChannelIds,
+        salesPrices: [],
+      };
+      group.salesPrices.push(salesPrice);
+      groups.set(key, group);
+    }
+
+    if (groups.size === 0) {
+      return result;
+    }
+
+    const groupList = Array.from(groups.values());
+    const bulkResult = await shopware.bulkSyncPrices(
+      groupList.map((group) => ({
+        id: group.ruleId,
+        name: this.buildRuleName(group),
+        // More specific rules win over general ones
+        priority:
+          100 + (group.customerGroupIds.length > 0 ? 10 : 0) + (group.salesChannelIds.length > 0 ? 5 : 0),
+        conditions: this.buildConditions(group),
+      }))
+    );
+
+    const records: SalesPriceMappingRecord[] = [];
+    for (const group of groupList) {
+      const ruleResult = bulkResult.results.find((r) => r.shopwareId === group.ruleId);
+      if (!ruleResult?.success) {
+        result.errors += group.salesPrices.length;
+        this.log.error('Failed to sync sales price rule', {
+          ruleId: group.ruleId,
+          salesPriceIds: group.salesPrices.map((sp) => sp.id),
+          error: ruleResult?.error,
+        });
+        continue;
+      }
+
+      result.rules++;
+      for (const salesPrice of group.salesPrices) {
+        records.push({
+          plentySalesPriceId: salesPrice.id,
+          shopwarePriceId: group.ruleId,
+          mappingType: 'AUTO',
+          lastSyncAction: existing[salesPrice.id] ? 'update' : 'create',
+        });
+      }
+    }
+
+    // Dry run: the rules were only recorded
+    if (!isDryRunClient(shopware)) {
+      await this.mappingService.upsertMappings(tenantId, records);
+    }
+    result.mapped = records.length;
+
+    this.log.info('Sales price rules synced', { tenantId, ...result });
+    return result;
+  }
+
+  /**
+   * Rule name from the sales prices it covers, e.g. "Plenty: Händler / Händler ab 10"
+   */
+  private buildRuleName(group: SalesPriceRuleGroup): string {
+    const names = group.salesPrices.map((sp) => {
+      const name = sp.names?.find((n) => n.lang === 'de') || sp.names?.[0];
+      return name?.nameInternal || `Sales price ${sp.id}`;
+    });
+    return `Plenty: ${names.join(' / ')}`;
+  }
+
+  /**
+   * Condition tree: OR container → AND container → customer group / sales channel conditions
+   * An empty tree makes the rule always match (quantity tiers for everyone).
+   */
+  private buildConditions(group: SalesPriceRuleGroup): ShopwareRuleCondition[] {
+    const conditions: ShopwareRuleCondition[] = [];
+
+    if (group.customerGroupIds.length > 0) {
+      conditions.push({
+        id: generateDeterministicUuid('sales-price-rule-condition', group.ruleId, 'customerGroup'),
+        type: 'customerCustomerGroup',
+        position: 0,
+        value: { operator: '=', customerGroupIds: group.customerGroupIds },
+      });
+    }
+
+    if (group.salesChannelIds.length > 0) {
+      conditions.push({
+        id: generateDeterministicUuid('sales-price-rule-condition', group.ruleId, 'salesChannel'),
+        type: 'salesChannel',
+        position: 1,
+        value: { operator: '=', salesChannelIds: group.salesChannelIds },
+      });
+    }
+
+    if (conditions.length === 0) {
+      return [];
+    }
+
+    return [
+      {
+        id: generateDeterministicUuid('sales-price-rule-condition', group.ruleId, 'or'),
+        type: 'orContainer',
+        position: 0,
+        children: [
+          {
+            id: generateDeterministicUuid('sales-price-rule-condition', group.ruleId, 'and'),
+            type: 'andContainer',
+            position: 0,
+            children: conditions,
+          },
+        ],
+      },
+    ];
+  }
+}
@@ -0,0 +1,150 @@
+import { createLogger } from '../utils/logger';
+import { TenantConfigService } from './TenantConfigService';
+import type { IShopwareClient } from '../clients/interfaces';
+import type { ShopwareSeoPath, ShopwareSeoRouteName } from '../types/shopware';
+
+export interface SeoUrlSyncResult {
+  seoPaths: ShopwareSeoPath[]; // Paths canonical in Shopware now - store them on the mapping
+  updated: number;
+  redirected: number; // Changed slugs - the previous URL redirects to the new one
+  failed: number;
+}
+
+/**
+ * Turn a Plenty slug into a Shopware seoPathInfo ('/Shirts/Red/' -> 'Shirts/Red')
+ * Returns null for empty slugs
+ */
+export function normalizeSeoPath(slug: string | null | undefined): string | null {
+  const path = (slug || '')
+    .trim()
+    .split('/')
+    .filter((segment) => segment.trim() !== '')
+    .join('/');
+  return path || null;
+}
+
+/**
+ * Build the SEO paths of one entity in one sales channel
+ * Languages that do not exist in Shopware are left out.
+ *
+ * @param slugsByLocale - Shopware locale code (e.g. 'de-DE') -> Plenty slug
+ * @param languageIds - Shopware locale code -> language ID
+ */
+export function buildSeoPaths(
+  slugsByLocale: Record<string, string | null | undefined>,
+  salesChannelId: string,
+  languageIds: Record<string, string>
+): ShopwareSeoPath[] {
+  const seoPaths: ShopwareSeoPath[] = [];
+
+  for (const [locale, slug] of Object.entries(slugsByLocale)) {
+    const languageId = languageIds[locale];
+    const seoPathInfo = normalizeSeoPath(slug);
+    if (languageId && seoPathInfo) {
+      seoPaths.push({ salesChannelId, languageId, seoPathInfo });
+    }
+  }
+
+  return seoPaths;
+}
+
+/**
+ * SEO URL Service
+ * Writes the hand-curated Plenty slugs as canonical Shopware SEO URLs
+ *
+ * Key features:
+ * - Only slugs that changed since the last sync are written (compared to the paths stored on the mapping)
+ * - A changed slug keeps the old URL as a non-canonical URL, which Shopware redirects to the new one
+ * - Language IDs are fetched from Shopware once and cached in TenantConfig
+ */
+export class SeoUrlService {
+  private configService = new TenantConfigService();
+  private log = createLogger({ service: 'SeoUrlService' });
+
+  /**
+   * Get the Shopware language IDs by locale code from config or fetch them from the API
+   */
+  async getLanguageIds(
+    tenantId: string,
+    shopware: IShopwareClient
+  ): Promise<Record<string, string>> {
+    const cached = await this.configService.getShopwareLanguages(tenantId);
+    if (cached) {
+      return cached;
+    }
+
+    const languageIds: Record<string, string> = {};
+    for (const language of await shopware.getLanguages()) {
+      if (language.localeCode) {
+        languageIds[language.localeCode] = language.id;
+      }
+    }
+
+    await this.configService.setShopwareLanguages(tenantId, languageIds);
+    this.log.info('Fetched and cached Shopware languages', {
+      tenantId,
+      locales: Object.keys(languageIds),
+    });
+
+    return languageIds;
+  }
+
+  /**
+   * Write the changed SEO paths of one product or category as canonical URLs
+   *
+   * @param foreignKey - Shopware product or category ID
+   * @param seoPaths - Paths from the current Plenty slugs
+   * @param previousPaths - Paths stored on the mapping by the last sync (null = never written)
+   */
+  async syncSeoUrls(
+    shopware: IShopwareClient,
+    routeName: ShopwareSeoRouteName,
+    foreignKey: string,
+    seoPaths: ShopwareSeoPath[],
+    previousPaths: ShopwareSeoPath[] | null
+  ): Promise<SeoUrlSyncResult> {
+    const getKey = (path: ShopwareSeoPath) => `${path.salesChannelId}:${path.languageId}`;
+    const previousByKey = new Map((previousPaths || []).map((path) => [getKey(path), path]));
+
+    const changed = seoPaths.filter(
+      (path) => previousByKey.get(getKey(path))?.seoPathInfo !== path.seoPathInfo
+    );
+    if (changed.length === 0) {
+      return { seoPaths, updated: 0, redirected: 0, failed: 0 };
+    }
+
+    const results = await shopware.updateCanonicalSeoUrls(
+      changed.map((path) => ({ ...path, routeName, foreignKey }))
+    );
+    const failedKeys = new Set(results.filter((r) => !r.success).map((r) => getKey(r.seoUrl)));
+
+    // Failed paths keep the previous value, so they are written again on the next sync
+    const storedPaths: ShopwareSeoPath[] = [];
+    for (const path of seoPaths) {
+      const stored = failedKeys.has(getKey(path)) ? previousByKey.get(getKey(path)) : path;
+      if (stored) {
+        storedPaths.push(stored);
+      }
+    }
+
+    const redirects = changed.filter(
+      (path) => previousByKey.has(getKey(path)) && !failedKeys.has(getKey(path))
+    );
+    for (const path of redirects) {
+      this.log.info('SEO slug changed - old URL redirects to the new one', {
+        routeName,
+        foreignKey,
+        languageId: path.languageId,
+        from: previousByKey.get(getKey(path))!.seoPathInfo,
+        to: path.seoPathInfo,
+      });
+    }
+
+    return {
+      seoPaths: storedPaths,
+      updated: changed.length - failedKeys.size,
+      redirected: redirects.length,
+      failed: failedKeys.size,
+    };
+  }
+}
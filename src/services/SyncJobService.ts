@@ -0,0 +1,178 @@
+import { PrismaClient, SyncDirection, SyncStatus, SyncType, TenantStatus } from '@prisma/client';
+import type { SyncJob } from '@prisma/client';
+import { getPrismaClient } from '../database/client';
+import { createLogger } from '../utils/logger';
+import type { QueueService } from '../queue/QueueService';
+import type { SyncJobData } from '../types/sync';
+
+// Shopware → Plenty sync types; everything else defaults to Plenty → Shopware
+const SHOPWARE_TO_PLENTY_TYPES: SyncType[] = [SyncType.ORDER, SyncType.CUSTOMER];
+
+export interface TriggerJobOptions {
+  direction?: SyncDirection;
+  priority?: number;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Outcome of a cancel request
+ * - cancelled: the job had not started and will not run
+ * - cancellation-requested: the job is running and stops after its current batch
+ */
+export type CancelJobOutcome = 'cancelled' | 'cancellation-requested';
+
+// Jobs in these states can no longer be cancelled
+export const FINISHED_JOB_STATUSES: SyncStatus[] = [
+  SyncStatus.COMPLETED,
+  SyncStatus.FAILED,
+  SyncStatus.CANCELLED,
+];
+
+/**
+ * Sync Job Service
+ * Creates SyncJob records and queues them for the worker (manual/API triggers)
+ */
+export class SyncJobService {
+  private prisma: PrismaClient;
+  private log = createLogger({ service: 'SyncJobService' });
+
+  constructor(private queueService: QueueService) {
+    this.prisma = getPrismaClient();
+  }
+
+  /**
+   * Create a PENDING job for a tenant and add it to the queue
+   * Throws if the tenant does not exist or is paused. The queue service must be connected.
+   */
+  async triggerJob(tenantId: string, syncType: SyncType, options: TriggerJobOptions = {}): Promise<SyncJob> {
+    const tenant = await this.prisma.tenant.findUnique({ where: { id: tenantId } });
+    if (!tenant) {
+      throw new Error(`Tenant not found: ${tenantId}`);
+    }
+    if (tenant.status === TenantStatus.PAUSED) {
+      throw new Error(`Tenant is paused: ${tenantId}`);
+    }
+
+    const direction =
+      options.direction ??
+      (SHOPWARE_TO_PLENTY_TYPES.includes(syncType)
+        ? SyncDirection.SHOPWARE_TO_PLENTY
+        : SyncDirection.PLENTY_TO_SHOPWARE);
+
+    const syncJob = await this.prisma.syncJob.create({
+      data: {
+        tenantId,
+        syncType,
+        direction,
+        status: SyncStatus.PENDING,
+        ...(options.metadata && { metadata: options.metadata as object }),
+      },
+    });
+
+    const jobData: SyncJobData = {
+      id: syncJob.id,
+      tenantId,
+      syncType,
+      direction,
+      plentyUrl: tenant.plentyUrl,
+      plentyCredentials: tenant.plentyCredentials,
+      shopwareUrl: tenant.shopwareUrl,
+      shopwareCredentials: tenant.shopwareCredentials,
+      metadata: options.metadata,
+    };
+
+    await this.queueService.addJob(jobData, { priority: options.priority ?? 10 });
+
+    this.log.info('Sync job triggered', { jobId: syncJob.id, tenantId, syncType, direction });
+    return syncJob;
+  }
+
+  /**
+   * Cancel a pending or running job
+   * Pending jobs are removed from the queue; running jobs get a Redis flag that the
+   * processors check between batches (the worker then marks them CANCELLED).
+   */
+  async cancelJob(jobId: string): Promise<CancelJobOutcome> {
+    const job = await this.prisma.syncJob.findUnique({ where: { id: jobId } });
+    if (!job) {
+      throw new Error(`Job not found: ${jobId}`);
+    }
+    if (FINISHED_JOB_STATUSES.includes(job.status)) {
+      throw new Error(`Job already finished with status ${job.status}: ${jobId}`);
+    }
+
+    // Set the flag first - covers a worker picking the job up while we cancel it
+    await this.queueService.requestCancellation(jobId);
+    await this.queueService.removeQueuedJob(jobId);
+
+    const { count } = await this.prisma.syncJob.updateMany({
+      where: { id: jobId, status: SyncStatus.PENDING },
+      data: {
+        status: SyncStatus.CANCELLED,
+        completedAt: new Date(),
+        errorMessage: 'Cancelled before start',
+      },
+    });
+
+    const outcome: CancelJobOutcome = count > 0 ? 'cancelled' : 'cancellation-requested';
+    this.log.info('Sync job cancel requested', { jobId, tenantId: job.tenantId, outcome });
+    return outcome;
+  }
+
+  /**
+   * Pause a tenant: the scheduler skips it and its queued jobs are drained
+   * Running jobs are not interrupted - cancel them separately if needed.
+   * Throws if the tenant is not active (suspended tenants stay suspended).
+   * Returns the number of pending jobs that were cancelled.
+   */
+  async pauseTenant(tenantId: string): Promise<number> {
+    const tenant = await this.prisma.tenant.findUnique({ where: { id: tenantId } });
+    if (!tenant) {
+      throw new Error(`Tenant not found: ${tenantId}`);
+    }
+    if (tenant.status !== TenantStatus.ACTIVE) {
+      throw new Error(`Tenant is not active (status ${tenant.status}): ${tenantId}`);
+    }
+
+    await this.prisma.tenant.update({
+      where: { id: tenantId },
+      data: { status: TenantStatus.PAUSED },
+    });
+
+    const removedJobIds = await this.queueService.removeTenantJobs(tenantId);
+
+    // Also covers pending jobs that were no longer in the queue (the worker skips them anyway)
+    const { count } = await this.prisma.syncJob.updateMany({
+      where: { tenantId, status: SyncStatus.PENDING },
+      data: {
+        status: SyncStatus.CANCELLED,
+        completedAt: new Date(),
+        errorMessage: 'Tenant paused',
+      },
+    });
+
+    this.log.info('Tenant paused', { tenantId, removedFromQueue: removedJobIds.length, cancelledJobs: count });
+    return count;
+  }
+
+  /**
+   * Resume a paused tenant - schedules that came due while paused run on the next scheduler cycle
+   * Throws if the tenant is not paused (suspended tenants are not reactivated here).
+   */
+  async resumeTenant(tenantId: string): Promise<void> {
+    const tenant = await this.prisma.tenant.findUnique({ where: { id: tenantId } });
+    if (!tenant) {
+      throw new Error(`Tenant not found: ${tenantId}`);
+    }
+    if (tenant.status !== TenantStatus.PAUSED) {
+      throw new Error(`Tenant is not paused (status ${tenant.status}): ${tenantId}`);
+    }
+
+    await this.prisma.tenant.update({
+      where: { id: tenantId },
+      data: { status: TenantStatus.ACTIVE },
+    });
+
+    this.log.info('Tenant resumed', { tenantId });
+  }
+}
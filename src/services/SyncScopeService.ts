@@ -0,0 +1,176 @@
+import { PrismaClient } from '@prisma/client';
+import { getPrismaClient } from '../database/client';
+import { createLogger } from '../utils/logger';
+import { PlentyClient } from '../clients/PlentyClient';
+import { TenantConfigService } from './TenantConfigService';
+import type { PlentyVariation, PlentyVariationQueryParams } from '../types/plenty';
+import type { ProductSyncScope } from '../types/sync';
+
+export type ScopeQueryParams = Pick<
+  PlentyVariationQueryParams,
+  'itemId' | 'plentyId' | 'referrerId' | 'categoryId' | 'isActive'
+>;
+
+/**
+ * Resolved scope: API filters plus the criteria that must be checked locally
+ */
+export interface ResolvedSyncScope {
+  scope: ProductSyncScope;
+  queryParams: ScopeQueryParams;
+  categoryIds: number[]; // Configured categories expanded to their full subtrees
+}
+
+export interface SyncScopePreview {
+  scope: ProductSyncScope;
+  queryParams: ScopeQueryParams;
+  matchingVariations: number;
+}
+
+/**
+ * Sync Scope Service
+ * Translates the per-tenant product sync scope into Plenty variation filters
+ */
+export class SyncScopeService {
+  private prisma: PrismaClient;
+  private configService: TenantConfigService;
+  private log = createLogger({ service: 'SyncScopeService' });
+
+  constructor() {
+    this.prisma = getPrismaClient();
+    this.configService = new TenantConfigService();
+  }
+
+  /**
+   * Load the tenant's scope and resolve it into API query params
+   */
+  async resolve(tenantId: string): Promise<ResolvedSyncScope> {
+    const scope = await this.configService.getSyncScope(tenantId);
+    const categoryIds = scope.categoryIds?.length
+      ? await this.expandCategorySubtrees(tenantId, scope.categoryIds)
+      : [];
+
+    const queryParams: ScopeQueryParams = {};
+
+    if (scope.itemIds?.length) {
+      queryParams.itemId = scope.itemIds.join(',');
+    }
+
+    if (scope.plentyIds?.length) {
+      queryParams.plentyId = scope.plentyIds.join(',');
+    }
+
+    if (scope.referrerIds?.length) {
+      queryParams.referrerId = scope.referrerIds.join(',');
+    }
+
+    if (categoryIds.length > 0) {
+      queryParams.categoryId = categoryIds.join(',');
+    }
+
+    if (scope.isActive !== undefined) {
+      queryParams.isActive = scope.isActive;
+    }
+
+    this.log.debug('Resolved sync scope', { tenantId, scope, queryParams });
+
+    return { scope, queryParams, categoryIds };
+  }
+
+  /**
+   * Apply the criteria the variations endpoint cannot filter on
+   * Requires the 'item' relation for the item type check
+   */
+  filterVariations(variations: PlentyVariation[], resolved: ResolvedSyncScope): PlentyVariation[] {
+    const { scope } = resolved;
+    const itemIds = scope.itemIds?.length ? new Set(scope.itemIds) : null;
+    const itemTypes = scope.itemTypes?.length ? new Set(scope.itemTypes) : null;
+
+    if (!itemIds && !itemTypes) {
+      return variations;
+    }
+
+    return variations.filter((variation) => {
+      if (itemIds && !itemIds.has(variation.itemId)) {
+        return false;
+      }
+      if (itemTypes && (!variation.item || !itemTypes.has(variation.item.itemType))) {
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Count how many variations the tenant's scope currently matches
+   * Uses the API total when possible; pages through variations when
+   * an item type filter has to be applied locally.
+   */
+  async preview(tenantId: string, plenty: PlentyClient): Promise<SyncScopePreview> {
+    const resolved = await this.resolve(tenantId);
+
+    if (!resolved.scope.itemTypes?.length) {
+      const firstPage = await plenty.getVariations({
+        ...resolved.queryParams,
+        page: 1,
+        itemsPerPage: 1,
+      });
+
+      return {
+        scope: resolved.scope,
+        queryParams: resolved.queryParams,
+        matchingVariations: firstPage.totalsCount,
+      };
+    }
+
+    // Count page by page - only the current page is held in memory
+    let matchingVariations = 0;
+    for await (const page of plenty.iterateVariations({
+      ...resolved.queryParams,
+      with: 'item',
+      itemsPerPage: 250,
+    })) {
+      matchingVariations += this.filterVariations(page.entries, resolved).length;
+    }
+
+    return {
+      scope: resolved.scope,
+      queryParams: resolved.queryParams,
+      matchingVariations,
+    };
+  }
+
+  /**
+   * Expand category IDs to include all descendants (from the cached Plenty category tree)
+   */
+  private async expandCategorySubtrees(tenantId: string, rootIds: number[]): Promise<number[]> {
+    const categories = await this.prisma.plentyCategory.findMany({
+      where: { tenantId },
+      select: { id: true, parentId: true },
+    });
+
+    const childrenByParent = new Map<number, number[]>();
+    for (const category of categories) {
+      if (category.parentId === null) continue;
+      const children = childrenByParent.get(category.parentId) || [];
+      children.push(category.id);
+      childrenByParent.set(category.parentId, children);
+    }
+
+    const result = new Set<number>();
+    const queue = [...rootIds];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (result.has(id)) continue;
+      result.add(id);
+      queue.push(...(childrenByParent.get(id) || []));
+    }
+
+    if (categories.length === 0) {
+      this.log.warn('No cached Plenty categories - category scope not expanded. Run a CONFIG sync first.', {
+        tenantId,
+      });
+    }
+
+    return Array.from(result);
+  }
+}
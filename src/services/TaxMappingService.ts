@@ -0,0 +1,108 @@
+import { createLogger } from '../utils/logger';
+import { TenantConfigService } from './TenantConfigService';
+import type { PlentyClient } from '../clients/PlentyClient';
+import type { IShopwareClient } from '../clients/interfaces';
+
+export interface TaxMappingSuggestion {
+  plentyVatId: number;
+  plentyRate: number;
+  shopwareTaxId: string | null; // Shopware tax with the same rate (null = no match)
+  shopwareTaxName: string | null;
+  currentShopwareTaxId: string | null; // Already configured in taxMappings
+}
+
+/**
+ * Tax data the product transformer needs to resolve a variation's vatId
+ */
+export interface TaxResolutionContext {
+  taxMappings: Record<string, string>; // Plenty vatId -> Shopware tax ID
+  taxRates: Record<string, number>; // Shopware tax ID -> rate
+}
+
+/**
+ * Tax Mapping Service
+ * Maps Plenty VAT IDs (variation.vatId) to Shopware tax entities via the taxMappings config key
+ */
+export class TaxMappingService {
+  private configService: TenantConfigService;
+  private log = createLogger({ service: 'TaxMappingService' });
+
+  constructor() {
+    this.configService = new TenantConfigService();
+  }
+
+  /**
+   * Load the configured mappings and the Shopware tax rates for a product sync
+   */
+  async loadResolutionContext(tenantId: string, shopware: IShopwareClient): Promise<TaxResolutionContext> {
+    const [taxMappings, taxes] = await Promise.all([
+      this.configService.getTaxMappings(tenantId),
+      shopware.getTaxes(),
+    ]);
+
+    if (!taxMappings || Object.keys(taxMappings).length === 0) {
+      this.log.warn(
+        'No taxMappings configured - all products use the default tax. ' +
+          'Run "npm run manage-tax-mappings suggest <tenant-id> --apply" to map Plenty VAT IDs.',
+        { tenantId }
+      );
+    }
+
+    return {
+      taxMappings: taxMappings || {},
+      taxRates: Object.fromEntries(taxes.map((tax) => [tax.id, tax.taxRate])),
+    };
+  }
+
+  /**
+   * Suggest a Shopware tax for each rate of the Plenty standard VAT configuration
+   * Matches by rate; if several Shopware taxes share a rate, the first by position wins.
+   */
+  async suggestMappings(
+    tenantId: string,
+    plenty: PlentyClient,
+    shopware: IShopwareClient
+  ): Promise<TaxMappingSuggestion[]> {
+    const [vat, taxes, currentMappings] = await Promise.all([
+      plenty.getStandardVat(),
+      shopware.getTaxes(),
+      this.configService.getTaxMappings(tenantId),
+    ]);
+
+    return (vat.vatRates || []).map((vatRate) => {
+      const plentyRate = Number(vatRate.rate);
+      const match = taxes.find((tax) => Math.abs(tax.taxRate - plentyRate) < 0.001);
+
+      return {
+        plentyVatId: vatRate.id,
+        plentyRate,
+        shopwareTaxId: match?.id || null,
+        shopwareTaxName: match?.name || null,
+        currentShopwareTaxId: currentMappings?.[String(vatRate.id)] || null,
+      };
+    });
+  }
+
+  /**
+   * Save suggested mappings for VAT IDs that are not mapped yet
+   * Existing mappings are never overwritten. Returns the number of added mappings.
+   */
+  async applySuggestions(tenantId: string, suggestions: TaxMappingSuggestion[]): Promise<number> {
+    const mappings = { ...((await this.configService.getTaxMappings(tenantId)) || {}) };
+    let added = 0;
+
+    for (const suggestion of suggestions) {
+      const key = String(suggestion.plentyVatId);
+      if (mappings[key] || !suggestion.shopwareTaxId) continue;
+      mappings[key] = suggestion.shopwareTaxId;
+      added++;
+    }
+
+    if (added > 0) {
+      await this.configService.setTaxMappings(tenantId, mappings);
+      this.log.info('Applied suggested tax mappings', { tenantId, added });
+    }
+
+    return added;
+  }
+}
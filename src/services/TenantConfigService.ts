@@ -1,6 +1,8 @@
 import { PrismaClient } from '@prisma/client';
 import { getPrismaClient } from '../database/client';
 import { createLogger } from '../utils/logger';
+import { ORPHAN_ENTITY_TYPES, ORPHAN_POLICIES, PRODUCT_DELETION_POLICIES } from '../types/sync';
+import type { OrphanEntityType, OrphanPolicy, ProductDeletionPolicy, ProductSyncScope } from '../types/sync';
 
 /**
  * Well-known configuration keys
@@ -19,22 +21,58 @@ export const ConfigKeys = {
 
   // Mappings
   TAX_MAPPINGS: 'taxMappings', // { plentyTaxId: shopwareTaxId }
+  BARCODE_MAPPINGS: 'barcodeMappings', // { plentyBarcodeId: 'ean' | 'manufacturerNumber' }
+  REFERRER_SALES_CHANNEL_MAPPINGS: 'referrerSalesChannelMappings', // { plentyReferrerId: shopwareSalesChannelId } - sales price rule conditions
 
   // Shopware System Defaults (UUIDs fetched from Shopware)
   SHOPWARE_DEFAULT_TAX_ID: 'shopwareDefaultTaxId', // Shopware UUID for default tax rate
   SHOPWARE_DEFAULT_TAX_RATE: 'shopwareDefaultTaxRate', // Tax rate as number (e.g., 19)
   SHOPWARE_DEFAULT_CURRENCY_ID: 'shopwareDefaultCurrencyId', // Shopware UUID for default currency
+  SHOPWARE_CURRENCIES: 'shopwareCurrencies', // { isoCode: { id, factor } } - Shopware currencies of the last product sync
+  SHOPWARE_LANGUAGES: 'shopwareLanguages', // { localeCode: languageId } - cached Shopware languages (SEO URLs)
 
   // Category Configuration
   SHOPWARE_ROOT_CATEGORY_ID: 'shopwareRootCategoryId', // Shopware navigation root category UUID - all Plenty categories will be children of this
+  SHOPWARE_ROOT_CATEGORY_IDS_BY_PLENTY_ID: 'shopwareRootCategoryIdsByPlentyId', // { plentyId: shopwareRootCategoryId } - per-client navigation roots (fallback: shopwareRootCategoryId)
   SHOPWARE_DEFAULT_CMS_PAGE_ID: 'shopwareDefaultCmsPageId', // Shopware CMS page UUID for product listings (required for products to show in categories)
 
   // Sales Channel Configuration
   SHOPWARE_SALES_CHANNEL_ID: 'shopwareSalesChannelId', // Shopware sales channel UUID - products will be visible in this channel
+
+  // Product Selection
+  SYNC_SCOPE: 'syncScope', // { itemIds, plentyIds, referrerIds, categoryIds, isActive, itemTypes } - which Plenty products to sync
+
+  // Deletion Propagation (full syncs)
+  PRODUCT_DELETION_POLICY: 'productDeletionPolicy', // 'deactivate' | 'delete' | 'hide-from-sales-channel' | 'report-only' (default)
+  PRODUCT_DELETION_THRESHOLD_PERCENT: 'productDeletionThresholdPercent', // Abort if more than N% of the catalog would be removed (default: 10)
+
+  // Orphaned Config Entities (config syncs)
+  ORPHAN_POLICIES: 'orphanPolicies', // { categories | attributes | properties | manufacturers | units: 'keep' (default) | 'deactivate' | 'delete' | 'unlink' }
+
+  // Order Import (Shopware → Plenty)
+  ORDER_PLENTY_ID: 'orderPlentyId', // Plenty client (plentyId) imported orders are assigned to
+  ORDER_REFERRER_ID: 'orderReferrerId', // Plenty referrer ID for imported orders
+  ORDER_STATUS_ID: 'orderStatusId', // Initial Plenty order status (e.g. 3)
+  ORDER_PAYMENT_METHOD_MAPPINGS: 'orderPaymentMethodMappings', // { shopwarePaymentMethodId: plentyMethodOfPaymentId }
+
+  // Customer Sync (Shopware → Plenty)
+  CUSTOMER_GROUP_MAPPINGS: 'customerGroupMappings', // { shopwareCustomerGroupId: plentyCustomerClassId }
+
+  // Stock Write-Back (Shopware → Plenty, STOCK sync with SHOPWARE_TO_PLENTY / BI_DIRECTIONAL)
+  STOCK_WRITE_BACK_WAREHOUSE_ID: 'stockWriteBackWarehouseId', // Plenty warehouse Shopware stock corrections are booked into
+  STOCK_CORRECTION_REASON_ID: 'stockCorrectionReasonId', // Plenty stock correction reason (default: 301)
+
+  // Shopware Connection
+  USE_MOCK_SHOPWARE: 'useMockShopware', // true = write to mock tables, false = use tenant's real Shopware API
 } as const;
 
 export type ConfigKey = (typeof ConfigKeys)[keyof typeof ConfigKeys];
 
+/**
+ * Shopware product fields a Plenty barcode can be written to
+ */
+export type BarcodeTargetField = 'ean' | 'manufacturerNumber';
+
 /**
  * Tenant Configuration Service
  * Provides type-safe access to tenant-specific configuration values
@@ -271,6 +309,13 @@ export class TenantConfigService {
     return this.getMapping(tenantId, ConfigKeys.TAX_MAPPINGS);
   }
 
+  /**
+   * Set tax ID mappings (Plenty tax ID -> Shopware tax ID)
+   */
+  async setTaxMappings(tenantId: string, mappings: Record<string, string>): Promise<void> {
+    await this.set(tenantId, ConfigKeys.TAX_MAPPINGS, mappings, 'Plenty VAT ID -> Shopware tax ID');
+  }
+
   /**
    * Get Shopware tax ID for a Plenty tax ID
    */
@@ -280,6 +325,25 @@ export class TenantConfigService {
     return mappings[String(plentyTaxId)] || null;
   }
 
+  /**
+   * Get barcode mappings (Plenty barcode type ID -> Shopware product field)
+   * Entries with an unknown target field are ignored
+   */
+  async getBarcodeMappings(tenantId: string): Promise<Record<string, BarcodeTargetField>> {
+    const mappings = await this.getMapping(tenantId, ConfigKeys.BARCODE_MAPPINGS);
+    const result: Record<string, BarcodeTargetField> = {};
+
+    for (const [barcodeId, field] of Object.entries(mappings || {})) {
+      if (field === 'ean' || field === 'manufacturerNumber') {
+        result[barcodeId] = field;
+      } else {
+        this.log.warn('Ignoring barcode mapping with unknown target field', { tenantId, barcodeId, field });
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Get property referrers to import (defaults to ["1.00"] for webshop)
    */
@@ -398,6 +462,67 @@ export class TenantConfigService {
     ]);
   }
 
+  /**
+   * Get the cached Shopware currencies by ISO code
+   * Returns null if not cached yet (fetch with IShopwareClient.getCurrencies)
+   */
+  async getShopwareCurrencies(
+    tenantId: string
+  ): Promise<Record<string, { id: string; factor: number }> | null> {
+    const value = await this.get<Record<string, { id: string; factor: number }>>(
+      tenantId,
+      ConfigKeys.SHOPWARE_CURRENCIES
+    );
+    if (value === null) return null;
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      this.log.warn('Config value is not an object', { tenantId, key: ConfigKeys.SHOPWARE_CURRENCIES });
+      return null;
+    }
+    return value;
+  }
+
+  /**
+   * Cache the Shopware currencies by ISO code (refreshed by every product sync)
+   */
+  async setShopwareCurrencies(
+    tenantId: string,
+    currencies: Record<string, { id: string; factor: number }>
+  ): Promise<void> {
+    await this.set(
+      tenantId,
+      ConfigKeys.SHOPWARE_CURRENCIES,
+      currencies,
+      'Shopware currencies by ISO code (auto-fetched from Shopware)'
+    );
+  }
+
+  /**
+   * Get the cached Shopware language IDs by locale code (e.g. 'de-DE')
+   * Returns null if not cached yet (fetch with IShopwareClient.getLanguages)
+   */
+  async getShopwareLanguages(tenantId: string): Promise<Record<string, string> | null> {
+    const value = await this.get<Record<string, string>>(tenantId, ConfigKeys.SHOPWARE_LANGUAGES);
+    if (value === null) return null;
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      this.log.warn('Config value is not an object', { tenantId, key: ConfigKeys.SHOPWARE_LANGUAGES });
+      return null;
+    }
+    return value;
+  }
+
+  /**
+   * Cache the Shopware language IDs by locale code
+   * Delete the key to refresh after adding languages in Shopware
+   */
+  async setShopwareLanguages(tenantId: string, languages: Record<string, string>): Promise<void> {
+    await this.set(
+      tenantId,
+      ConfigKeys.SHOPWARE_LANGUAGES,
+      languages,
+      'Shopware language IDs by locale code (auto-fetched from Shopware)'
+    );
+  }
+
   // ============================================
   // CATEGORY CONFIGURATION
   // ============================================
@@ -423,6 +548,15 @@ export class TenantConfigService {
     );
   }
 
+  /**
+   * Get the Shopware navigation root per Plenty client (plentyId -> Shopware category UUID)
+   * Lets one Plenty system feed several storefront navigations. Categories of clients without
+   * an entry use shopwareRootCategoryId.
+   */
+  async getShopwareRootCategoryIdsByPlentyId(tenantId: string): Promise<Record<string, string>> {
+    return (await this.getMapping(tenantId, ConfigKeys.SHOPWARE_ROOT_CATEGORY_IDS_BY_PLENTY_ID)) || {};
+  }
+
   /**
    * Get Shopware default CMS page ID for categories
    * This is required for products to display in category listings
@@ -468,4 +602,229 @@ export class TenantConfigService {
       'Shopware sales channel - products will be visible in this storefront'
     );
   }
+
+  // ============================================
+  // PRODUCT SELECTION
+  // ============================================
+
+  /**
+   * Get the product sync scope
+   * Returns an empty scope (whole catalog) if not configured
+   */
+  async getSyncScope(tenantId: string): Promise<ProductSyncScope> {
+    const scope = await this.get<ProductSyncScope>(tenantId, ConfigKeys.SYNC_SCOPE);
+    if (!scope || typeof scope !== 'object' || Array.isArray(scope)) {
+      return {};
+    }
+    return scope;
+  }
+
+  /**
+   * Set the product sync scope
+   */
+  async setSyncScope(tenantId: string, scope: ProductSyncScope): Promise<void> {
+    await this.set(
+      tenantId,
+      ConfigKeys.SYNC_SCOPE,
+      scope,
+      'Product selection scope - which Plenty items/variations are synced'
+    );
+  }
+
+  /**
+   * Get the deletion propagation settings
+   * Defaults to report-only with a 10% safety threshold
+   */
+  async getProductDeletionSettings(tenantId: string): Promise<{
+    policy: ProductDeletionPolicy;
+    thresholdPercent: number;
+  }> {
+    const [policy, thresholdPercent] = await Promise.all([
+      this.getString(tenantId, ConfigKeys.PRODUCT_DELETION_POLICY),
+      this.getNumber(tenantId, ConfigKeys.PRODUCT_DELETION_THRESHOLD_PERCENT),
+    ]);
+
+    const isKnownPolicy = PRODUCT_DELETION_POLICIES.includes(policy as ProductDeletionPolicy);
+    if (policy && !isKnownPolicy) {
+      this.log.warn('Unknown product deletion policy - falling back to report-only', { tenantId, policy });
+    }
+
+    return {
+      policy: isKnownPolicy ? (policy as ProductDeletionPolicy) : 'report-only',
+      thresholdPercent: thresholdPercent ?? 10,
+    };
+  }
+
+  // ============================================
+  // ORPHANED CONFIG ENTITIES
+  // ============================================
+
+  /**
+   * Get the orphan policy of every config entity type
+   * Defaults to keep; 'deactivate' is only supported for categories
+   */
+  async getOrphanPolicies(tenantId: string): Promise<Record<OrphanEntityType, OrphanPolicy>> {
+    const configured = (await this.get<Record<string, string>>(tenantId, ConfigKeys.ORPHAN_POLICIES)) || {};
+
+    const policies = {} as Record<OrphanEntityType, OrphanPolicy>;
+    for (const entityType of ORPHAN_ENTITY_TYPES) {
+      const policy = configured[entityType];
+      const isSupported =
+        ORPHAN_POLICIES.includes(policy as OrphanPolicy) &&
+        (policy !== 'deactivate' || entityType === 'categories');
+      if (policy && !isSupported) {
+        this.log.warn('Unsupported orphan policy - falling back to keep', { tenantId, entityType, policy });
+      }
+      policies[entityType] = isSupported ? (policy as OrphanPolicy) : 'keep';
+    }
+
+    return policies;
+  }
+
+  /**
+   * Set the orphan policies (entity types not given keep their current policy)
+   */
+  async setOrphanPolicies(
+    tenantId: string,
+    policies: Partial<Record<OrphanEntityType, OrphanPolicy>>
+  ): Promise<void> {
+    const current = (await this.get<Record<string, string>>(tenantId, ConfigKeys.ORPHAN_POLICIES)) || {};
+    await this.set(
+      tenantId,
+      ConfigKeys.ORPHAN_POLICIES,
+      { ...current, ...policies },
+      'What happens to Shopware config entities that no longer exist in Plenty'
+    );
+  }
+
+  // ============================================
+  // ORDER IMPORT CONFIGURATION
+  // ============================================
+
+  /**
+   * Get all settings needed to import Shopware orders into Plenty
+   * plentyId is required - the others fall back to Plenty defaults when null
+   */
+  async getOrderImportSettings(tenantId: string): Promise<{
+    plentyId: number | null;
+    referrerId: number | null;
+    statusId: number | null;
+    paymentMethodMappings: Record<string, string>;
+  }> {
+    const [plentyId, referrerId, statusId, paymentMethodMappings] = await Promise.all([
+      this.getNumber(tenantId, ConfigKeys.ORDER_PLENTY_ID),
+      this.getNumber(tenantId, ConfigKeys.ORDER_REFERRER_ID),
+      this.getNumber(tenantId, ConfigKeys.ORDER_STATUS_ID),
+      this.getMapping(tenantId, ConfigKeys.ORDER_PAYMENT_METHOD_MAPPINGS),
+    ]);
+
+    return {
+      plentyId,
+      referrerId,
+      statusId,
+      paymentMethodMappings: paymentMethodMappings || {},
+    };
+  }
+
+  // ============================================
+  // CUSTOMER SYNC CONFIGURATION
+  // ============================================
+
+  /**
+   * Get all settings needed to sync Shopware customers into Plenty
+   * Contacts are assigned to the same client/referrer as imported orders
+   */
+  async getCustomerSyncSettings(tenantId: string): Promise<{
+    plentyId: number | null;
+    referrerId: number | null;
+    customerGroupMappings: Record<string, string>;
+  }> {
+    const [plentyId, referrerId, customerGroupMappings] = await Promise.all([
+      this.getNumber(tenantId, ConfigKeys.ORDER_PLENTY_ID),
+      this.getNumber(tenantId, ConfigKeys.ORDER_REFERRER_ID),
+      this.getMapping(tenantId, ConfigKeys.CUSTOMER_GROUP_MAPPINGS),
+    ]);
+
+    return {
+      plentyId,
+      referrerId,
+      customerGroupMappings: customerGroupMappings || {},
+    };
+  }
+
+  // ============================================
+  // SALES PRICE RULE CONFIGURATION
+  // ============================================
+
+  /**
+   * Get the mappings used to turn Plenty sales price restrictions into Shopware rule conditions
+   * Customer classes use the CUSTOMER sync group mappings in reverse (class → groups)
+   */
+  async getSalesPriceRuleMappings(tenantId: string): Promise<{
+    customerGroupsByClassId: Record<string, string[]>;
+    salesChannelsByReferrerId: Record<string, string>;
+  }> {
+    const [customerGroupMappings, referrerMappings] = await Promise.all([
+      this.getMapping(tenantId, ConfigKeys.CUSTOMER_GROUP_MAPPINGS),
+      this.getMapping(tenantId, ConfigKeys.REFERRER_SALES_CHANNEL_MAPPINGS),
+    ]);
+
+    const customerGroupsByClassId: Record<string, string[]> = {};
+    for (const [groupId, classId] of Object.entries(customerGroupMappings || {})) {
+      const key = String(classId);
+      customerGroupsByClassId[key] = [...(customerGroupsByClassId[key] || []), groupId];
+    }
+
+    return {
+      customerGroupsByClassId,
+      salesChannelsByReferrerId: referrerMappings || {},
+    };
+  }
+
+  // ============================================
+  // STOCK WRITE-BACK CONFIGURATION
+  // ============================================
+
+  /**
+   * Get settings for writing Shopware stock changes back to Plenty
+   * warehouseId is required for write-back - reasonId defaults to 301
+   */
+  async getStockWriteBackSettings(tenantId: string): Promise<{
+    warehouseId: number | null;
+    reasonId: number;
+  }> {
+    const [warehouseId, reasonId] = await Promise.all([
+      this.getNumber(tenantId, ConfigKeys.STOCK_WRITE_BACK_WAREHOUSE_ID),
+      this.getNumber(tenantId, ConfigKeys.STOCK_CORRECTION_REASON_ID),
+    ]);
+
+    return {
+      warehouseId,
+      reasonId: reasonId ?? 301,
+    };
+  }
+
+  // ============================================
+  // SHOPWARE CONNECTION
+  // ============================================
+
+  /**
+   * Get whether this tenant should use the mock Shopware client
+   * Returns null if not configured (caller falls back to the USE_MOCK_SHOPWARE env default)
+   */
+  async getUseMockShopware(tenantId: string): Promise<boolean | null> {
+    return this.getBoolean(tenantId, ConfigKeys.USE_MOCK_SHOPWARE);
+  }
+
+  /**
+   * Set whether this tenant should use the mock Shopware client
+   */
+  async setUseMockShopware(tenantId: string, useMock: boolean): Promise<void> {
+    await this.set(
+      tenantId,
+      ConfigKeys.USE_MOCK_SHOPWARE,
+      useMock,
+      'Use mock Shopware tables instead of the tenant Shopware API'
+    );
+  }
 }
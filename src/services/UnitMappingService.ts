@@ -257,4 +257,57 @@ export class UnitMappingService {
 
     return result.count;
   }
+
+  /**
+   * Get all orphaned unit mappings for a tenant
+   */
+  async getOrphanedMappings(tenantId: string): Promise<{
+    plentyUnitId: number;
+    shopwareUnitId: string;
+    mappingType: MappingType;
+  }[]> {
+    return this.prisma.unitMapping.findMany({
+      where: {
+        tenantId,
+        status: MappingStatus.ORPHANED,
+      },
+      select: {
+        plentyUnitId: true,
+        shopwareUnitId: true,
+        mappingType: true,
+      },
+    });
+  }
+
+  /**
+   * Reactivate orphaned unit mappings (if the unit reappears in Plenty)
+   */
+  async reactivateMappings(tenantId: string, plentyIds: number[]): Promise<number> {
+    if (plentyIds.length === 0) {
+      return 0;
+    }
+
+    const result = await this.prisma.unitMapping.updateMany({
+      where: {
+        tenantId,
+        plentyUnitId: {
+          in: plentyIds,
+        },
+        status: MappingStatus.ORPHANED,
+      },
+      data: {
+        status: MappingStatus.ACTIVE,
+        lastSeenAt: new Date(),
+      },
+    });
+
+    if (result.count > 0) {
+      this.log.info('Reactivated orphaned unit mappings', {
+        tenantId,
+        count: result.count,
+      });
+    }
+
+    return result.count;
+  }
 }
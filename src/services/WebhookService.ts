@@ -0,0 +1,204 @@
+import { PrismaClient, SyncType, TenantStatus } from '@prisma/client';
+import { getPrismaClient } from '../database/client';
+import { createLogger } from '../utils/logger';
+import { verifyToken } from '../utils/encryption';
+import type { SyncJobService } from './SyncJobService';
+
+/**
+ * Plenty events the webhook receiver accepts
+ */
+export type WebhookEvent = 'item.changed' | 'stock.changed' | 'order.created';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['item.changed', 'stock.changed', 'order.created'];
+
+// New orders reserve stock in Plenty - they trigger a stock sync of the ordered variations
+const SYNC_TYPE_BY_EVENT: Record<WebhookEvent, SyncType> = {
+  'item.changed': SyncType.PRODUCT_DELTA,
+  'stock.changed': SyncType.STOCK,
+  'order.created': SyncType.STOCK,
+};
+
+// Above this, a batch runs as a regular (untargeted) job instead
+const MAX_TARGETED_VARIATIONS = 1000;
+
+export interface WebhookDebounceConfig {
+  debounceMs: number; // Quiet period after the last event before the job is queued
+  maxWaitMs: number; // Queue at the latest this long after the first event of a burst
+}
+
+export interface WebhookEnqueueResult {
+  syncType: SyncType;
+  targeted: boolean; // false = the batch runs as a regular job for the whole catalog
+  pendingVariations: number;
+}
+
+/**
+ * Events of one tenant and sync type collected during the debounce window
+ */
+interface PendingBatch {
+  tenantId: string;
+  syncType: SyncType;
+  variationIds: Set<number>;
+  untargeted: boolean; // An event without variation IDs, or too many IDs
+  events: number;
+  firstEventAt: number;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Webhook Service
+ * Turns Plenty event procedure calls into targeted sync jobs
+ *
+ * Key features:
+ * - Per-tenant shared secret (only its SHA-256 hash is stored on the tenant)
+ * - Bursts of events are coalesced per tenant and sync type into one job
+ * - Pending batches live in memory; the scheduled delta sync catches up after a restart
+ */
+export class WebhookService {
+  private prisma: PrismaClient;
+  private pending = new Map<string, PendingBatch>();
+  private log = createLogger({ service: 'WebhookService' });
+
+  constructor(
+    private syncJobService: SyncJobService,
+    private config: WebhookDebounceConfig
+  ) {
+    this.prisma = getPrismaClient();
+  }
+
+  /**
+   * Check a webhook secret against the tenant's stored hash
+   * Returns false for unknown tenants and tenants without webhooks
+   */
+  async authenticate(tenantId: string, secret: string): Promise<boolean> {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { webhookSecretHash: true },
+    });
+
+    return !!tenant?.webhookSecretHash && verifyToken(secret, tenant.webhookSecretHash);
+  }
+
+  /**
+   * Check whether the tenant currently accepts jobs
+   */
+  async isTenantActive(tenantId: string): Promise<boolean> {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { status: true },
+    });
+
+    return tenant?.status === TenantStatus.ACTIVE;
+  }
+
+  // ============================================
+  // DEBOUNCING
+  // ============================================
+
+  /**
+   * Add an event to the tenant's pending batch for its sync type
+   * The job is queued once no new event arrived for debounceMs, or maxWaitMs after the first event.
+   * @param variationIds - Affected variations; empty = sync everything changed
+   */
+  enqueue(tenantId: string, event: WebhookEvent, variationIds: number[]): WebhookEnqueueResult {
+    const syncType = SYNC_TYPE_BY_EVENT[event];
+    const key = `${tenantId}:${syncType}`;
+    const now = Date.now();
+
+    let batch = this.pending.get(key);
+    if (batch) {
+      clearTimeout(batch.timer);
+    } else {
+      batch = {
+        tenantId,
+        syncType,
+        variationIds: new Set(),
+        untargeted: false,
+        events: 0,
+        firstEventAt: now,
+        timer: undefined!,
+      };
+      this.pending.set(key, batch);
+    }
+
+    batch.events++;
+    if (variationIds.length === 0) {
+      batch.untargeted = true;
+    }
+    for (const variationId of variationIds) {
+      batch.variationIds.add(variationId);
+    }
+    if (batch.variationIds.size > MAX_TARGETED_VARIATIONS) {
+      batch.untargeted = true;
+    }
+
+    const delay = Math.max(
+      0,
+      Math.min(this.config.debounceMs, batch.firstEventAt + this.config.maxWaitMs - now)
+    );
+    batch.timer = setTimeout(() => void this.flush(key), delay);
+
+    this.log.debug('Webhook event queued', {
+      tenantId,
+      event,
+      syncType,
+      delay,
+      pending: batch.variationIds.size,
+    });
+
+    return {
+      syncType,
+      targeted: !batch.untargeted,
+      pendingVariations: batch.variationIds.size,
+    };
+  }
+
+  /**
+   * Queue the jobs of all pending batches now (on shutdown)
+   */
+  async flushAll(): Promise<void> {
+    const keys = Array.from(this.pending.keys());
+    for (const key of keys) {
+      clearTimeout(this.pending.get(key)!.timer);
+      await this.flush(key);
+    }
+  }
+
+  /**
+   * Queue the job for a pending batch
+   */
+  private async flush(key: string): Promise<void> {
+    const batch = this.pending.get(key);
+    if (!batch) {
+      return;
+    }
+    this.pending.delete(key);
+
+    const variationIds = batch.untargeted ? [] : Array.from(batch.variationIds);
+
+    try {
+      const job = await this.syncJobService.triggerJob(batch.tenantId, batch.syncType, {
+        metadata: {
+          triggeredBy: 'webhook',
+          webhookEvents: batch.events,
+          ...(variationIds.length > 0 && { variationIds }),
+        },
+      });
+
+      this.log.info('Webhook batch queued', {
+        tenantId: batch.tenantId,
+        syncType: batch.syncType,
+        jobId: job.id,
+        events: batch.events,
+        variationIds: variationIds.length || 'all',
+      });
+    } catch (error) {
+      this.log.error('Failed to queue webhook batch', {
+        tenantId: batch.tenantId,
+        syncType: batch.syncType,
+        events: batch.events,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -1,4 +1,5 @@
 export * from './ProductMappingService';
+export * from './ProductReconciliationService';
 export * from './CategoryMappingService';
 export * from './CategorySyncService';
 export * from './AttributeMappingService';
@@ -8,3 +9,12 @@ export * from './ManufacturerMappingService';
 export * from './ManufacturerSyncService';
 export * from './UnitMappingService';
 export * from './UnitSyncService';
+export * from './OrderMappingService';
+export * from './CustomerMappingService';
+export * from './SalesPriceRuleService';
+export * from './TaxMappingService';
+export * from './DeliveryTimeMappingService';
+export * from './SyncJobService';
+export * from './WebhookService';
+export * from './SeoUrlService';
+export * from './OrphanPolicyService';
@@ -0,0 +1,183 @@
+import type {
+  PlentyAddressCreateRequest,
+  PlentyContactCreateRequest,
+  PlentyContactUpdateRequest,
+  PlentyContactOption,
+  PlentyContactOptionRequest,
+} from '../types/plenty';
+import type { ShopwareOrderAddress } from '../types/shopware';
+
+const PLENTY_CONTACT_TYPE_CUSTOMER = 1;
+const PLENTY_CONTACT_OPTION_EMAIL = 2;
+const PLENTY_CONTACT_OPTION_SUBTYPE_PRIVATE = 4;
+const PLENTY_ADDRESS_OPTION_TELEPHONE = 4;
+const PLENTY_ADDRESS_OPTION_EMAIL = 5;
+
+/**
+ * Customer data needed to build a Plenty contact
+ * Satisfied by both ShopwareOrderCustomer and ShopwareCustomer
+ */
+export interface ContactSource {
+  email: string;
+  firstName: string;
+  lastName: string;
+  salutation?: string;
+  customerNumber?: string;
+}
+
+export interface ContactTransformOptions {
+  plentyId?: number;
+  referrerId?: number;
+  classId?: number;
+}
+
+/**
+ * Contact Transformer
+ * Transforms Shopware customers and addresses to Plenty contact/address format
+ */
+export class ContactTransformer {
+  /**
+   * Build a Plenty contact create/update request
+   */
+  toPlentyContact(
+    source: ContactSource,
+    options: ContactTransformOptions = {}
+  ): PlentyContactCreateRequest {
+    return {
+      typeId: PLENTY_CONTACT_TYPE_CUSTOMER,
+      firstName: source.firstName,
+      lastName: source.lastName,
+      gender: this.mapSalutation(source.salutation),
+      plentyId: options.plentyId,
+      referrerId: options.referrerId,
+      classId: options.classId,
+      externalId: source.customerNumber,
+      options: [this.toPlentyEmailOption(source.email)],
+    };
+  }
+
+  /**
+   * Build a Plenty contact update request
+   * Contact options (email) are left out - sending them on update would add duplicates.
+   * A changed email updates the existing option instead (toPlentyEmailOptionChange).
+   */
+  toPlentyContactUpdate(
+    source: ContactSource,
+    options: ContactTransformOptions = {}
+  ): PlentyContactUpdateRequest {
+    return {
+      firstName: source.firstName,
+      lastName: source.lastName,
+      gender: this.mapSalutation(source.salutation),
+      plentyId: options.plentyId,
+      referrerId: options.referrerId,
+      classId: options.classId,
+      externalId: source.customerNumber,
+    };
+  }
+
+  /**
+   * Build the change of the contact's email option from its current options
+   * Returns null if the email is unchanged; without an email option a new one is returned
+   */
+  toPlentyEmailOptionChange(
+    currentOptions: PlentyContactOption[],
+    email: string
+  ): { optionId?: number; option: PlentyContactOptionRequest } | null {
+    const emailOptions = currentOptions.filter((o) => o.typeId === PLENTY_CONTACT_OPTION_EMAIL);
+    const current =
+      emailOptions.find((o) => o.subTypeId === PLENTY_CONTACT_OPTION_SUBTYPE_PRIVATE) ||
+      emailOptions[0];
+
+    if (!current) {
+      return { option: this.toPlentyEmailOption(email) };
+    }
+    if (current.value.toLowerCase() === email.toLowerCase()) {
+      return null;
+    }
+    return {
+      optionId: current.id,
+      option: {
+        typeId: current.typeId,
+        subTypeId: current.subTypeId,
+        value: email,
+        priority: current.priority,
+      },
+    };
+  }
+
+  private toPlentyEmailOption(email: string): PlentyContactOptionRequest {
+    return {
+      typeId: PLENTY_CONTACT_OPTION_EMAIL,
+      subTypeId: PLENTY_CONTACT_OPTION_SUBTYPE_PRIVATE,
+      value: email,
+      priority: 0,
+    };
+  }
+
+  /**
+   * Build a Plenty address from a Shopware address
+   * Throws if the country cannot be resolved to a Plenty country ID
+   */
+  toPlentyAddress(
+    address: ShopwareOrderAddress,
+    countryIdsByIso: Map<string, number>,
+    contact: { email?: string; salutation?: string } = {}
+  ): PlentyAddressCreateRequest {
+    const countryId = address.countryIso
+      ? countryIdsByIso.get(address.countryIso.toUpperCase())
+      : undefined;
+
+    if (!countryId) {
+      throw new Error(`Unknown country for address: ${address.countryIso || '(none)'}`);
+    }
+
+    const { street, houseNumber } = this.splitStreet(address.street);
+    const additionalLines = [address.additionalAddressLine1, address.additionalAddressLine2]
+      .filter(Boolean)
+      .join(', ');
+
+    const options: Array<{ typeId: number; value: string }> = [];
+    if (contact.email) {
+      options.push({ typeId: PLENTY_ADDRESS_OPTION_EMAIL, value: contact.email });
+    }
+    if (address.phoneNumber) {
+      options.push({ typeId: PLENTY_ADDRESS_OPTION_TELEPHONE, value: address.phoneNumber });
+    }
+
+    return {
+      gender: this.mapSalutation(contact.salutation),
+      name1: address.company,
+      name2: address.firstName,
+      name3: address.lastName,
+      address1: street,
+      address2: houseNumber,
+      address3: additionalLines || undefined,
+      postalCode: address.zipcode,
+      town: address.city,
+      countryId,
+      options,
+    };
+  }
+
+  /**
+   * Split "Musterstraße 12a" into street and house number
+   * Plenty stores them separately (address1/address2)
+   */
+  splitStreet(value: string): { street: string; houseNumber?: string } {
+    const match = value.trim().match(/^(.*\S)\s+(\d+\s*[a-zA-Z]?(?:\s*[-/]\s*\d+\s*[a-zA-Z]?)?)$/);
+    if (!match) {
+      return { street: value.trim() };
+    }
+    return { street: match[1], houseNumber: match[2] };
+  }
+
+  /**
+   * Map Shopware salutation key to Plenty gender
+   */
+  mapSalutation(salutation?: string): 'male' | 'female' | undefined {
+    if (salutation === 'mr') return 'male';
+    if (salutation === 'mrs') return 'female';
+    return undefined;
+  }
+}
@@ -1,13 +1,33 @@
 import { PrismaClient, MediaSourceType } from '@prisma/client';
 import { getPrismaClient } from '../database/client';
 import { createLogger, generateDeterministicUuid } from '../utils';
-import type { PlentyVariation, PlentyItemImage, PlentyItemProperty } from '../types/plenty';
-import type { ShopwareProduct, ShopwareProductMedia, ShopwarePropertyOption, ShopwareProductTranslation } from '../types/shopware';
+import type { PlentyVariation, PlentyItemImage, PlentyItemImageName, PlentyItemProperty, PlentySalesPrice } from '../types/plenty';
+import type {
+  ShopwarePrice,
+  ShopwareProduct,
+  ShopwareProductMedia,
+  ShopwareMediaTranslation,
+  ShopwareProductPrice,
+  ShopwarePropertyOption,
+  ShopwareProductTranslation,
+  ShopwareSeoPath,
+} from '../types/shopware';
 import type { FieldMapping, TransformationRule } from '../types/sync';
 import type { IShopwareClient } from '../clients/interfaces';
+import type { BarcodeTargetField } from '../services/TenantConfigService';
+import { buildSeoPaths } from '../services/SeoUrlService';
+import type { MediaSourceVersion } from '../services/MediaMappingService';
 
 const DEFAULT_CURRENCY_ID = 'EUR';
 const DEFAULT_TAX_RATE = 19; // German VAT
+const SHOPWARE_SYSTEM_LANGUAGE_ID = '2fbb5fe2e29a4d70aa5854ce7ce3e20b'; // Defaults::LANGUAGE_SYSTEM
+
+// Reference amount for the base price per unit of measurement (ISO codes as used by Plenty)
+// Grams and millilitres are shown per kilogram / litre, everything else per 1 unit
+const REFERENCE_UNITS: Record<string, number> = {
+  GRM: 1000,
+  MLT: 1000,
+};
 
 // Language code mapping: Plenty -> Shopware
 const LOCALE_MAP: Record<string, string> = {
@@ -32,8 +52,14 @@ const LOCALE_MAP: Record<string, string> = {
 interface LocalConfig {
   categories: Map<number, { id: number; names: Record<string, string> | null }>;
   attributes: Map<number, { id: number; names: Record<string, string> | null; backendName: string }>;
-  salesPrices: Map<number, { id: number; type: string; currency: string | null }>;
+  salesPrices: Map<
+    number,
+    { id: number; type: string; currencies: string[]; minimumOrderQuantity: number } // currencies: ISO codes, empty = all
+  >;
   salesPriceMappings: Map<number, { shopwarePriceId: string; mappingType: string }>;
+  manufacturerMappings: Map<number, string>; // Plenty manufacturer ID -> Shopware manufacturer ID
+  unitMappings: Map<number, { shopwareUnitId: string; unitOfMeasurement: string | null }>;
+  deliveryTimeMappings: Map<number, string>; // Plenty availability ID -> Shopware delivery time ID
 }
 
 export interface TransformContext {
@@ -45,8 +71,15 @@ export interface TransformContext {
   defaultTaxId?: string;
   defaultTaxRate?: number;
   defaultCurrencyId?: string;
+  taxMappings?: Record<string, string>; // Plenty vatId -> Shopware tax ID
+  taxRates?: Record<string, number>; // Shopware tax ID -> rate
+  currencies?: Record<string, { id: string; factor: number }>; // Shopware currencies by ISO code
+  barcodeMappings?: Record<string, BarcodeTargetField>; // Plenty barcode type ID -> product field
   // Sales channel for product visibility (required for products to appear in storefront)
   salesChannelId?: string;
+  languageIds?: Record<string, string>; // Shopware locale code -> language ID (SEO URLs, media texts)
+  refreshMedia?: boolean; // Upload all images again, even if unchanged in Plenty
+  refreshedMediaUrls?: Set<string>; // Images already uploaded again by this job (refreshMedia)
 }
 
 /**
@@ -103,6 +136,11 @@ export class ProductTransformer {
           visibility: 30, // 30 = visible in both search and listings
         },
       ];
+
+      // SEO URLs from the Plenty slugs (variants share the item's slug, so only parents get them)
+      if (context.languageIds) {
+        product._seoPaths = this.buildSeoPaths(variation, context.salesChannelId, context.languageIds);
+      }
     }
 
     return product;
@@ -169,8 +207,12 @@ export class ProductTransformer {
     // Get text in preferred language (de first, then en, then first available)
     const text = this.getVariationText(variation, ['de', 'en']);
 
+    // Resolve tax from the variation's VAT ID (falls back to the Shopware default tax)
+    const tax = this.resolveTax(variation, context);
+
     // Transform prices (with currencyId from context)
-    const prices = this.transformPrices(variation, config, context);
+    const prices = this.transformPrices(variation, config, context, tax.taxRate);
+    const defaultCurrencyIso = this.getDefaultCurrencyIso(context);
 
     // Calculate stock
     const stock = this.calculateStock(variation);
@@ -183,13 +225,20 @@ export class ProductTransformer {
       stock: stock,
       active: variation.isActive ?? true,
       price: prices,
-      // taxId is REQUIRED by Shopware - must come from context
-      taxId: context.defaultTaxId,
+      prices: this.transformAdvancedPrices(variation, config, context, prices[0], defaultCurrencyIso, tax.taxRate),
+      // taxId is REQUIRED by Shopware - mapped from the VAT ID or the default from context
+      taxId: tax.taxId,
       // Internal references
       _plentyItemId: variation.itemId,
       _plentyVariationId: variation.id,
     };
 
+    // Manufacturer (item level) and unit/packaging data for the base price display
+    this.applyManufacturerAndUnit(product, variation, config);
+
+    // Barcodes, weight/dimensions, purchase price and delivery time
+    this.applyLogisticsData(product, variation, config, context, tax.taxRate);
+
     // Add categories if available
     const categoryIds = variation.variationCategories?.map((vc) => vc.categoryId) || [];
     if (categoryIds.length > 0) {
@@ -213,6 +262,89 @@ export class ProductTransformer {
     return product;
   }
 
+  /**
+   * Set manufacturerId, unitId, purchaseUnit and referenceUnit from the config mappings
+   * Unmapped manufacturers/units (CONFIG sync not run yet) are left out.
+   */
+  private applyManufacturerAndUnit(
+    product: ShopwareProduct,
+    variation: PlentyVariation,
+    config: LocalConfig
+  ): void {
+    const manufacturerId = variation.item?.manufacturerId;
+    if (manufacturerId) {
+      const shopwareManufacturerId = config.manufacturerMappings.get(manufacturerId);
+      if (shopwareManufacturerId) {
+        product.manufacturerId = shopwareManufacturerId;
+      } else {
+        this.log.debug('Manufacturer not mapped', { variationId: variation.id, manufacturerId });
+      }
+    }
+
+    const unit = variation.unit;
+    if (!unit?.unitId || !unit.content) {
+      return;
+    }
+
+    const unitMapping = config.unitMappings.get(unit.unitId);
+    if (!unitMapping) {
+      this.log.debug('Unit not mapped', { variationId: variation.id, unitId: unit.unitId });
+      return;
+    }
+
+    product.unitId = unitMapping.shopwareUnitId;
+    product.purchaseUnit = unit.content;
+    product.referenceUnit = REFERENCE_UNITS[unitMapping.unitOfMeasurement || ''] ?? 1;
+  }
+
+  /**
+   * Set barcodes, weight (g → kg), dimensions (mm), purchase price and delivery time
+   * Zero values from Plenty mean "not maintained" and are left out.
+   */
+  private applyLogisticsData(
+    product: ShopwareProduct,
+    variation: PlentyVariation,
+    config: LocalConfig,
+    context: TransformContext,
+    taxRate: number
+  ): void {
+    for (const barcode of variation.variationBarcodes || []) {
+      const field = context.barcodeMappings?.[String(barcode.barcodeId)];
+      if (field && barcode.code && product[field] === undefined) {
+        product[field] = barcode.code;
+      }
+    }
+
+    if (variation.weightG) {
+      product.weight = variation.weightG / 1000;
+    }
+    if (variation.widthMM) {
+      product.width = variation.widthMM;
+    }
+    if (variation.heightMM) {
+      product.height = variation.heightMM;
+    }
+    if (variation.lengthMM) {
+      product.length = variation.lengthMM;
+    }
+
+    if (variation.purchasePrice) {
+      product.purchasePrices = [
+        {
+          currencyId: context.defaultCurrencyId || DEFAULT_CURRENCY_ID,
+          net: variation.purchasePrice,
+          gross: variation.purchasePrice * (1 + taxRate / 100),
+          linked: true,
+        },
+      ];
+    }
+
+    const deliveryTimeId = config.deliveryTimeMappings.get(variation.availability);
+    if (deliveryTimeId) {
+      product.deliveryTimeId = deliveryTimeId;
+    }
+  }
+
   // ============================================
   // OPTIONS & PROPERTIES BUILDERS
   // ============================================
@@ -576,10 +708,72 @@ export class ProductTransformer {
     return translations;
   }
 
+  /**
+   * Build the SEO paths from the urlPath of the variation texts (fallback: item texts)
+   */
+  private buildSeoPaths(
+    variation: PlentyVariation,
+    salesChannelId: string,
+    languageIds: Record<string, string>
+  ): ShopwareSeoPath[] {
+    const variationTexts = variation.variationTexts || [];
+    const allTexts = variationTexts.length > 0 ? variationTexts : variation.item?.itemTexts || [];
+
+    const slugsByLocale: Record<string, string> = {};
+    for (const text of allTexts) {
+      const shopwareLocale = LOCALE_MAP[text.lang] || `${text.lang}-${text.lang.toUpperCase()}`;
+      slugsByLocale[shopwareLocale] = text.urlPath;
+    }
+
+    return buildSeoPaths(slugsByLocale, salesChannelId, languageIds);
+  }
+
   // ============================================
   // MEDIA BUILDER
   // ============================================
 
+  /**
+   * Get the version of an image file as reported by Plenty (missing values are left out)
+   * The image updatedAt is not used - it also changes with names, position or availabilities.
+   */
+  private getImageVersion(img: PlentyItemImage): MediaSourceVersion {
+    return {
+      size: img.size || undefined,
+      width: img.width || undefined,
+      height: img.height || undefined,
+    };
+  }
+
+  /**
+   * Build media translations (title, alt) from the image names
+   * Shopware languages without a name or alt text get null, so texts removed in Plenty are cleared.
+   * The system language is left to the plain title and alt (always sent).
+   */
+  private buildMediaTranslations(
+    names: PlentyItemImageName[],
+    languageIds: Record<string, string> = {}
+  ): Record<string, ShopwareMediaTranslation> {
+    const translations: Record<string, ShopwareMediaTranslation> = {};
+
+    for (const [locale, languageId] of Object.entries(languageIds)) {
+      if (languageId !== SHOPWARE_SYSTEM_LANGUAGE_ID) {
+        translations[locale] = { title: null, alt: null };
+      }
+    }
+
+    for (const name of names) {
+      if (!name.name && !name.alternate) continue;
+
+      const shopwareLocale = LOCALE_MAP[name.lang] || `${name.lang}-${name.lang.toUpperCase()}`;
+      translations[shopwareLocale] = {
+        title: name.name || null,
+        alt: name.alternate || null,
+      };
+    }
+
+    return translations;
+  }
+
   /**
    * Build product media array from item images
    * Uploads images to Shopware and returns media references
@@ -678,14 +872,31 @@ export class ProductTransformer {
           continue;
         }
 
-        // Upload to Shopware via MediaService
+        // Main language texts (German, then English, then the first one) fill the plain fields
+        const names = img.names || [];
+        const mainName =
+          names.find((n) => n.lang === 'de') || names.find((n) => n.lang === 'en') || names[0];
+
+        // Forced refresh uploads each image once per job (variant images are also processed for the parent)
+        const forceRefresh = context.refreshMedia === true && !context.refreshedMediaUrls?.has(img.url);
+        if (forceRefresh) {
+          context.refreshedMediaUrls?.add(img.url);
+        }
+
+        // Upload to Shopware via MediaService (changed texts only update the media entity)
         const result = await mediaService.uploadFromUrl(context.tenantId, context.shopwareClient, {
           sourceUrl: img.url,
           sourceType: MediaSourceType.PRODUCT_IMAGE,
           sourceEntityId: `${variation.itemId}:${img.id}`,
           folderName: 'Product Media',
-          title: img.names?.[0]?.name || `${variation.number || variation.id} - Image ${index + 1}`,
-          alt: img.names?.[0]?.alternate || `Product image for ${variation.number}`,
+          // Fallbacks only use item-level data: images linked to a variant are also processed for
+          // the parent, and per-variation texts would change the metadata on every pass
+          title: mainName?.name || `Item ${variation.itemId} - Image ${img.id}`,
+          alt: mainName?.alternate || `Product image for item ${variation.itemId}`,
+          translations: this.buildMediaTranslations(names, context.languageIds),
+          // A replaced image keeps its URL - a changed version uploads the file again
+          sourceVersion: this.getImageVersion(img),
+          forceRefresh,
         });
 
         if (result.success && result.shopwareMediaId) {
@@ -788,7 +999,16 @@ export class ProductTransformer {
     }
 
     // Load from database
-    const [categories, attributes, salesPrices, salesPriceMappings] = await Promise.all([
+    const [
+      categories,
+      attributes,
+      salesPrices,
+      salesPriceMappings,
+      manufacturerMappings,
+      unitMappings,
+      units,
+      deliveryTimeMappings,
+    ] = await Promise.all([
       this.prisma.plentyCategory.findMany({
         where: { tenantId },
         select: { id: true, names: true },
@@ -799,13 +1019,30 @@ export class ProductTransformer {
       }),
       this.prisma.plentySalesPrice.findMany({
         where: { tenantId },
-        select: { id: true, type: true, currency: true },
+        select: { id: true, type: true, currency: true, minimumOrderQuantity: true, rawData: true },
       }),
       this.prisma.salesPriceMapping.findMany({
         where: { tenantId },
         select: { plentySalesPriceId: true, shopwarePriceId: true, mappingType: true },
       }),
+      this.prisma.manufacturerMapping.findMany({
+        where: { tenantId },
+        select: { plentyManufacturerId: true, shopwareManufacturerId: true },
+      }),
+      this.prisma.unitMapping.findMany({
+        where: { tenantId },
+        select: { plentyUnitId: true, shopwareUnitId: true },
+      }),
+      this.prisma.plentyUnit.findMany({
+        where: { tenantId },
+        select: { id: true, unitOfMeasurement: true },
+      }),
+      this.prisma.deliveryTimeMapping.findMany({
+        where: { tenantId },
+        select: { plentyAvailabilityId: true, shopwareDeliveryTimeId: true },
+      }),
     ]);
+    const unitCodes = new Map(units.map((u) => [u.id, u.unitOfMeasurement]));
 
     const config: LocalConfig = {
       categories: new Map(
@@ -818,7 +1055,20 @@ export class ProductTransformer {
         ])
       ),
       salesPrices: new Map(
-        salesPrices.map((p) => [p.id, { id: p.id, type: p.type, currency: p.currency }])
+        salesPrices.map((p) => {
+          // The cache column only holds the first currency - the raw data has all of them
+          const rawCurrencies = (p.rawData as PlentySalesPrice | null)?.currencies?.map((c) => c.currency);
+          const currencies = rawCurrencies ?? (p.currency ? [p.currency] : []);
+          return [
+            p.id,
+            {
+              id: p.id,
+              type: p.type,
+              currencies: currencies.map((c) => c.toUpperCase()),
+              minimumOrderQuantity: p.minimumOrderQuantity ?? 0,
+            },
+          ];
+        })
       ),
       salesPriceMappings: new Map(
         salesPriceMappings.map((m) => [
@@ -826,6 +1076,18 @@ export class ProductTransformer {
           { shopwarePriceId: m.shopwarePriceId, mappingType: m.mappingType },
         ])
       ),
+      manufacturerMappings: new Map(
+        manufacturerMappings.map((m) => [m.plentyManufacturerId, m.shopwareManufacturerId])
+      ),
+      unitMappings: new Map(
+        unitMappings.map((m) => [
+          m.plentyUnitId,
+          { shopwareUnitId: m.shopwareUnitId, unitOfMeasurement: unitCodes.get(m.plentyUnitId) ?? null },
+        ])
+      ),
+      deliveryTimeMappings: new Map(
+        deliveryTimeMappings.map((m) => [m.plentyAvailabilityId, m.shopwareDeliveryTimeId])
+      ),
     };
 
     // Cache for 5 minutes
@@ -887,19 +1149,20 @@ export class ProductTransformer {
 
   /**
    * Transform variation sales prices to Shopware price format
-   * Uses currencyId and taxRate from context (fetched from Shopware)
+   * The default currency from context, plus every currency in context.currencies with
+   * a Plenty sales price restricted to it. Currencies without one are left out, so
+   * Shopware converts the default price with the current currency factor.
    */
   private transformPrices(
     variation: PlentyVariation,
     config: LocalConfig,
-    context: TransformContext
-  ): { currencyId: string; gross: number; net: number; linked: boolean; listPrice?: { gross: number; net: number; linked: boolean } | null }[] {
+    context: TransformContext,
+    taxRate: number
+  ): ShopwarePrice[] {
     const prices = variation.variationSalesPrices || [];
 
     // Use currency UUID from context, fallback to the string constant (will fail validation in Shopware)
     const currencyId = context.defaultCurrencyId || DEFAULT_CURRENCY_ID;
-    // Use tax rate from context, fallback to 19%
-    const taxRate = context.defaultTaxRate || DEFAULT_TAX_RATE;
 
     if (prices.length === 0) {
       return [{
@@ -911,70 +1174,197 @@ export class ProductTransformer {
       }];
     }
 
-    // Find main price (default type) and RRP price
-    let mainPriceValue: number | null = null;
-    let rrpPriceValue: number | null = null;
-    let mainSalesPriceId: number | null = null;
+    const defaultCurrencyIso = this.getDefaultCurrencyIso(context);
+    const defaultValues = this.selectCurrencyPrices(variation, config, defaultCurrencyIso, false);
 
-    for (const price of prices) {
-      const salesPrice = config.salesPrices.get(price.salesPriceId);
+    // If no default price for the currency, use first available
+    const grossPrice = defaultValues.main ?? prices[0].price;
+    const result = [this.buildPrice(currencyId, grossPrice, defaultValues.rrp, taxRate)];
 
-      if (!salesPrice) continue;
+    for (const [isoCode, currency] of Object.entries(context.currencies || {})) {
+      if (isoCode === defaultCurrencyIso || currency.id === currencyId) continue;
 
-      if (salesPrice.type === 'default' && mainPriceValue === null) {
-        mainPriceValue = price.price;
-        mainSalesPriceId = price.salesPriceId;
+      const explicit = this.selectCurrencyPrices(variation, config, isoCode, true);
+      if (explicit.main !== null) {
+        result.push(this.buildPrice(currency.id, explicit.main, explicit.rrp, taxRate));
       }
+    }
 
-      if (salesPrice.type === 'rrp' && rrpPriceValue === null) {
-        rrpPriceValue = price.price;
-      }
+    return result;
+  }
+
+  /**
+   * Resolve the Shopware tax for a variation
+   * vatId → taxMappings → Shopware tax ID (+ its rate). Unmapped VAT IDs use the
+   * default tax from context, so net prices are only correct for the standard rate.
+   */
+  private resolveTax(
+    variation: PlentyVariation,
+    context: TransformContext
+  ): { taxId: string | undefined; taxRate: number } {
+    const defaultTax = { taxId: context.defaultTaxId, taxRate: context.defaultTaxRate || DEFAULT_TAX_RATE };
+
+    if (variation.vatId === undefined || variation.vatId === null) {
+      return defaultTax;
+    }
+
+    const taxId = context.taxMappings?.[String(variation.vatId)];
+    if (!taxId) {
+      this.log.debug('No tax mapping for VAT ID, using default tax', {
+        variationId: variation.id,
+        vatId: variation.vatId,
+      });
+      return defaultTax;
     }
 
-    // If still no main price, use first available
-    if (mainPriceValue === null && prices.length > 0) {
-      mainPriceValue = prices[0].price;
-      mainSalesPriceId = prices[0].salesPriceId;
+    const taxRate = context.taxRates?.[taxId];
+    if (taxRate === undefined) {
+      this.log.warn('Mapped Shopware tax not found, using default tax', {
+        variationId: variation.id,
+        vatId: variation.vatId,
+        taxId,
+      });
+      return defaultTax;
     }
 
-    // Look for RRP if not found
-    if (rrpPriceValue === null) {
-      for (const price of prices) {
-        const salesPrice = config.salesPrices.get(price.salesPriceId);
-        if (salesPrice?.type === 'rrp' && price.salesPriceId !== mainSalesPriceId) {
-          rrpPriceValue = price.price;
-          break;
-        }
+    return { taxId, taxRate };
+  }
+
+  /**
+   * Find the main ('default' type) and RRP price values of a variation for one currency
+   * explicitOnly: only sales prices restricted to this currency count (not unrestricted ones)
+   */
+  private selectCurrencyPrices(
+    variation: PlentyVariation,
+    config: LocalConfig,
+    isoCode: string,
+    explicitOnly: boolean
+  ): { main: number | null; rrp: number | null } {
+    let main: number | null = null;
+    let rrp: number | null = null;
+
+    for (const price of variation.variationSalesPrices || []) {
+      const salesPrice = config.salesPrices.get(price.salesPriceId);
+      if (!salesPrice) continue;
+
+      const applies = explicitOnly
+        ? salesPrice.currencies.includes(isoCode)
+        : this.appliesToCurrency(salesPrice, isoCode);
+      if (!applies) continue;
+
+      if (salesPrice.type === 'default' && main === null) {
+        main = price.price;
+      }
+
+      if (salesPrice.type === 'rrp' && rrp === null) {
+        rrp = price.price;
       }
     }
 
-    const grossPrice = mainPriceValue ?? 0;
-    const netPrice = grossPrice / (1 + taxRate / 100);
+    return { main, rrp };
+  }
 
-    const shopwarePrice: {
-      currencyId: string;
-      gross: number;
-      net: number;
-      linked: boolean;
-      listPrice?: { gross: number; net: number; linked: boolean } | null;
-    } = {
+  /**
+   * Build a Shopware price entry, with the RRP as list price if it is higher
+   */
+  private buildPrice(currencyId: string, gross: number, rrp: number | null, taxRate: number): ShopwarePrice {
+    const shopwarePrice: ShopwarePrice = {
       currencyId,
-      gross: grossPrice,
-      net: netPrice,
+      gross,
+      net: gross / (1 + taxRate / 100),
       linked: true,
       listPrice: null,
     };
 
-    if (rrpPriceValue !== null && rrpPriceValue > grossPrice) {
-      const rrpNet = rrpPriceValue / (1 + taxRate / 100);
+    if (rrp !== null && rrp > gross) {
       shopwarePrice.listPrice = {
-        gross: rrpPriceValue,
-        net: rrpNet,
+        gross: rrp,
+        net: rrp / (1 + taxRate / 100),
         linked: true,
       };
     }
 
-    return [shopwarePrice];
+    return shopwarePrice;
+  }
+
+  /**
+   * Sales prices without currency restriction apply to every currency
+   */
+  private appliesToCurrency(salesPrice: { currencies: string[] }, isoCode: string): boolean {
+    return salesPrice.currencies.length === 0 || salesPrice.currencies.includes(isoCode);
+  }
+
+  /**
+   * ISO code of the default currency (looked up in context.currencies, EUR if unknown)
+   */
+  private getDefaultCurrencyIso(context: TransformContext): string {
+    const entry = Object.entries(context.currencies || {}).find(
+      ([, currency]) => currency.id === context.defaultCurrencyId
+    );
+    return entry ? entry[0] : 'EUR';
+  }
+
+  /**
+   * Transform sales prices mapped to Shopware rules into advanced prices
+   * Sales prices sharing a rule become quantity tiers (by minimumOrderQuantity).
+   * Shopware requires every rule to start at quantity 1, so the base price fills
+   * the gap when the lowest tier starts higher.
+   */
+  private transformAdvancedPrices(
+    variation: PlentyVariation,
+    config: LocalConfig,
+    context: TransformContext,
+    basePrice: ShopwarePrice,
+    defaultCurrencyIso: string,
+    taxRate: number
+  ): ShopwareProductPrice[] {
+    // ruleId -> quantityStart -> gross price
+    const tiersByRule = new Map<string, Map<number, number>>();
+    for (const price of variation.variationSalesPrices || []) {
+      const salesPrice = config.salesPrices.get(price.salesPriceId);
+      const mapping = config.salesPriceMappings.get(price.salesPriceId);
+      if (!salesPrice || !mapping || salesPrice.type === 'rrp') continue;
+      // Advanced prices are written in the default currency only
+      if (!this.appliesToCurrency(salesPrice, defaultCurrencyIso)) continue;
+
+      const quantityStart = Math.max(1, Math.floor(salesPrice.minimumOrderQuantity));
+      const tiers = tiersByRule.get(mapping.shopwarePriceId) || new Map<number, number>();
+      // Several sales prices for the same tier - the cheapest wins, as in Plenty
+      const existing = tiers.get(quantityStart);
+      tiers.set(quantityStart, existing === undefined ? price.price : Math.min(existing, price.price));
+      tiersByRule.set(mapping.shopwarePriceId, tiers);
+    }
+
+    const result: ShopwareProductPrice[] = [];
+    for (const [ruleId, tiers] of tiersByRule) {
+      if (!tiers.has(1)) {
+        tiers.set(1, basePrice.gross);
+      }
+      const starts = Array.from(tiers.keys()).sort((a, b) => a - b);
+
+      // A single tier from quantity 1 only repeats the main price for the rule's customers
+      if (starts.length === 1 && tiers.get(1) === basePrice.gross) continue;
+
+      starts.forEach((quantityStart, index) => {
+        const gross = tiers.get(quantityStart)!;
+        result.push({
+          id: generateDeterministicUuid('product-price', context.tenantId, String(variation.id), ruleId, String(quantityStart)),
+          ruleId,
+          quantityStart,
+          quantityEnd: index < starts.length - 1 ? starts[index + 1] - 1 : null,
+          price: [
+            {
+              currencyId: basePrice.currencyId,
+              gross,
+              net: gross / (1 + taxRate / 100),
+              linked: true,
+            },
+          ],
+        });
+      });
+    }
+
+    return result;
   }
 
   /**
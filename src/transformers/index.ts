@@ -1 +1,2 @@
 export * from './ProductTransformer';
+export * from './ContactTransformer';
@@ -49,6 +49,13 @@ export interface PlentyVariation {
   isMain: boolean;
   isActive: boolean;
   availability: number;
+  vatId?: number; // Index into the vatRates of the Plenty VAT configuration (0-3)
+  purchasePrice?: number; // Net
+  weightG?: number;
+  weightNetG?: number;
+  widthMM?: number;
+  lengthMM?: number;
+  heightMM?: number;
   categoryVariationId: number;
   marketVariationId: number;
   clientVariationId: number;
@@ -247,7 +254,13 @@ export interface PlentyCategory {
   right: string;
   sitemap: boolean | 'Y' | 'N'; // API returns "Y"/"N" strings
   hasChildren: boolean;
-  details?: PlentyCategoryDetail[];
+  details?: PlentyCategoryDetail[]; // Per language and Plenty client (plentyId)
+  clients?: PlentyCategoryClient[]; // Plenty clients (webstores) the category is linked to
+}
+
+export interface PlentyCategoryClient {
+  categoryId: number;
+  plentyId: number;
 }
 
 export interface PlentyCategoryDetail {
@@ -579,10 +592,17 @@ export interface PlentyVariationQueryParams {
   updatedBetween?: string; // Unix timestamp or ISO 8601. Format: "from" or "from,to". Example: "1451606400" or "1451606400,1456790400"
   isActive?: boolean;
   isMain?: boolean;
-  itemId?: number;
+  id?: number | string; // Variation ID(s) - single ID or comma-separated list
+  numberExact?: string; // Exact variation number (SKU)
+  itemId?: number | string; // Single ID or comma-separated list
+  plentyId?: string; // Comma-separated client IDs
+  referrerId?: string; // Comma-separated referrer/market IDs
+  categoryId?: string; // Comma-separated category IDs
   flagOne?: number;
   flagTwo?: number;
   lang?: string;
+  sortBy?: string; // e.g. "itemId" - keeps all variations of an item adjacent across pages
+  sortOrder?: 'asc' | 'desc';
 }
 
 export interface PlentyCategoryQueryParams {
@@ -628,6 +648,22 @@ export interface PlentyStockManagementEntry {
   variationId: number;
 }
 
+export interface PlentyStorageLocationStock {
+  itemId: number;
+  variationId: number;
+  warehouseId: number;
+  storageLocationId: number; // 0 = standard storage location
+  quantity: number;
+  updatedAt?: string;
+}
+
+export interface PlentyStockCorrection {
+  variationId: number;
+  reasonId: number; // Stock correction reason (e.g. 301)
+  quantity: number; // New absolute quantity at the storage location
+  storageLocationId: number;
+}
+
 // ============================================
 // ITEM IMAGES
 // ============================================
@@ -679,3 +715,181 @@ export interface PlentyImageVariationLink {
   createdAt: string;
   updatedAt: string;
 }
+
+// ============================================
+// ORDERS
+// ============================================
+
+/**
+ * Order item type IDs used by /rest/orders
+ */
+export const PlentyOrderItemType = {
+  VARIATION: 1,
+  PROMOTIONAL_COUPON: 4,
+  SHIPPING_COSTS: 6,
+  UNASSIGNED_VARIATION: 9,
+} as const;
+
+/**
+ * Order property type IDs used by /rest/orders
+ */
+export const PlentyOrderPropertyType = {
+  PAYMENT_METHOD: 3,
+  EXTERNAL_ORDER_ID: 7,
+} as const;
+
+/**
+ * Address relation type IDs (order ↔ address, contact ↔ address)
+ */
+export const PlentyAddressType = {
+  BILLING: 1,
+  DELIVERY: 2,
+} as const;
+
+export interface PlentyOrder {
+  id: number;
+  typeId: number;
+  statusId: number;
+  plentyId: number;
+  referrerId?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PlentyOrderItemAmount {
+  isSystemCurrency: boolean;
+  currency: string; // ISO 4217
+  exchangeRate: number;
+  priceOriginalGross: number;
+}
+
+export interface PlentyOrderItemCreateRequest {
+  typeId: number; // See PlentyOrderItemType
+  itemVariationId?: number;
+  quantity: number;
+  orderItemName: string;
+  referrerId?: number;
+  vatRate?: number;
+  amounts: PlentyOrderItemAmount[];
+}
+
+export interface PlentyOrderCreateRequest {
+  typeId: number; // 1 = sales order
+  plentyId: number;
+  referrerId?: number;
+  statusId?: number;
+  orderItems: PlentyOrderItemCreateRequest[];
+  addressRelations: Array<{ typeId: number; addressId: number }>;
+  relations: Array<{ referenceType: 'contact'; referenceId: number; relation: 'receiver' }>;
+  properties?: Array<{ typeId: number; value: string }>;
+}
+
+// ============================================
+// CONTACTS & ADDRESSES
+// ============================================
+
+export interface PlentyContact {
+  id: number;
+  number?: string;
+  externalId?: string;
+  typeId: number; // 1 = customer
+  firstName: string;
+  lastName: string;
+  email?: string;
+  plentyId?: number;
+  classId?: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface PlentyContactCreateRequest {
+  typeId: number; // 1 = customer
+  firstName: string;
+  lastName: string;
+  gender?: 'male' | 'female' | 'diverse';
+  plentyId?: number;
+  referrerId?: number;
+  classId?: number;
+  externalId?: string;
+  lang?: string;
+  options?: PlentyContactOptionRequest[];
+}
+
+export type PlentyContactUpdateRequest = Partial<Omit<PlentyContactCreateRequest, 'options'>>;
+
+export interface PlentyContactOptionRequest {
+  typeId: number; // 2 = email
+  subTypeId: number; // 4 = private
+  value: string;
+  priority: number;
+}
+
+export interface PlentyContactOption extends PlentyContactOptionRequest {
+  id: number;
+  contactId: number;
+}
+
+export interface PlentyAvailability {
+  id: number;
+  averageDays?: number;
+  names?: Array<{ availabilityId: number; lang: string; name: string }>;
+}
+
+export interface PlentyCustomerClass {
+  id: number;
+  name: string;
+}
+
+export interface PlentyAddress {
+  id: number;
+  gender?: string;
+  name1?: string; // Company
+  name2?: string; // First name
+  name3?: string; // Last name
+  address1: string; // Street
+  address2?: string; // House number
+  address3?: string; // Additional address line
+  postalCode: string;
+  town: string;
+  countryId: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface PlentyAddressCreateRequest {
+  typeId?: number; // See PlentyAddressType
+  gender?: 'male' | 'female' | 'diverse';
+  name1?: string;
+  name2: string;
+  name3: string;
+  address1: string;
+  address2?: string;
+  address3?: string;
+  postalCode: string;
+  town: string;
+  countryId: number;
+  options?: Array<{ typeId: number; value: string }>; // typeId 4 = telephone, 5 = email
+}
+
+export interface PlentyVatConfiguration {
+  id: number;
+  countryId: number;
+  locationId: number;
+  startedAt?: string;
+  invalidFrom?: string | null;
+  vatRates: PlentyVatRate[];
+}
+
+export interface PlentyVatRate {
+  id: number; // The vatId referenced by variations
+  name?: string;
+  rate: number | string;
+}
+
+export interface PlentyCountry {
+  id: number;
+  name: string;
+  isoCode2: string;
+  isoCode3?: string;
+  active?: boolean;
+}
@@ -13,6 +13,8 @@ export interface ShopwareProduct {
   versionId?: string;
   manufacturerId?: string;
   productNumber: string;
+  ean?: string;
+  manufacturerNumber?: string;
   stock: number;
   availableStock?: number;
   available?: boolean;
@@ -20,6 +22,7 @@ export interface ShopwareProduct {
   restockTime?: number;
   active: boolean;
   price: ShopwarePrice[];
+  prices?: ShopwareProductPrice[]; // Advanced prices (rule + quantity tiers)
   purchasePrices?: ShopwarePrice[];
   productMediaId?: string;
   taxId?: string;
@@ -61,6 +64,7 @@ export interface ShopwareProduct {
   // Reference to original Plenty data (for internal use)
   _plentyItemId?: number;
   _plentyVariationId?: number;
+  _seoPaths?: ShopwareSeoPath[]; // SEO URLs from the Plenty slugs - written separately (updateCanonicalSeoUrls)
 }
 
 /**
@@ -82,6 +86,28 @@ export interface ShopwareProductTranslation {
   customFields?: Record<string, unknown>;
 }
 
+/**
+ * Advanced price - applies when the rule matches and the quantity is within the tier
+ */
+export interface ShopwareProductPrice {
+  id?: string;
+  ruleId: string;
+  quantityStart: number;
+  quantityEnd?: number | null; // null = open-ended tier
+  price: ShopwarePrice[];
+}
+
+/**
+ * Rule condition (containers hold their conditions in children)
+ */
+export interface ShopwareRuleCondition {
+  id: string;
+  type: string; // 'orContainer', 'andContainer', 'customerCustomerGroup', 'salesChannel', ...
+  value?: Record<string, unknown>;
+  position?: number;
+  children?: ShopwareRuleCondition[];
+}
+
 export interface ShopwarePrice {
   currencyId: string;
   net: number;
@@ -102,7 +128,7 @@ export interface ShopwareCategory {
   id: string;
   versionId?: string;
   parentId?: string;
-  afterCategoryId?: string;
+  afterCategoryId?: string | null; // Sibling this category is sorted after (null = first)
   name?: string;
   displayNestedProducts?: boolean;
   active?: boolean;
@@ -113,6 +139,7 @@ export interface ShopwareCategory {
   productAssignmentType?: string;
   type?: string;
   cmsPageId?: string; // CMS page for product listing (required for products to display)
+  mediaId?: string | null; // Category image (null removes it)
   translations?: Record<string, ShopwareCategoryTranslation>;
 
   // Plenty reference (internal use)
@@ -125,6 +152,7 @@ export interface ShopwareCategoryTranslation {
   metaTitle?: string;
   metaDescription?: string;
   keywords?: string;
+  customFields?: Record<string, unknown>; // Plenty fields without a Shopware counterpart
 }
 
 export interface ShopwarePropertyGroup {
@@ -176,6 +204,20 @@ export interface ShopwareProductMedia {
   title?: string;
 }
 
+export interface ShopwareMediaTranslation {
+  title?: string | null; // null clears a text removed in the source
+  alt?: string | null;
+}
+
+/**
+ * Title and alt text of a media entity - the plain fields apply to the system language
+ */
+export interface ShopwareMediaMetadata {
+  title?: string;
+  alt?: string;
+  translations?: Record<string, ShopwareMediaTranslation>; // Keyed by locale code, e.g. 'de-DE'
+}
+
 // ============================================
 // STOCK
 // ============================================
@@ -186,6 +228,13 @@ export interface ShopwareStockUpdate {
   stock: number;
 }
 
+export interface ShopwareStockChange {
+  id: string;
+  productNumber: string;
+  stock: number;
+  updatedAt: string; // Last modification of the product - order stock changes do not update it
+}
+
 export interface ShopwareInventory {
   id: string;
   productId: string;
@@ -226,6 +275,14 @@ export interface ShopwareManufacturer {
 // UNIT
 // ============================================
 
+export interface ShopwareDeliveryTime {
+  id: string;
+  name: string;
+  min: number;
+  max: number;
+  unit: string; // 'hour' | 'day' | 'week' | 'month' | 'year'
+}
+
 export interface ShopwareUnit {
   id: string;
   shortCode: string;
@@ -251,6 +308,147 @@ export interface ShopwareCurrency {
   isSystemDefault: boolean;
 }
 
+/**
+ * Config entities that can be deleted when their Plenty entity is gone (orphan policy 'delete')
+ */
+export type ShopwareConfigEntity =
+  | 'category'
+  | 'property_group'
+  | 'property_group_option'
+  | 'product_manufacturer'
+  | 'unit';
+
+// ============================================
+// LANGUAGES & SEO URLS
+// ============================================
+
+export interface ShopwareLanguage {
+  id: string;
+  name: string;
+  localeCode: string; // e.g. 'de-DE'
+}
+
+export type ShopwareSeoRouteName = 'frontend.detail.page' | 'frontend.navigation.page';
+
+/**
+ * SEO path of an entity in one sales channel and language
+ */
+export interface ShopwareSeoPath {
+  salesChannelId: string;
+  languageId: string;
+  seoPathInfo: string; // Without leading slash, e.g. 'shirts/red-shirt'
+}
+
+/**
+ * Canonical SEO URL of a product or category
+ */
+export interface ShopwareSeoUrl extends ShopwareSeoPath {
+  routeName: ShopwareSeoRouteName;
+  foreignKey: string; // Product or category ID
+}
+
+export interface ShopwareSeoUrlResult {
+  seoUrl: ShopwareSeoUrl;
+  success: boolean;
+  error?: string;
+}
+
+// ============================================
+// ORDERS
+// ============================================
+
+export interface ShopwareOrder {
+  id: string;
+  orderNumber: string;
+  orderDateTime: string;
+  createdAt?: string;
+  salesChannelId?: string;
+  currencyId?: string;
+  currencyIsoCode?: string; // From currency association
+  currencyFactor?: number;
+  amountTotal: number;
+  amountNet: number;
+  shippingTotal: number;
+  taxStatus?: 'gross' | 'net' | 'tax-free';
+  customerComment?: string;
+  paymentMethodId?: string; // From the latest order transaction
+  shippingMethodId?: string; // From the first delivery
+  orderCustomer: ShopwareOrderCustomer;
+  billingAddress: ShopwareOrderAddress;
+  shippingAddress?: ShopwareOrderAddress; // Falls back to billing address if not set
+  lineItems: ShopwareOrderLineItem[];
+}
+
+export interface ShopwareOrderCustomer {
+  customerId?: string;
+  customerNumber?: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  salutation?: string; // Salutation key: 'mr', 'mrs', 'not_specified'
+  company?: string;
+}
+
+export interface ShopwareOrderAddress {
+  id?: string;
+  firstName: string;
+  lastName: string;
+  company?: string;
+  street: string;
+  additionalAddressLine1?: string;
+  additionalAddressLine2?: string;
+  zipcode: string;
+  city: string;
+  countryIso?: string; // ISO 3166-1 alpha-2 from country association
+  phoneNumber?: string;
+}
+
+export interface ShopwareOrderLineItem {
+  id: string;
+  type: string; // 'product', 'promotion', 'custom', 'credit', ...
+  productId?: string; // Set for 'product' line items
+  productNumber?: string; // From payload.productNumber
+  label: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  taxRate?: number;
+  position?: number;
+}
+
+// ============================================
+// CUSTOMERS
+// ============================================
+
+export interface ShopwareCustomer {
+  id: string;
+  customerNumber: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  salutation?: string; // Salutation key: 'mr', 'mrs', 'not_specified'
+  company?: string;
+  groupId: string;
+  groupName?: string; // From group association
+  active: boolean;
+  guest?: boolean;
+  defaultBillingAddressId?: string;
+  defaultShippingAddressId?: string;
+  addresses: ShopwareCustomerAddress[];
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface ShopwareCustomerAddress extends ShopwareOrderAddress {
+  id: string;
+}
+
+export interface ShopwareCustomerGroup {
+  id: string;
+  name: string;
+  displayGross?: boolean;
+}
+
 // ============================================
 // API RESPONSES
 // ============================================
@@ -22,10 +22,47 @@ export interface SyncJobData {
   shopwareUrl: string;
   shopwareCredentials: string; // Encrypted
 
-  // Optional metadata
+  // Optional metadata (dryRun: true = record writes instead of sending them,
+  // variationIds/itemIds/skus = targeted job, see SyncJobTarget,
+  // refreshMedia: true = upload the product images again even if unchanged)
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Targeted job: a PRODUCT_DELTA or STOCK job restricted to specific variations
+ * Read from SyncJobData.metadata (set by the webhook receiver and trigger-item-sync).
+ * Targeted jobs do not move the delta sync timestamp.
+ */
+export interface SyncJobTarget {
+  variationIds: number[];
+  itemIds: number[]; // All variations of these items
+  skus: string[]; // Variation numbers (= Shopware product numbers) - PRODUCT_DELTA only
+  force: boolean; // Send products even if their payload hash is unchanged
+}
+
+/**
+ * Read the target of a job - null for regular (whole catalog) jobs
+ */
+export function getSyncJobTarget(jobData: Pick<SyncJobData, 'metadata'>): SyncJobTarget | null {
+  const metadata = jobData.metadata || {};
+  const toList = <T>(value: unknown, isValid: (entry: unknown) => entry is T): T[] =>
+    Array.isArray(value) ? value.filter(isValid) : [];
+  const isId = (entry: unknown): entry is number => Number.isInteger(entry);
+  const isSku = (entry: unknown): entry is string => typeof entry === 'string' && entry.trim() !== '';
+
+  const target: SyncJobTarget = {
+    variationIds: toList(metadata.variationIds, isId),
+    itemIds: toList(metadata.itemIds, isId),
+    skus: toList(metadata.skus, isSku),
+    force: metadata.force === true,
+  };
+
+  if (target.variationIds.length + target.itemIds.length + target.skus.length === 0) {
+    return null;
+  }
+  return target;
+}
+
 export interface DecryptedSyncJobData extends Omit<SyncJobData, 'plentyCredentials' | 'shopwareCredentials'> {
   plentyCredentials: {
     username: string;
@@ -47,11 +84,51 @@ export interface SyncResult {
   itemsCreated: number;
   itemsUpdated: number;
   itemsFailed: number;
+  itemsSkipped: number; // Unchanged since the last push - nothing was sent
   errors: SyncError[];
   duration: number; // milliseconds
+  cancelled?: boolean; // Stopped early on a cancellation request - counts are partial
+  dryRunReport?: DryRunReport; // Set for dry-run jobs - nothing was written
   metadata?: Record<string, unknown>;
 }
 
+// ============================================
+// DRY RUN
+// ============================================
+
+/**
+ * A write a dry run would have made (recorded instead of sent)
+ */
+export interface DryRunChange {
+  action: 'create' | 'update' | 'delete';
+  entity: string; // Shopware entity (e.g. 'product', 'category') or 'plenty_stock' for write-backs
+  id: string;
+  label?: string; // Product number or name, for readability
+  fields?: Record<string, { before: unknown; after: unknown }>; // Updates: only the fields that change
+  notCompared?: string[]; // Updates: payload fields the current state was not loaded for
+  data?: Record<string, unknown>; // Creates: the payload
+}
+
+/**
+ * Diff of a dry-run job (SyncJob.metadata.dryRunReport)
+ */
+export interface DryRunReport {
+  generatedAt: string; // ISO
+  summary: {
+    creates: number;
+    updates: number;
+    unchanged: number; // Updates whose fields already match the current Shopware state
+    deletes: number;
+  };
+  changes: DryRunChange[];
+  truncated: number; // Changes counted in the summary but not listed (report size limit)
+}
+
+/**
+ * Cooperative cancellation check - processors call it between batches
+ */
+export type CancellationCheck = () => Promise<boolean>;
+
 export interface SyncError {
   entityId: string;
   entityType: string;
@@ -90,6 +167,45 @@ export interface ConfigSyncResult {
   manufacturers: EntitySyncResult;
   units: EntitySyncResult;
   properties: EntitySyncResult;
+
+  orphanPolicies?: OrphanPolicyResult[]; // Orphan policies applied at the end of the sync
+  dryRunReport?: DryRunReport; // Set for dry-run jobs - nothing was written
+}
+
+/**
+ * Config entity types with their own orphan policy
+ */
+export type OrphanEntityType = 'categories' | 'attributes' | 'properties' | 'manufacturers' | 'units';
+
+export const ORPHAN_ENTITY_TYPES: OrphanEntityType[] = [
+  'categories',
+  'attributes',
+  'properties',
+  'manufacturers',
+  'units',
+];
+
+/**
+ * What happens to Shopware config entities whose Plenty entity no longer exists
+ * (TenantConfig key 'orphanPolicies', per entity type)
+ * - keep: only the mapping status changes
+ * - deactivate: the category is set inactive (categories only)
+ * - delete: the entity and its mapping are deleted
+ * - unlink: only the mapping is deleted - the entity stays in Shopware, unmanaged
+ */
+export type OrphanPolicy = 'keep' | 'deactivate' | 'delete' | 'unlink';
+
+export const ORPHAN_POLICIES: OrphanPolicy[] = ['keep', 'deactivate', 'delete', 'unlink'];
+
+/**
+ * Outcome of applying an orphan policy to one entity type
+ */
+export interface OrphanPolicyResult {
+  entityType: OrphanEntityType;
+  policy: OrphanPolicy;
+  orphaned: number; // Orphaned mappings found
+  applied: number; // Orphans the policy was applied to
+  failed: number;
 }
 
 // ============================================
@@ -102,6 +218,45 @@ export interface ProductSyncOptions {
   skipExisting?: boolean; // If true, skip products that already exist
 }
 
+/**
+ * Per-tenant product selection scope (TenantConfig key 'syncScope')
+ * All criteria are optional and combined with AND - an empty scope selects the whole catalog
+ */
+export interface ProductSyncScope {
+  itemIds?: number[]; // Only these Plenty item IDs
+  plentyIds?: number[]; // Variation must be linked to one of these clients (Mandanten)
+  referrerIds?: number[]; // Variation must be active for one of these markets/referrers (e.g. 1 = webshop)
+  categoryIds?: number[]; // Variation must be in one of these categories or any subcategory
+  isActive?: boolean; // Only active (true) or only inactive (false) variations
+  itemTypes?: string[]; // Plenty item types, e.g. ["default", "set"]
+}
+
+/**
+ * What happens to Shopware products whose Plenty variation no longer exists
+ * (TenantConfig key 'productDeletionPolicy')
+ */
+export type ProductDeletionPolicy = 'deactivate' | 'delete' | 'hide-from-sales-channel' | 'report-only';
+
+export const PRODUCT_DELETION_POLICIES: ProductDeletionPolicy[] = [
+  'deactivate',
+  'delete',
+  'hide-from-sales-channel',
+  'report-only',
+];
+
+/**
+ * Outcome of the product reconciliation step at the end of a full sync
+ */
+export interface ProductReconciliationResult {
+  policy: ProductDeletionPolicy;
+  activeMappings: number; // Active mappings before reconciliation
+  orphaned: number; // Mappings whose variation was not seen by the full sync
+  applied: number; // Orphans the policy was applied to in Shopware
+  failed: number;
+  aborted: boolean; // Safety threshold exceeded - nothing was changed
+  abortReason?: string;
+}
+
 export interface ProductSyncProgress {
   totalPages: number;
   currentPage: number;
@@ -0,0 +1,26 @@
+/**
+ * Map over items with at most `limit` promises running at the same time
+ * Results keep the order of the input. The first rejection rejects the whole call.
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls
+ * @param fn - Async mapper
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const run = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, run));
+  return results;
+}
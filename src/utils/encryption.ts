@@ -107,3 +107,34 @@ export function verifyPassword(password: string, storedHash: string): boolean {
   const hash = crypto.pbkdf2Sync(password, salt, 100000, 64, 'sha512');
   return crypto.timingSafeEqual(originalHash, hash);
 }
+
+/**
+ * Generates a random token (e.g. a webhook secret)
+ * @returns 64-character hex string (32 random bytes)
+ */
+export function generateToken(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Hashes a random token using SHA-256
+ * Tokens carry 256 bits of entropy, so a fast hash is enough - unlike hashPassword
+ * it can be checked on every incoming request.
+ * @param token The token to hash
+ * @returns Hex encoded hash
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Verifies a token against a hash from hashToken (constant-time comparison)
+ * @param token The token to verify
+ * @param storedHash The stored hash to compare against
+ * @returns True if token matches
+ */
+export function verifyToken(token: string, storedHash: string): boolean {
+  const expected = Buffer.from(storedHash, 'hex');
+  const actual = crypto.createHash('sha256').update(token).digest();
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,36 @@
+import { createHash } from 'crypto';
+
+/**
+ * Serialize a value to JSON with object keys sorted recursively
+ * Same content always gives the same string, regardless of key insertion order.
+ * Undefined object values are dropped (as JSON.stringify does).
+ */
+export function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((entry) => stableStringify(entry)).join(',')}]`;
+  }
+
+  const entries = Object.keys(value as Record<string, unknown>)
+    .sort()
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Generate a stable SHA-256 hash of a JSON-serializable value
+ *
+ * @param value - The value to hash
+ * @param omitKeys - Top-level keys to leave out (e.g. volatile or internal fields)
+ * @returns A 64-character hex string
+ */
+export function hashPayload(value: Record<string, unknown>, omitKeys: string[] = []): string {
+  const omit = new Set(omitKeys);
+  const filtered = Object.fromEntries(Object.entries(value).filter(([key]) => !omit.has(key)));
+  return createHash('sha256').update(stableStringify(filtered)).digest('hex');
+}
@@ -1,3 +1,5 @@
 export * from './logger';
 export * from './encryption';
 export * from './uuid';
+export * from './hash';
+export * from './concurrency';
@@ -0,0 +1,72 @@
+import 'dotenv/config';
+import { disconnectPrisma } from './database/client';
+import { logger } from './utils/logger';
+import { QueueService } from './queue/QueueService';
+import { SyncJobService } from './services/SyncJobService';
+import { WebhookService } from './services/WebhookService';
+import { createWebhookServer } from './api/webhookServer';
+
+// Configuration
+const WEBHOOK_PORT = parseInt(process.env.WEBHOOK_PORT || '3001', 10);
+const WEBHOOK_HOST = process.env.WEBHOOK_HOST || '0.0.0.0';
+const WEBHOOK_DEBOUNCE_MS = parseInt(process.env.WEBHOOK_DEBOUNCE_MS || '10000', 10);
+const WEBHOOK_MAX_WAIT_MS = parseInt(process.env.WEBHOOK_MAX_WAIT_MS || '60000', 10);
+
+const queueService = new QueueService({
+  redis: {
+    host: process.env.REDIS_HOST || 'localhost',
+    port: parseInt(process.env.REDIS_PORT || '6379', 10),
+    password: process.env.REDIS_PASSWORD,
+  },
+});
+
+/**
+ * Main webhook receiver entry point
+ */
+async function main(): Promise<void> {
+  logger.info('Webhook receiver starting', {
+    host: WEBHOOK_HOST,
+    port: WEBHOOK_PORT,
+    debounceMs: WEBHOOK_DEBOUNCE_MS,
+    maxWaitMs: WEBHOOK_MAX_WAIT_MS,
+  });
+
+  // Connect to queue (needed to trigger jobs)
+  await queueService.connect();
+
+  const webhookService = new WebhookService(new SyncJobService(queueService), {
+    debounceMs: WEBHOOK_DEBOUNCE_MS,
+    maxWaitMs: WEBHOOK_MAX_WAIT_MS,
+  });
+  const server = createWebhookServer({ webhookService });
+
+  server.listen(WEBHOOK_PORT, WEBHOOK_HOST, () => {
+    logger.info('Webhook receiver listening', { host: WEBHOOK_HOST, port: WEBHOOK_PORT });
+  });
+
+  // Graceful shutdown handling
+  const shutdown = async (signal: string) => {
+    logger.info('Shutdown signal received', { signal });
+
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+
+    // Queue the jobs of events still waiting in the debounce window
+    await webhookService.flushAll();
+
+    // Close connections
+    await queueService.close();
+    await disconnectPrisma();
+
+    logger.info('Webhook receiver stopped gracefully');
+    process.exit(0);
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+}
+
+// Start the receiver
+main().catch((error) => {
+  logger.error('Webhook receiver failed to start', { error });
+  process.exit(1);
+});
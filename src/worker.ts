@@ -1,5 +1,5 @@
 import 'dotenv/config';
-import { PrismaClient, SyncStatus, SyncType } from '@prisma/client';
+import { PrismaClient, SyncStatus, SyncType, TenantStatus } from '@prisma/client';
 import { Job } from 'bullmq';
 import { logger, createJobLogger } from './utils/logger';
 import { QueueService } from './queue/QueueService';
@@ -8,6 +8,9 @@ import type { SyncJobData, DecryptedSyncJobData } from './types/sync';
 import { ConfigSyncProcessor } from './processors/ConfigSyncProcessor';
 import { ProductSyncProcessor } from './processors/ProductSyncProcessor';
 import { StockSyncProcessor } from './processors/StockSyncProcessor';
+import { OrderSyncProcessor } from './processors/OrderSyncProcessor';
+import { CustomerSyncProcessor } from './processors/CustomerSyncProcessor';
+import { closePlentyRateLimiter } from './clients/PlentyRateLimiter';
 
 // Configuration
 const WORKER_CONCURRENCY = parseInt(process.env.WORKER_CONCURRENCY || '5', 10);
@@ -25,6 +28,8 @@ const queueService = new QueueService({
 const configProcessor = new ConfigSyncProcessor();
 const productProcessor = new ProductSyncProcessor();
 const stockProcessor = new StockSyncProcessor();
+const orderProcessor = new OrderSyncProcessor();
+const customerProcessor = new CustomerSyncProcessor();
 
 /**
  * Decrypt credentials from job data
@@ -53,6 +58,25 @@ async function processJob(job: Job<SyncJobData>): Promise<void> {
     direction: jobData.direction,
   });
 
+  // Jobs cancelled while queued and jobs of paused tenants never start
+  const skipReason = await getSkipReason(jobData);
+  if (skipReason) {
+    log.info('Job skipped', { reason: skipReason });
+    await prisma.syncJob.update({
+      where: { id: jobData.id },
+      data: {
+        status: SyncStatus.CANCELLED,
+        completedAt: new Date(),
+        errorMessage: skipReason,
+      },
+    });
+    await queueService.clearCancellation(jobData.id);
+    return;
+  }
+
+  // Processors poll this between batches
+  const isCancelled = () => queueService.isCancellationRequested(jobData.id);
+
   // Update job status to processing
   await prisma.syncJob.update({
     where: { id: jobData.id },
@@ -77,52 +101,62 @@ async function processJob(job: Job<SyncJobData>): Promise<void> {
 
       case SyncType.FULL_PRODUCT:
         log.info('Routing to ProductSyncProcessor (full)');
-        result = await productProcessor.process(decryptedJobData, { fullSync: true });
+        result = await productProcessor.process(decryptedJobData, { fullSync: true, isCancelled });
         break;
 
       case SyncType.PRODUCT_DELTA:
         log.info('Routing to ProductSyncProcessor (delta)');
-        result = await productProcessor.process(decryptedJobData, { fullSync: false });
+        result = await productProcessor.process(decryptedJobData, { fullSync: false, isCancelled });
         break;
 
       case SyncType.STOCK:
         log.info('Routing to StockSyncProcessor');
-        result = await stockProcessor.process(decryptedJobData);
+        result = await stockProcessor.process(decryptedJobData, { isCancelled });
         break;
 
       case SyncType.ORDER:
-        log.warn('Order sync not yet implemented');
-        result = { success: true, message: 'Order sync not implemented' };
+        log.info('Routing to OrderSyncProcessor');
+        result = await orderProcessor.process(decryptedJobData);
         break;
 
       case SyncType.CUSTOMER:
-        log.warn('Customer sync not yet implemented');
-        result = { success: true, message: 'Customer sync not implemented' };
+        log.info('Routing to CustomerSyncProcessor');
+        result = await customerProcessor.process(decryptedJobData);
         break;
 
       default:
         throw new Error(`Unknown sync type: ${jobData.syncType}`);
     }
 
-    // Update job status to completed
+    const cancelled = 'cancelled' in result && result.cancelled === true;
+
+    // Update job status to completed (or cancelled, with the partial counts)
     await prisma.syncJob.update({
       where: { id: jobData.id },
       data: {
-        status: SyncStatus.COMPLETED,
+        status: cancelled ? SyncStatus.CANCELLED : SyncStatus.COMPLETED,
         completedAt: new Date(),
-        metadata: result as object,
+        ...(cancelled && { errorMessage: 'Cancelled by request' }),
+        // Keep the trigger metadata (e.g. dryRun) next to the result
+        metadata: { ...jobData.metadata, ...result } as object,
         ...(result && 'itemsProcessed' in result
           ? {
               itemsProcessed: result.itemsProcessed,
               itemsCreated: result.itemsCreated,
               itemsUpdated: result.itemsUpdated,
               itemsFailed: result.itemsFailed,
+              ...('itemsSkipped' in result && { itemsSkipped: result.itemsSkipped }),
             }
           : {}),
       },
     });
 
-    log.info('Job completed successfully', { result });
+    if (cancelled) {
+      await queueService.clearCancellation(jobData.id);
+      log.info('Job cancelled', { result });
+    } else {
+      log.info('Job completed successfully', { result });
+    }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     log.error('Job failed', { error: errorMessage });
@@ -142,6 +176,26 @@ async function processJob(job: Job<SyncJobData>): Promise<void> {
   }
 }
 
+/**
+ * Reason to skip a job before it starts, or null if it should run
+ */
+async function getSkipReason(jobData: SyncJobData): Promise<string | null> {
+  const syncJob = await prisma.syncJob.findUnique({
+    where: { id: jobData.id },
+    select: { status: true, tenant: { select: { status: true } } },
+  });
+
+  if (syncJob?.status === SyncStatus.CANCELLED || (await queueService.isCancellationRequested(jobData.id))) {
+    return 'Cancelled before start';
+  }
+
+  if (syncJob?.tenant.status === TenantStatus.PAUSED) {
+    return 'Tenant is paused';
+  }
+
+  return null;
+}
+
 /**
  * Check for stalled/orphaned jobs on startup
  */
@@ -156,6 +210,7 @@ async function recoverStalledJobs(): Promise<void> {
           lt: new Date(Date.now() - 30 * 60 * 1000),
         },
       },
+      include: { tenant: true, schedule: true },
     });
 
     if (stalledJobs.length > 0) {
@@ -172,6 +227,23 @@ async function recoverStalledJobs(): Promise<void> {
           },
         });
 
+        // Re-queue under the same ID - FULL_PRODUCT jobs resume from their checkpoint
+        await queueService.requeueJob(
+          {
+            id: job.id,
+            tenantId: job.tenantId,
+            scheduleId: job.scheduleId || undefined,
+            syncType: job.syncType,
+            direction: job.direction,
+            plentyUrl: job.tenant.plentyUrl,
+            plentyCredentials: job.tenant.plentyCredentials,
+            shopwareUrl: job.tenant.shopwareUrl,
+            shopwareCredentials: job.tenant.shopwareCredentials,
+            metadata: (job.metadata as Record<string, unknown> | null) || undefined,
+          },
+          { priority: job.schedule?.priority }
+        );
+
         logger.info('Reset stalled job', { jobId: job.id });
       }
     }
@@ -232,6 +304,7 @@ async function main(): Promise<void> {
 
     // Close connections
     await queueService.close();
+    await closePlentyRateLimiter();
     await prisma.$disconnect();
 
     logger.info('Worker stopped gracefully');